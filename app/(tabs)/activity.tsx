@@ -1,4 +1,6 @@
 import SwipeableActivityItem from "@/components/SwipeableActivityItem";
+import { getCustomTasks } from "@/lib/customTasks";
+import { getDayKey, getTodayKey, toDayKey } from "@/lib/dayBoundary";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useSessionStore } from "@/store/useSessionStore";
 import { ActivityLog, ActivityType } from "@/types/type.d";
@@ -6,14 +8,23 @@ import { Feather } from "@expo/vector-icons";
 import {
     format,
     isToday,
-    isWithinInterval,
     isYesterday,
     parseISO,
     startOfWeek,
     subDays
 } from "date-fns";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Alert, Pressable, RefreshControl, ScrollView, Text, View } from "react-native";
+import {
+    ActivityIndicator,
+    Alert,
+    NativeScrollEvent,
+    NativeSyntheticEvent,
+    Pressable,
+    RefreshControl,
+    ScrollView,
+    Text,
+    View
+} from "react-native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { SafeAreaView } from "react-native-safe-area-context";
 
@@ -33,8 +44,14 @@ const ACTIVITY_CONFIG: Record<ActivityType, { icon: keyof typeof Feather.glyphMa
   cycle: { icon: "heart", color: "#EC4899", bgColor: "#FCE7F3" },
   sleep: { icon: "moon", color: "#8B5CF6", bgColor: "#EDE9FE" },
   skincare: { icon: "sun", color: "#14B8A6", bgColor: "#CCFBF1" },
+  custom: { icon: "star", color: "#8B5CF6", bgColor: "#EDE9FE" },
 };
 
+// The oldest group grows as older pages load, so it isn't collapsed
+const PAGED_GROUP = "Earlier";
+// Start loading the next page this far from the bottom of the feed
+const LOAD_MORE_THRESHOLD = 400;
+
 type GroupedActivity = {
   title: string;
   data: ActivityLog[];
@@ -42,7 +59,16 @@ type GroupedActivity = {
 
 export default function ActivityScreen() {
   const { user } = useSessionStore();
-  const { challenge, activityLogs, fetchChallenge, fetchActivityLogs, deleteActivityLogById } = useChallengeStore();
+  const {
+    challenge,
+    activityLogs,
+    hasMoreActivityLogs,
+    isLoadingMoreActivity,
+    fetchChallenge,
+    fetchActivityLogs,
+    loadMoreActivityLogs,
+    deleteActivityLogById,
+  } = useChallengeStore();
   const [refreshing, setRefreshing] = useState(false);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
 
@@ -62,13 +88,21 @@ export default function ActivityScreen() {
     setRefreshing(true);
     try {
       if (challenge?.$id) {
-        await fetchActivityLogs(challenge.$id);
+        await fetchActivityLogs(challenge.$id, true);
       }
     } finally {
       setRefreshing(false);
     }
   }, [challenge?.$id, fetchActivityLogs]);
 
+  const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { layoutMeasurement, contentOffset, contentSize } = event.nativeEvent;
+    const nearBottom = layoutMeasurement.height + contentOffset.y >= contentSize.height - LOAD_MORE_THRESHOLD;
+    if (nearBottom && challenge?.$id && hasMoreActivityLogs && !isLoadingMoreActivity) {
+      loadMoreActivityLogs(challenge.$id);
+    }
+  }, [challenge?.$id, hasMoreActivityLogs, isLoadingMoreActivity, loadMoreActivityLogs]);
+
   const handleDeleteActivity = useCallback(async (activityId: string, activityTitle: string) => {
     Alert.alert(
       "Delete Activity",
@@ -112,8 +146,10 @@ export default function ActivityScreen() {
     if (!activityLogs || activityLogs.length === 0) return [];
 
     const groups: GroupedActivity[] = [];
-    const now = new Date();
-    const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+    const todayKey = getTodayKey();
+    const today = parseISO(todayKey);
+    const yesterdayKey = toDayKey(subDays(today, 1));
+    const weekStartKey = toDayKey(startOfWeek(today, { weekStartsOn: 1 }));
 
     const todayItems: ActivityLog[] = [];
     const yesterdayItems: ActivityLog[] = [];
@@ -121,12 +157,12 @@ export default function ActivityScreen() {
     const earlierItems: ActivityLog[] = [];
 
     activityLogs.forEach((item) => {
-      const itemDate = parseISO(item.$createdAt || item.date);
-      if (isToday(itemDate)) {
+      const itemKey = item.$createdAt ? getDayKey(parseISO(item.$createdAt)) : item.date;
+      if (itemKey === todayKey) {
         todayItems.push(item);
-      } else if (isYesterday(itemDate)) {
+      } else if (itemKey === yesterdayKey) {
         yesterdayItems.push(item);
-      } else if (isWithinInterval(itemDate, { start: weekStart, end: subDays(now, 2) })) {
+      } else if (itemKey >= weekStartKey && itemKey < yesterdayKey) {
         thisWeekItems.push(item);
       } else {
         earlierItems.push(item);
@@ -136,7 +172,7 @@ export default function ActivityScreen() {
     if (todayItems.length > 0) groups.push({ title: "Today", data: todayItems });
     if (yesterdayItems.length > 0) groups.push({ title: "Yesterday", data: yesterdayItems });
     if (thisWeekItems.length > 0) groups.push({ title: "This Week", data: thisWeekItems });
-    if (earlierItems.length > 0) groups.push({ title: "Earlier", data: earlierItems });
+    if (earlierItems.length > 0) groups.push({ title: PAGED_GROUP, data: earlierItems });
 
     return groups;
   }, [activityLogs]);
@@ -148,8 +184,13 @@ export default function ActivityScreen() {
     return format(date, "MMM d, h:mm a");
   };
 
-  const getActivityConfig = (type: ActivityType) => {
-    return ACTIVITY_CONFIG[type] || { icon: "circle", color: "#6B7280", bgColor: "#F3F4F6" };
+  const customTasks = useMemo(() => getCustomTasks(challenge), [challenge]);
+
+  const getActivityConfig = (activity: ActivityLog) => {
+    const config = ACTIVITY_CONFIG[activity.type] || { icon: "circle", color: "#6B7280", bgColor: "#F3F4F6" };
+    // Custom tasks use the icon chosen for the task
+    const customTask = activity.customTaskId && customTasks.find(task => task.id === activity.customTaskId);
+    return customTask ? { ...config, icon: customTask.icon as keyof typeof Feather.glyphMap } : config;
   };
 
   return (
@@ -164,6 +205,8 @@ export default function ActivityScreen() {
         <ScrollView 
           className="flex-1" 
           showsVerticalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={200}
           refreshControl={
             <RefreshControl
               refreshing={refreshing}
@@ -190,9 +233,9 @@ export default function ActivityScreen() {
           <View className="p-4">
             <Text className="text-sm font-semibold text-purple-700 mb-3 ml-1">Recent Activity</Text>
             {groupedActivities.map((group) => {
-              const isExpanded = expandedGroups.has(group.title);
+              const isExpanded = expandedGroups.has(group.title) || group.title === PAGED_GROUP;
               const displayLimit = isExpanded ? group.data.length : 5;
-              const hasMore = group.data.length > 5;
+              const hasMore = group.data.length > 5 && group.title !== PAGED_GROUP;
               const displayData = group.data.slice(0, displayLimit);
               
               return (
@@ -202,7 +245,7 @@ export default function ActivityScreen() {
                   </Text>
                   <View className="bg-white rounded-2xl overflow-hidden shadow-sm">
                     {displayData.map((item, index) => {
-                      const config = getActivityConfig(item.type);
+                      const config = getActivityConfig(item);
                       return (
                         <SwipeableActivityItem
                           key={item.$id}
@@ -240,6 +283,17 @@ export default function ActivityScreen() {
                 </View>
               );
             })}
+
+            {isLoadingMoreActivity && (
+              <View className="py-4 items-center">
+                <ActivityIndicator color="#8B5CF6" />
+              </View>
+            )}
+            {!hasMoreActivityLogs && activityLogs.length > 0 && (
+              <Text className="text-xs text-gray-400 text-center py-4">
+                You&apos;ve reached the start of your challenge
+              </Text>
+            )}
           </View>
         )}
       </ScrollView>
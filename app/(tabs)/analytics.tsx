@@ -1,15 +1,23 @@
+import CompletionHeatmap from "@/components/CompletionHeatmap";
+import StatCard from "@/components/StatCard";
 import SwipeableGraphCard from "@/components/SwipeableGraphCard";
-import { BADGES } from "@/constants/badges";
-import { createDailyLog, createUserBadge, getUserBadges } from "@/lib/appwrite";
+import TargetRangeCard from "@/components/TargetRangeCard";
+import { createDailyLog } from "@/lib/appwrite";
+import { computeChallengeStats } from "@/lib/challengeStats";
+import { formatCustomTaskValue, getCustomTasks, getCustomTaskValue, isCustomTaskComplete } from "@/lib/customTasks";
+import { getChallengeDayNumber, getTodayDate } from "@/lib/dayBoundary";
+import { getGoalChanges, getGoalsForDate } from "@/lib/goalHistory";
+import { describeTargetOffset, getCalorieTarget, getWeightTarget, isCalorieGoalMet, isOnTarget } from "@/lib/goalTargets";
+import { getFreezeBlocker, getFreezeTokens, getProtectedDayKind } from "@/lib/streakFreezes";
+import { getAttemptNumber, isChallengeFailed } from "@/lib/strictMode";
 import { useChallengeStore } from "@/store/useChallengeStore";
-import { useNotificationStore } from "@/store/useNotificationStore";
 import { useSessionStore } from "@/store/useSessionStore";
-import { ActivityLog, ActivityType, BadgeId, DailyLog, UserBadge } from "@/types/type.d";
+import { ActivityLog, ActivityType, DailyLog } from "@/types/type.d";
 import { Feather } from "@expo/vector-icons";
-import { addDays, differenceInDays, eachDayOfInterval, format, isAfter, isBefore, parseISO, startOfWeek, subDays } from "date-fns";
+import { addDays, differenceInDays, eachDayOfInterval, format, isAfter, isBefore, parseISO, startOfWeek } from "date-fns";
 import { router, useLocalSearchParams } from "expo-router";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { ActivityIndicator, Modal, Platform, Pressable, ScrollView, Text, View } from "react-native";
+import { ActivityIndicator, Alert, Modal, Platform, Pressable, ScrollView, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
 // Activity type configurations for display
@@ -28,13 +36,12 @@ const ACTIVITY_CONFIG: Record<ActivityType, { icon: keyof typeof Feather.glyphMa
   cycle: { icon: "heart", color: "#EC4899", bgColor: "#FCE7F3" },
   sleep: { icon: "moon", color: "#8B5CF6", bgColor: "#EDE9FE" },
   skincare: { icon: "sun", color: "#14B8A6", bgColor: "#CCFBF1" },
+  custom: { icon: "star", color: "#8B5CF6", bgColor: "#EDE9FE" },
 };
 
 export default function AnalyticsScreen() {
   const { user } = useSessionStore();
-  const { challenge, allLogs, activityLogs, fetchChallenge, fetchAllLogs, fetchActivityLogs, resyncHealthDataForDate } = useChallengeStore();
-  const [savedBadges, setSavedBadges] = useState<UserBadge[]>([]);
-  const [badgesLoading, setBadgesLoading] = useState(true);
+  const { challenge, allLogs, activityLogs, fetchChallenge, fetchAllLogs, fetchActivityLogs, resyncHealthDataForDate, spendStreakFreeze } = useChallengeStore();
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [showDayModal, setShowDayModal] = useState(false);
   const [weekOffset, setWeekOffset] = useState(0); // 0 = current week, -1 = previous week, +1 = next week
@@ -78,6 +85,40 @@ export default function AnalyticsScreen() {
     return getLogForDate(selectedDate) || null;
   }, [selectedDate, getLogForDate]);
 
+  // Streak protection for the selected day
+  const selectedDayProtection = useMemo(() => {
+    if (!selectedDate || !challenge) return null;
+    const date = format(selectedDate, "yyyy-MM-dd");
+    return {
+      kind: getProtectedDayKind(challenge, date),
+      freezeBlocker: getFreezeBlocker(challenge, date, allLogs),
+      tokens: getFreezeTokens(challenge, allLogs),
+    };
+  }, [selectedDate, challenge, allLogs]);
+
+  const handleSpendFreeze = () => {
+    if (!selectedDate || !selectedDayProtection) return;
+    const { available } = selectedDayProtection.tokens;
+    Alert.alert(
+      "Use Streak Freeze?",
+      `This day won't break your streak. You'll have ${available - 1} freeze token${available - 1 === 1 ? "" : "s"} left.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Use Freeze",
+          onPress: async () => {
+            try {
+              await spendStreakFreeze(format(selectedDate, "yyyy-MM-dd"));
+            } catch (err) {
+              console.error("Failed to use streak freeze:", err);
+              Alert.alert("Couldn't Use Freeze", err instanceof Error ? err.message : "Please try again.");
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const selectedDayActivities = useMemo(() => {
     if (!selectedDate) return [];
     return getActivitiesForDate(selectedDate);
@@ -212,13 +253,14 @@ export default function AnalyticsScreen() {
   // Completion status for day modal - works even without a log
   const getCompletionItems = (log: DailyLog | null) => {
     if (!challenge) return [];
+    const goals = getGoalsForDate(challenge, log?.date ?? format(selectedDate ?? getTodayDate(), "yyyy-MM-dd"));
     
-    const items: { label: string; completed: boolean; value?: string; icon: keyof typeof Feather.glyphMap; color: string; type?: string; workoutNum?: string }[] = [];
+    const items: { label: string; completed: boolean; value?: string; icon: keyof typeof Feather.glyphMap; color: string; type?: string; workoutNum?: string; customTaskId?: string }[] = [];
     
     if (challenge.trackSteps) {
       items.push({
         label: "Steps",
-        completed: log ? (log.stepsCompleted || (log.stepsCount !== undefined && log.stepsCount >= (challenge.stepsGoal || 10000))) : false,
+        completed: log ? (log.stepsCompleted || (log.stepsCount !== undefined && log.stepsCount >= (goals.stepsGoal || 10000))) : false,
         value: log?.stepsCount ? `${log.stepsCount.toLocaleString()} steps` : undefined,
         icon: "trending-up",
         color: "#10B981",
@@ -229,7 +271,7 @@ export default function AnalyticsScreen() {
     if (challenge.trackWorkout1) {
       items.push({
         label: "Workout 1",
-        completed: log ? (log.workout1Completed || (log.workout1Minutes !== undefined && log.workout1Minutes >= (challenge.workoutMinutes || 45))) : false,
+        completed: log ? (log.workout1Completed || (log.workout1Minutes !== undefined && log.workout1Minutes >= (goals.workoutMinutes || 45))) : false,
         value: log?.workout1Minutes ? `${log.workout1Minutes} min` : undefined,
         icon: "zap",
         color: "#F59E0B",
@@ -241,7 +283,7 @@ export default function AnalyticsScreen() {
     if (challenge.trackWorkout2) {
       items.push({
         label: "Workout 2",
-        completed: log ? (log.workout2Completed || (log.workout2Minutes !== undefined && log.workout2Minutes >= (challenge.workoutMinutes || 45))) : false,
+        completed: log ? (log.workout2Completed || (log.workout2Minutes !== undefined && log.workout2Minutes >= (goals.workoutMinutes || 45))) : false,
         value: log?.workout2Minutes ? `${log.workout2Minutes} min` : undefined,
         icon: "activity",
         color: "#8B5CF6",
@@ -253,7 +295,7 @@ export default function AnalyticsScreen() {
     if (challenge.trackWater) {
       items.push({
         label: "Water",
-        completed: log ? (log.waterCompleted || (log.waterLiters !== undefined && log.waterLiters >= (challenge.waterLiters || 3.7))) : false,
+        completed: log ? (log.waterCompleted || (log.waterLiters !== undefined && log.waterLiters >= (goals.waterLiters || 3.7))) : false,
         value: log?.waterLiters ? `${log.waterLiters}L` : undefined,
         icon: "droplet",
         color: "#3B82F6",
@@ -274,7 +316,7 @@ export default function AnalyticsScreen() {
     if (challenge.trackReading) {
       items.push({
         label: "Reading",
-        completed: log ? (log.readingCompleted || (log.readingPages !== undefined && log.readingPages >= (challenge.readingPages || 10))) : false,
+        completed: log ? (log.readingCompleted || (log.readingPages !== undefined && log.readingPages >= (goals.readingPages || 10))) : false,
         value: log?.readingPages ? `${log.readingPages} pages` : undefined,
         icon: "book-open",
         color: "#A855F7",
@@ -313,10 +355,12 @@ export default function AnalyticsScreen() {
     }
     
     if (challenge.trackCalories) {
+      const calorieTarget = getCalorieTarget(goals);
+      const calories = log?.caloriesConsumed ?? 0;
       items.push({
         label: "Calories",
-        completed: log?.caloriesConsumed ? true : false,
-        value: log?.caloriesConsumed ? `${log.caloriesConsumed} cal` : undefined,
+        completed: isCalorieGoalMet(calories, goals),
+        value: calories > 0 ? `${calories} cal • ${describeTargetOffset(calories, calorieTarget, "kcal")}` : undefined,
         icon: "pie-chart",
         color: "#14B8A6",
         type: "calories"
@@ -324,10 +368,14 @@ export default function AnalyticsScreen() {
     }
     
     if (challenge.trackWeight) {
+      const weightTarget = getWeightTarget(goals);
+      const weight = log?.currentWeight ?? 0;
       items.push({
         label: "Weight",
-        completed: log?.currentWeight ? true : false,
-        value: log?.currentWeight ? `${log.currentWeight} kg` : undefined,
+        completed: weight > 0 && (!weightTarget || isOnTarget(weight, weightTarget)),
+        value: weight > 0
+          ? `${weight} kg${weightTarget ? ` • ${describeTargetOffset(weight, weightTarget, "kg")}` : ""}`
+          : undefined,
         icon: "trending-down",
         color: "#6366F1",
         type: "weight"
@@ -358,30 +406,28 @@ export default function AnalyticsScreen() {
         type: "sleep"
       });
     }
+
+    getCustomTasks(challenge).forEach(task => {
+      const value = getCustomTaskValue(log, task.id);
+      items.push({
+        label: task.name,
+        completed: isCustomTaskComplete(task, value),
+        value: value !== undefined && task.type !== "checkbox" ? formatCustomTaskValue(task, value) : undefined,
+        icon: task.icon as keyof typeof Feather.glyphMap,
+        color: "#8B5CF6",
+        type: "custom",
+        customTaskId: task.id,
+      });
+    });
     
     return items;
   };
 
-  // Load saved badges from Appwrite
-  const loadBadges = useCallback(async () => {
-    if (!user?.id) return;
-    setBadgesLoading(true);
-    try {
-      const badges = await getUserBadges(user.id);
-      setSavedBadges(badges);
-    } catch (err) {
-      console.error("Failed to load badges:", err);
-    } finally {
-      setBadgesLoading(false);
-    }
-  }, [user?.id]);
-
   useEffect(() => {
     if (user?.id) {
       fetchChallenge(user.id);
-      loadBadges();
     }
-  }, [user?.id, fetchChallenge, loadBadges]);
+  }, [user?.id, fetchChallenge]);
 
   useEffect(() => {
     if (challenge?.$id) {
@@ -405,241 +451,18 @@ export default function AnalyticsScreen() {
 
   // Calculate statistics
   const stats = useMemo(() => {
-    if (!allLogs || allLogs.length === 0 || !challenge) {
-      return null;
-    }
-
-    const startDate = parseISO(challenge.startDate);
-    const today = new Date();
-    const challengeTotalDays = challenge.totalDays || 75;
-    const challengeEndDate = addDays(startDate, challengeTotalDays - 1);
-    
-    // Filter logs to only include those within the challenge date range
-    const logsInChallengeRange = allLogs.filter((log: DailyLog) => {
-      const logDate = parseISO(log.date);
-      return !isBefore(logDate, startDate) && !isAfter(logDate, challengeEndDate) && !isAfter(logDate, today);
-    });
-    
-    console.log("📊 Analytics stats calculation:", {
-      startDate: format(startDate, "yyyy-MM-dd"),
-      today: format(today, "yyyy-MM-dd"),
-      challengeEndDate: format(challengeEndDate, "yyyy-MM-dd"),
-      totalLogs: allLogs.length,
-      logsInRange: logsInChallengeRange.length,
-    });
-    
-    // Days elapsed since start (including today as in-progress)
-    const daysElapsed = Math.min(differenceInDays(today, startDate) + 1, challengeTotalDays);
-    
-    // Count days with any completed activity (only within challenge range)
-    const daysWithActivity = logsInChallengeRange.filter((log: DailyLog) => 
-      log.workout1Completed || log.workout2Completed ||
-      log.dietCompleted || log.waterCompleted ||
-      log.readingCompleted || log.progressPhotoCompleted ||
-      log.stepsCompleted ||
-      // Also consider logged values as activity
-      (log.stepsCount && log.stepsCount > 0) ||
-      (log.workout1Minutes && log.workout1Minutes > 0) ||
-      (log.workout2Minutes && log.workout2Minutes > 0) ||
-      (log.waterLiters && log.waterLiters > 0) ||
-      (log.readingPages && log.readingPages > 0)
-    ).length;
-    
-    // Completed days = days with actual completed tasks (not just logs existing)
-    const completedDays = daysWithActivity;
-
-    // Calculate streak - only count consecutive days from today backwards
-    let currentStreak = 0;
-    const sortedLogs = [...logsInChallengeRange].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-    
-    console.log("📊 Streak calculation:", {
-      today: format(today, "yyyy-MM-dd"),
-      sortedLogDates: sortedLogs.map(l => l.date),
-    });
-    
-    for (let i = 0; i < sortedLogs.length; i++) {
-      const log = sortedLogs[i];
-      const logDate = parseISO(log.date);
-      const expectedDate = subDays(today, i);
-      
-      // Make sure expected date is not before challenge start
-      if (isBefore(expectedDate, startDate)) {
-        break;
-      }
-      
-      const expectedDateStr = format(expectedDate, "yyyy-MM-dd");
-      const logDateStr = format(logDate, "yyyy-MM-dd");
-      
-      // Check if this log has any activity (completed OR logged values)
-      const hasActivity = 
-        log.workout1Completed || log.workout2Completed ||
-        log.dietCompleted || log.waterCompleted ||
-        log.readingCompleted || log.progressPhotoCompleted ||
-        log.stepsCompleted ||
-        // Also consider logged values as activity
-        (log.stepsCount && log.stepsCount > 0) ||
-        (log.workout1Minutes && log.workout1Minutes > 0) ||
-        (log.workout2Minutes && log.workout2Minutes > 0) ||
-        (log.waterLiters && log.waterLiters > 0) ||
-        (log.readingPages && log.readingPages > 0);
-      
-      console.log(`📊 Streak check day ${i}: logDate=${logDateStr}, expected=${expectedDateStr}, match=${logDateStr === expectedDateStr}, hasActivity=${hasActivity}`);
-      
-      if (logDateStr === expectedDateStr && hasActivity) {
-        currentStreak++;
-      } else {
-        break;
-      }
-    }
-    
-    console.log("📊 Final streak:", currentStreak);
-
-    // Calculate averages (use logs in challenge range only)
-    const totalSteps = logsInChallengeRange.reduce((sum: number, log: DailyLog) => sum + (log.stepsCount || 0), 0);
-    const totalWater = logsInChallengeRange.reduce((sum: number, log: DailyLog) => sum + (log.waterLiters || 0), 0);
-    const totalReading = logsInChallengeRange.reduce((sum: number, log: DailyLog) => sum + (log.readingPages || 0), 0);
-    const totalWorkoutTime = logsInChallengeRange.reduce((sum: number, log: DailyLog) => 
-      sum + (log.workout1Minutes || 0) + (log.workout2Minutes || 0), 0
-    );
-
-    // Completion rates (use logs in challenge range only)
-    const workoutCompletions = logsInChallengeRange.filter((log: DailyLog) => 
-      (log.workout1Minutes && log.workout1Minutes > 0) || (log.workout2Minutes && log.workout2Minutes > 0)
-    ).length;
-    const photoCompletions = logsInChallengeRange.filter((log: DailyLog) => log.progressPhotoCompleted).length;
-
-    // Use days elapsed for rate calculations (how many days have passed)
-    // Use challenge total days for the "X / Y" display
-    return {
-      completedDays,
-      totalDays: challengeTotalDays,
-      completionRate: daysElapsed > 0 ? Math.min(100, Math.round((completedDays / daysElapsed) * 100)) : 0,
-      currentStreak,
-      avgSteps: completedDays > 0 ? Math.round(totalSteps / completedDays) : 0,
-      avgWater: completedDays > 0 ? (totalWater / completedDays).toFixed(1) : "0",
-      avgReading: completedDays > 0 ? Math.round(totalReading / completedDays) : 0,
-      totalWorkoutTime,
-      totalPages: totalReading,
-      totalWater,
-      workoutCompletions,
-      photoCompletions,
-      waterCompletions: allLogs.filter((log: DailyLog) => log.waterCompleted).length,
-      maxSteps: Math.max(...allLogs.map((log: DailyLog) => log.stepsCount || 0), 0),
-    };
+    if (!challenge) return null;
+    return computeChallengeStats(challenge, allLogs);
   }, [allLogs, challenge]);
 
-  // Calculate earned badges based on stats
-  const earnedBadges = useMemo(() => {
-    if (!stats || !allLogs || allLogs.length === 0) return [];
-    
-    const badges: BadgeId[] = [];
-    
-    // Progress badges
-    if (stats.completedDays >= 1) badges.push("day_1");
-    if (stats.completedDays >= 7) badges.push("week_1");
-    if (stats.completedDays >= 25) badges.push("day_25");
-    if (stats.completedDays >= 50) badges.push("day_50");
-    if (stats.completedDays >= 75) badges.push("day_75");
-    if (stats.completedDays >= stats.totalDays) badges.push("challenge_complete");
-    
-    // Streak badges
-    if (stats.currentStreak >= 3) badges.push("streak_3");
-    if (stats.currentStreak >= 7) badges.push("streak_7");
-    if (stats.currentStreak >= 14) badges.push("streak_14");
-    if (stats.currentStreak >= 30) badges.push("streak_30");
-    
-    // Workout badges
-    if (stats.workoutCompletions >= 10) badges.push("workout_10");
-    if (stats.workoutCompletions >= 25) badges.push("workout_25");
-    if (stats.workoutCompletions >= 50) badges.push("workout_50");
-    if (stats.workoutCompletions >= 100) badges.push("workout_100");
-    
-    // Reading badges
-    if (stats.totalPages >= 100) badges.push("pages_100");
-    if (stats.totalPages >= 500) badges.push("pages_500");
-    if (stats.totalPages >= 1000) badges.push("pages_1000");
-    
-    // Check if any book was finished
-    const finishedBook = allLogs.some((log: DailyLog) => log.finishedBook);
-    if (finishedBook) badges.push("book_finished");
-    
-    // Steps badges
-    if (stats.maxSteps >= 10000) badges.push("steps_10k");
-    if (stats.maxSteps >= 15000) badges.push("steps_15k");
-    if (stats.maxSteps >= 20000) badges.push("steps_20k");
-    
-    // Water badges
-    if (stats.waterCompletions >= 7) badges.push("hydration_7");
-    if (stats.waterCompletions >= 30) badges.push("hydration_30");
-    
-    // Photo badges
-    if (stats.photoCompletions >= 7) badges.push("photo_7");
-    if (stats.photoCompletions >= 30) badges.push("photo_30");
-    
-    return badges;
-  }, [stats, allLogs]);
-
-  // Get all earned badge IDs (from saved + newly calculated)
-  const savedBadgeIds = useMemo(() => 
-    savedBadges.map(b => b.badgeId), 
-    [savedBadges]
-  );
-
-  // Combined badges (saved from DB + newly earned)
-  const allEarnedBadges = useMemo(() => {
-    const combined = new Set([...savedBadgeIds, ...earnedBadges]);
-    return Array.from(combined) as BadgeId[];
-  }, [savedBadgeIds, earnedBadges]);
-
-  // Save any newly earned badges to Appwrite
-  const { queueBadgeCelebration } = useNotificationStore();
-  
-  useEffect(() => {
-    if (!user?.id || badgesLoading || earnedBadges.length === 0) return;
-    
-    // Find badges that are earned but not yet saved
-    const newBadges = earnedBadges.filter(badgeId => !savedBadgeIds.includes(badgeId));
-    
-    if (newBadges.length > 0) {
-      console.log("🏅 Saving new badges:", newBadges);
-      
-      // Save badges asynchronously and defer celebrations
-      const saveBadges = async () => {
-        const badgesToCelebrate: Badge[] = [];
-        
-        for (const badgeId of newBadges) {
-          const saved = await createUserBadge(user.id, badgeId, challenge?.$id);
-          if (saved) {
-            setSavedBadges(prev => [...prev, saved]);
-            
-            // Collect badges to celebrate after all are saved
-            const badge = BADGES[badgeId];
-            if (badge) {
-              badgesToCelebrate.push(badge);
-            }
-          }
-        }
-        
-        // Defer badge celebrations to avoid blocking during health sync
-        // Use requestAnimationFrame to ensure celebrations happen after current render cycle
-        requestAnimationFrame(() => {
-          badgesToCelebrate.forEach(badge => {
-            queueBadgeCelebration(badge);
-          });
-        });
-      };
-      
-      saveBadges();
-    }
-  }, [user?.id, earnedBadges, savedBadgeIds, badgesLoading, challenge?.$id, queueBadgeCelebration]);
+  // Goal edits made during the challenge, marked on the weekly chart
+  const goalChanges = useMemo(() => (challenge ? getGoalChanges(challenge) : []), [challenge]);
 
   // Weekly activity data for chart
   const weeklyData = useMemo(() => {
     if (!allLogs || !challenge) return [];
 
-    const today = new Date();
+    const today = getTodayDate();
     // Calculate week based on offset
     const targetDate = addDays(today, weekOffset * 7);
     const weekStart = startOfWeek(targetDate, { weekStartsOn: 1 });
@@ -708,48 +531,28 @@ export default function AnalyticsScreen() {
         isPartOfChallenge,
         steps: log?.stepsCount || 0,
         dayNumber,
+        goalChanged: goalChanges.some(change => change.date === dayStr),
       };
     });
-  }, [allLogs, challenge, weekOffset]);
-
-  const StatCard = ({ 
-    icon, 
-    label, 
-    value, 
-    unit, 
-    color, 
-    bgColor 
-  }: { 
-    icon: keyof typeof Feather.glyphMap;
-    label: string;
-    value: string | number;
-    unit?: string;
-    color: string;
-    bgColor: string;
-  }) => (
-    <View className="bg-white rounded-2xl p-4 shadow-sm flex-1">
-      <View className="flex-row items-center mb-2">
-        <View 
-          className="h-8 w-8 items-center justify-center rounded-full mr-2"
-          style={{ backgroundColor: bgColor }}
-        >
-          <Feather name={icon} size={16} color={color} />
-        </View>
-        <Text className="text-xs text-gray-500 flex-1">{label}</Text>
-      </View>
-      <View className="flex-row items-baseline">
-        <Text className="text-2xl font-bold text-gray-900">{value}</Text>
-        {unit && <Text className="text-sm text-gray-500 ml-1">{unit}</Text>}
-      </View>
-    </View>
-  );
+  }, [allLogs, challenge, weekOffset, goalChanges]);
 
   return (
     <SafeAreaView className="flex-1 bg-blue-50" edges={["top"]}>
       {/* Header */}
-      <View className="bg-white px-5 py-4 border-b border-blue-100">
-        <Text className="text-2xl font-bold text-gray-900">Analytics</Text>
-        <Text className="text-sm text-blue-600 mt-1">Track your progress and insights</Text>
+      <View className="bg-white px-5 py-4 border-b border-blue-100 flex-row items-center">
+        <View className="flex-1">
+          <Text className="text-2xl font-bold text-gray-900">Analytics</Text>
+          <Text className="text-sm text-blue-600 mt-1">Track your progress and insights</Text>
+        </View>
+        {/* Resync a range of days from Apple Health (iOS only) */}
+        {Platform.OS === "ios" && challenge && (
+          <Pressable
+            onPress={() => router.push("/health-resync")}
+            className="h-10 w-10 items-center justify-center rounded-full bg-blue-100"
+          >
+            <Feather name="refresh-cw" size={18} color="#3B82F6" />
+          </Pressable>
+        )}
       </View>
 
       <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
@@ -765,6 +568,29 @@ export default function AnalyticsScreen() {
           </View>
         ) : (
           <View className="p-4">
+            {/* Attempt info - strict mode or restarted challenges */}
+            {challenge && (challenge.strictMode || getAttemptNumber(challenge) > 1) && (
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <View className="flex-row items-center">
+                  <View className={`h-8 w-8 items-center justify-center rounded-full mr-2 ${isChallengeFailed(challenge) ? "bg-red-100" : "bg-purple-100"}`}>
+                    <Feather name={isChallengeFailed(challenge) ? "x-circle" : "shield"} size={16} color={isChallengeFailed(challenge) ? "#EF4444" : "#8B5CF6"} />
+                  </View>
+                  <Text className="text-sm font-semibold text-gray-900 flex-1">
+                    Attempt {getAttemptNumber(challenge)}
+                    {isChallengeFailed(challenge) ? " • Failed" : challenge.strictMode ? " • Strict Mode" : ""}
+                  </Text>
+                </View>
+                {isChallengeFailed(challenge) && challenge.failureReason && (
+                  <Text className="text-sm text-red-600 mt-2">{challenge.failureReason}</Text>
+                )}
+                {challenge.previousFailureReason && (
+                  <Text className="text-xs text-gray-500 mt-2">
+                    Previous attempt ended - {challenge.previousFailureReason}
+                  </Text>
+                )}
+              </View>
+            )}
+
             {/* Overview Cards */}
             <View className="flex-row gap-3 mb-4">
               <StatCard
@@ -829,7 +655,12 @@ export default function AnalyticsScreen() {
                     >
                       <Text className="text-xs text-gray-400 mb-1">{day.day}</Text>
                       {day.dayNumber && (
-                        <Text className="text-[10px] text-gray-400 mb-1">Day {day.dayNumber}</Text>
+                        <View className="flex-row items-center mb-1">
+                          <Text className="text-[10px] text-gray-400">Day {day.dayNumber}</Text>
+                          {day.goalChanged && (
+                            <Feather name="flag" size={9} color="#F97316" style={{ marginLeft: 2 }} />
+                          )}
+                        </View>
                       )}
                       <View 
                         className={`h-10 w-10 rounded-full items-center justify-center ${
@@ -856,8 +687,68 @@ export default function AnalyticsScreen() {
               </View>
             </View>
 
+            {/* Whole-challenge heatmap */}
+            {challenge && (
+              <CompletionHeatmap
+                challenge={challenge}
+                logs={allLogs}
+                onSelectDate={date => {
+                  setSelectedDate(date);
+                  setShowDayModal(true);
+                }}
+              />
+            )}
+
+            {/* Calorie and weight days in range */}
+            {challenge && (
+              <TargetRangeCard
+                challenge={challenge}
+                logs={allLogs}
+                onSelectDate={date => {
+                  setSelectedDate(date);
+                  setShowDayModal(true);
+                }}
+              />
+            )}
+
+            {/* Weight trends */}
+            {challenge?.trackWeight && (
+              <Pressable
+                onPress={() => router.push("/weight-trends")}
+                className="bg-white rounded-2xl p-4 shadow-sm mb-4 flex-row items-center"
+              >
+                <Feather name="trending-down" size={16} color="#6366F1" />
+                <Text className="text-sm font-semibold text-gray-600 ml-2 flex-1">Weight Trends</Text>
+                <Feather name="chevron-right" size={18} color="#9CA3AF" />
+              </Pressable>
+            )}
+
+            {/* Goal Changes */}
+            {challenge && goalChanges.length > 0 && (
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <View className="flex-row items-center mb-3">
+                  <Feather name="flag" size={16} color="#F97316" />
+                  <Text className="text-sm font-semibold text-gray-600 ml-2">Goal Changes</Text>
+                </View>
+                {goalChanges.map((change, index) => (
+                  <View
+                    key={change.date}
+                    className={`py-2 ${index < goalChanges.length - 1 ? "border-b border-gray-100" : ""}`}
+                  >
+                    <Text className="text-xs font-semibold text-gray-900">
+                      {format(parseISO(change.date), "MMM d")} • Day {getChallengeDayNumber(challenge.startDate, change.date)}
+                    </Text>
+                    <Text className="text-xs text-gray-500 mt-0.5">{change.changes.join(", ")}</Text>
+                  </View>
+                ))}
+                <Text className="text-[10px] text-gray-400 mt-2">
+                  Earlier days are still measured against the goals in force at the time.
+                </Text>
+              </View>
+            )}
+
             {/* Averages - only show for tracked activities */}
-            {(challenge?.trackSteps || challenge?.trackWater || challenge?.trackReading || challenge?.trackWorkout1 || challenge?.trackWorkout2) && (
+            {(challenge?.trackSteps || challenge?.trackWater || challenge?.trackReading || challenge?.trackWorkout1 || challenge?.trackWorkout2 || stats.customTaskStats.some(({ task }) => task.type !== "checkbox")) && (
               <>
                 <Text className="text-sm font-semibold text-gray-500 mb-3 ml-1">Daily Averages</Text>
                 <View className="flex-row flex-wrap gap-3 mb-4">
@@ -908,6 +799,18 @@ export default function AnalyticsScreen() {
                       />
                     </View>
                   )}
+                  {stats.customTaskStats.filter(({ task }) => task.type !== "checkbox").map(({ task, average }) => (
+                    <View key={task.id} className="flex-1 min-w-[45%]">
+                      <StatCard
+                        icon={task.icon as keyof typeof Feather.glyphMap}
+                        label={`Avg ${task.name}`}
+                        value={average}
+                        unit={task.unit}
+                        color="#8B5CF6"
+                        bgColor="#EDE9FE"
+                      />
+                    </View>
+                  ))}
                 </View>
               </>
             )}
@@ -955,6 +858,32 @@ export default function AnalyticsScreen() {
               </View>
             )}
             
+            {/* Streak protection */}
+            {selectedDayProtection?.kind ? (
+              <View className="bg-sky-50 border border-sky-100 rounded-2xl p-4 mb-4 flex-row items-center">
+                <Feather name={selectedDayProtection.kind === "freeze" ? "shield" : "coffee"} size={18} color="#0284C7" />
+                <Text className="text-sm text-sky-800 ml-2 flex-1">
+                  {selectedDayProtection.kind === "freeze"
+                    ? "A streak freeze was used on this day."
+                    : "Planned rest day - your streak is safe."}
+                </Text>
+              </View>
+            ) : selectedDayProtection && !selectedDayProtection.freezeBlocker ? (
+              <Pressable
+                onPress={handleSpendFreeze}
+                className="bg-sky-50 border border-sky-100 rounded-2xl p-4 mb-4 flex-row items-center"
+              >
+                <Feather name="shield" size={18} color="#0284C7" />
+                <View className="ml-2 flex-1">
+                  <Text className="text-sm font-semibold text-sky-800">Use a Streak Freeze</Text>
+                  <Text className="text-xs text-sky-600">
+                    {selectedDayProtection.tokens.available} token{selectedDayProtection.tokens.available === 1 ? "" : "s"} available
+                  </Text>
+                </View>
+                <Feather name="chevron-right" size={18} color="#0284C7" />
+              </Pressable>
+            ) : null}
+
             {/* Completion Status */}
             <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
               <Text className="text-sm font-semibold text-gray-600 mb-4">Completions</Text>
@@ -1037,6 +966,8 @@ export default function AnalyticsScreen() {
                         router.push({ pathname: '/log-photo', params: baseParams });
                       } else if (item.type === 'skincare') {
                         router.push({ pathname: '/log-skincare', params: baseParams });
+                      } else if (item.type === 'custom' && item.customTaskId) {
+                        router.push({ pathname: '/log-custom-task', params: { ...baseParams, taskId: item.customTaskId } });
                       }
                     };
                     
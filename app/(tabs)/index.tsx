@@ -1,6 +1,10 @@
 import ActivityProgressCard from "@/components/ActivityProgressCard";
 import ChallengeStatusCard from "@/components/ChallengeStatusCard";
 import Header from "@/components/Header";
+import StreakCard from "@/components/StreakCard";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { getWeightTarget, isOnTarget } from "@/lib/goalTargets";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useHealthStore } from "@/store/useHealthStore";
 import { useSessionStore } from "@/store/useSessionStore";
@@ -253,6 +257,7 @@ export default function HomeScreen() {
   // Check for all tasks complete and trigger confetti
   useEffect(() => {
     if (!challenge || !todayLog) return;
+    const goals = getGoalsForDate(challenge, todayLog.date);
     
     // Count completed activities
     let completedCount = 0;
@@ -261,15 +266,15 @@ export default function HomeScreen() {
     if (challenge.trackSteps) {
       totalCount++;
       const stepsCount = isAuthorized ? steps : (todayLog.stepsCount ?? 0);
-      if (stepsCount >= (challenge.stepsGoal ?? 0)) completedCount++;
+      if (stepsCount >= (goals.stepsGoal ?? 0)) completedCount++;
     }
     if (challenge.trackWorkout1) {
       totalCount++;
-      if ((todayLog.workout1Minutes ?? 0) >= challenge.workoutMinutes) completedCount++;
+      if ((todayLog.workout1Minutes ?? 0) >= goals.workoutMinutes) completedCount++;
     }
     if (challenge.trackWorkout2) {
       totalCount++;
-      if ((todayLog.workout2Minutes ?? 0) >= challenge.workoutMinutes) completedCount++;
+      if ((todayLog.workout2Minutes ?? 0) >= goals.workoutMinutes) completedCount++;
     }
     if (challenge.trackDiet) {
       totalCount++;
@@ -277,11 +282,11 @@ export default function HomeScreen() {
     }
     if (challenge.trackWater) {
       totalCount++;
-      if ((todayLog.waterLiters ?? 0) >= challenge.waterLiters) completedCount++;
+      if ((todayLog.waterLiters ?? 0) >= goals.waterLiters) completedCount++;
     }
     if (challenge.trackReading) {
       totalCount++;
-      if ((todayLog.readingPages ?? 0) >= challenge.readingPages || todayLog.readingCompleted) completedCount++;
+      if ((todayLog.readingPages ?? 0) >= goals.readingPages || todayLog.readingCompleted) completedCount++;
     }
     if (challenge.trackProgressPhoto) {
       totalCount++;
@@ -293,7 +298,8 @@ export default function HomeScreen() {
     }
     if (challenge.trackWeight) {
       totalCount++;
-      if (todayLog.weightLogged) completedCount++;
+      const weightTarget = getWeightTarget(goals);
+      if (todayLog.weightLogged && (!weightTarget || isOnTarget(todayLog.currentWeight ?? 0, weightTarget))) completedCount++;
     }
     if (challenge.trackMood) {
       totalCount++;
@@ -334,14 +340,13 @@ export default function HomeScreen() {
           {/* Challenge Status Card */}
           <ChallengeStatusCard />
 
+          {/* Streaks */}
+          {challenge && <StreakCard />}
+
           {/* Activity Progress Cards */}
           {challenge && (() => {
             // Check if challenge has started
-            const startDate = new Date(challenge.startDate);
-            startDate.setHours(0, 0, 0, 0);
-            const today = new Date();
-            today.setHours(0, 0, 0, 0);
-            const hasStarted = today >= startDate;
+            const hasStarted = getChallengeDayNumber(challenge.startDate) >= 1;
             
             if (!hasStarted) {
               return null; // Don't show progress section for future challenges
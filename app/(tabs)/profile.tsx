@@ -1,11 +1,11 @@
 import { BADGES } from "@/constants/badges";
-import { getUserBadges } from "@/lib/appwrite";
+import { buildBadgeContext, evaluateBadges } from "@/lib/badgeEngine";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useSessionStore } from "@/store/useSessionStore";
 import { BadgeId } from "@/types/type.d";
 import { Feather } from "@expo/vector-icons";
 import { router } from "expo-router";
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo } from "react";
 import {
     Pressable,
     ScrollView,
@@ -16,66 +16,21 @@ import { SafeAreaView } from "react-native-safe-area-context";
 
 export default function ProfileScreen() {
   const { user } = useSessionStore();
-  const { challenge, allLogs } = useChallengeStore();
-  const [savedBadgeIds, setSavedBadgeIds] = useState<BadgeId[]>([]);
-  
-  // Load saved badges from Appwrite
-  useEffect(() => {
-    const loadBadges = async () => {
-      if (!user?.id) return;
-      const badges = await getUserBadges(user.id);
-      setSavedBadgeIds(badges.map(b => b.badgeId));
-    };
-    loadBadges();
-  }, [user?.id]);
-
-  // Calculate earned badges from logs
-  const earnedBadges = useMemo(() => {
-    if (!allLogs || !challenge) return [];
-    
-    const badges: BadgeId[] = [];
-    const completedDays = allLogs.filter(log => {
-      const workout1Done = !challenge.trackWorkout1 || log.workout1Completed;
-      const workout2Done = !challenge.trackWorkout2 || log.workout2Completed;
-      const waterDone = !challenge.trackWater || log.waterCompleted;
-      const dietDone = !challenge.trackDiet || log.dietCompleted;
-      const readingDone = !challenge.trackReading || log.readingCompleted;
-      const photoDone = !challenge.trackProgressPhoto || log.progressPhotoCompleted;
-      const alcoholDone = !challenge.trackNoAlcohol || log.noAlcoholCompleted;
-      
-      return workout1Done && workout2Done && waterDone && dietDone && readingDone && photoDone && alcoholDone;
-    }).length;
-
-    // Day milestones
-    if (completedDays >= 1) badges.push("day_1");
-    if (completedDays >= 7) badges.push("week_1");
-    if (completedDays >= 25) badges.push("day_25");
-    if (completedDays >= 50) badges.push("day_50");
-    if (completedDays >= 75) badges.push("day_75");
-
-    // Water badges
-    const waterLogs = allLogs.filter(log => log.waterCompleted);
-    if (waterLogs.length >= 7) badges.push("hydration_7");
-    if (waterLogs.length >= 30) badges.push("hydration_30");
-
-    // Workout badges
-    const workout1Logs = allLogs.filter(log => log.workout1Completed);
-    if (workout1Logs.length >= 10) badges.push("workout_10");
-    if (workout1Logs.length >= 50) badges.push("workout_50");
+  const { challenge, allLogs, activityLogs, userBadges, fetchUserBadges } = useChallengeStore();
 
-    // Reading badges
-    const readingLogs = allLogs.filter(log => log.readingCompleted);
-    const totalPages = allLogs.reduce((sum, log) => sum + (log.readingPages || 0), 0);
-    if (totalPages >= 100) badges.push("pages_100");
-    if (allLogs.some(log => log.finishedBook)) badges.push("book_finished");
+  // Refresh saved badges from Appwrite
+  useEffect(() => {
+    if (user?.id) fetchUserBadges(user.id);
+  }, [user?.id, fetchUserBadges]);
 
-    // Photo badges
-    const photoLogs = allLogs.filter(log => log.progressPhotoCompleted);
-    if (photoLogs.length >= 7) badges.push("photo_7");
-    if (photoLogs.length >= 30) badges.push("photo_30");
+  const savedBadgeIds = useMemo(() => userBadges.map(b => b.badgeId), [userBadges]);
 
-    return badges as BadgeId[];
-  }, [allLogs, challenge]);
+  // Badges currently met, including any not saved yet
+  const earnedBadges = useMemo(() => {
+    if (!challenge) return [];
+    const context = buildBadgeContext(challenge, allLogs, activityLogs);
+    return context ? evaluateBadges(context) : [];
+  }, [challenge, allLogs, activityLogs]);
 
   const allEarnedBadges = useMemo(() => {
     const combined = new Set([...savedBadgeIds, ...earnedBadges]);
@@ -166,6 +121,25 @@ export default function ProfileScreen() {
             )}
           </View>
         </View>
+
+        {/* Progress Photos */}
+        {challenge?.trackProgressPhoto && (
+          <View className="mx-4 mb-4">
+            <Pressable
+              onPress={() => router.push("/photo-gallery")}
+              className="bg-white rounded-2xl p-4 shadow-sm border border-purple-100 flex-row items-center"
+            >
+              <View className="h-10 w-10 rounded-full items-center justify-center bg-pink-100 mr-3">
+                <Feather name="camera" size={20} color="#EC4899" />
+              </View>
+              <View className="flex-1">
+                <Text className="text-base font-semibold text-gray-900">Progress Photos</Text>
+                <Text className="text-xs text-gray-500">Compare days and watch your timelapse</Text>
+              </View>
+              <Feather name="chevron-right" size={20} color="#9CA3AF" />
+            </Pressable>
+          </View>
+        )}
         
       </ScrollView>
     </SafeAreaView>
@@ -1,6 +1,8 @@
 import { BadgeCelebration } from "@/components/BadgeCelebration";
 import { setNotificationsEnabledCheck } from "@/lib/notifications";
 import { initSentry, logger } from "@/lib/sentry";
+// Loads the day cutoff/time zone settings before anything resolves "today"
+import "@/store/useDayBoundaryStore";
 import { useHealthStore } from "@/store/useHealthStore";
 import { useNotificationStore } from "@/store/useNotificationStore";
 import { useSessionStore } from "@/store/useSessionStore";
@@ -68,6 +70,8 @@ export default function RootLayout() {
         router.push("/(tabs)/analytics");
       } else if (data?.type === "reminder" || data?.type === "task_complete") {
         router.push("/(tabs)");
+      } else if (data?.type === "report_ready") {
+        router.push("/reports");
       }
     });
 
@@ -1,4 +1,5 @@
 import { getCategories } from "@/lib/appwrite";
+import { getTodayKey } from "@/lib/dayBoundary";
 import { useSessionStore } from "@/store/useSessionStore";
 import { router } from "expo-router";
 import { useEffect, useState } from "react";
@@ -29,7 +30,7 @@ export default function AddTransactionScreen() {
   const [kind, setKind] = useState<"expense" | "income">("expense");
   const [selectedCategoryId, setSelectedCategoryId] = useState("");
   const [categories, setCategories] = useState<Category[]>([]);
-  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [date, setDate] = useState(getTodayKey());
   const [time, setTime] = useState(new Date().toTimeString().slice(0, 5));
   const [loading, setLoading] = useState(false);
   const [loadingCategories, setLoadingCategories] = useState(true);
@@ -0,0 +1,266 @@
+import {
+    AccountBackup,
+    BACKUP_COLLECTIONS,
+    createAccountBackup,
+    parseAccountBackup,
+    restoreAccountBackup,
+    RestoreReport,
+    shareAccountBackup,
+} from "@/lib/backup";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { useDayBoundaryStore } from "@/store/useDayBoundaryStore";
+import { useNotificationStore } from "@/store/useNotificationStore";
+import { useReportStore } from "@/store/useReportStore";
+import { useSessionStore } from "@/store/useSessionStore";
+import { useTemplateStore } from "@/store/useTemplateStore";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { router } from "expo-router";
+import { useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type Phase = "idle" | "backingUp" | "review" | "restoring" | "done";
+
+function ProgressBar({ current, total }: { current: number; total: number }) {
+  const percent = total > 0 ? Math.round((current / total) * 100) : 0;
+  return (
+    <View className="h-2 bg-purple-100 rounded-full overflow-hidden">
+      <View className="h-2 bg-purple-500 rounded-full" style={{ width: `${percent}%` }} />
+    </View>
+  );
+}
+
+export default function BackupScreen() {
+  const { user } = useSessionStore();
+  const { challenge, clearChallenge, fetchChallenge } = useChallengeStore();
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleBackup = async () => {
+    if (!user?.id) return;
+    setPhase("backingUp");
+    try {
+      const { cutoffHour, timeZoneMode, homeTimeZone } = useDayBoundaryStore.getState();
+      const data = await createAccountBackup(
+        user.id,
+        {
+          notificationsEnabled: useNotificationStore.getState().notificationsEnabled,
+          dayBoundary: { cutoffHour, timeZoneMode, homeTimeZone },
+          customTemplates: useTemplateStore.getState().customTemplates,
+        },
+        useReportStore.getState().reports.filter(report => report.userId === user.id)
+      );
+      await shareAccountBackup(data);
+    } catch (err) {
+      console.error("Backup failed:", err);
+      Alert.alert("Backup Failed", "Couldn't back up your account. Please check your connection and try again.");
+    } finally {
+      setPhase("idle");
+    }
+  };
+
+  const handlePickBackup = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ["application/json", "public.json", "text/plain"],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      setBackup(parseAccountBackup(await new File(picked.assets[0].uri).text()));
+      setReport(null);
+      setPhase("review");
+    } catch (err) {
+      console.error("Failed to read backup:", err);
+      Alert.alert("Can't Restore", err instanceof Error ? err.message : "Couldn't read that file.");
+    }
+  };
+
+  const restoreSettings = (data: AccountBackup) => {
+    const { settings } = data;
+    useNotificationStore.getState().setNotificationsEnabled(settings.notificationsEnabled);
+
+    const dayBoundary = useDayBoundaryStore.getState();
+    dayBoundary.setCutoffHour(settings.dayBoundary.cutoffHour);
+    dayBoundary.setTimeZoneMode(settings.dayBoundary.timeZoneMode);
+    if (settings.dayBoundary.homeTimeZone) dayBoundary.setHomeTimeZone(settings.dayBoundary.homeTimeZone);
+
+    settings.customTemplates.forEach(template => useTemplateStore.getState().saveTemplate(template));
+  };
+
+  const runRestore = async () => {
+    if (!backup || !user?.id) return;
+    setPhase("restoring");
+    setProgress({ current: 0, total: 0 });
+    try {
+      const result = await restoreAccountBackup(backup, user.id, (current, total) => setProgress({ current, total }));
+      restoreSettings(backup);
+      useReportStore.getState().importReports(result.reports);
+      setReport(result);
+
+      // Load the restored challenge in place of whatever was cached
+      clearChallenge();
+      await fetchChallenge(user.id);
+    } catch (err) {
+      console.error("Restore failed:", err);
+      Alert.alert("Restore Failed", "Something went wrong while restoring. Records restored so far have been kept.");
+    } finally {
+      setPhase("done");
+    }
+  };
+
+  const handleRestore = () => {
+    if (!challenge) {
+      runRestore();
+      return;
+    }
+    Alert.alert(
+      "Restore Into This Account?",
+      "This account already has a challenge. Restored challenges and logs will be added alongside it, and the newest restored challenge becomes your current one.",
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Restore", onPress: runRestore },
+      ]
+    );
+  };
+
+  const busy = phase === "backingUp" || phase === "restoring";
+
+  return (
+    <SafeAreaView className="flex-1 bg-purple-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-purple-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          disabled={busy}
+          className="h-10 w-10 items-center justify-center rounded-full bg-purple-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#8B5CF6" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900 flex-1">Backup & Restore</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {/* Backup */}
+        <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+          <View className="flex-row items-center mb-2">
+            <Feather name="archive" size={18} color="#8B5CF6" />
+            <Text className="text-base font-semibold text-gray-900 ml-2">Back Up Account</Text>
+          </View>
+          <Text className="text-sm text-gray-500 mb-4">
+            Saves your profile, every challenge with its daily logs and activity, cycle logs, badges, notification
+            and day settings, and saved templates to a single file.
+          </Text>
+          <Pressable
+            onPress={handleBackup}
+            disabled={busy}
+            className={`rounded-full py-3 items-center flex-row justify-center ${busy ? "bg-gray-200" : "bg-purple-500"}`}
+          >
+            {phase === "backingUp" && <ActivityIndicator size="small" color="#8B5CF6" />}
+            <Text className={`text-base font-semibold ml-1 ${busy ? "text-gray-400" : "text-white"}`}>
+              {phase === "backingUp" ? "Preparing backup..." : "Create Backup"}
+            </Text>
+          </Pressable>
+        </View>
+
+        {/* Restore */}
+        <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+          <View className="flex-row items-center mb-2">
+            <Feather name="rotate-ccw" size={18} color="#8B5CF6" />
+            <Text className="text-base font-semibold text-gray-900 ml-2">Restore From Backup</Text>
+          </View>
+          <Text className="text-sm text-gray-500 mb-4">
+            Recreates everything from a backup file in this account. Activity entries are restored with
+            today&apos;s timestamp. Progress photos aren&apos;t included, but photo days still count.
+          </Text>
+
+          {backup && (phase === "review" || phase === "restoring") && (
+            <View className="bg-purple-50 rounded-xl p-3 mb-4">
+              <Text className="text-xs font-semibold text-purple-700 mb-2">
+                Backup from {format(parseISO(backup.createdAt), "MMM d, yyyy h:mm a")}
+              </Text>
+              {BACKUP_COLLECTIONS.map(collection => (
+                <View key={collection.id} className="flex-row justify-between py-0.5">
+                  <Text className="text-sm text-gray-700">{collection.label}</Text>
+                  <Text className="text-sm font-semibold text-gray-900">{backup[collection.id].length}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {phase === "restoring" && (
+            <View className="mb-4">
+              <View className="flex-row items-center mb-2">
+                <ActivityIndicator size="small" color="#8B5CF6" />
+                <Text className="text-sm text-gray-700 ml-2">
+                  Restoring {progress.current} of {progress.total} records
+                </Text>
+              </View>
+              <ProgressBar current={progress.current} total={progress.total} />
+            </View>
+          )}
+
+          {phase === "review" ? (
+            <View className="flex-row gap-3">
+              <Pressable onPress={() => setPhase("idle")} className="flex-1 rounded-full py-3 items-center bg-gray-100">
+                <Text className="text-base font-semibold text-gray-600">Cancel</Text>
+              </Pressable>
+              <Pressable onPress={handleRestore} className="flex-1 rounded-full py-3 items-center bg-purple-500">
+                <Text className="text-base font-semibold text-white">Restore</Text>
+              </Pressable>
+            </View>
+          ) : (
+            <Pressable
+              onPress={handlePickBackup}
+              disabled={busy}
+              className={`rounded-full py-3 items-center ${busy ? "bg-gray-200" : "bg-purple-100"}`}
+            >
+              <Text className={`text-base font-semibold ${busy ? "text-gray-400" : "text-purple-700"}`}>
+                Choose Backup File
+              </Text>
+            </Pressable>
+          )}
+        </View>
+
+        {/* Report */}
+        {phase === "done" && report && (
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+            <View className="flex-row items-center mb-3">
+              <Feather name="check-circle" size={20} color="#22C55E" />
+              <Text className="text-base font-semibold text-gray-900 ml-2">Restore Complete</Text>
+            </View>
+            <Text className="text-sm text-gray-600 mb-2">
+              {report.profileRestored ? "Profile restored." : "Profile wasn't changed."} Settings, templates and reports restored.
+            </Text>
+            {report.photosDropped > 0 && (
+              <Text className="text-sm text-amber-600 mb-2">
+                {report.photosDropped} progress {report.photosDropped === 1 ? "photo wasn't" : "photos weren't"} restored -
+                they stay in the account the backup was made from.
+              </Text>
+            )}
+            {BACKUP_COLLECTIONS.map(collection => {
+              const counts = report.counts[collection.id];
+              return (
+                <View key={collection.id} className="flex-row justify-between py-1 border-t border-gray-100">
+                  <Text className="text-sm text-gray-700">{collection.label}</Text>
+                  <Text className="text-sm text-gray-900">
+                    {counts.imported} imported
+                    {counts.skipped > 0 && <Text className="text-amber-600"> • {counts.skipped} skipped</Text>}
+                    {counts.failed > 0 && <Text className="text-red-600"> • {counts.failed} failed</Text>}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        <View className="h-8" />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
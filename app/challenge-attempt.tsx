@@ -0,0 +1,188 @@
+import StatCard from "@/components/StatCard";
+import SwipeableGraphCard from "@/components/SwipeableGraphCard";
+import { BADGES } from "@/constants/badges";
+import { useChallengeHistory } from "@/hooks/useChallengeHistory";
+import { getAttemptNumber } from "@/lib/strictMode";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router, useLocalSearchParams } from "expo-router";
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+export default function ChallengeAttemptScreen() {
+  const { challengeId } = useLocalSearchParams<{ challengeId: string }>();
+  const { attempts, loading } = useChallengeHistory();
+  const attempt = attempts.find(a => a.challenge.$id === challengeId);
+  const challenge = attempt?.challenge;
+  const stats = attempt?.stats;
+
+  return (
+    <SafeAreaView className="flex-1 bg-blue-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-blue-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-orange-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#F97316" />
+        </Pressable>
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-gray-900">
+            {challenge ? `Attempt ${getAttemptNumber(challenge)}` : "Attempt"}
+          </Text>
+          {challenge && attempt && (
+            <Text className="text-sm text-blue-600">
+              {format(parseISO(challenge.startDate), "MMM d, yyyy")} - {format(attempt.asOfDate, "MMM d, yyyy")}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#3B82F6" />
+        </View>
+      ) : !attempt || !challenge || !stats ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <View className="h-20 w-20 items-center justify-center rounded-full bg-blue-100 mb-4">
+            <Feather name="bar-chart-2" size={40} color="#3B82F6" />
+          </View>
+          <Text className="text-lg font-semibold text-gray-800 mb-2">No Data</Text>
+          <Text className="text-sm text-gray-500 text-center">
+            No activity was logged for this attempt.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
+          <View className="p-4">
+            {/* Read-only notice */}
+            <View className="flex-row items-center bg-white rounded-2xl p-3 shadow-sm mb-4">
+              <Feather name="lock" size={14} color="#6B7280" />
+              <Text className="text-xs text-gray-500 ml-2 flex-1">
+                {attempt.status === "active"
+                  ? "This is your current attempt. Edit logs from the Analytics tab."
+                  : "This attempt has ended and its logs are read-only."}
+              </Text>
+            </View>
+
+            {attempt.status === "failed" && challenge.failureReason && (
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <View className="flex-row items-center">
+                  <View className="h-8 w-8 items-center justify-center rounded-full mr-2 bg-red-100">
+                    <Feather name="x-circle" size={16} color="#EF4444" />
+                  </View>
+                  <Text className="text-sm font-semibold text-gray-900">Failed</Text>
+                </View>
+                <Text className="text-sm text-red-600 mt-2">{challenge.failureReason}</Text>
+              </View>
+            )}
+
+            {/* Overview Cards */}
+            <View className="flex-row gap-3 mb-4">
+              <StatCard
+                icon="calendar"
+                label="Days Completed"
+                value={stats.completedDays}
+                unit={`/ ${stats.totalDays}`}
+                color="#8B5CF6"
+                bgColor="#EDE9FE"
+              />
+              <StatCard
+                icon="percent"
+                label="Completion Rate"
+                value={stats.completionRate}
+                unit="%"
+                color="#10B981"
+                bgColor="#D1FAE5"
+              />
+            </View>
+
+            {/* Averages - only show for tracked activities */}
+            {(challenge.trackSteps || challenge.trackWater || challenge.trackReading || challenge.trackWorkout1 || challenge.trackWorkout2) && (
+              <>
+                <Text className="text-sm font-semibold text-gray-500 mb-3 ml-1">Daily Averages</Text>
+                <View className="flex-row flex-wrap gap-3 mb-4">
+                  {challenge.trackSteps && (
+                    <View className="flex-1 min-w-[45%]">
+                      <StatCard
+                        icon="activity"
+                        label="Avg Steps"
+                        value={stats.avgSteps.toLocaleString()}
+                        color="#10B981"
+                        bgColor="#D1FAE5"
+                      />
+                    </View>
+                  )}
+                  {challenge.trackWater && (
+                    <View className="flex-1 min-w-[45%]">
+                      <StatCard
+                        icon="droplet"
+                        label="Avg Water"
+                        value={stats.avgWater}
+                        unit="L"
+                        color="#3B82F6"
+                        bgColor="#DBEAFE"
+                      />
+                    </View>
+                  )}
+                  {challenge.trackReading && (
+                    <View className="flex-1 min-w-[45%]">
+                      <StatCard
+                        icon="book-open"
+                        label="Avg Reading"
+                        value={stats.avgReading}
+                        unit="pages"
+                        color="#8B5CF6"
+                        bgColor="#EDE9FE"
+                      />
+                    </View>
+                  )}
+                  {(challenge.trackWorkout1 || challenge.trackWorkout2) && (
+                    <View className="flex-1 min-w-[45%]">
+                      <StatCard
+                        icon="clock"
+                        label="Total Workout"
+                        value={stats.totalWorkoutTime}
+                        unit="min"
+                        color="#F59E0B"
+                        bgColor="#FEF3C7"
+                      />
+                    </View>
+                  )}
+                </View>
+              </>
+            )}
+
+            {/* Badges earned in this attempt */}
+            {attempt.badges.length > 0 && (
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <Text className="text-sm font-semibold text-gray-600 mb-3">Badges Earned</Text>
+                {attempt.badges.map(badge => {
+                  const info = BADGES[badge.badgeId];
+                  if (!info) return null;
+                  return (
+                    <View key={badge.$id ?? badge.badgeId} className="flex-row items-center py-2">
+                      <View
+                        className="h-8 w-8 items-center justify-center rounded-full mr-3"
+                        style={{ backgroundColor: info.bgColor }}
+                      >
+                        <Feather name={info.icon as keyof typeof Feather.glyphMap} size={16} color={info.color} />
+                      </View>
+                      <View className="flex-1">
+                        <Text className="text-sm font-medium text-gray-900">{info.name}</Text>
+                        <Text className="text-xs text-gray-500">{info.description}</Text>
+                      </View>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+
+            {/* Graphs for the last week of the attempt */}
+            <SwipeableGraphCard challenge={challenge} logs={attempt.logs} endDate={attempt.asOfDate} />
+          </View>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,116 @@
+import { ChallengeAttempt, useChallengeHistory } from "@/hooks/useChallengeHistory";
+import { ChallengeStats } from "@/lib/challengeStats";
+import { getAttemptNumber } from "@/lib/strictMode";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router, useLocalSearchParams } from "expo-router";
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type CompareRow = {
+  label: string;
+  icon: keyof typeof Feather.glyphMap;
+  getValue: (stats: ChallengeStats) => number;
+  format?: (value: number) => string;
+};
+
+const COMPARE_ROWS: CompareRow[] = [
+  { label: "Days Completed", icon: "calendar", getValue: s => s.completedDays },
+  { label: "Completion Rate", icon: "percent", getValue: s => s.completionRate, format: v => `${v}%` },
+  { label: "Final Streak", icon: "zap", getValue: s => s.currentStreak, format: v => `${v} days` },
+  { label: "Avg Steps", icon: "activity", getValue: s => s.avgSteps, format: v => v.toLocaleString() },
+  { label: "Max Steps", icon: "trending-up", getValue: s => s.maxSteps, format: v => v.toLocaleString() },
+  { label: "Avg Water", icon: "droplet", getValue: s => parseFloat(s.avgWater), format: v => `${v.toFixed(1)}L` },
+  { label: "Avg Reading", icon: "book-open", getValue: s => s.avgReading, format: v => `${v} pages` },
+  { label: "Total Pages", icon: "book", getValue: s => s.totalPages },
+  { label: "Total Workout", icon: "clock", getValue: s => s.totalWorkoutTime, format: v => `${v} min` },
+  { label: "Workout Days", icon: "heart", getValue: s => s.workoutCompletions },
+  { label: "Water Goal Days", icon: "droplet", getValue: s => s.waterCompletions },
+  { label: "Progress Photos", icon: "camera", getValue: s => s.photoCompletions },
+];
+
+function AttemptHeader({ attempt }: { attempt: ChallengeAttempt }) {
+  const { challenge } = attempt;
+  return (
+    <View className="flex-1 items-center">
+      <Text className="text-sm font-bold text-gray-900">Attempt {getAttemptNumber(challenge)}</Text>
+      <Text className="text-[10px] text-gray-500">
+        {format(parseISO(challenge.startDate), "MMM d, yyyy")}
+      </Text>
+      <Text className="text-[10px] text-gray-400">
+        {attempt.badges.length} badge{attempt.badges.length === 1 ? "" : "s"}
+      </Text>
+    </View>
+  );
+}
+
+export default function ChallengeCompareScreen() {
+  const { first, second } = useLocalSearchParams<{ first: string; second: string }>();
+  const { attempts, loading } = useChallengeHistory();
+
+  // Show the older attempt on the left
+  const selected = attempts
+    .filter(a => a.challenge.$id === first || a.challenge.$id === second)
+    .sort((a, b) => a.challenge.startDate.localeCompare(b.challenge.startDate));
+  const [left, right] = selected;
+
+  return (
+    <SafeAreaView className="flex-1 bg-orange-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-orange-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-orange-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#F97316" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900">Compare Attempts</Text>
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#F97316" />
+        </View>
+      ) : !left || !right ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <Text className="text-sm text-gray-500 text-center">
+            Couldn&apos;t load both attempts. Go back and select two attempts to compare.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+          <View className="bg-white rounded-2xl shadow-sm overflow-hidden">
+            {/* Column headers */}
+            <View className="flex-row items-center px-4 py-3 border-b border-gray-100">
+              <View className="flex-1" />
+              <AttemptHeader attempt={left} />
+              <AttemptHeader attempt={right} />
+            </View>
+
+            {COMPARE_ROWS.map(row => {
+              const leftValue = left.stats ? row.getValue(left.stats) : 0;
+              const rightValue = right.stats ? row.getValue(right.stats) : 0;
+              const formatValue = row.format ?? ((v: number) => v.toString());
+
+              return (
+                <View key={row.label} className="flex-row items-center px-4 py-3 border-b border-gray-100">
+                  <View className="flex-1 flex-row items-center">
+                    <Feather name={row.icon} size={14} color="#6B7280" />
+                    <Text className="text-xs text-gray-600 ml-2">{row.label}</Text>
+                  </View>
+                  <Text className={`flex-1 text-center text-sm ${leftValue > rightValue ? "font-bold text-green-600" : "text-gray-900"}`}>
+                    {formatValue(leftValue)}
+                  </Text>
+                  <Text className={`flex-1 text-center text-sm ${rightValue > leftValue ? "font-bold text-green-600" : "text-gray-900"}`}>
+                    {formatValue(rightValue)}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+          <View className="h-8" />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,207 @@
+import { BADGES } from "@/constants/badges";
+import { ChallengeAttempt, useChallengeHistory } from "@/hooks/useChallengeHistory";
+import { getChallengeEndDate } from "@/lib/challengeStats";
+import { getAttemptNumber } from "@/lib/strictMode";
+import { ChallengeStatus } from "@/types/type.d";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router } from "expo-router";
+import { useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const STATUS_STYLES: Record<ChallengeStatus, { label: string; className: string; textClassName: string }> = {
+  active: { label: "Active", className: "bg-purple-100", textClassName: "text-purple-600" },
+  completed: { label: "Completed", className: "bg-green-100", textClassName: "text-green-600" },
+  failed: { label: "Failed", className: "bg-red-100", textClassName: "text-red-600" },
+};
+
+function AttemptCard({
+  attempt,
+  selected,
+  selecting,
+  onPress,
+}: {
+  attempt: ChallengeAttempt;
+  selected: boolean;
+  selecting: boolean;
+  onPress: () => void;
+}) {
+  const { challenge, stats, badges, status, asOfDate } = attempt;
+  const statusStyle = STATUS_STYLES[status];
+  const startDate = parseISO(challenge.startDate);
+  const endDate = status === "active" ? getChallengeEndDate(challenge) : asOfDate;
+  const completionRate = stats?.completionRate ?? 0;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      className={`bg-white rounded-2xl p-4 shadow-sm mb-3 border-2 ${selected ? "border-purple-500" : "border-transparent"}`}
+    >
+      <View className="flex-row items-center justify-between">
+        <View className="flex-1">
+          <Text className="text-base font-bold text-gray-900">
+            {challenge.totalDays} Hard Challenge • Attempt {getAttemptNumber(challenge)}
+          </Text>
+          <Text className="text-xs text-gray-500 mt-0.5">
+            {format(startDate, "MMM d, yyyy")} - {format(endDate, "MMM d, yyyy")}
+          </Text>
+        </View>
+        {selecting ? (
+          <View className={`h-6 w-6 items-center justify-center rounded-full ${selected ? "bg-purple-500" : "bg-gray-100"}`}>
+            {selected && <Feather name="check" size={14} color="#FFFFFF" />}
+          </View>
+        ) : (
+          <View className={`px-2 py-1 rounded-full ${statusStyle.className}`}>
+            <Text className={`text-xs font-semibold ${statusStyle.textClassName}`}>{statusStyle.label}</Text>
+          </View>
+        )}
+      </View>
+
+      {/* Completion rate */}
+      <View className="mt-3">
+        <View className="flex-row justify-between mb-1">
+          <Text className="text-xs text-gray-500">
+            {stats?.completedDays ?? 0} / {challenge.totalDays} days
+          </Text>
+          <Text className="text-xs font-semibold text-gray-700">{completionRate}%</Text>
+        </View>
+        <View className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <View className="h-full bg-purple-500 rounded-full" style={{ width: `${completionRate}%` }} />
+        </View>
+      </View>
+
+      {status === "failed" && challenge.failureReason && (
+        <Text className="text-xs text-red-600 mt-2">{challenge.failureReason}</Text>
+      )}
+
+      {/* Badges earned in this attempt */}
+      {badges.length > 0 && (
+        <View className="flex-row flex-wrap items-center mt-3 gap-1">
+          {badges.map(badge => {
+            const info = BADGES[badge.badgeId];
+            if (!info) return null;
+            return (
+              <View
+                key={badge.$id ?? badge.badgeId}
+                className="h-7 w-7 items-center justify-center rounded-full"
+                style={{ backgroundColor: info.bgColor }}
+              >
+                <Feather name={info.icon as keyof typeof Feather.glyphMap} size={14} color={info.color} />
+              </View>
+            );
+          })}
+          <Text className="text-xs text-gray-500 ml-1">
+            {badges.length} badge{badges.length === 1 ? "" : "s"}
+          </Text>
+        </View>
+      )}
+    </Pressable>
+  );
+}
+
+export default function ChallengeHistoryScreen() {
+  const { attempts, loading } = useChallengeHistory();
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const toggleSelecting = () => {
+    setSelecting(!selecting);
+    setSelectedIds([]);
+  };
+
+  const handleAttemptPress = (attempt: ChallengeAttempt) => {
+    const id = attempt.challenge.$id;
+    if (!id) return;
+
+    if (!selecting) {
+      router.push({ pathname: "/challenge-attempt", params: { challengeId: id } });
+      return;
+    }
+
+    if (selectedIds.includes(id)) {
+      setSelectedIds(selectedIds.filter(selectedId => selectedId !== id));
+    } else {
+      // Keep at most two attempts selected, replacing the oldest selection
+      setSelectedIds([...selectedIds, id].slice(-2));
+    }
+  };
+
+  const handleCompare = () => {
+    if (selectedIds.length !== 2) return;
+    router.push({
+      pathname: "/challenge-compare",
+      params: { first: selectedIds[0], second: selectedIds[1] },
+    });
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-orange-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-orange-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-orange-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#F97316" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900 flex-1">Challenge History</Text>
+        {attempts.length > 1 && (
+          <Pressable
+            onPress={toggleSelecting}
+            className="flex-row items-center bg-orange-100 px-3 py-1.5 rounded-full"
+          >
+            <Feather name={selecting ? "x" : "columns"} size={14} color="#F97316" />
+            <Text className="text-sm text-orange-600 ml-1">{selecting ? "Cancel" : "Compare"}</Text>
+          </Pressable>
+        )}
+      </View>
+
+      {loading ? (
+        <View className="flex-1 items-center justify-center">
+          <ActivityIndicator size="large" color="#F97316" />
+        </View>
+      ) : attempts.length === 0 ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <View className="h-20 w-20 items-center justify-center rounded-full bg-orange-100 mb-4">
+            <Feather name="clock" size={40} color="#F97316" />
+          </View>
+          <Text className="text-lg font-semibold text-gray-800 mb-2">No Challenges Yet</Text>
+          <Text className="text-sm text-gray-500 text-center">
+            Your past and current challenge attempts will appear here.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+          {selecting && (
+            <Text className="text-sm text-gray-500 mb-3 ml-1">Select two attempts to compare</Text>
+          )}
+          {attempts.map(attempt => (
+            <AttemptCard
+              key={attempt.challenge.$id}
+              attempt={attempt}
+              selecting={selecting}
+              selected={!!attempt.challenge.$id && selectedIds.includes(attempt.challenge.$id)}
+              onPress={() => handleAttemptPress(attempt)}
+            />
+          ))}
+          <View className="h-8" />
+        </ScrollView>
+      )}
+
+      {selecting && (
+        <View className="bg-white px-4 py-3 border-t border-orange-100">
+          <Pressable
+            onPress={handleCompare}
+            disabled={selectedIds.length !== 2}
+            className={`rounded-full py-3 items-center ${selectedIds.length === 2 ? "bg-purple-500" : "bg-gray-200"}`}
+          >
+            <Text className={`text-base font-semibold ${selectedIds.length === 2 ? "text-white" : "text-gray-400"}`}>
+              Compare {selectedIds.length}/2
+            </Text>
+          </Pressable>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
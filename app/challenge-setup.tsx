@@ -1,7 +1,17 @@
+import ChallengeTemplatePicker from "@/components/ChallengeTemplatePicker";
+import CustomTaskEditor from "@/components/CustomTaskEditor";
+import GoalScheduleEditor from "@/components/GoalScheduleEditor";
+import { TEMPLATE_GOAL_KEYS, TEMPLATE_TRACKING_KEYS } from "@/lib/challengeTemplates";
+import { getCustomTasks, serializeCustomTasks } from "@/lib/customTasks";
+import { getTodayDate, toDayKey } from "@/lib/dayBoundary";
+import { getGoalSchedules, serializeGoalSchedules } from "@/lib/goalSchedules";
+import { DEFAULT_MERGE_GAP_MINUTES, DEFAULT_MIN_WORKOUT_MINUTES } from "@/lib/workoutAssignment";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useSessionStore } from "@/store/useSessionStore";
+import { ChallengeTemplate, CustomTask, GoalSchedule, ScheduledGoalKey, TargetDirection } from "@/types/type.d";
 import { Feather } from "@expo/vector-icons";
 import DateTimePicker from "@react-native-community/datetimepicker";
+import { parseISO } from "date-fns";
 import { router, useLocalSearchParams } from "expo-router";
 import { useState } from "react";
 import {
@@ -17,6 +27,19 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
+const CALORIE_DIRECTIONS: { direction: TargetDirection; label: string }[] = [
+  { direction: "below", label: "Stay Under" },
+  { direction: "above", label: "Eat At Least" },
+  { direction: "range", label: "Stay Between" },
+];
+
+const WEIGHT_DIRECTIONS: { direction: TargetDirection | null; label: string }[] = [
+  { direction: null, label: "Logged" },
+  { direction: "below", label: "At or Under" },
+  { direction: "above", label: "At or Above" },
+  { direction: "range", label: "In Range" },
+];
+
 type TrackingOption = {
   key: string;
   label: string;
@@ -164,7 +187,7 @@ export default function ChallengeSetupScreen() {
 
   // Form state
   const [startDate, setStartDate] = useState<Date>(
-    challenge?.startDate ? new Date(challenge.startDate) : new Date()
+    challenge?.startDate ? parseISO(challenge.startDate) : getTodayDate()
   );
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [totalDays, setTotalDays] = useState(String(challenge?.totalDays ?? 75));
@@ -178,7 +201,7 @@ export default function ChallengeSetupScreen() {
       return new Date(challenge.endDate);
     }
     // Default to start date + totalDays
-    const defaultEnd = new Date(challenge?.startDate ? new Date(challenge.startDate) : new Date());
+    const defaultEnd = challenge?.startDate ? parseISO(challenge.startDate) : getTodayDate();
     defaultEnd.setDate(defaultEnd.getDate() + (challenge?.totalDays ?? 75));
     return defaultEnd;
   });
@@ -214,16 +237,92 @@ export default function ChallengeSetupScreen() {
     readingPages: String(challenge?.readingPages ?? 10),
     stepsGoal: String(challenge?.stepsGoal ?? 10000),
     caloriesGoal: String(challenge?.caloriesGoal ?? 2000),
+    caloriesGoalMax: String(challenge?.caloriesGoalMax ?? 2500),
     weightGoal: String(challenge?.weightGoal ?? 0),
+    weightGoalMax: String(challenge?.weightGoalMax ?? 0),
     sleepGoalHours: String((challenge as any)?.sleepGoalHours ?? 8),
     progressPhotoDays: String((challenge as any)?.progressPhotoDays ?? 1),
   });
 
+  // Strict mode - a missed day fails the challenge
+  const [strictMode, setStrictMode] = useState<boolean>(challenge?.strictMode ?? false);
+
+  // Workout rules - only apply when both workouts are tracked
+  const [requireOutdoorWorkout, setRequireOutdoorWorkout] = useState<boolean>(challenge?.requireOutdoorWorkout ?? false);
+  const [workoutSeparationHours, setWorkoutSeparationHours] = useState(String(challenge?.workoutSeparationHours ?? 0));
+
+  // How Apple Health workouts are assigned to the workout slots
+  const [workoutMinMinutes, setWorkoutMinMinutes] = useState(String(challenge?.workoutMinMinutes ?? DEFAULT_MIN_WORKOUT_MINUTES));
+  const [workoutMergeGapMinutes, setWorkoutMergeGapMinutes] = useState(String(challenge?.workoutMergeGapMinutes ?? DEFAULT_MERGE_GAP_MINUTES));
+
   // Calorie goal direction (above or below)
-  const [caloriesGoalDirection, setCaloriesGoalDirection] = useState<"above" | "below">(
+  const [caloriesGoalDirection, setCaloriesGoalDirection] = useState<TargetDirection>(
     (challenge as any)?.caloriesGoalDirection ?? "below"
   );
 
+  // Weight goal check - null when logging a weight is enough
+  const [weightGoalDirection, setWeightGoalDirection] = useState<TargetDirection | null>(
+    challenge?.weightGoalDirection ?? null
+  );
+
+  // User-defined tasks
+  const [customTasks, setCustomTasks] = useState<CustomTask[]>(() => getCustomTasks(challenge));
+
+  // Per-weekday and ramping goals
+  const [goalSchedules, setGoalSchedules] = useState<GoalSchedule[]>(() => getGoalSchedules(challenge));
+  const scheduledGoals: ScheduledGoalKey[] = [
+    ...(tracking.trackSteps ? ["stepsGoal" as const] : []),
+    ...(tracking.trackWater ? ["waterLiters" as const] : []),
+    ...(tracking.trackReading ? ["readingPages" as const] : []),
+    ...(tracking.trackWorkout1 || tracking.trackWorkout2 ? ["workoutMinutes" as const] : []),
+  ];
+
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+
+  // Fill in tasks, goals, duration and rules from a template
+  const applyTemplate = (template: ChallengeTemplate) => {
+    setSelectedTemplateId(template.id);
+    setDurationMode('days');
+    setTotalDays(String(template.totalDays));
+    setTracking((prev) => {
+      const next = { ...prev };
+      TEMPLATE_TRACKING_KEYS.forEach((key) => {
+        next[key] = template.tracking[key] ?? false;
+      });
+      return next;
+    });
+    setGoals((prev) => {
+      const next = { ...prev };
+      TEMPLATE_GOAL_KEYS.forEach((key) => {
+        const value = template.goals[key];
+        if (value !== undefined) next[key] = String(value);
+      });
+      return next;
+    });
+    setStrictMode(template.strictMode ?? false);
+    setRequireOutdoorWorkout(template.requireOutdoorWorkout ?? false);
+    setWorkoutSeparationHours(String(template.workoutSeparationHours ?? 0));
+    setCustomTasks(template.customTasks ?? []);
+    if (template.caloriesGoalDirection) {
+      setCaloriesGoalDirection(template.caloriesGoalDirection);
+    }
+  };
+
+  const getTemplateSettings = () => ({
+    totalDays: calculatedTotalDays,
+    tracking: Object.fromEntries(
+      TEMPLATE_TRACKING_KEYS.map((key) => [key, !!tracking[key]])
+    ) as ChallengeTemplate["tracking"],
+    goals: Object.fromEntries(
+      TEMPLATE_GOAL_KEYS.map((key) => [key, parseFloat(goals[key]) || 0])
+    ) as ChallengeTemplate["goals"],
+    caloriesGoalDirection,
+    strictMode,
+    requireOutdoorWorkout,
+    workoutSeparationHours: parseFloat(workoutSeparationHours) || 0,
+    customTasks,
+  });
+
   const handleSave = async () => {
     if (!user?.id) {
       Alert.alert("Error", "You must be logged in to create a challenge");
@@ -232,7 +331,7 @@ export default function ChallengeSetupScreen() {
 
     const challengeData = {
       userId: user.id,
-      startDate: startDate.toISOString().split("T")[0],
+      startDate: toDayKey(startDate),
       endDate: durationMode === 'endDate' ? endDate.toISOString() : null,
       totalDays: calculatedTotalDays,
       trackWorkout1: tracking.trackWorkout1,
@@ -255,16 +354,26 @@ export default function ChallengeSetupScreen() {
       stepsGoal: parseInt(goals.stepsGoal, 10) || 10000,
       caloriesGoal: parseInt(goals.caloriesGoal, 10) || 2000,
       caloriesGoalDirection,
+      caloriesGoalMax: parseInt(goals.caloriesGoalMax, 10) || 0,
       weightGoal: parseFloat(goals.weightGoal) || 0,
+      weightGoalDirection,
+      weightGoalMax: parseFloat(goals.weightGoalMax) || 0,
       sleepGoalHours: parseInt(goals.sleepGoalHours, 10) || 8,
       progressPhotoDays: parseInt(goals.progressPhotoDays, 10) || 1,
+      strictMode,
+      requireOutdoorWorkout,
+      workoutSeparationHours: parseFloat(workoutSeparationHours) || 0,
+      workoutMinMinutes: parseInt(workoutMinMinutes, 10) || 0,
+      workoutMergeGapMinutes: parseInt(workoutMergeGapMinutes, 10) || 0,
+      customTasks: serializeCustomTasks(customTasks),
+      goalSchedules: serializeGoalSchedules(goalSchedules),
     };
 
     try {
       if (isEditing && challenge?.$id) {
         await editChallenge(challenge.$id, challengeData);
       } else {
-        await saveChallenge(challengeData);
+        await saveChallenge({ ...challengeData, status: "active", attemptNumber: 1 });
       }
       router.back();
     } catch (err) {
@@ -291,6 +400,13 @@ export default function ChallengeSetupScreen() {
 
       <ScrollView className="flex-1" showsVerticalScrollIndicator={false}>
         <View className="p-4">
+          {/* Templates */}
+          <ChallengeTemplatePicker
+            selectedId={selectedTemplateId}
+            onApply={applyTemplate}
+            getCurrentSettings={getTemplateSettings}
+          />
+
           {/* Start Date */}
           <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm border border-purple-100">
             <Text className="text-sm font-semibold text-purple-700 mb-3">Start Date</Text>
@@ -421,6 +537,29 @@ export default function ChallengeSetupScreen() {
             )}
           </View>
 
+          {/* Rules */}
+          <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm border border-purple-100">
+            <Text className="text-sm font-semibold text-purple-700 mb-4">Rules</Text>
+
+            <View className="flex-row items-center justify-between py-3">
+              <View className="flex-row items-center flex-1">
+                <View className="h-10 w-10 items-center justify-center rounded-full bg-red-100">
+                  <Feather name="shield" size={18} color="#EF4444" />
+                </View>
+                <View className="ml-3 flex-1">
+                  <Text className="text-base font-medium text-gray-900">Strict Mode</Text>
+                  <Text className="text-xs text-gray-500">Miss a task on any day and restart from Day 1</Text>
+                </View>
+              </View>
+              <Switch
+                value={strictMode}
+                onValueChange={setStrictMode}
+                trackColor={{ false: "#E5E7EB", true: "#8B5CF6" }}
+                thumbColor="white"
+              />
+            </View>
+          </View>
+
           {/* Exercise */}
           <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm border border-purple-100">
             <Text className="text-sm font-semibold text-purple-700 mb-4">Exercise</Text>
@@ -478,6 +617,66 @@ export default function ChallengeSetupScreen() {
               />
             </View>
 
+            {/* Workout rules */}
+            {tracking.trackWorkout1 && tracking.trackWorkout2 && (
+              <View className="ml-13 mb-2 bg-gray-50 rounded-lg px-3 py-2">
+                <View className="flex-row items-center justify-between py-1">
+                  <View className="flex-1 mr-3">
+                    <Text className="text-sm text-gray-700">One workout outdoors</Text>
+                    <Text className="text-xs text-gray-500">At least one of the two must be outside</Text>
+                  </View>
+                  <Switch
+                    value={requireOutdoorWorkout}
+                    onValueChange={setRequireOutdoorWorkout}
+                    trackColor={{ false: "#E5E7EB", true: "#8B5CF6" }}
+                    thumbColor="white"
+                  />
+                </View>
+                <View className="flex-row items-center py-2">
+                  <Text className="text-sm text-gray-700 flex-1">Hours between workouts</Text>
+                  <TextInput
+                    value={workoutSeparationHours}
+                    onChangeText={setWorkoutSeparationHours}
+                    keyboardType="decimal-pad"
+                    className="w-12 text-right"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  <Text className="text-sm text-gray-500 ml-1">h</Text>
+                </View>
+                <Text className="text-xs text-gray-400 pb-1">Set to 0 to allow back-to-back workouts</Text>
+              </View>
+            )}
+
+            {/* Apple Health workout assignment */}
+            {(tracking.trackWorkout1 || tracking.trackWorkout2) && (
+              <View className="ml-13 mb-2 bg-gray-50 rounded-lg px-3 py-2">
+                <Text className="text-xs font-semibold text-gray-500 pt-1">Apple Health Sync</Text>
+                <View className="flex-row items-center py-2">
+                  <Text className="text-sm text-gray-700 flex-1">Ignore workouts under</Text>
+                  <TextInput
+                    value={workoutMinMinutes}
+                    onChangeText={setWorkoutMinMinutes}
+                    keyboardType="number-pad"
+                    className="w-12 text-right"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  <Text className="text-sm text-gray-500 ml-1">min</Text>
+                </View>
+                <View className="flex-row items-center py-2">
+                  <Text className="text-sm text-gray-700 flex-1">Merge sessions less than</Text>
+                  <TextInput
+                    value={workoutMergeGapMinutes}
+                    onChangeText={setWorkoutMergeGapMinutes}
+                    keyboardType="number-pad"
+                    className="w-12 text-right"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  <Text className="text-sm text-gray-500 ml-1">min apart</Text>
+                </View>
+                <Text className="text-xs text-gray-400 pb-1">Set merging to 0 to keep back-to-back sessions separate</Text>
+              </View>
+            )}
+
             <View className="h-px bg-gray-100 my-2" />
 
             {/* Steps */}
@@ -538,7 +737,7 @@ export default function ChallengeSetupScreen() {
             {tracking.trackCalories && (
               <>
                 <View className="ml-13 mb-2 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
-                  <Text className="text-sm text-gray-600 mr-2">Goal:</Text>
+                  <Text className="text-sm text-gray-600 mr-2">{caloriesGoalDirection === "range" ? "Min:" : "Goal:"}</Text>
                   <TextInput
                     value={goals.caloriesGoal}
                     onChangeText={(val) => setGoals((prev) => ({ ...prev, caloriesGoal: val }))}
@@ -551,36 +750,38 @@ export default function ChallengeSetupScreen() {
                 <View className="ml-13 mb-2">
                   <Text className="text-xs text-gray-600 mb-2">Goal Type:</Text>
                   <View className="flex-row gap-2">
-                    <Pressable
-                      onPress={() => setCaloriesGoalDirection("below")}
-                      className={`flex-1 py-2 px-3 rounded-lg border ${
-                        caloriesGoalDirection === "below" 
-                          ? "bg-rose-100 border-rose-300" 
-                          : "bg-gray-50 border-gray-200"
-                      }`}
-                    >
-                      <Text className={`text-center text-sm ${
-                        caloriesGoalDirection === "below" ? "text-rose-700 font-semibold" : "text-gray-600"
-                      }`}>
-                        Stay Under
-                      </Text>
-                    </Pressable>
-                    <Pressable
-                      onPress={() => setCaloriesGoalDirection("above")}
-                      className={`flex-1 py-2 px-3 rounded-lg border ${
-                        caloriesGoalDirection === "above" 
-                          ? "bg-rose-100 border-rose-300" 
-                          : "bg-gray-50 border-gray-200"
-                      }`}
-                    >
-                      <Text className={`text-center text-sm ${
-                        caloriesGoalDirection === "above" ? "text-rose-700 font-semibold" : "text-gray-600"
-                      }`}>
-                        Eat At Least
-                      </Text>
-                    </Pressable>
+                    {CALORIE_DIRECTIONS.map((option) => (
+                      <Pressable
+                        key={option.direction}
+                        onPress={() => setCaloriesGoalDirection(option.direction)}
+                        className={`flex-1 py-2 px-3 rounded-lg border ${
+                          caloriesGoalDirection === option.direction 
+                            ? "bg-rose-100 border-rose-300" 
+                            : "bg-gray-50 border-gray-200"
+                        }`}
+                      >
+                        <Text className={`text-center text-sm ${
+                          caloriesGoalDirection === option.direction ? "text-rose-700 font-semibold" : "text-gray-600"
+                        }`}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    ))}
                   </View>
                 </View>
+                {caloriesGoalDirection === "range" && (
+                  <View className="ml-13 mb-2 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
+                    <Text className="text-sm text-gray-600 mr-2">Max:</Text>
+                    <TextInput
+                      value={goals.caloriesGoalMax}
+                      onChangeText={(val) => setGoals((prev) => ({ ...prev, caloriesGoalMax: val }))}
+                      keyboardType="number-pad"
+                      className="flex-1"
+                      style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                    />
+                    <Text className="text-sm text-gray-500">kcal</Text>
+                  </View>
+                )}
               </>
             )}
 
@@ -682,17 +883,54 @@ export default function ChallengeSetupScreen() {
             </View>
 
             {tracking.trackWeight && (
-              <View className="ml-13 mb-2 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
-                <Text className="text-sm text-gray-600 mr-2">Target:</Text>
-                <TextInput
-                  value={goals.weightGoal}
-                  onChangeText={(val) => setGoals((prev) => ({ ...prev, weightGoal: val }))}
-                  keyboardType="decimal-pad"
-                  className="flex-1"
-                  style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
-                />
-                <Text className="text-sm text-gray-500">kg</Text>
-              </View>
+              <>
+                <View className="ml-13 mb-2 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
+                  <Text className="text-sm text-gray-600 mr-2">{weightGoalDirection === "range" ? "Min:" : "Target:"}</Text>
+                  <TextInput
+                    value={goals.weightGoal}
+                    onChangeText={(val) => setGoals((prev) => ({ ...prev, weightGoal: val }))}
+                    keyboardType="decimal-pad"
+                    className="flex-1"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  <Text className="text-sm text-gray-500">kg</Text>
+                </View>
+                <View className="ml-13 mb-2">
+                  <Text className="text-xs text-gray-600 mb-2">Day counts when:</Text>
+                  <View className="flex-row flex-wrap gap-2">
+                    {WEIGHT_DIRECTIONS.map((option) => (
+                      <Pressable
+                        key={option.direction ?? "log"}
+                        onPress={() => setWeightGoalDirection(option.direction)}
+                        className={`py-2 px-3 rounded-lg border ${
+                          weightGoalDirection === option.direction
+                            ? "bg-indigo-100 border-indigo-300"
+                            : "bg-gray-50 border-gray-200"
+                        }`}
+                      >
+                        <Text className={`text-center text-sm ${
+                          weightGoalDirection === option.direction ? "text-indigo-700 font-semibold" : "text-gray-600"
+                        }`}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+                {weightGoalDirection === "range" && (
+                  <View className="ml-13 mb-2 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
+                    <Text className="text-sm text-gray-600 mr-2">Max:</Text>
+                    <TextInput
+                      value={goals.weightGoalMax}
+                      onChangeText={(val) => setGoals((prev) => ({ ...prev, weightGoalMax: val }))}
+                      keyboardType="decimal-pad"
+                      className="flex-1"
+                      style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                    />
+                    <Text className="text-sm text-gray-500">kg</Text>
+                  </View>
+                )}
+              </>
             )}
           </View>
 
@@ -758,6 +996,12 @@ export default function ChallengeSetupScreen() {
             })}
           </View>
 
+          {/* Custom Tasks */}
+          <CustomTaskEditor tasks={customTasks} onChange={setCustomTasks} />
+
+          {/* Goal Schedules */}
+          <GoalScheduleEditor schedules={goalSchedules} goals={scheduledGoals} onChange={setGoalSchedules} />
+
           {/* Health Tracking (Beta) */}
           <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm">
             <View className="flex-row items-center mb-4">
@@ -793,6 +1037,11 @@ export default function ChallengeSetupScreen() {
 
       {/* Save Button */}
       <View className="p-4 bg-white border-t border-gray-100">
+        {isEditing && (
+          <Text className="text-xs text-gray-500 text-center mb-3">
+            Goal changes apply from today. Past days keep the goals they had.
+          </Text>
+        )}
         <Pressable
           onPress={handleSave}
           disabled={isLoading}
@@ -1,7 +1,13 @@
 import { useTodayCycleLog } from "@/hooks/useCycleLog";
+import { CUSTOM_TASK_STATUS_PREFIX, describeCustomTaskGoal, getCustomTasks, getCustomTaskValue, isCustomTaskComplete } from "@/lib/customTasks";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { describeTarget, describeTargetOffset, getCalorieTarget, getWeightTarget, isCalorieGoalMet, isOnTarget } from "@/lib/goalTargets";
+import { assignWorkoutsToSlots, parseWorkoutOverrides } from "@/lib/workoutAssignment";
+import { getWorkoutRuleStatuses, WorkoutRuleStatus } from "@/lib/workoutRules";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useHealthStore } from "@/store/useHealthStore";
-import type { DailyLog } from "@/types/type";
+import type { CustomTask, DailyLog } from "@/types/type";
 import { Feather } from "@expo/vector-icons";
 import { router } from "expo-router";
 import { useEffect, useRef, useState } from "react";
@@ -15,18 +21,21 @@ type TaskItem = {
   icon: keyof typeof Feather.glyphMap;
   isHealthTracked?: boolean; // True for tasks that sync from Apple Health on iOS
   route?: string; // Route to navigate to when tapped
+  customTask?: CustomTask; // Set for user-defined tasks
+  workoutRule?: WorkoutRuleStatus; // Set for workout rules (outdoor, separation)
   healthData?: {
     current: number;
     goal: number;
     unit: string;
     autoComplete?: boolean;
     color?: string; // Progress bar color when incomplete
+    offTarget?: string; // How far off a target band the value is, e.g. "320 kcal over"
   };
 };
 
 export default function DailyLogScreen() {
   const [connectingHealth, setConnectingHealth] = useState(false);
-  const lastSyncedRef = useRef<{ steps: number; outdoorMinutes: number; totalMinutes: number } | null>(null);
+  const lastSyncedRef = useRef<{ steps: number; workout1Minutes: number; workout2Minutes: number } | null>(null);
   const { challenge, todayLog, toggleTask, updateProgress } = useChallengeStore();
   const { hasLoggedToday: cycleLoggedToday } = useTodayCycleLog();
   const { 
@@ -38,8 +47,6 @@ export default function DailyLogScreen() {
     isLoading: healthLoading,
     initialize: initHealth,
     fetchTodayData,
-    getOutdoorWorkoutMinutes,
-    getTotalWorkoutMinutes,
   } = useHealthStore();
 
   // Initialize health and fetch data (only if native module is available)
@@ -61,15 +68,19 @@ export default function DailyLogScreen() {
 
   // Sync health data to daily log when it changes
   useEffect(() => {
-    if (isAuthorized && todayLog && challenge && getOutdoorWorkoutMinutes && getTotalWorkoutMinutes) {
-      const outdoorMinutes = getOutdoorWorkoutMinutes();
-      const totalMinutes = getTotalWorkoutMinutes();
+    if (isAuthorized && todayLog && challenge) {
+      // Same slot assignment as a resync, so manual overrides aren't clobbered
+      const overrides = parseWorkoutOverrides(todayLog);
+      const assignment = assignWorkoutsToSlots(workouts, challenge, overrides);
+      const workout1Minutes = Math.round(assignment.workout1?.duration ?? 0);
+      const workout2Minutes = Math.round(assignment.workout2?.duration ?? 0);
+      const goals = getGoalsForDate(challenge, todayLog.date);
 
       // Check if values have actually changed since last sync
       if (lastSyncedRef.current &&
           lastSyncedRef.current.steps === steps &&
-          lastSyncedRef.current.outdoorMinutes === outdoorMinutes &&
-          lastSyncedRef.current.totalMinutes === totalMinutes) {
+          lastSyncedRef.current.workout1Minutes === workout1Minutes &&
+          lastSyncedRef.current.workout2Minutes === workout2Minutes) {
         return; // No changes, skip update
       }
 
@@ -78,35 +89,28 @@ export default function DailyLogScreen() {
       // Update steps
       if (challenge.trackSteps && steps !== todayLog.stepsCount) {
         progressUpdate.stepsCount = steps;
-        progressUpdate.stepsCompleted = steps >= challenge.stepsGoal;
+        progressUpdate.stepsCompleted = steps >= goals.stepsGoal;
       }
 
-      // Update workout 1 (outdoor)
-      if (challenge.trackWorkout1 && outdoorMinutes !== todayLog.workout1Minutes) {
-        progressUpdate.workout1Minutes = outdoorMinutes;
-        progressUpdate.workout1Completed = outdoorMinutes >= challenge.workoutMinutes;
+      // Update workouts, skipping slots the user keeps for manual entries
+      if (challenge.trackWorkout1 && overrides.workout1?.length !== 0 && workout1Minutes !== todayLog.workout1Minutes) {
+        progressUpdate.workout1Minutes = workout1Minutes;
+        progressUpdate.workout1Completed = workout1Minutes >= goals.workoutMinutes;
       }
-
-      // Update workout 2 (total - outdoor)
-      if (challenge.trackWorkout2) {
-        const secondWorkoutMinutes = Math.max(0, totalMinutes - challenge.workoutMinutes);
-        if (secondWorkoutMinutes !== todayLog.workout2Minutes) {
-          progressUpdate.workout2Minutes = secondWorkoutMinutes;
-          progressUpdate.workout2Completed = totalMinutes >= challenge.workoutMinutes * 2;
-        }
+      if (challenge.trackWorkout2 && overrides.workout2?.length !== 0 && workout2Minutes !== todayLog.workout2Minutes) {
+        progressUpdate.workout2Minutes = workout2Minutes;
+        progressUpdate.workout2Completed = workout2Minutes >= goals.workoutMinutes;
       }
 
+      // Update ref before calling updateProgress to prevent re-triggering
+      lastSyncedRef.current = { steps, workout1Minutes, workout2Minutes };
+
       // Only update if there are changes
       if (Object.keys(progressUpdate).length > 0) {
-        // Update ref before calling updateProgress to prevent re-triggering
-        lastSyncedRef.current = { steps, outdoorMinutes, totalMinutes };
         updateProgress(progressUpdate);
-      } else {
-        // Still update ref even if no progress update to prevent checking again
-        lastSyncedRef.current = { steps, outdoorMinutes, totalMinutes };
       }
     }
-  }, [steps, isAuthorized, todayLog?.$id, challenge?.$id, getOutdoorWorkoutMinutes, getTotalWorkoutMinutes, updateProgress]);
+  }, [steps, workouts, isAuthorized, todayLog?.$id, todayLog?.workoutOverrides, challenge?.$id, updateProgress]);
 
   if (!challenge || !todayLog) {
     return (
@@ -123,29 +127,26 @@ export default function DailyLogScreen() {
   }
 
   // Calculate current day
-  const startDate = new Date(challenge.startDate);
-  startDate.setHours(0, 0, 0, 0);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const daysPassed = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  const daysPassed = getChallengeDayNumber(challenge.startDate);
   const currentDay = Math.min(Math.max(daysPassed, 1), challenge.totalDays);
+  const goals = getGoalsForDate(challenge, todayLog.date);
 
   // Build task list based on challenge settings
   const tasks: TaskItem[] = [];
 
   if (challenge.trackWorkout1) {
     const currentMinutes = todayLog.workout1Minutes ?? 0;
-    const meetsGoal = currentMinutes >= challenge.workoutMinutes;
+    const meetsGoal = currentMinutes >= goals.workoutMinutes;
     tasks.push({
       key: "workout1Completed",
       label: "Workout 1",
-      description: `${challenge.workoutMinutes}+ minutes exercise`,
+      description: `${goals.workoutMinutes}+ minutes exercise`,
       icon: "sun",
       route: "/log-workout?workout=1",
       isHealthTracked: Platform.OS === "ios",
       healthData: isAuthorized ? {
         current: currentMinutes,
-        goal: challenge.workoutMinutes,
+        goal: goals.workoutMinutes,
         unit: "min",
         autoComplete: meetsGoal,
         color: "#F97316", // Orange for workout 1
@@ -156,17 +157,17 @@ export default function DailyLogScreen() {
   if (challenge.trackWorkout2) {
     // Workout 2
     const currentMinutes = todayLog.workout2Minutes ?? 0;
-    const meetsGoal = currentMinutes >= challenge.workoutMinutes;
+    const meetsGoal = currentMinutes >= goals.workoutMinutes;
     tasks.push({
       key: "workout2Completed",
       label: "Workout 2",
-      description: `${challenge.workoutMinutes}+ minutes exercise`,
+      description: `${goals.workoutMinutes}+ minutes exercise`,
       icon: "activity",
       route: "/log-workout?workout=2",
       isHealthTracked: Platform.OS === "ios",
       healthData: isAuthorized ? {
         current: currentMinutes,
-        goal: challenge.workoutMinutes,
+        goal: goals.workoutMinutes,
         unit: "min",
         autoComplete: meetsGoal,
         color: "#EF4444", // Red for workout 2
@@ -174,6 +175,18 @@ export default function DailyLogScreen() {
     });
   }
 
+  // Workout rules - explain what's missing when a rule isn't met
+  getWorkoutRuleStatuses(challenge, todayLog).forEach((workoutRule) => {
+    tasks.push({
+      key: workoutRule.id as keyof DailyLog,
+      label: workoutRule.label,
+      description: workoutRule.explanation ?? "Rule met",
+      icon: workoutRule.id === "workout_outdoor" ? "sun" : "clock",
+      route: "/log-workout?workout=2",
+      workoutRule,
+    });
+  });
+
   if (challenge.trackDiet) {
     tasks.push({
       key: "dietCompleted",
@@ -185,7 +198,7 @@ export default function DailyLogScreen() {
   }
 
   if (challenge.trackWater) {
-    const waterGoal = challenge.waterLiters;
+    const waterGoal = goals.waterLiters;
     const waterCurrent = todayLog.waterLiters ?? 0;
     const meetsGoal = waterCurrent >= waterGoal;
     tasks.push({
@@ -211,7 +224,7 @@ export default function DailyLogScreen() {
     tasks.push({
       key: "readingCompleted",
       label: "Read",
-      description: `Read ${challenge.readingPages}+ pages of non-fiction`,
+      description: `Read ${goals.readingPages}+ pages of non-fiction`,
       icon: "book-open",
       route: "/log-reading",
     });
@@ -238,10 +251,18 @@ export default function DailyLogScreen() {
   }
 
   if (challenge.trackWeight) {
+    const weightTarget = getWeightTarget(goals);
+    const weight = todayLog.currentWeight ?? 0;
+    let description = todayLog.weightLogged ? `${weight} kg logged` : "Log today's weight";
+    if (weightTarget) {
+      description = todayLog.weightLogged && weight > 0
+        ? `${weight} kg • ${describeTargetOffset(weight, weightTarget, "kg")}`
+        : `Target: ${describeTarget(weightTarget, "kg")}`;
+    }
     tasks.push({
       key: "weightLogged",
       label: "Log Weight",
-      description: todayLog.weightLogged ? `${todayLog.currentWeight} kg logged` : "Log today's weight",
+      description,
       icon: "trending-down",
       route: "/log-weight",
       isHealthTracked: Platform.OS === "ios",
@@ -249,24 +270,21 @@ export default function DailyLogScreen() {
   }
 
   if (challenge.trackCalories) {
-    const direction = (challenge as any).caloriesGoalDirection ?? "below";
-    const meetsGoal = direction === "below" 
-      ? (todayLog.caloriesConsumed ?? 0) <= challenge.caloriesGoal && (todayLog.caloriesConsumed ?? 0) > 0
-      : (todayLog.caloriesConsumed ?? 0) >= challenge.caloriesGoal;
+    const calorieTarget = getCalorieTarget(goals);
+    const calories = todayLog.caloriesConsumed ?? 0;
     tasks.push({
       key: "caloriesConsumed" as keyof DailyLog,
       label: "Track Calories",
-      description: direction === "below" 
-        ? `Stay under ${challenge.caloriesGoal} kcal` 
-        : `Eat at least ${challenge.caloriesGoal} kcal`,
+      description: `Goal: ${describeTarget(calorieTarget, "kcal")}`,
       icon: "bar-chart-2",
       route: "/log-calories",
       isHealthTracked: Platform.OS === "ios",
-      healthData: (todayLog.caloriesConsumed ?? 0) > 0 ? {
-        current: todayLog.caloriesConsumed ?? 0,
-        goal: challenge.caloriesGoal,
+      healthData: calories > 0 ? {
+        current: calories,
+        goal: calorieTarget.max ?? calorieTarget.min ?? goals.caloriesGoal,
         unit: "kcal",
-        autoComplete: meetsGoal,
+        autoComplete: isCalorieGoalMet(calories, goals),
+        offTarget: describeTargetOffset(calories, calorieTarget, "kcal"),
       } : undefined,
     });
   }
@@ -326,25 +344,51 @@ export default function DailyLogScreen() {
   }
 
   if (challenge.trackSteps) {
-    const meetsGoal = steps >= challenge.stepsGoal;
+    const meetsGoal = steps >= goals.stepsGoal;
     tasks.push({
       key: "stepsCompleted",
       label: "Daily Steps",
-      description: `Hit ${challenge.stepsGoal.toLocaleString()} steps`,
+      description: `Hit ${goals.stepsGoal.toLocaleString()} steps`,
       icon: "trending-up",
       route: "/log-steps",
       isHealthTracked: Platform.OS === "ios",
       healthData: isAuthorized ? {
         current: steps,
-        goal: challenge.stepsGoal,
+        goal: goals.stepsGoal,
         unit: "steps",
         autoComplete: meetsGoal,
       } : undefined,
     });
   }
 
+  getCustomTasks(challenge).forEach((customTask) => {
+    const value = getCustomTaskValue(todayLog, customTask.id);
+    const hasGoal = customTask.type !== "checkbox" && (customTask.goal ?? 0) > 0;
+    tasks.push({
+      key: `${CUSTOM_TASK_STATUS_PREFIX}${customTask.id}` as keyof DailyLog,
+      label: customTask.name,
+      description: describeCustomTaskGoal(customTask),
+      icon: customTask.icon as keyof typeof Feather.glyphMap,
+      route: `/log-custom-task?taskId=${customTask.id}`,
+      customTask,
+      healthData: hasGoal && value !== undefined ? {
+        current: value,
+        goal: customTask.goal ?? 0,
+        unit: customTask.unit ?? "",
+        autoComplete: isCustomTaskComplete(customTask, value),
+        color: customTask.goalDirection === "at_most" ? "#EF4444" : "#8B5CF6",
+      } : undefined,
+    });
+  });
+
   // Calculate completion - use health data auto-complete or manual toggle
   const getTaskCompleted = (task: TaskItem): boolean => {
+    if (task.customTask) {
+      return isCustomTaskComplete(task.customTask, getCustomTaskValue(todayLog, task.customTask.id));
+    }
+    if (task.workoutRule) {
+      return task.workoutRule.completed;
+    }
     if (task.healthData?.autoComplete) {
       return true;
     }
@@ -354,17 +398,17 @@ export default function DailyLogScreen() {
     }
     if (task.key === "caloriesConsumed") {
       const calories = todayLog.caloriesConsumed ?? 0;
-      if (calories === 0) return false;
-      const direction = (challenge as any).caloriesGoalDirection ?? "below";
-      const goal = challenge.caloriesGoal;
-      return direction === "below" ? calories <= goal : calories >= goal;
+      return isCalorieGoalMet(calories, goals);
     }
     if (task.key === "cycleLogged") {
       // Check if cycle was logged today from separate collection
       return cycleLoggedToday;
     }
     if (task.key === "weightLogged") {
-      return todayLog.weightLogged === true || (todayLog.currentWeight ?? 0) > 0;
+      const weight = todayLog.currentWeight ?? 0;
+      const weightTarget = getWeightTarget(goals);
+      if (weightTarget) return weight > 0 && isOnTarget(weight, weightTarget);
+      return todayLog.weightLogged === true || weight > 0;
     }
     if (task.key === "sleepLogged") {
       const sleepGoalMinutes = ((challenge as any).sleepGoalHours ?? 8) * 60;
@@ -569,6 +613,11 @@ export default function DailyLogScreen() {
                             {task.healthData.current.toLocaleString()}/{task.healthData.goal.toLocaleString()}
                           </Text>
                         </View>
+                        {task.healthData.offTarget && (
+                          <Text className={`text-xs mt-0.5 ${isCompleted ? "text-green-500" : "text-rose-500"}`}>
+                            {task.healthData.offTarget}
+                          </Text>
+                        )}
                       </View>
                     )}
                     
@@ -24,6 +24,7 @@ export default function EditProfileScreen() {
   const [firstName, setFirstName] = useState("");
   const [lastName, setLastName] = useState("");
   const [email, setEmail] = useState("");
+  const [height, setHeight] = useState("");
   const [profileId, setProfileId] = useState("");
   
   // Password fields
@@ -48,6 +49,7 @@ export default function EditProfileScreen() {
         setFirstName(profile.firstName || "");
         setLastName(profile.lastName || "");
         setEmail(profile.email || user.email || "");
+        setHeight(profile.heightCm ? String(profile.heightCm) : "");
         setProfileId(profile.$id || "");
       }
     } catch (err) {
@@ -64,11 +66,18 @@ export default function EditProfileScreen() {
       return;
     }
 
+    const heightCm = height.trim() ? parseFloat(height) : 0;
+    if (isNaN(heightCm) || (heightCm !== 0 && (heightCm < 50 || heightCm > 272))) {
+      Alert.alert("Error", "Please enter a height between 50 and 272 cm");
+      return;
+    }
+
     setLoading(true);
     try {
       await updateUserProfile(profileId, {
         firstName: firstName.trim(),
         lastName: lastName.trim(),
+        heightCm,
       });
       
       Alert.alert("Success", "Profile updated successfully");
@@ -184,6 +193,18 @@ export default function EditProfileScreen() {
               />
             </View>
 
+            <View className="mb-4">
+              <Text className="text-sm font-medium text-gray-700 mb-2">Height (cm)</Text>
+              <TextInput
+                value={height}
+                onChangeText={text => setHeight(text.replace(/[^0-9.]/g, ""))}
+                placeholder="e.g. 175"
+                keyboardType="decimal-pad"
+                className="bg-gray-50 border border-gray-200 rounded-lg px-4 py-3 text-base text-gray-900"
+              />
+              <Text className="text-xs text-gray-400 mt-1">Optional - used to show your BMI in weight trends</Text>
+            </View>
+
             <View>
               <Text className="text-sm font-medium text-gray-700 mb-2">Email</Text>
               <TextInput
@@ -0,0 +1,339 @@
+import { getChallengeEndDate } from "@/lib/challengeStats";
+import { getChallengeDayNumber, getTodayDate, toDayKey } from "@/lib/dayBoundary";
+import { HEALTH_RESYNC_CATEGORIES, HealthResyncChange, HealthResyncPlan, planHealthResync } from "@/lib/healthResync";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { Feather } from "@expo/vector-icons";
+import { eachDayOfInterval, format, isAfter, max, min, parseISO, subDays } from "date-fns";
+import { router } from "expo-router";
+import { useRef, useState } from "react";
+import { ActivityIndicator, Platform, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type RangeId = "week" | "month" | "challenge";
+
+const RANGES: { id: RangeId; label: string; days?: number }[] = [
+  { id: "week", label: "Last 7 days", days: 7 },
+  { id: "month", label: "Last 30 days", days: 30 },
+  { id: "challenge", label: "Whole challenge" },
+];
+
+type Phase = "idle" | "scanning" | "review" | "applying" | "done";
+
+const changeKey = (plan: HealthResyncPlan, change: HealthResyncChange) => `${plan.date}:${change.category}`;
+
+function ProgressBar({ current, total }: { current: number; total: number }) {
+  const percent = total > 0 ? Math.round((current / total) * 100) : 0;
+  return (
+    <View className="h-2 bg-purple-100 rounded-full overflow-hidden">
+      <View className="h-2 bg-purple-500 rounded-full" style={{ width: `${percent}%` }} />
+    </View>
+  );
+}
+
+export default function HealthResyncScreen() {
+  const { challenge, allLogs, applyHealthResync, fetchAllLogs, fetchActivityLogs } = useChallengeStore();
+  const [range, setRange] = useState<RangeId>("week");
+  const [phase, setPhase] = useState<Phase>("idle");
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [plans, setPlans] = useState<HealthResyncPlan[]>([]);
+  const [rejected, setRejected] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<string[]>([]);
+  const [cancelled, setCancelled] = useState(false);
+  const [appliedCount, setAppliedCount] = useState(0);
+  const cancelRef = useRef(false);
+
+  // Days in the chosen range, clipped to the challenge and today
+  const getRangeDates = (): Date[] => {
+    if (!challenge) return [];
+    const today = getTodayDate();
+    const challengeStart = parseISO(challenge.startDate);
+    const end = min([today, getChallengeEndDate(challenge)]);
+    const days = RANGES.find(r => r.id === range)?.days;
+    const start = days ? max([challengeStart, subDays(today, days - 1)]) : challengeStart;
+    if (isAfter(start, end)) return [];
+    return eachDayOfInterval({ start, end });
+  };
+
+  const handleCancel = () => {
+    cancelRef.current = true;
+    setCancelled(true);
+  };
+
+  const handleScan = async () => {
+    if (!challenge?.$id) return;
+    const dates = getRangeDates();
+    cancelRef.current = false;
+    setCancelled(false);
+    setPlans([]);
+    setRejected({});
+    setErrors([]);
+    setProgress({ current: 0, total: dates.length });
+    setPhase("scanning");
+
+    const found: HealthResyncPlan[] = [];
+    for (let i = 0; i < dates.length; i++) {
+      if (cancelRef.current) break;
+      const dayKey = toDayKey(dates[i]);
+      const log = allLogs.find(l => format(parseISO(l.date), "yyyy-MM-dd") === dayKey) ?? null;
+      try {
+        const plan = await planHealthResync(challenge, dates[i], log);
+        const changes = plan.changes.filter(change => change.changed);
+        if (changes.length > 0) {
+          found.push({ ...plan, changes });
+          setPlans([...found]);
+        }
+      } catch (err) {
+        console.error(`Failed to preview resync for ${dayKey}:`, err);
+        setErrors(prev => [...prev, `${format(dates[i], "MMM d")}: ${err instanceof Error ? err.message : "Unknown error"}`]);
+      }
+      setProgress({ current: i + 1, total: dates.length });
+    }
+
+    setPhase("review");
+  };
+
+  const toggleChange = (key: string) => {
+    setRejected(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const setAllAccepted = (accepted: boolean) => {
+    const next: Record<string, boolean> = {};
+    if (!accepted) {
+      plans.forEach(plan => plan.changes.forEach(change => { next[changeKey(plan, change)] = true; }));
+    }
+    setRejected(next);
+  };
+
+  const acceptedCount = plans.reduce(
+    (sum, plan) => sum + plan.changes.filter(change => !rejected[changeKey(plan, change)]).length,
+    0
+  );
+
+  const handleApply = async () => {
+    if (!challenge?.$id) return;
+    const toApply = plans
+      .map(plan => ({ plan, changes: plan.changes.filter(change => !rejected[changeKey(plan, change)]) }))
+      .filter(({ changes }) => changes.length > 0);
+
+    cancelRef.current = false;
+    setCancelled(false);
+    setErrors([]);
+    setProgress({ current: 0, total: toApply.length });
+    setPhase("applying");
+
+    let applied = 0;
+    for (let i = 0; i < toApply.length; i++) {
+      if (cancelRef.current) break;
+      const { plan, changes } = toApply[i];
+      try {
+        await applyHealthResync(plan, changes);
+        applied += changes.length;
+      } catch (err) {
+        console.error(`Failed to apply resync for ${plan.date}:`, err);
+        setErrors(prev => [...prev, `${format(parseISO(plan.date), "MMM d")}: ${err instanceof Error ? err.message : "Unknown error"}`]);
+      }
+      setProgress({ current: i + 1, total: toApply.length });
+    }
+
+    try {
+      await Promise.all([fetchAllLogs(challenge.$id), fetchActivityLogs(challenge.$id, true)]);
+    } catch (err) {
+      console.error("Failed to refresh logs after resync:", err);
+    }
+
+    setAppliedCount(applied);
+    setPhase("done");
+  };
+
+  const busy = phase === "scanning" || phase === "applying";
+
+  return (
+    <SafeAreaView className="flex-1 bg-purple-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-purple-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          disabled={busy}
+          className="h-10 w-10 items-center justify-center rounded-full bg-purple-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#8B5CF6" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900 flex-1">Resync Apple Health</Text>
+      </View>
+
+      {Platform.OS !== "ios" || !challenge ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <View className="h-20 w-20 items-center justify-center rounded-full bg-purple-100 mb-4">
+            <Feather name="heart" size={40} color="#8B5CF6" />
+          </View>
+          <Text className="text-sm text-gray-500 text-center">
+            {challenge ? "Resync is only available on iOS with Apple Health." : "Start a challenge to resync health data."}
+          </Text>
+        </View>
+      ) : (
+        <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+          {/* Range */}
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+            <Text className="text-sm font-semibold text-purple-700 mb-3">Date Range</Text>
+            <View className="flex-row gap-2">
+              {RANGES.map(option => (
+                <Pressable
+                  key={option.id}
+                  onPress={() => setRange(option.id)}
+                  disabled={busy}
+                  className={`flex-1 py-2 rounded-xl items-center ${range === option.id ? "bg-purple-500" : "bg-purple-50"}`}
+                >
+                  <Text className={`text-xs font-semibold ${range === option.id ? "text-white" : "text-purple-700"}`}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text className="text-xs text-gray-500 mt-3">
+              Nothing is changed until you review and apply the differences.
+            </Text>
+          </View>
+
+          {/* Progress */}
+          {busy && (
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <View className="flex-row items-center justify-between mb-3">
+                <View className="flex-row items-center">
+                  <ActivityIndicator size="small" color="#8B5CF6" />
+                  <Text className="text-sm font-semibold text-gray-800 ml-2">
+                    {phase === "scanning" ? "Checking" : "Applying"} day {Math.min(progress.current + 1, progress.total)} of {progress.total}
+                  </Text>
+                </View>
+                <Pressable onPress={handleCancel} disabled={cancelled}>
+                  <Text className="text-sm font-semibold text-red-500">{cancelled ? "Stopping..." : "Cancel"}</Text>
+                </Pressable>
+              </View>
+              <ProgressBar current={progress.current} total={progress.total} />
+            </View>
+          )}
+
+          {/* Summary */}
+          {phase === "review" && (
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-800">
+                {plans.length === 0
+                  ? "Everything already matches Apple Health"
+                  : `${plans.length} day${plans.length !== 1 ? "s" : ""} with changes`}
+              </Text>
+              {cancelled && (
+                <Text className="text-xs text-amber-600 mt-1">
+                  Stopped after {progress.current} of {progress.total} days
+                </Text>
+              )}
+              {plans.length > 0 && (
+                <View className="flex-row gap-4 mt-3">
+                  <Pressable onPress={() => setAllAccepted(true)}>
+                    <Text className="text-sm font-semibold text-purple-600">Accept all</Text>
+                  </Pressable>
+                  <Pressable onPress={() => setAllAccepted(false)}>
+                    <Text className="text-sm font-semibold text-gray-500">Reject all</Text>
+                  </Pressable>
+                </View>
+              )}
+            </View>
+          )}
+
+          {phase === "done" && (
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4 flex-row items-center">
+              <Feather name="check-circle" size={20} color="#22C55E" />
+              <View className="ml-3 flex-1">
+                <Text className="text-sm font-semibold text-gray-800">
+                  Applied {appliedCount} change{appliedCount !== 1 ? "s" : ""}
+                </Text>
+                {cancelled && (
+                  <Text className="text-xs text-amber-600 mt-0.5">
+                    Stopped after {progress.current} of {progress.total} days
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+
+          {errors.length > 0 && (
+            <View className="bg-red-50 rounded-2xl p-4 mb-4">
+              <Text className="text-sm font-semibold text-red-700 mb-1">Some days failed</Text>
+              {errors.map(error => (
+                <Text key={error} className="text-xs text-red-600">{error}</Text>
+              ))}
+            </View>
+          )}
+
+          {/* Per-day diffs */}
+          {(phase === "scanning" || phase === "review") && plans.map(plan => {
+            const date = parseISO(plan.date);
+            return (
+              <View key={plan.date} className="bg-white rounded-2xl p-4 shadow-sm mb-3">
+                <View className="flex-row items-center justify-between mb-2">
+                  <Text className="text-sm font-semibold text-gray-900">{format(date, "EEE, MMM d")}</Text>
+                  <Text className="text-xs text-gray-400">
+                    Day {getChallengeDayNumber(challenge.startDate, plan.date)}{!plan.log ? " • new log" : ""}
+                  </Text>
+                </View>
+                {plan.changes.map(change => {
+                  const key = changeKey(plan, change);
+                  const accepted = !rejected[key];
+                  const category = HEALTH_RESYNC_CATEGORIES.find(c => c.id === change.category)!;
+                  return (
+                    <Pressable
+                      key={key}
+                      onPress={() => toggleChange(key)}
+                      disabled={phase !== "review"}
+                      className="flex-row items-center py-2 border-t border-gray-100"
+                    >
+                      <Feather name={category.icon as keyof typeof Feather.glyphMap} size={16} color={category.color} />
+                      <View className="ml-3 flex-1">
+                        <Text className="text-sm font-medium text-gray-800">{category.label}</Text>
+                        <Text className="text-xs text-gray-500">
+                          {change.before} → <Text className="font-semibold text-gray-700">{change.after}</Text>
+                        </Text>
+                      </View>
+                      <Feather
+                        name={accepted ? "check-square" : "square"}
+                        size={20}
+                        color={accepted ? "#8B5CF6" : "#9CA3AF"}
+                      />
+                    </Pressable>
+                  );
+                })}
+              </View>
+            );
+          })}
+
+          <View className="h-8" />
+        </ScrollView>
+      )}
+
+      {/* Actions */}
+      {Platform.OS === "ios" && challenge && !busy && (
+        <View className="bg-white px-4 py-3 border-t border-purple-100">
+          {phase === "review" && plans.length > 0 ? (
+            <Pressable
+              onPress={handleApply}
+              disabled={acceptedCount === 0}
+              className={`rounded-full py-3 items-center ${acceptedCount > 0 ? "bg-purple-500" : "bg-gray-200"}`}
+            >
+              <Text className={`text-base font-semibold ${acceptedCount > 0 ? "text-white" : "text-gray-400"}`}>
+                Apply {acceptedCount} change{acceptedCount !== 1 ? "s" : ""}
+              </Text>
+            </Pressable>
+          ) : phase === "done" ? (
+            <Pressable onPress={() => router.back()} className="rounded-full py-3 items-center bg-purple-500">
+              <Text className="text-base font-semibold text-white">Done</Text>
+            </Pressable>
+          ) : (
+            <Pressable onPress={handleScan} className="rounded-full py-3 items-center bg-purple-500">
+              <Text className="text-base font-semibold text-white">
+                {phase === "review" ? "Check Again" : "Preview Changes"}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,338 @@
+import {
+    buildImportRows,
+    ColumnMapping,
+    guessColumnMapping,
+    IMPORT_DATE_FORMATS,
+    IMPORT_FIELDS,
+    ImportDateFormat,
+    importDailyLogs,
+    parseCsv,
+} from "@/lib/csvImport";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import type { DailyLog } from "@/types/type";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import * as DocumentPicker from "expo-document-picker";
+import { File } from "expo-file-system";
+import { router } from "expo-router";
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type Phase = "pick" | "map" | "preview" | "importing" | "done";
+
+// Rows shown in the preview before "Show all"
+const PREVIEW_LIMIT = 20;
+
+function ProgressBar({ current, total }: { current: number; total: number }) {
+  const percent = total > 0 ? Math.round((current / total) * 100) : 0;
+  return (
+    <View className="h-2 bg-purple-100 rounded-full overflow-hidden">
+      <View className="h-2 bg-purple-500 rounded-full" style={{ width: `${percent}%` }} />
+    </View>
+  );
+}
+
+export default function ImportLogsScreen() {
+  const { challenge, allLogs, fetchAllLogs, fetchTodayLog } = useChallengeStore();
+  const [phase, setPhase] = useState<Phase>("pick");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [dateFormat, setDateFormat] = useState<ImportDateFormat>("yyyy-MM-dd");
+  const [showAll, setShowAll] = useState(false);
+  const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [result, setResult] = useState({ created: 0, updated: 0, failed: 0 });
+
+  const headers = rows[0] ?? [];
+
+  const importRows = useMemo(
+    () => (challenge && phase !== "pick" ? buildImportRows(rows, mapping, dateFormat, challenge, allLogs) : []),
+    [challenge, phase, rows, mapping, dateFormat, allLogs]
+  );
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const mergeCount = validRows.filter(row => row.existing).length;
+  const invalidCount = importRows.length - validRows.length;
+
+  const handlePickFile = async () => {
+    try {
+      const picked = await DocumentPicker.getDocumentAsync({
+        type: ["text/csv", "text/comma-separated-values", "text/plain", "public.comma-separated-values-text"],
+        copyToCacheDirectory: true,
+      });
+      if (picked.canceled || !picked.assets?.[0]) return;
+
+      const asset = picked.assets[0];
+      const parsed = parseCsv(await new File(asset.uri).text());
+      if (parsed.length < 2) {
+        Alert.alert("Nothing to Import", "The file needs a header row and at least one row of data.");
+        return;
+      }
+
+      // Make sure we compare against every existing log, not just what's cached
+      if (challenge?.$id) await fetchAllLogs(challenge.$id);
+
+      setFileName(asset.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0]));
+      setPhase("map");
+    } catch (err) {
+      console.error("Failed to read CSV:", err);
+      Alert.alert("Error", "Couldn't read that file. Make sure it's a CSV.");
+    }
+  };
+
+  const setColumnField = (column: number, key: keyof DailyLog | null) => {
+    setMapping(prev =>
+      prev.map((current, index) => {
+        if (index === column) return key;
+        // A field can only come from one column
+        return key && current === key ? null : current;
+      })
+    );
+  };
+
+  const handleImport = async () => {
+    if (!challenge?.$id) return;
+    setPhase("importing");
+    setProgress({ current: 0, total: validRows.length });
+    const imported = await importDailyLogs(challenge, importRows, (current, total) => setProgress({ current, total }));
+    setResult(imported);
+
+    try {
+      await Promise.all([fetchAllLogs(challenge.$id), fetchTodayLog(challenge.$id)]);
+    } catch (err) {
+      console.error("Failed to refresh logs after import:", err);
+    }
+    setPhase("done");
+  };
+
+  const displayedRows = showAll ? importRows : importRows.slice(0, PREVIEW_LIMIT);
+
+  return (
+    <SafeAreaView className="flex-1 bg-purple-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-purple-100 flex-row items-center">
+        <Pressable
+          onPress={() => (phase === "map" ? setPhase("pick") : phase === "preview" ? setPhase("map") : router.back())}
+          disabled={phase === "importing"}
+          className="h-10 w-10 items-center justify-center rounded-full bg-purple-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#8B5CF6" />
+        </Pressable>
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-gray-900">Import Logs</Text>
+          {!!fileName && phase !== "pick" && (
+            <Text className="text-xs text-gray-500" numberOfLines={1}>{fileName}</Text>
+          )}
+        </View>
+      </View>
+
+      {!challenge ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <Text className="text-sm text-gray-500 text-center">Start a challenge to import logs into it.</Text>
+        </View>
+      ) : (
+        <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+          {phase === "pick" && (
+            <View className="bg-white rounded-2xl p-6 shadow-sm items-center">
+              <View className="h-16 w-16 items-center justify-center rounded-full bg-purple-100 mb-4">
+                <Feather name="upload" size={28} color="#8B5CF6" />
+              </View>
+              <Text className="text-base font-semibold text-gray-900 mb-2">Import from a CSV file</Text>
+              <Text className="text-sm text-gray-500 text-center">
+                Bring in history from another habit tracker or a spreadsheet. The first row should be column
+                headers and each row after it one day. You&apos;ll choose what each column means and preview
+                the result before anything is saved.
+              </Text>
+            </View>
+          )}
+
+          {phase === "map" && (
+            <>
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <Text className="text-sm font-semibold text-purple-700 mb-3">Date Format</Text>
+                <View className="flex-row gap-2">
+                  {IMPORT_DATE_FORMATS.map(option => (
+                    <Pressable
+                      key={option.id}
+                      onPress={() => setDateFormat(option.id)}
+                      className={`flex-1 py-2 rounded-xl items-center ${dateFormat === option.id ? "bg-purple-500" : "bg-purple-50"}`}
+                    >
+                      <Text className={`text-xs font-semibold ${dateFormat === option.id ? "text-white" : "text-purple-700"}`}>
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+
+              <Text className="text-sm font-semibold text-purple-700 mb-3 ml-1">Columns</Text>
+              {headers.map((header, column) => (
+                <View key={`${header}-${column}`} className="bg-white rounded-2xl p-4 shadow-sm mb-3">
+                  <View className="flex-row items-center justify-between mb-2">
+                    <Text className="text-sm font-semibold text-gray-900 flex-1" numberOfLines={1}>
+                      {header || `Column ${column + 1}`}
+                    </Text>
+                    <Text className="text-xs text-gray-400 ml-2" numberOfLines={1}>
+                      e.g. {rows[1]?.[column] || "—"}
+                    </Text>
+                  </View>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    <Pressable
+                      onPress={() => setColumnField(column, null)}
+                      className={`px-3 py-2 rounded-lg mr-2 border ${
+                        mapping[column] === null ? "bg-gray-200 border-gray-300" : "bg-gray-50 border-gray-200"
+                      }`}
+                    >
+                      <Text className={`text-sm ${mapping[column] === null ? "text-gray-800 font-semibold" : "text-gray-500"}`}>
+                        Skip
+                      </Text>
+                    </Pressable>
+                    {IMPORT_FIELDS.map(field => {
+                      const selected = mapping[column] === field.key;
+                      return (
+                        <Pressable
+                          key={field.key}
+                          onPress={() => setColumnField(column, field.key)}
+                          className={`px-3 py-2 rounded-lg mr-2 border ${
+                            selected ? "bg-purple-100 border-purple-300" : "bg-gray-50 border-gray-200"
+                          }`}
+                        >
+                          <Text className={`text-sm ${selected ? "text-purple-700 font-semibold" : "text-gray-600"}`}>
+                            {field.label}
+                          </Text>
+                        </Pressable>
+                      );
+                    })}
+                  </ScrollView>
+                </View>
+              ))}
+            </>
+          )}
+
+          {(phase === "preview" || phase === "importing") && (
+            <>
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <Text className="text-sm font-semibold text-gray-800">
+                  {validRows.length - mergeCount} new day{validRows.length - mergeCount !== 1 ? "s" : ""}, {mergeCount} merged
+                  into existing logs
+                </Text>
+                {invalidCount > 0 && (
+                  <Text className="text-xs text-red-600 mt-1">
+                    {invalidCount} row{invalidCount !== 1 ? "s" : ""} with errors will be skipped
+                  </Text>
+                )}
+                {phase === "importing" && (
+                  <View className="mt-3">
+                    <View className="flex-row items-center mb-2">
+                      <ActivityIndicator size="small" color="#8B5CF6" />
+                      <Text className="text-sm text-gray-700 ml-2">
+                        Importing {progress.current} of {progress.total}
+                      </Text>
+                    </View>
+                    <ProgressBar current={progress.current} total={progress.total} />
+                  </View>
+                )}
+              </View>
+
+              {displayedRows.map(row => {
+                const hasErrors = row.errors.length > 0;
+                const fields = Object.entries(row.values).filter(([key]) => IMPORT_FIELDS.some(f => f.key === key));
+                return (
+                  <View key={row.line} className={`rounded-2xl p-4 mb-3 ${hasErrors ? "bg-red-50" : "bg-white shadow-sm"}`}>
+                    <View className="flex-row items-center justify-between mb-1">
+                      <Text className="text-sm font-semibold text-gray-900">
+                        {row.date ? format(parseISO(row.date), "EEE, MMM d, yyyy") : `Line ${row.line}`}
+                      </Text>
+                      <Text className="text-xs text-gray-400">
+                        {hasErrors
+                          ? `Line ${row.line}`
+                          : `Day ${getChallengeDayNumber(challenge.startDate, row.date!)} • ${row.existing ? "merge" : "new"}`}
+                      </Text>
+                    </View>
+                    {fields.length > 0 && (
+                      <Text className="text-xs text-gray-600">
+                        {fields
+                          .map(([key, value]) => `${IMPORT_FIELDS.find(f => f.key === key)!.label}: ${value === true ? "Yes" : value === false ? "No" : value}`)
+                          .join(" • ")}
+                      </Text>
+                    )}
+                    {row.errors.map(error => (
+                      <View key={error} className="flex-row items-center mt-1">
+                        <Feather name="alert-circle" size={12} color="#DC2626" />
+                        <Text className="text-xs text-red-600 ml-1">{error}</Text>
+                      </View>
+                    ))}
+                  </View>
+                );
+              })}
+
+              {!showAll && importRows.length > PREVIEW_LIMIT && (
+                <Pressable onPress={() => setShowAll(true)} className="py-3 items-center">
+                  <Text className="text-sm font-semibold text-purple-600">
+                    Show all {importRows.length} rows
+                  </Text>
+                </Pressable>
+              )}
+            </>
+          )}
+
+          {phase === "done" && (
+            <View className="bg-white rounded-2xl p-4 shadow-sm flex-row items-center">
+              <Feather name="check-circle" size={20} color="#22C55E" />
+              <View className="ml-3 flex-1">
+                <Text className="text-sm font-semibold text-gray-800">
+                  Created {result.created} and updated {result.updated} log{result.created + result.updated !== 1 ? "s" : ""}
+                </Text>
+                {result.failed > 0 && (
+                  <Text className="text-xs text-red-600 mt-0.5">
+                    {result.failed} day{result.failed !== 1 ? "s" : ""} couldn&apos;t be saved
+                  </Text>
+                )}
+              </View>
+            </View>
+          )}
+
+          <View className="h-8" />
+        </ScrollView>
+      )}
+
+      {/* Actions */}
+      {challenge && phase !== "importing" && (
+        <View className="bg-white px-4 py-3 border-t border-purple-100">
+          {phase === "pick" ? (
+            <Pressable onPress={handlePickFile} className="rounded-full py-3 items-center bg-purple-500">
+              <Text className="text-base font-semibold text-white">Choose CSV File</Text>
+            </Pressable>
+          ) : phase === "map" ? (
+            <Pressable
+              onPress={() => setPhase("preview")}
+              disabled={!mapping.includes("date")}
+              className={`rounded-full py-3 items-center ${mapping.includes("date") ? "bg-purple-500" : "bg-gray-200"}`}
+            >
+              <Text className={`text-base font-semibold ${mapping.includes("date") ? "text-white" : "text-gray-400"}`}>
+                {mapping.includes("date") ? "Preview Import" : "Map a column to Date"}
+              </Text>
+            </Pressable>
+          ) : phase === "preview" ? (
+            <Pressable
+              onPress={handleImport}
+              disabled={validRows.length === 0}
+              className={`rounded-full py-3 items-center ${validRows.length > 0 ? "bg-purple-500" : "bg-gray-200"}`}
+            >
+              <Text className={`text-base font-semibold ${validRows.length > 0 ? "text-white" : "text-gray-400"}`}>
+                Import {validRows.length} day{validRows.length !== 1 ? "s" : ""}
+              </Text>
+            </Pressable>
+          ) : (
+            <Pressable onPress={() => router.back()} className="rounded-full py-3 items-center bg-purple-500">
+              <Text className="text-base font-semibold text-white">Done</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
@@ -1,4 +1,5 @@
 import { updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { Feather } from "@expo/vector-icons";
 import { format, parseISO } from "date-fns";
@@ -106,7 +107,7 @@ export default function LogAlcoholScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [drinks, setDrinks] = useState<DrinkEntry[]>([]);
   const [notes, setNotes] = useState("");
@@ -1,4 +1,7 @@
 import { updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { describeTarget, describeTargetOffset, getCalorieTarget, isOnTarget } from "@/lib/goalTargets";
 import { healthService } from "@/lib/health";
 import { captureException } from "@/lib/sentry";
 import { useChallengeStore } from "@/store/useChallengeStore";
@@ -162,7 +165,7 @@ export default function LogCaloriesScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [mealCalories, setMealCalories] = useState<MealCalories>({
     breakfast: 0,
@@ -206,9 +209,14 @@ export default function LogCaloriesScreen() {
   }
 
   const totalCalories = mealCalories.breakfast + mealCalories.lunch + mealCalories.dinner + mealCalories.snacks;
-  const calorieGoal = challenge.caloriesGoal ?? 2000;
-  const remaining = calorieGoal - totalCalories;
-  const isUnderGoal = totalCalories <= calorieGoal;
+  // Stay under, eat at least, or stay inside a band
+  const calorieTarget = getCalorieTarget(getGoalsForDate(challenge, format(targetDate, "yyyy-MM-dd")));
+  const calorieGoal = calorieTarget.max ?? calorieTarget.min ?? 2000;
+  const isOnGoal = isOnTarget(totalCalories, calorieTarget);
+  let targetStatus = describeTargetOffset(totalCalories, calorieTarget, "cal");
+  if (isOnGoal) {
+    targetStatus = calorieTarget.max !== undefined ? `${calorieTarget.max - totalCalories} cal remaining` : "Goal reached";
+  }
 
   const updateMealCalories = (meal: keyof MealCalories, value: number) => {
     setMealCalories((prev) => ({ ...prev, [meal]: value }));
@@ -261,7 +269,7 @@ export default function LogCaloriesScreen() {
         await logActivity({
           type: "calories",
           title: "Calories Logged",
-          description: `${totalCalories} calories consumed${isUnderGoal ? " ✓ Under goal!" : ""}`,
+          description: `${totalCalories} calories consumed${isOnGoal ? " ✓ On target!" : ""}`,
           value: totalCalories,
           unit: "calories",
         });
@@ -301,16 +309,14 @@ export default function LogCaloriesScreen() {
               <View className="flex-row items-center justify-between">
                 <View className="flex-1">
                   <Text className="text-sm text-gray-500 mb-1">Today's Calories</Text>
-                  <Text className={`text-3xl font-bold ${isUnderGoal ? "text-gray-800" : "text-red-600"}`}>
+                  <Text className={`text-3xl font-bold ${isOnGoal ? "text-gray-800" : "text-red-600"}`}>
                     {totalCalories}
                   </Text>
-                  <Text className="text-sm text-gray-500">of {calorieGoal} goal</Text>
+                  <Text className="text-sm text-gray-500">Goal: {describeTarget(calorieTarget, "cal")}</Text>
                   
-                  <View className={`mt-3 rounded-lg px-3 py-2 self-start ${isUnderGoal ? "bg-green-50" : "bg-red-50"}`}>
-                    <Text className={`text-sm font-semibold ${isUnderGoal ? "text-green-700" : "text-red-700"}`}>
-                      {isUnderGoal 
-                        ? `${remaining} cal remaining` 
-                        : `${Math.abs(remaining)} cal over`}
+                  <View className={`mt-3 rounded-lg px-3 py-2 self-start ${isOnGoal ? "bg-green-50" : "bg-red-50"}`}>
+                    <Text className={`text-sm font-semibold ${isOnGoal ? "text-green-700" : "text-red-700"}`}>
+                      {targetStatus}
                     </Text>
                   </View>
                 </View>
@@ -362,7 +368,7 @@ export default function LogCaloriesScreen() {
           <Pressable
             onPress={handleSave}
             disabled={saving}
-            className={`py-4 rounded-2xl items-center ${isUnderGoal ? "bg-emerald-500" : "bg-red-500"}`}
+            className={`py-4 rounded-2xl items-center ${isOnGoal ? "bg-emerald-500" : "bg-red-500"}`}
           >
             {saving ? (
               <Text className="text-white font-semibold">Saving...</Text>
@@ -0,0 +1,230 @@
+import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getChallengeForDate } from "@/lib/goalHistory";
+import {
+    describeCustomTaskGoal,
+    formatCustomTaskValue,
+    getCustomTasks,
+    getCustomTaskValue,
+    isCustomTaskComplete,
+    withCustomTaskValue,
+} from "@/lib/customTasks";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router, useLocalSearchParams } from "expo-router";
+import { useState } from "react";
+import { ActivityIndicator, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+export default function LogCustomTaskScreen() {
+  const { taskId, date: dateParam, logId: logIdParam } = useLocalSearchParams<{
+    taskId: string;
+    date?: string;
+    logId?: string;
+  }>();
+  const { challenge, todayLog, updateProgress, allLogs } = useChallengeStore();
+
+  // Determine which log we're editing
+  const isEditingPastDay = !!dateParam && !!logIdParam;
+  const targetLog = isEditingPastDay
+    ? allLogs?.find(log => log.$id === logIdParam)
+    : todayLog;
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
+
+  // Use the task's goal as it was on the day being edited
+  const dayTasks = challenge ? getCustomTasks(getChallengeForDate(challenge, format(targetDate, "yyyy-MM-dd"))) : [];
+  const task = dayTasks.find(t => t.id === taskId) ?? getCustomTasks(challenge).find(t => t.id === taskId);
+  const [value, setValue] = useState<number>(() => (task ? getCustomTaskValue(targetLog ?? null, task.id) ?? 0 : 0));
+  const [saving, setSaving] = useState(false);
+
+  if (!challenge || !targetLog || !task) {
+    return (
+      <SafeAreaView className="flex-1 bg-gray-50 items-center justify-center">
+        <Text className="text-gray-500">{challenge && targetLog ? "Task not found" : "Loading..."}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const isComplete = isCustomTaskComplete(task, value);
+  const step = task.type === "duration" ? 5 : 1;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const progressUpdate = withCustomTaskValue(targetLog, task.id, value);
+      const completed = isCustomTaskComplete(task, value);
+      const activityData = {
+        type: "custom" as const,
+        title: `${task.name} Logged`,
+        description: task.type === "checkbox"
+          ? `${task.name} ${completed ? "✓ Done" : "not done"}`
+          : `${formatCustomTaskValue(task, value)} ${completed ? "✓ Goal reached!" : ""}`,
+        value,
+        unit: task.unit,
+        customTaskId: task.id,
+      };
+
+      if (isEditingPastDay && logIdParam) {
+        // Update specific past day's log
+        await updateDailyLog(logIdParam, progressUpdate);
+
+        // Update or create this task's activity log for the day
+        const dateStr = format(targetDate, "yyyy-MM-dd");
+        const existingLogs = (await getActivityLogsForDate(challenge.$id!, dateStr, "custom"))
+          .filter(log => log.customTaskId === task.id);
+        const pastActivity = {
+          ...activityData,
+          userId: challenge.userId,
+          challengeId: challenge.$id!,
+          date: dateStr,
+        };
+
+        if (existingLogs.length > 0) {
+          await updateActivityLog(existingLogs[0].$id!, pastActivity);
+        } else {
+          await createActivityLog(pastActivity);
+        }
+
+        // Refresh the data
+        const { fetchAllLogs, fetchActivityLogs } = useChallengeStore.getState();
+        await Promise.all([
+          fetchAllLogs(challenge.$id!),
+          fetchActivityLogs(challenge.$id!)
+        ]);
+      } else {
+        await updateProgress(progressUpdate);
+
+        // Log activity to feed
+        const { logActivity } = useChallengeStore.getState();
+        await logActivity(activityData);
+      }
+
+      router.back();
+    } catch (err) {
+      console.error("Failed to save custom task:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-purple-50">
+      {/* Header */}
+      <View className="flex-row items-center justify-between px-4 py-4 border-b border-purple-100 bg-white">
+        <Pressable onPress={() => router.back()} className="p-2 -ml-2 bg-purple-100 rounded-full">
+          <Feather name="arrow-left" size={24} color="#8B5CF6" />
+        </Pressable>
+        <View className="flex-1 items-center">
+          <Text className="text-lg font-bold text-gray-900">{task.name}</Text>
+          {isEditingPastDay && (
+            <Text className="text-xs text-purple-600">{format(targetDate, "MMM d, yyyy")}</Text>
+          )}
+        </View>
+        <View className="w-10" />
+      </View>
+
+      <ScrollView className="flex-1" contentContainerStyle={{ paddingHorizontal: 16, paddingTop: 24, paddingBottom: 16 }}>
+        {/* Task summary */}
+        <View className="items-center mb-8">
+          <View className={`h-24 w-24 items-center justify-center rounded-full ${isComplete ? "bg-green-100" : "bg-purple-100"}`}>
+            <Feather
+              name={task.icon as keyof typeof Feather.glyphMap}
+              size={40}
+              color={isComplete ? "#22C55E" : "#8B5CF6"}
+            />
+          </View>
+          <Text className="text-sm text-gray-500 mt-3">{describeCustomTaskGoal(task)}</Text>
+          {isComplete && (
+            <View className="mt-4 bg-green-100 px-4 py-2 rounded-full flex-row items-center">
+              <Feather name="check-circle" size={16} color="#15803D" />
+              <Text className="text-green-700 font-semibold ml-2">
+                {task.type === "checkbox" ? "Done!" : "Goal reached!"}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {task.type === "checkbox" ? (
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-6 border border-purple-100">
+            <Text className="text-sm font-semibold text-purple-700 mb-3">Did you complete it?</Text>
+            <View className="flex-row gap-3">
+              <Pressable
+                onPress={() => setValue(1)}
+                className={`flex-1 py-4 rounded-xl items-center ${value > 0 ? "bg-green-500" : "bg-gray-50"}`}
+              >
+                <Feather name="check" size={20} color={value > 0 ? "white" : "#6B7280"} />
+                <Text className={`text-sm font-medium mt-1 ${value > 0 ? "text-white" : "text-gray-600"}`}>Yes</Text>
+              </Pressable>
+              <Pressable
+                onPress={() => setValue(0)}
+                className={`flex-1 py-4 rounded-xl items-center ${value === 0 ? "bg-gray-200" : "bg-gray-50"}`}
+              >
+                <Feather name="x" size={20} color="#6B7280" />
+                <Text className="text-sm font-medium text-gray-600 mt-1">Not yet</Text>
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-6 border border-purple-100">
+            <Text className="text-sm font-semibold text-purple-700 mb-3">
+              {task.type === "duration" ? "Minutes" : task.unit ? `Amount (${task.unit})` : "Amount"}
+            </Text>
+            <View className="flex-row items-center">
+              <Pressable
+                onPress={() => setValue(prev => Math.max(0, prev - step))}
+                className="h-12 w-12 items-center justify-center rounded-full bg-purple-100"
+              >
+                <Feather name="minus" size={20} color="#8B5CF6" />
+              </Pressable>
+              <TextInput
+                value={String(value)}
+                onChangeText={(text) => setValue(Math.max(0, parseFloat(text) || 0))}
+                keyboardType="decimal-pad"
+                className="flex-1 text-center"
+                style={{ fontSize: 32, fontWeight: "700", color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+              />
+              <Pressable
+                onPress={() => setValue(prev => prev + step)}
+                className="h-12 w-12 items-center justify-center rounded-full bg-purple-100"
+              >
+                <Feather name="plus" size={20} color="#8B5CF6" />
+              </Pressable>
+            </View>
+            {task.goal !== undefined && task.goal > 0 && (
+              <View className="mt-4 h-2 bg-gray-200 rounded-full overflow-hidden">
+                <View
+                  className="h-full rounded-full"
+                  style={{
+                    width: `${Math.min(100, (value / task.goal) * 100)}%`,
+                    backgroundColor: isComplete ? "#22C55E" : task.goalDirection === "at_most" ? "#EF4444" : "#8B5CF6",
+                  }}
+                />
+              </View>
+            )}
+          </View>
+        )}
+      </ScrollView>
+
+      {/* Save Button */}
+      <View className="px-4 pb-6">
+        <Pressable
+          onPress={handleSave}
+          disabled={saving}
+          className={`py-4 rounded-2xl items-center ${
+            saving ? "bg-gray-300" : "bg-purple-500"
+          }`}
+        >
+          {saving ? (
+            <View className="flex-row items-center">
+              <ActivityIndicator size="small" color="#fff" />
+              <Text className="text-white font-bold text-lg ml-2">Saving...</Text>
+            </View>
+          ) : (
+            <Text className="text-white font-bold text-lg">Save</Text>
+          )}
+        </Pressable>
+      </View>
+    </SafeAreaView>
+  );
+}
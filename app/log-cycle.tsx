@@ -1,10 +1,12 @@
 import { createCycleLog, getCycleLog, getLastPeriodStart, updateCycleLog } from "@/lib/appwrite";
 import { cycleHealthService } from "@/lib/cycleHealth";
+import { getTodayDate, getTodayKey } from "@/lib/dayBoundary";
 import { captureException } from "@/lib/sentry";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useSessionStore } from "@/store/useSessionStore";
 import { CervicalMucus, CycleLog, CycleSymptom, PeriodFlow, SexualActivityType } from "@/types/type.d";
 import { Feather } from "@expo/vector-icons";
+import { differenceInCalendarDays, parseISO } from "date-fns";
 import { useRouter } from "expo-router";
 import { useEffect, useState } from "react";
 import {
@@ -269,12 +271,12 @@ export default function LogCycleScreen() {
       
       setLoading(true);
       try {
-        const today = new Date().toISOString().split("T")[0];
+        const today = getTodayKey();
         
         // Fetch from both app database and Apple Health in parallel
         const [log, healthData] = await Promise.all([
           getCycleLog(user.id, today),
-          cycleHealthService.getCycleDataForDate(new Date()).catch(() => null),
+          cycleHealthService.getCycleDataForDate(getTodayDate()).catch(() => null),
         ]);
         
         if (log) {
@@ -320,18 +322,14 @@ export default function LogCycleScreen() {
           // Calculate cycle day from last period start
           const lastPeriod = await getLastPeriodStart(user.id);
           if (lastPeriod?.date) {
-            const lastStart = new Date(lastPeriod.date);
-            const todayDate = new Date();
-            const diffDays = Math.floor((todayDate.getTime() - lastStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+            const diffDays = differenceInCalendarDays(getTodayDate(), parseISO(lastPeriod.date)) + 1;
             setCycleDay(diffDays);
           }
         } else {
           // No data from either source - calculate cycle day
           const lastPeriod = await getLastPeriodStart(user.id);
           if (lastPeriod?.date) {
-            const lastStart = new Date(lastPeriod.date);
-            const todayDate = new Date();
-            const diffDays = Math.floor((todayDate.getTime() - lastStart.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+            const diffDays = differenceInCalendarDays(getTodayDate(), parseISO(lastPeriod.date)) + 1;
             setCycleDay(diffDays);
           }
         }
@@ -362,7 +360,7 @@ export default function LogCycleScreen() {
     
     setSaving(true);
     try {
-      const today = new Date().toISOString().split("T")[0];
+      const today = getTodayKey();
       
       // Build cycle log data
       const cycleData: Omit<CycleLog, "$id"> = {
@@ -390,7 +388,7 @@ export default function LogCycleScreen() {
       // Sync to Apple Health
       try {
         await cycleHealthService.saveCycleData({
-          date: new Date(),
+          date: getTodayDate(),
           periodFlow: periodFlow !== "none" ? periodFlow : undefined,
           cervicalMucus: cervicalMucus || undefined,
           ovulationTest: ovulationTest !== "not_taken" ? ovulationTest : undefined,
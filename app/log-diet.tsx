@@ -1,4 +1,5 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
 import { healthSyncService } from "@/lib/healthSync";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { Feather } from "@expo/vector-icons";
@@ -216,7 +217,7 @@ export default function LogDietScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [meals, setMeals] = useState<MealData>(() => parseMeals(targetLog?.meals));
   const [expandedMeal, setExpandedMeal] = useState<MealType | null>("breakfast");
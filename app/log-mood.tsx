@@ -1,4 +1,5 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
 import { healthSyncService } from "@/lib/healthSync";
 import { captureException } from "@/lib/sentry";
 import { useChallengeStore } from "@/store/useChallengeStore";
@@ -210,7 +211,7 @@ export default function LogMoodScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [selectedMood, setSelectedMood] = useState<number>(targetLog?.moodScore ?? 0);
   const [selectedEmotions, setSelectedEmotions] = useState<string[]>([]);
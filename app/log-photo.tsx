@@ -1,32 +1,68 @@
-import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import {
+    createActivityLog,
+    deleteProgressPhoto,
+    getActivityLogsForDate,
+    updateActivityLog,
+    updateDailyLog,
+    uploadProgressPhoto,
+} from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import {
+    cacheUploadedPhoto,
+    getCachedPhotoUri,
+    parseProgressPhotos,
+    PROGRESS_PHOTO_POSES,
+    removeCachedPhoto,
+    serializeProgressPhotos,
+} from "@/lib/progressPhotos";
 import { useChallengeStore } from "@/store/useChallengeStore";
+import type { ProgressPhotoPose, ProgressPhotos } from "@/types/type";
 import { Feather } from "@expo/vector-icons";
 import { format, parseISO } from "date-fns";
+import * as ImagePicker from "expo-image-picker";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import { useEffect, useState } from "react";
-import { Pressable, Text, View } from "react-native";
+import { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Alert, Image, Pressable, ScrollView, Text, View } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
+type PhotoSource = "camera" | "library";
+
 export default function LogPhotoScreen() {
   const router = useRouter();
   const { date: dateParam, logId: logIdParam } = useLocalSearchParams<{ date?: string; logId?: string }>();
   const { challenge, todayLog, updateProgress, allLogs, fetchAllLogs } = useChallengeStore();
-  
+
   const isEditingPastDay = !!dateParam && !!logIdParam;
-  const targetLog = isEditingPastDay 
-    ? allLogs?.find(log => log.$id === logIdParam) 
+  const targetLog = isEditingPastDay
+    ? allLogs?.find(log => log.$id === logIdParam)
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
-  
-  const [photoTaken, setPhotoTaken] = useState(false);
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
+
+  const [photos, setPhotos] = useState<ProgressPhotos>({});
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [uploadingPose, setUploadingPose] = useState<ProgressPhotoPose | null>(null);
   const [saving, setSaving] = useState(false);
+  const loadedLogId = useRef<string | undefined>(undefined);
+  // Files uploaded on this visit - deleted again if the user leaves without saving
+  const newUploads = useRef<string[]>([]);
 
-  // Load existing data
+  // Load existing photos once per log
   useEffect(() => {
-    if (targetLog?.progressPhotoCompleted !== undefined) {
-      setPhotoTaken(targetLog.progressPhotoCompleted);
+    if (targetLog?.$id && loadedLogId.current !== targetLog.$id) {
+      loadedLogId.current = targetLog.$id;
+      setPhotos(parseProgressPhotos(targetLog));
     }
-  }, [targetLog?.progressPhotoCompleted]);
+  }, [targetLog]);
+
+  // Load thumbnails from the cache, downloading any that aren't on the device yet
+  useEffect(() => {
+    Object.values(photos).forEach(fileId => {
+      if (!fileId || thumbnails[fileId]) return;
+      getCachedPhotoUri(fileId)
+        .then(uri => setThumbnails(prev => ({ ...prev, [fileId]: uri })))
+        .catch(err => console.error("Failed to load progress photo:", err));
+    });
+  }, [photos, thumbnails]);
 
   if (!challenge || !targetLog) {
     return (
@@ -36,114 +72,212 @@ export default function LogPhotoScreen() {
     );
   }
 
-  const photoDays = (challenge as any).progressPhotoDays ?? 1;
+  const photoDays = challenge.progressPhotoDays ?? 1;
   const frequencyText = photoDays === 1 ? "daily" : `every ${photoDays} days`;
+  const photoCount = Object.keys(photos).length;
+
+  const addPhoto = async (pose: ProgressPhotoPose, source: PhotoSource) => {
+    try {
+      if (source === "camera") {
+        const permission = await ImagePicker.requestCameraPermissionsAsync();
+        if (!permission.granted) {
+          Alert.alert("Camera Access Needed", "Allow camera access in Settings to take progress photos.");
+          return;
+        }
+      }
+
+      const options: ImagePicker.ImagePickerOptions = { mediaTypes: ["images"], quality: 0.8 };
+      const result = source === "camera"
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      setUploadingPose(pose);
+      const fileId = await uploadProgressPhoto(challenge.userId, {
+        uri: asset.uri,
+        name: asset.fileName ?? `${format(targetDate, "yyyy-MM-dd")}-${pose}.jpg`,
+        type: asset.mimeType ?? "image/jpeg",
+        size: asset.fileSize ?? 0,
+      });
+      newUploads.current.push(fileId);
+      cacheUploadedPhoto(fileId, asset.uri);
+      setThumbnails(prev => ({ ...prev, [fileId]: asset.uri }));
+      setPhotos(prev => ({ ...prev, [pose]: fileId }));
+    } catch (err) {
+      console.error("Failed to upload progress photo:", err);
+      Alert.alert("Upload Failed", "Couldn't upload the photo. Please check your connection and try again.");
+    } finally {
+      setUploadingPose(null);
+    }
+  };
+
+  const removePhoto = (pose: ProgressPhotoPose) => {
+    setPhotos(prev => {
+      const { [pose]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handlePosePress = (pose: ProgressPhotoPose, label: string) => {
+    Alert.alert(`${label} Photo`, undefined, [
+      { text: "Take Photo", onPress: () => addPhoto(pose, "camera") },
+      { text: "Choose from Library", onPress: () => addPhoto(pose, "library") },
+      ...(photos[pose] ? [{ text: "Remove", style: "destructive" as const, onPress: () => removePhoto(pose) }] : []),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  // Delete files that are no longer referenced by the log
+  const deleteUnusedPhotos = (fileIds: string[]) => {
+    fileIds.forEach(fileId => {
+      removeCachedPhoto(fileId);
+      deleteProgressPhoto(fileId).catch(err => console.error("Failed to delete progress photo:", err));
+    });
+  };
+
+  const handleBack = () => {
+    deleteUnusedPhotos(newUploads.current);
+    router.back();
+  };
 
   const handleSave = async () => {
     setSaving(true);
     try {
+      const savedPhotos = parseProgressPhotos(targetLog);
+      const keptIds = Object.values(photos);
+      const hadPhoto = Object.keys(savedPhotos).length > 0;
+      const updates = {
+        progressPhotos: serializeProgressPhotos(photos),
+        progressPhotoCompleted: photoCount > 0,
+      };
+      const poseNames = PROGRESS_PHOTO_POSES.filter(pose => photos[pose.id]).map(pose => pose.label.toLowerCase());
+      const activity = {
+        title: "Progress Photo Taken",
+        description: `📸 ${poseNames.join(", ")} photo${photoCount !== 1 ? "s" : ""} captured!`,
+      };
+
       if (isEditingPastDay && logIdParam) {
-        await updateDailyLog(logIdParam, {
-          progressPhotoCompleted: photoTaken,
-        });
-        
-        if (photoTaken) {
+        await updateDailyLog(logIdParam, updates);
+
+        if (photoCount > 0) {
           const dateStr = format(targetDate, 'yyyy-MM-dd');
           const existingLogs = await getActivityLogsForDate(challenge.$id!, dateStr, 'photo');
           const activityData = {
             userId: challenge.userId,
             challengeId: challenge.$id!,
             type: 'photo' as const,
-            title: "Progress Photo Taken",
-            description: "📸 Progress photo captured!",
+            ...activity,
             date: dateStr,
           };
-          
+
           if (existingLogs.length > 0) {
             await updateActivityLog(existingLogs[0].$id!, activityData);
           } else {
             await createActivityLog(activityData);
           }
         }
-        
+
         await fetchAllLogs(challenge.$id!);
       } else {
-        await updateProgress({
-          progressPhotoCompleted: photoTaken,
-        });
+        await updateProgress(updates);
 
-        if (photoTaken) {
+        if (photoCount > 0 && !hadPhoto) {
           const { logActivity } = useChallengeStore.getState();
-          await logActivity({
-            type: "photo",
-            title: "Progress Photo Taken",
-            description: "📸 Progress photo captured!",
-          });
+          await logActivity({ type: "photo", ...activity });
         }
       }
 
+      // Replaced and removed photos, plus uploads that were replaced before saving
+      deleteUnusedPhotos(
+        [...Object.values(savedPhotos), ...newUploads.current].filter(
+          (fileId): fileId is string => !!fileId && !keptIds.includes(fileId)
+        )
+      );
+      newUploads.current = [];
+
       router.back();
     } catch (err) {
-      console.error("Failed to save photo status:", err);
+      console.error("Failed to save progress photos:", err);
+      Alert.alert("Error", "Failed to save progress photos. Please try again.");
     } finally {
       setSaving(false);
     }
   };
 
-  const handleTogglePhoto = () => {
-    setPhotoTaken(!photoTaken);
-  };
+  const canSave = !saving && !uploadingPose;
 
   return (
     <SafeAreaView className="flex-1 bg-pink-50">
       {/* Header */}
       <View className="flex-row items-center justify-between px-4 py-4 border-b border-pink-100 bg-white">
-        <Pressable onPress={() => router.back()} className="p-2 -ml-2 bg-pink-100 rounded-full">
+        <Pressable onPress={handleBack} className="p-2 -ml-2 bg-pink-100 rounded-full">
           <Feather name="arrow-left" size={24} color="#EC4899" />
         </Pressable>
         <Text className="text-lg font-bold text-gray-900">Progress Photo</Text>
-        <View style={{ width: 40 }} />
+        <Pressable onPress={() => router.push("/photo-gallery")} className="p-2 -mr-2 bg-pink-100 rounded-full">
+          <Feather name="image" size={24} color="#EC4899" />
+        </Pressable>
       </View>
 
       {/* Content */}
-      <View className="flex-1 px-4 py-8">
+      <ScrollView className="flex-1 px-4 py-6" showsVerticalScrollIndicator={false}>
         {/* Icon and Title */}
-        <View className="items-center mb-8">
-          <View className="h-24 w-24 rounded-full bg-pink-100 items-center justify-center mb-4">
-            <Feather name="camera" size={48} color="#EC4899" />
+        <View className="items-center mb-6">
+          <View className="h-20 w-20 rounded-full bg-pink-100 items-center justify-center mb-4">
+            <Feather name="camera" size={40} color="#EC4899" />
           </View>
           <Text className="text-2xl font-bold text-gray-900 mb-2">Progress Photo</Text>
           <Text className="text-base text-gray-600 text-center">
-            Did you take a progress photo today?
+            {isEditingPastDay ? format(targetDate, "EEEE, MMM d") : "Today"} • Goal: {frequencyText}
           </Text>
         </View>
 
-        {/* Photo Status Card */}
-        <Pressable
-          onPress={handleTogglePhoto}
-          className={`rounded-2xl p-6 mb-8 ${photoTaken ? "bg-pink-50 border-2 border-pink-500" : "bg-white border-2 border-gray-200"}`}
-        >
-          <View className="flex-row items-center">
-            <View className={`h-12 w-12 rounded-full items-center justify-center mr-4 ${photoTaken ? "bg-pink-500" : "bg-gray-100"}`}>
-              {photoTaken ? (
-                <Feather name="check" size={24} color="white" />
-              ) : (
-                <Feather name="camera" size={24} color="#9CA3AF" />
-              )}
-            </View>
-            <View className="flex-1">
-              <Text className={`text-lg font-bold ${photoTaken ? "text-pink-700" : "text-gray-800"}`}>
-                {photoTaken ? "Photo Taken" : "Take a Photo"}
-              </Text>
-              <Text className="text-sm text-gray-600 mt-1">
-                {photoTaken ? "You took today's progress photo" : "Tap to mark as done"}
-              </Text>
-            </View>
-          </View>
-        </Pressable>
+        {/* Poses */}
+        <View className="flex-row gap-3 mb-3">
+          {PROGRESS_PHOTO_POSES.map(pose => {
+            const fileId = photos[pose.id];
+            const thumbnail = fileId ? thumbnails[fileId] : undefined;
+            const isUploading = uploadingPose === pose.id;
+            return (
+              <Pressable
+                key={pose.id}
+                onPress={() => handlePosePress(pose.id, pose.label)}
+                disabled={!canSave}
+                className={`flex-1 rounded-2xl overflow-hidden border-2 ${fileId ? "border-pink-500" : "border-dashed border-gray-300 bg-white"}`}
+                style={{ aspectRatio: 3 / 4 }}
+              >
+                {thumbnail ? (
+                  <Image source={{ uri: thumbnail }} style={{ width: "100%", height: "100%" }} resizeMode="cover" />
+                ) : (
+                  <View className="flex-1 items-center justify-center">
+                    {isUploading || fileId ? (
+                      <ActivityIndicator color="#EC4899" />
+                    ) : (
+                      <Feather name="plus" size={28} color="#9CA3AF" />
+                    )}
+                  </View>
+                )}
+                <View className={`absolute bottom-0 left-0 right-0 py-1 items-center ${fileId ? "bg-pink-500" : "bg-gray-100"}`}>
+                  <Text className={`text-xs font-semibold ${fileId ? "text-white" : "text-gray-600"}`}>{pose.label}</Text>
+                </View>
+                {isUploading && thumbnail && (
+                  <View className="absolute inset-0 items-center justify-center bg-black/30">
+                    <ActivityIndicator color="white" />
+                  </View>
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text className="text-xs text-gray-500 text-center mb-6">
+          {photoCount > 0
+            ? "Tap a photo to retake, replace or remove it. Photos are private to your account."
+            : "Tap a pose to take or choose a photo. At least one photo completes the task."}
+        </Text>
 
         {/* Tips */}
-        <View className="bg-white rounded-xl p-4 border border-pink-100">
+        <View className="bg-white rounded-xl p-4 border border-pink-100 mb-8">
           <Text className="text-sm font-semibold text-pink-700 mb-3">💡 Tips for Best Results</Text>
           <View className="space-y-2">
             <View className="flex-row items-start">
@@ -164,17 +298,17 @@ export default function LogPhotoScreen() {
             </View>
           </View>
         </View>
-      </View>
+      </ScrollView>
 
       {/* Save Button */}
       <View className="px-4 py-4 bg-white border-t border-gray-100">
         <Pressable
           onPress={handleSave}
-          disabled={saving}
-          className={`py-4 rounded-xl items-center ${photoTaken ? "bg-pink-500" : "bg-gray-200"}`}
+          disabled={!canSave}
+          className={`py-4 rounded-xl items-center ${photoCount > 0 && canSave ? "bg-pink-500" : "bg-gray-200"}`}
         >
-          <Text className={`text-base font-semibold ${photoTaken ? "text-white" : "text-gray-400"}`}>
-            {saving ? "Saving..." : "Confirm"}
+          <Text className={`text-base font-semibold ${photoCount > 0 && canSave ? "text-white" : "text-gray-400"}`}>
+            {saving ? "Saving..." : uploadingPose ? "Uploading..." : "Save"}
           </Text>
         </Pressable>
       </View>
@@ -1,4 +1,6 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { Feather } from "@expo/vector-icons";
 import { format, parseISO } from "date-fns";
@@ -58,7 +60,7 @@ export default function LogReadingScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [pages, setPages] = useState(targetLog?.readingPages ?? 0);
   const [inputValue, setInputValue] = useState((targetLog?.readingPages ?? 0).toString());
@@ -73,7 +75,7 @@ export default function LogReadingScreen() {
     );
   }
 
-  const goal = challenge.readingPages ?? 10;
+  const goal = getGoalsForDate(challenge, format(targetDate, "yyyy-MM-dd")).readingPages ?? 10;
   const isComplete = pages >= goal;
 
   const handleInputChange = (text: string) => {
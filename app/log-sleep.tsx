@@ -1,4 +1,6 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
 import { healthSyncService, HKCategoryValueSleepAnalysis } from "@/lib/healthSync";
 import { captureException } from "@/lib/sentry";
 import { useChallengeStore } from "@/store/useChallengeStore";
@@ -92,7 +94,7 @@ export default function LogSleepScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
 
   const [bedtime, setBedtime] = useState<Date | null>(
     targetLog?.sleepStartTime ? new Date(targetLog.sleepStartTime) : null
@@ -108,7 +110,7 @@ export default function LogSleepScreen() {
   const [showBedtimePicker, setShowBedtimePicker] = useState(false);
   const [showWakeTimePicker, setShowWakeTimePicker] = useState(false);
 
-  const sleepGoalHours = challenge?.sleepGoalHours ?? 8;
+  const sleepGoalHours = (challenge && getGoalsForDate(challenge, format(targetDate, "yyyy-MM-dd")).sleepGoalHours) ?? 8;
 
   // Calculate sleep duration in minutes (only if both times are set)
   const calculateDuration = (): number => {
@@ -1,4 +1,6 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
 import { healthSyncService } from "@/lib/healthSync";
 import { captureException } from "@/lib/sentry";
 import { useChallengeStore } from "@/store/useChallengeStore";
@@ -112,7 +114,7 @@ export default function LogWaterScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [water, setWater] = useState(targetLog?.waterLiters ?? 0);
   const [saving, setSaving] = useState(false);
@@ -145,7 +147,7 @@ export default function LogWaterScreen() {
     );
   }
 
-  const goal = challenge.waterLiters ?? 3;
+  const goal = getGoalsForDate(challenge, format(targetDate, "yyyy-MM-dd")).waterLiters ?? 3;
   const isComplete = water >= goal;
 
   const handleQuickAdd = (amount: number) => {
@@ -1,4 +1,7 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { describeTarget, describeTargetOffset, getWeightTarget } from "@/lib/goalTargets";
 import { healthService } from "@/lib/health";
 import { healthSyncService } from "@/lib/healthSync";
 import { captureException, captureMessage } from "@/lib/sentry";
@@ -129,7 +132,7 @@ export default function LogWeightScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   const [weight, setWeight] = useState(targetLog?.currentWeight ?? 0);
   const [inputValue, setInputValue] = useState(
@@ -177,7 +180,9 @@ export default function LogWeightScreen() {
     );
   }
 
-  const goal = challenge.weightGoal ?? 0;
+  const dayGoals = getGoalsForDate(challenge, format(targetDate, "yyyy-MM-dd"));
+  const goal = dayGoals.weightGoal ?? 0;
+  const weightTarget = getWeightTarget(dayGoals);
 
   const handleInputChange = (text: string) => {
     // Allow decimal input
@@ -404,8 +409,12 @@ export default function LogWeightScreen() {
                     <Feather name="target" size={20} color="#6366F1" />
                   </View>
                   <View className="ml-3">
-                    <Text className="text-lg font-bold text-gray-800">{goal} kg</Text>
-                    <Text className="text-xs text-gray-500">Target weight</Text>
+                    <Text className="text-lg font-bold text-gray-800">
+                      {weightTarget ? describeTarget(weightTarget, "kg") : `${goal} kg`}
+                    </Text>
+                    <Text className="text-xs text-gray-500">
+                      {weightTarget && weight > 0 ? describeTargetOffset(weight, weightTarget, "kg") : "Target weight"}
+                    </Text>
                   </View>
                 </View>
                 <TrendIndicator current={weight} previous={targetLog.currentWeight} />
@@ -413,6 +422,21 @@ export default function LogWeightScreen() {
             </View>
           )}
 
+          {/* Trends */}
+          <Pressable
+            onPress={() => router.push("/weight-trends")}
+            className="bg-white rounded-2xl p-4 shadow-sm mb-6 flex-row items-center"
+          >
+            <View className="h-10 w-10 bg-indigo-100 rounded-full items-center justify-center">
+              <Feather name="bar-chart-2" size={20} color="#6366F1" />
+            </View>
+            <View className="ml-3 flex-1">
+              <Text className="text-base font-semibold text-gray-800">Weight Trends</Text>
+              <Text className="text-xs text-gray-500">Weekly average, rate of change and goal projection</Text>
+            </View>
+            <Feather name="chevron-right" size={20} color="#9CA3AF" />
+          </Pressable>
+
           {/* Tips */}
           <View className="bg-indigo-50 rounded-2xl p-4 mb-6">
             <View className="flex-row items-center mb-2">
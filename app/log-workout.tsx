@@ -1,9 +1,20 @@
 import { createActivityLog, getActivityLogsForDate, updateActivityLog, updateDailyLog } from "@/lib/appwrite";
-import { healthService } from "@/lib/health";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getChallengeForDate, getGoalsForDate } from "@/lib/goalHistory";
+import { healthService, WorkoutData } from "@/lib/health";
 import { captureException } from "@/lib/sentry";
+import {
+  assignWorkoutsToSlots,
+  parseWorkoutOverrides,
+  serializeWorkoutOverrides,
+  WorkoutSlot,
+  WorkoutSlotOverrides,
+} from "@/lib/workoutAssignment";
+import { getWorkoutRuleStatuses, parseWorkoutDetails, WorkoutDetailsData } from "@/lib/workoutRules";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useHealthStore } from "@/store/useHealthStore";
 import { Feather } from "@expo/vector-icons";
+import DateTimePicker from "@react-native-community/datetimepicker";
 import { format, parseISO } from "date-fns";
 import { router, useLocalSearchParams } from "expo-router";
 import { useEffect, useState } from "react";
@@ -71,29 +82,12 @@ function WorkoutProgress({ current, goal, color }: { current: number; goal: numb
   );
 }
 
-// Parse workout details from JSON string
-type WorkoutDetailsData = {
-  workout1?: { type: string; notes: string; syncedFromHealth: boolean };
-  workout2?: { type: string; notes: string; syncedFromHealth: boolean };
-};
-
-function parseWorkoutDetails(detailsString?: string): WorkoutDetailsData {
-  if (!detailsString) {
-    return {};
-  }
-  try {
-    return JSON.parse(detailsString);
-  } catch {
-    return {};
-  }
-}
-
 export default function LogWorkoutScreen() {
   const { workout: workoutParam, date: dateParam, logId: logIdParam } = useLocalSearchParams<{ workout: string; date?: string; logId?: string }>();
   const workoutNumber = workoutParam === "2" ? 2 : 1;
   const isWorkout1 = workoutNumber === 1;
   
-  const { challenge, todayLog, updateProgress, allLogs } = useChallengeStore();
+  const { challenge, todayLog, updateProgress, allLogs, resyncHealthDataForDate } = useChallengeStore();
   const { workouts: healthWorkouts, isAuthorized: healthAuthorized } = useHealthStore();
   
   // Determine which log we're editing
@@ -101,7 +95,7 @@ export default function LogWorkoutScreen() {
   const targetLog = isEditingPastDay 
     ? allLogs?.find(log => log.$id === logIdParam) 
     : todayLog;
-  const targetDate = dateParam ? parseISO(dateParam) : new Date();
+  const targetDate = dateParam ? parseISO(dateParam) : getTodayDate();
   
   // Parse existing workout details
   const existingDetails = parseWorkoutDetails(targetLog?.workoutDetails);
@@ -115,6 +109,14 @@ export default function LogWorkoutScreen() {
   const [notes, setNotes] = useState(existingWorkout?.notes ?? "");
   const [saving, setSaving] = useState(false);
   const [syncToHealth, setSyncToHealth] = useState(true);
+  // When the workout started - needed for the workout separation rule
+  const [startTime, setStartTime] = useState<Date | null>(
+    existingWorkout?.startTime ? parseISO(existingWorkout.startTime) : null
+  );
+  const [showTimePicker, setShowTimePicker] = useState(false);
+  // The day's Apple Health workouts, for choosing which ones fill this slot
+  const [dayWorkouts, setDayWorkouts] = useState<WorkoutData[]>([]);
+  const [assigning, setAssigning] = useState(false);
 
   // Config based on workout number
   const config = isWorkout1 
@@ -142,6 +144,14 @@ export default function LogWorkoutScreen() {
     }
   }, [syncedWorkouts.length, existingMinutes, existingWorkout?.type]);
 
+  useEffect(() => {
+    if (!isIOS || !healthAuthorized) return;
+    healthService
+      .getWorkoutsForDate(dateParam ? parseISO(dateParam) : getTodayDate())
+      .then(setDayWorkouts)
+      .catch((err) => console.error("Failed to load workouts for assignment:", err));
+  }, [isIOS, healthAuthorized, dateParam]);
+
   if (!challenge || !targetLog) {
     return (
       <SafeAreaView className="flex-1 bg-gray-50 items-center justify-center">
@@ -150,10 +160,72 @@ export default function LogWorkoutScreen() {
     );
   }
 
-  const goal = challenge.workoutMinutes ?? 45;
+  const goal = getGoalsForDate(challenge, format(targetDate, "yyyy-MM-dd")).workoutMinutes ?? 45;
   const totalMinutes = Math.max(minutes, Math.round(syncedMinutes));
   const isComplete = totalMinutes >= goal;
 
+  // Without a picked start time a workout ends now - on a past day, at this
+  // time of day on that day
+  const getDefaultStart = () => {
+    const now = new Date();
+    const end = dateParam
+      ? new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate(), now.getHours(), now.getMinutes())
+      : now;
+    return new Date(end.getTime() - totalMinutes * 60 * 1000);
+  };
+  const workoutRules = getWorkoutRuleStatuses(
+    getChallengeForDate(challenge, format(targetDate, "yyyy-MM-dd")),
+    targetLog
+  );
+
+  // Which of the day's Health workouts fill each slot
+  const slot: WorkoutSlot = isWorkout1 ? "workout1" : "workout2";
+  const otherSlot: WorkoutSlot = isWorkout1 ? "workout2" : "workout1";
+  const dayChallenge = getChallengeForDate(challenge, format(targetDate, "yyyy-MM-dd"));
+  const overrides = parseWorkoutOverrides(targetLog);
+  const assignment = assignWorkoutsToSlots(dayWorkouts, dayChallenge, overrides);
+  const slotWorkoutIds = assignment[slot]?.ids ?? [];
+
+  // Save a manual assignment (undefined = automatic) and resync the day so it applies
+  const handleAssignmentChange = async (ids: string[] | undefined) => {
+    setAssigning(true);
+    try {
+      const nextOverrides: WorkoutSlotOverrides = { ...overrides };
+      if (ids) {
+        nextOverrides[slot] = ids;
+        // A workout can only fill one slot
+        if (nextOverrides[otherSlot]) {
+          nextOverrides[otherSlot] = nextOverrides[otherSlot]!.filter(id => !ids.includes(id));
+        }
+      } else {
+        delete nextOverrides[slot];
+      }
+      const workoutOverrides = serializeWorkoutOverrides(nextOverrides);
+
+      if (isEditingPastDay && logIdParam) {
+        await updateDailyLog(logIdParam, { workoutOverrides });
+      } else {
+        await updateProgress({ workoutOverrides });
+      }
+      await resyncHealthDataForDate(targetDate, targetLog.$id!);
+
+      const nextAssignment = assignWorkoutsToSlots(dayWorkouts, dayChallenge, nextOverrides);
+      setMinutes(Math.round(nextAssignment[slot]?.duration ?? 0));
+    } catch (err) {
+      console.error("Failed to reassign workouts:", err);
+      captureException(err instanceof Error ? err : new Error("Failed to reassign workouts"), { workoutNumber });
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const handleToggleHealthWorkout = (workoutId: string) => {
+    const ids = slotWorkoutIds.includes(workoutId)
+      ? slotWorkoutIds.filter(id => id !== workoutId)
+      : [...slotWorkoutIds, workoutId];
+    handleAssignmentChange(ids);
+  };
+
   const handleQuickAdd = (amount: number) => {
     setMinutes((prev) => Math.max(0, prev + amount));
   };
@@ -171,9 +243,12 @@ export default function LogWorkoutScreen() {
       // Find the workout type info
       const workoutTypeInfo = WORKOUT_TYPES.find(t => t.id === selectedType);
       
-      // For manually logged workouts, use current time or estimate end time as now
-      const endTime = new Date();
-      const startTime = new Date(endTime.getTime() - totalMinutes * 60 * 1000);
+      // Manually logged workouts use the chosen start time on the day being logged
+      const workoutStart = startTime
+        ? new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate(), startTime.getHours(), startTime.getMinutes())
+        : getDefaultStart();
+      const workoutEnd = new Date(workoutStart.getTime() + totalMinutes * 60 * 1000);
+      const keepSyncedTimes = syncedMinutes > 0 && existingWorkoutData?.startTime && existingWorkoutData?.endTime;
       
       // Build complete workout data object, preserving existing fields
       const newWorkoutData = {
@@ -184,9 +259,9 @@ export default function LogWorkoutScreen() {
         syncedToHealth: isManualEntry && syncToHealth,
         activityName: workoutTypeInfo?.label || selectedType.replace(/-/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
         isOutdoor: workoutTypeInfo?.isOutdoor ?? false,
-        // Include start and end times - use existing if available, otherwise calculate
-        startTime: existingWorkoutData?.startTime || startTime.toISOString(),
-        endTime: existingWorkoutData?.endTime || endTime.toISOString(),
+        // Health-synced workouts keep their recorded times
+        startTime: keepSyncedTimes ? existingWorkoutData.startTime : workoutStart.toISOString(),
+        endTime: keepSyncedTimes ? existingWorkoutData.endTime : workoutEnd.toISOString(),
       };
 
       const updatedDetails: WorkoutDetailsData = {
@@ -386,6 +461,50 @@ export default function LogWorkoutScreen() {
           </View>
         )}
 
+        {/* Apple Health workout assignment */}
+        {isIOS && dayWorkouts.length > 0 && (
+          <View className={`bg-white rounded-2xl p-4 shadow-sm mb-6 border ${isWorkout1 ? "border-orange-100" : "border-purple-100"}`}>
+            <View className="flex-row items-center justify-between mb-1">
+              <Text className={`text-sm font-semibold ${isWorkout1 ? "text-orange-700" : "text-purple-700"}`}>Apple Health Workouts</Text>
+              {overrides[slot] && (
+                <Pressable onPress={() => handleAssignmentChange(undefined)} disabled={assigning}>
+                  <Text className="text-xs font-semibold text-gray-500">Reset to automatic</Text>
+                </Pressable>
+              )}
+            </View>
+            <Text className="text-xs text-gray-500 mb-3">
+              {overrides[slot]
+                ? `Assigned to ${config.label} manually - kept on every resync`
+                : `Assigned automatically - tap to choose what counts as ${config.label}`}
+            </Text>
+            {dayWorkouts.map((workout) => {
+              const selected = slotWorkoutIds.includes(workout.id);
+              const inOtherSlot = assignment[otherSlot]?.ids.includes(workout.id);
+              const ignored = assignment.ignored.some(w => w.id === workout.id);
+              return (
+                <Pressable
+                  key={workout.id}
+                  onPress={() => handleToggleHealthWorkout(workout.id)}
+                  disabled={assigning}
+                  className="flex-row items-center py-2.5 border-b border-gray-100"
+                >
+                  <Feather name={selected ? "check-square" : "square"} size={20} color={selected ? config.color : "#9CA3AF"} />
+                  <View className="ml-3 flex-1">
+                    <Text className="text-sm font-medium text-gray-800">{workout.activityName}</Text>
+                    <Text className="text-xs text-gray-500">
+                      {Math.round(workout.duration)} min • {format(parseISO(workout.startDate), "h:mm a")} • {workout.isOutdoor ? "Outdoor" : "Indoor"}
+                    </Text>
+                  </View>
+                  {inOtherSlot && (
+                    <Text className="text-xs text-gray-400">{isWorkout1 ? "Workout 2" : "Workout 1"}</Text>
+                  )}
+                  {!selected && ignored && <Text className="text-xs text-gray-400">Too short</Text>}
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+
         {/* Manual Duration Input */}
         <View className={`bg-white rounded-2xl p-4 shadow-sm mb-6 border ${isWorkout1 ? "border-orange-100" : "border-purple-100"}`}>
           <Text className={`text-sm font-semibold mb-3 ${isWorkout1 ? "text-orange-700" : "text-purple-700"}`}>
@@ -426,6 +545,59 @@ export default function LogWorkoutScreen() {
           </View>
         </View>
 
+        {/* Start Time - manual entries only, synced workouts keep their recorded times */}
+        {syncedMinutes === 0 && (
+          <View className={`bg-white rounded-2xl p-4 shadow-sm mb-6 border ${isWorkout1 ? "border-orange-100" : "border-purple-100"}`}>
+            <Text className={`text-sm font-semibold mb-3 ${isWorkout1 ? "text-orange-700" : "text-purple-700"}`}>Start Time</Text>
+            <Pressable
+              onPress={() => setShowTimePicker(true)}
+              className="flex-row items-center justify-between bg-gray-50 rounded-xl p-4"
+            >
+              <View className="flex-row items-center">
+                <Feather name="clock" size={20} color="#6B7280" />
+                <Text className="text-base text-gray-900 ml-3">
+                  {startTime ? format(startTime, "h:mm a") : dateParam ? format(getDefaultStart(), "h:mm a") : "Just finished"}
+                </Text>
+              </View>
+              <Feather name="chevron-right" size={20} color="#9CA3AF" />
+            </Pressable>
+            {showTimePicker && (
+              <DateTimePicker
+                value={startTime ?? getDefaultStart()}
+                mode="time"
+                display={Platform.OS === "ios" ? "spinner" : "default"}
+                onChange={(event, date) => {
+                  setShowTimePicker(Platform.OS === "ios");
+                  if (date) setStartTime(date);
+                }}
+                textColor="#000000"
+                themeVariant="light"
+              />
+            )}
+          </View>
+        )}
+
+        {/* Workout Rules */}
+        {workoutRules.length > 0 && (
+          <View className={`bg-white rounded-2xl p-4 shadow-sm mb-6 border ${isWorkout1 ? "border-orange-100" : "border-purple-100"}`}>
+            <Text className={`text-sm font-semibold mb-3 ${isWorkout1 ? "text-orange-700" : "text-purple-700"}`}>Workout Rules</Text>
+            {workoutRules.map((rule) => (
+              <View key={rule.id} className="flex-row items-start py-1.5">
+                <Feather
+                  name={rule.completed ? "check-circle" : "alert-circle"}
+                  size={16}
+                  color={rule.completed ? "#22C55E" : "#F59E0B"}
+                  style={{ marginTop: 1 }}
+                />
+                <View className="ml-2 flex-1">
+                  <Text className="text-sm font-medium text-gray-800">{rule.label}</Text>
+                  {rule.explanation && <Text className="text-xs text-gray-500">{rule.explanation}</Text>}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Workout Type Selection */}
         <View className={`bg-white rounded-2xl p-4 shadow-sm mb-6 border ${isWorkout1 ? "border-orange-100" : "border-purple-100"}`}>
           <Text className={`text-sm font-semibold mb-3 ${isWorkout1 ? "text-orange-700" : "text-purple-700"}`}>Workout Type</Text>
@@ -0,0 +1,366 @@
+import { useProgressPhotoUris } from "@/hooks/useProgressPhotoUris";
+import { getPhotoDays, PhotoDay, PROGRESS_PHOTO_POSES } from "@/lib/progressPhotos";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import type { ProgressPhotoPose } from "@/types/type";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router } from "expo-router";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ActivityIndicator, Image, PanResponder, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type Tab = "gallery" | "compare" | "timelapse";
+type CompareMode = "side" | "slider";
+
+const TABS: { id: Tab; label: string; icon: keyof typeof Feather.glyphMap }[] = [
+  { id: "gallery", label: "Gallery", icon: "grid" },
+  { id: "compare", label: "Compare", icon: "columns" },
+  { id: "timelapse", label: "Timelapse", icon: "film" },
+];
+
+// Milliseconds each photo is shown in the timelapse
+const TIMELAPSE_SPEEDS = [
+  { ms: 1000, label: "Slow" },
+  { ms: 500, label: "Normal" },
+  { ms: 200, label: "Fast" },
+];
+
+const PHOTO_ASPECT = 3 / 4;
+
+function DayLabel({ day, light = false }: { day: PhotoDay; light?: boolean }) {
+  return (
+    <Text className={`text-xs font-semibold ${light ? "text-white" : "text-gray-700"}`} numberOfLines={1}>
+      Day {day.dayNumber} • {format(parseISO(day.date), "MMM d")}
+      {day.weight ? ` • ${day.weight.toFixed(1)}kg` : ""}
+    </Text>
+  );
+}
+
+function Photo({ uri, style }: { uri?: string; style?: object }) {
+  return uri ? (
+    <Image source={{ uri }} style={[{ width: "100%", height: "100%" }, style]} resizeMode="cover" />
+  ) : (
+    <View className="flex-1 items-center justify-center bg-gray-100">
+      <ActivityIndicator color="#EC4899" />
+    </View>
+  );
+}
+
+/**
+ * Before and after stacked, with a draggable divider revealing the after photo
+ */
+function CompareSlider({ beforeUri, afterUri, width }: { beforeUri?: string; afterUri?: string; width: number }) {
+  const [position, setPosition] = useState(width / 2);
+  const widthRef = useRef(width);
+  widthRef.current = width;
+
+  useEffect(() => {
+    setPosition(width / 2);
+  }, [width]);
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderGrant: event => setPosition(event.nativeEvent.locationX),
+        onPanResponderMove: event =>
+          setPosition(Math.max(0, Math.min(widthRef.current, event.nativeEvent.locationX))),
+      }),
+    []
+  );
+
+  const height = width / PHOTO_ASPECT;
+
+  return (
+    <View style={{ width, height }} className="rounded-2xl overflow-hidden bg-gray-100" {...panResponder.panHandlers}>
+      <Photo uri={beforeUri} />
+      <View pointerEvents="none" style={{ position: "absolute", top: 0, bottom: 0, left: 0, width: position, overflow: "hidden" }}>
+        {afterUri && <Image source={{ uri: afterUri }} style={{ width, height }} resizeMode="cover" />}
+      </View>
+      <View
+        pointerEvents="none"
+        style={{ position: "absolute", top: 0, bottom: 0, left: position - 1, width: 2 }}
+        className="bg-white"
+      />
+      <View
+        pointerEvents="none"
+        style={{ position: "absolute", top: height / 2 - 18, left: position - 18 }}
+        className="h-9 w-9 rounded-full bg-white items-center justify-center"
+      >
+        <Feather name="code" size={16} color="#EC4899" />
+      </View>
+    </View>
+  );
+}
+
+/**
+ * Horizontal list of photo days to pick one from
+ */
+function DayPicker({ days, selected, onSelect }: { days: PhotoDay[]; selected?: string; onSelect: (date: string) => void }) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {days.map(day => (
+        <Pressable
+          key={day.date}
+          onPress={() => onSelect(day.date)}
+          className={`px-3 py-2 rounded-lg mr-2 border ${
+            selected === day.date ? "bg-pink-100 border-pink-300" : "bg-gray-50 border-gray-200"
+          }`}
+        >
+          <Text className={`text-sm ${selected === day.date ? "text-pink-700 font-semibold" : "text-gray-600"}`}>
+            Day {day.dayNumber}
+          </Text>
+        </Pressable>
+      ))}
+    </ScrollView>
+  );
+}
+
+export default function PhotoGalleryScreen() {
+  const { challenge, allLogs } = useChallengeStore();
+  const [tab, setTab] = useState<Tab>("gallery");
+  const [pose, setPose] = useState<ProgressPhotoPose>("front");
+  const [compareMode, setCompareMode] = useState<CompareMode>("slider");
+  const [beforeDate, setBeforeDate] = useState<string>();
+  const [afterDate, setAfterDate] = useState<string>();
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(TIMELAPSE_SPEEDS[1].ms);
+  const [contentWidth, setContentWidth] = useState(0);
+
+  const days = useMemo(
+    () => (challenge ? getPhotoDays(challenge, allLogs, pose) : []),
+    [challenge, allLogs, pose]
+  );
+  const thumbnails = useProgressPhotoUris(days.map(day => day.fileId));
+  // Full-size images are only needed for compare and timelapse
+  const fullSize = useProgressPhotoUris(tab === "gallery" ? [] : days.map(day => day.fileId), "full");
+
+  // Default to comparing the first and latest photos of the pose
+  const before = days.find(day => day.date === beforeDate) ?? days[0];
+  const after = days.find(day => day.date === afterDate) ?? days[days.length - 1];
+
+  useEffect(() => {
+    setFrameIndex(0);
+    setPlaying(false);
+  }, [pose, tab]);
+
+  useEffect(() => {
+    if (!playing || days.length < 2) return;
+    const timer = setInterval(() => setFrameIndex(index => (index + 1) % days.length), speed);
+    return () => clearInterval(timer);
+  }, [playing, speed, days.length]);
+
+  const handleGalleryPress = (day: PhotoDay) => {
+    // Tapping a photo compares it against the latest one
+    setBeforeDate(day.date);
+    setAfterDate(undefined);
+    setTab("compare");
+  };
+
+  const frame = days[Math.min(frameIndex, days.length - 1)];
+  const halfWidth = (contentWidth - 12) / 2;
+
+  return (
+    <SafeAreaView className="flex-1 bg-pink-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-pink-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-pink-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#EC4899" />
+        </Pressable>
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-gray-900">Progress Photos</Text>
+          <Text className="text-xs text-gray-500">
+            {days.length} {PROGRESS_PHOTO_POSES.find(p => p.id === pose)?.label.toLowerCase()} photo{days.length !== 1 ? "s" : ""}
+          </Text>
+        </View>
+      </View>
+
+      {/* Tabs */}
+      <View className="flex-row bg-white px-4 pb-3 gap-2">
+        {TABS.map(option => (
+          <Pressable
+            key={option.id}
+            onPress={() => setTab(option.id)}
+            className={`flex-1 flex-row py-2 rounded-xl items-center justify-center ${tab === option.id ? "bg-pink-500" : "bg-pink-50"}`}
+          >
+            <Feather name={option.icon} size={14} color={tab === option.id ? "white" : "#BE185D"} />
+            <Text className={`text-xs font-semibold ml-1 ${tab === option.id ? "text-white" : "text-pink-700"}`}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 16 }} showsVerticalScrollIndicator={false}>
+        <View onLayout={event => setContentWidth(event.nativeEvent.layout.width)}>
+          {/* Pose */}
+          <View className="flex-row gap-2 mb-4">
+            {PROGRESS_PHOTO_POSES.map(option => (
+              <Pressable
+                key={option.id}
+                onPress={() => setPose(option.id)}
+                className={`px-4 py-1.5 rounded-full border ${
+                  pose === option.id ? "bg-pink-100 border-pink-300" : "bg-white border-gray-200"
+                }`}
+              >
+                <Text className={`text-sm ${pose === option.id ? "text-pink-700 font-semibold" : "text-gray-600"}`}>
+                  {option.label}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {days.length === 0 ? (
+            <View className="items-center py-12">
+              <View className="h-16 w-16 items-center justify-center rounded-full bg-pink-100 mb-4">
+                <Feather name="camera" size={28} color="#EC4899" />
+              </View>
+              <Text className="text-base font-semibold text-gray-800 mb-1">No photos yet</Text>
+              <Text className="text-sm text-gray-500 text-center">
+                Photos you take for the progress photo task will appear here by challenge day.
+              </Text>
+            </View>
+          ) : tab === "gallery" ? (
+            <View className="flex-row flex-wrap" style={{ gap: 8 }}>
+              {days.map(day => (
+                <Pressable
+                  key={day.date}
+                  onPress={() => handleGalleryPress(day)}
+                  className="rounded-xl overflow-hidden bg-white"
+                  style={{ width: (contentWidth - 16) / 3, aspectRatio: PHOTO_ASPECT }}
+                >
+                  <Photo uri={thumbnails[day.fileId]} />
+                  <View className="absolute bottom-0 left-0 right-0 bg-black/40 py-1 items-center">
+                    <Text className="text-xs font-semibold text-white">Day {day.dayNumber}</Text>
+                  </View>
+                </Pressable>
+              ))}
+            </View>
+          ) : tab === "compare" ? (
+            <>
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <Text className="text-xs font-semibold text-gray-500 mb-2">Before</Text>
+                <DayPicker days={days} selected={before?.date} onSelect={setBeforeDate} />
+                <Text className="text-xs font-semibold text-gray-500 mt-3 mb-2">After</Text>
+                <DayPicker days={days} selected={after?.date} onSelect={setAfterDate} />
+                <View className="flex-row gap-2 mt-4">
+                  {(["slider", "side"] as CompareMode[]).map(mode => (
+                    <Pressable
+                      key={mode}
+                      onPress={() => setCompareMode(mode)}
+                      className={`flex-1 py-2 rounded-xl items-center ${compareMode === mode ? "bg-pink-500" : "bg-pink-50"}`}
+                    >
+                      <Text className={`text-xs font-semibold ${compareMode === mode ? "text-white" : "text-pink-700"}`}>
+                        {mode === "slider" ? "Slider" : "Side by Side"}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </View>
+
+              {before && after && contentWidth > 0 && (
+                compareMode === "slider" ? (
+                  <>
+                    <CompareSlider
+                      beforeUri={fullSize[before.fileId] ?? thumbnails[before.fileId]}
+                      afterUri={fullSize[after.fileId] ?? thumbnails[after.fileId]}
+                      width={contentWidth}
+                    />
+                    <View className="flex-row justify-between mt-2 px-1">
+                      <DayLabel day={after} />
+                      <DayLabel day={before} />
+                    </View>
+                    <Text className="text-xs text-gray-400 text-center mt-1">Drag across the photo to compare</Text>
+                  </>
+                ) : (
+                  <View className="flex-row" style={{ gap: 12 }}>
+                    {[before, after].map((day, index) => (
+                      <View key={`${day.date}-${index}`} style={{ width: halfWidth }}>
+                        <View className="rounded-2xl overflow-hidden" style={{ width: halfWidth, aspectRatio: PHOTO_ASPECT }}>
+                          <Photo uri={fullSize[day.fileId] ?? thumbnails[day.fileId]} />
+                        </View>
+                        <View className="mt-2">
+                          <DayLabel day={day} />
+                        </View>
+                      </View>
+                    ))}
+                  </View>
+                )
+              )}
+
+              {before?.weight && after?.weight && (
+                <View className="bg-white rounded-2xl p-4 shadow-sm mt-4 flex-row items-center">
+                  <Feather name="trending-down" size={18} color="#6366F1" />
+                  <Text className="text-sm text-gray-700 ml-2">
+                    {after.weight - before.weight === 0
+                      ? "Same weight"
+                      : `${after.weight > before.weight ? "+" : ""}${(after.weight - before.weight).toFixed(1)}kg`}
+                    {" "}over {Math.abs(after.dayNumber - before.dayNumber)} day{Math.abs(after.dayNumber - before.dayNumber) !== 1 ? "s" : ""}
+                  </Text>
+                </View>
+              )}
+            </>
+          ) : (
+            frame && (
+              <>
+                <View className="rounded-2xl overflow-hidden" style={{ width: contentWidth, aspectRatio: PHOTO_ASPECT }}>
+                  <Photo uri={fullSize[frame.fileId] ?? thumbnails[frame.fileId]} />
+                  <View className="absolute top-3 left-3 bg-black/50 px-3 py-1.5 rounded-full">
+                    <DayLabel day={frame} light />
+                  </View>
+                </View>
+
+                {/* Scrubber */}
+                <View className="flex-row mt-3" style={{ gap: 2 }}>
+                  {days.map((day, index) => (
+                    <Pressable
+                      key={day.date}
+                      onPress={() => {
+                        setPlaying(false);
+                        setFrameIndex(index);
+                      }}
+                      className={`flex-1 h-2 rounded-full ${index <= frameIndex ? "bg-pink-500" : "bg-pink-100"}`}
+                    />
+                  ))}
+                </View>
+
+                <View className="flex-row items-center mt-4">
+                  <Pressable
+                    onPress={() => setPlaying(!playing)}
+                    disabled={days.length < 2}
+                    className={`h-12 w-12 rounded-full items-center justify-center mr-4 ${days.length < 2 ? "bg-gray-200" : "bg-pink-500"}`}
+                  >
+                    <Feather name={playing ? "pause" : "play"} size={22} color="white" />
+                  </Pressable>
+                  <View className="flex-row flex-1 gap-2">
+                    {TIMELAPSE_SPEEDS.map(option => (
+                      <Pressable
+                        key={option.ms}
+                        onPress={() => setSpeed(option.ms)}
+                        className={`flex-1 py-2 rounded-xl items-center ${speed === option.ms ? "bg-pink-100" : "bg-white"}`}
+                      >
+                        <Text className={`text-xs font-semibold ${speed === option.ms ? "text-pink-700" : "text-gray-500"}`}>
+                          {option.label}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+                {days.length < 2 && (
+                  <Text className="text-xs text-gray-400 text-center mt-3">
+                    Take more photos of this pose to play a timelapse
+                  </Text>
+                )}
+              </>
+            )
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,140 @@
+import { formatReportRange } from "@/lib/progressReports";
+import { useReportStore } from "@/store/useReportStore";
+import { useSessionStore } from "@/store/useSessionStore";
+import type { ReportTotals } from "@/types/type";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router, useLocalSearchParams } from "expo-router";
+import { Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const TOTAL_ROWS: { key: keyof ReportTotals; label: string; unit: string; icon: keyof typeof Feather.glyphMap; color: string }[] = [
+  { key: "workoutMinutes", label: "Workouts", unit: "min", icon: "zap", color: "#F59E0B" },
+  { key: "readingPages", label: "Reading", unit: "pages", icon: "book-open", color: "#A855F7" },
+  { key: "waterLiters", label: "Water", unit: "L", icon: "droplet", color: "#06B6D4" },
+  { key: "steps", label: "Steps", unit: "steps", icon: "trending-up", color: "#10B981" },
+  { key: "activitiesLogged", label: "Activities logged", unit: "", icon: "list", color: "#6B7280" },
+];
+
+/**
+ * e.g. "+1,200" or "-5%" against the previous period
+ */
+function formatChange(current: number, previous: number, suffix = ""): string {
+  const change = Math.round((current - previous) * 10) / 10;
+  if (change === 0) return "No change";
+  return `${change > 0 ? "+" : ""}${change.toLocaleString()}${suffix}`;
+}
+
+export default function ReportScreen() {
+  const { reportId } = useLocalSearchParams<{ reportId: string }>();
+  const userId = useSessionStore((state) => state.user?.id);
+  const report = useReportStore((state) =>
+    state.reports.find((r) => r.id === reportId && !!userId && r.userId === userId)
+  );
+  const periodLabel = report?.period === "month" ? "month" : "week";
+
+  return (
+    <SafeAreaView className="flex-1 bg-sky-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-sky-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-sky-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#0284C7" />
+        </Pressable>
+        <View className="flex-1">
+          <Text className="text-xl font-bold text-gray-900">
+            {report?.period === "month" ? "Monthly Report" : "Weekly Report"}
+          </Text>
+          {report && <Text className="text-sm text-sky-600">{formatReportRange(report)}</Text>}
+        </View>
+      </View>
+
+      {!report ? (
+        <View className="flex-1 items-center justify-center p-8">
+          <Text className="text-sm text-gray-500 text-center">This report is no longer available.</Text>
+        </View>
+      ) : (
+        <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+          {/* Completion */}
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+            <Text className="text-sm font-semibold text-gray-600 mb-2">Completion</Text>
+            <View className="flex-row items-end">
+              <Text className="text-4xl font-bold text-sky-600">{report.completionRate}%</Text>
+              <Text className="text-sm text-gray-500 ml-2 mb-1">
+                {report.daysComplete} of {report.daysCounted} days complete
+              </Text>
+            </View>
+            {report.previous && (
+              <Text className="text-xs text-gray-500 mt-2">
+                {formatChange(report.completionRate, report.previous.completionRate, "%")} vs last {periodLabel} ({report.previous.completionRate}%)
+              </Text>
+            )}
+          </View>
+
+          {/* Totals */}
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+            <Text className="text-sm font-semibold text-gray-600 mb-2">Totals</Text>
+            {TOTAL_ROWS.map((row, index) => (
+              <View
+                key={row.key}
+                className={`flex-row items-center py-2 ${index < TOTAL_ROWS.length - 1 ? "border-b border-gray-100" : ""}`}
+              >
+                <Feather name={row.icon} size={16} color={row.color} />
+                <Text className="text-sm text-gray-700 ml-2 flex-1">{row.label}</Text>
+                <View className="items-end">
+                  <Text className="text-sm font-semibold text-gray-900">
+                    {report.totals[row.key].toLocaleString()}{row.unit ? ` ${row.unit}` : ""}
+                  </Text>
+                  {report.previous && (
+                    <Text className="text-[10px] text-gray-400">
+                      {formatChange(report.totals[row.key], report.previous.totals[row.key])}
+                    </Text>
+                  )}
+                </View>
+              </View>
+            ))}
+          </View>
+
+          {/* Weight */}
+          {report.weightChange !== null && (
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-600 mb-1">Weight Change</Text>
+              <Text className="text-2xl font-bold text-indigo-600">
+                {report.weightChange > 0 ? "+" : ""}{report.weightChange} kg
+              </Text>
+              {report.previous?.weightChange != null && (
+                <Text className="text-xs text-gray-500 mt-1">
+                  {report.previous.weightChange > 0 ? "+" : ""}{report.previous.weightChange} kg last {periodLabel}
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Most missed */}
+          <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+            <Text className="text-sm font-semibold text-gray-600 mb-2">Most Often Missed</Text>
+            {report.missedTasks.length === 0 ? (
+              <Text className="text-sm text-green-600">Nothing missed - every task was done every day.</Text>
+            ) : (
+              report.missedTasks.map((task) => (
+                <View key={task.id} className="flex-row items-center py-1.5">
+                  <Feather name="alert-circle" size={14} color="#F97316" />
+                  <Text className="text-sm text-gray-700 ml-2 flex-1">{task.label}</Text>
+                  <Text className="text-sm text-gray-500">
+                    {task.count} {task.count === 1 ? "day" : "days"}
+                  </Text>
+                </View>
+              ))
+            )}
+          </View>
+
+          <Text className="text-[10px] text-gray-400 text-center mb-8">
+            Generated {format(parseISO(report.generatedAt), "MMM d, yyyy")}
+          </Text>
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+}
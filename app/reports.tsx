@@ -0,0 +1,94 @@
+import { formatReportRange } from "@/lib/progressReports";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { useReportStore } from "@/store/useReportStore";
+import { useSessionStore } from "@/store/useSessionStore";
+import type { ReportPeriod } from "@/types/type";
+import { Feather } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { useMemo, useState } from "react";
+import { Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const PERIOD_OPTIONS: { period: ReportPeriod; label: string }[] = [
+  { period: "week", label: "Weekly" },
+  { period: "month", label: "Monthly" },
+];
+
+export default function ReportsScreen() {
+  const challenge = useChallengeStore((state) => state.challenge);
+  const userId = useSessionStore((state) => state.user?.id);
+  const reports = useReportStore((state) => state.reports);
+  const [period, setPeriod] = useState<ReportPeriod>("week");
+
+  // This user's reports from this attempt first, then earlier ones
+  const visibleReports = useMemo(
+    () =>
+      reports
+        .filter((report) => report.period === period && !!userId && report.userId === userId)
+        .sort((a, b) => Number(b.challengeId === challenge?.$id) - Number(a.challengeId === challenge?.$id)),
+    [reports, period, userId, challenge?.$id]
+  );
+
+  return (
+    <SafeAreaView className="flex-1 bg-sky-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-sky-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-sky-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#0284C7" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900 flex-1">Progress Reports</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {/* Period filter */}
+        <View className="flex-row gap-2 mb-4">
+          {PERIOD_OPTIONS.map((option) => (
+            <Pressable
+              key={option.period}
+              onPress={() => setPeriod(option.period)}
+              className={`flex-1 py-2 rounded-full ${period === option.period ? "bg-sky-500" : "bg-white"}`}
+            >
+              <Text className={`text-center text-sm font-semibold ${period === option.period ? "text-white" : "text-gray-600"}`}>
+                {option.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {visibleReports.length === 0 ? (
+          <View className="bg-white rounded-2xl p-6 shadow-sm items-center">
+            <Feather name="file-text" size={32} color="#7DD3FC" />
+            <Text className="text-sm text-gray-500 text-center mt-3">
+              {period === "week"
+                ? "Your first weekly report arrives the Monday after your first challenge week ends."
+                : "Your first monthly report arrives when your first challenge month ends."}
+            </Text>
+          </View>
+        ) : (
+          <View className="bg-white rounded-2xl shadow-sm mb-8 overflow-hidden">
+            {visibleReports.map((report, index) => (
+              <Pressable
+                key={report.id}
+                onPress={() => router.push({ pathname: "/report", params: { reportId: report.id } })}
+                className={`flex-row items-center px-4 py-3 ${index < visibleReports.length - 1 ? "border-b border-gray-100" : ""}`}
+              >
+                <View className="flex-1">
+                  <Text className="text-sm font-semibold text-gray-900">{formatReportRange(report)}</Text>
+                  <Text className="text-xs text-gray-500">
+                    {report.daysComplete}/{report.daysCounted} days complete
+                    {report.challengeId !== challenge?.$id ? " • Earlier attempt" : ""}
+                  </Text>
+                </View>
+                <Text className="text-base font-bold text-sky-600 mr-2">{report.completionRate}%</Text>
+                <Feather name="chevron-right" size={18} color="#9CA3AF" />
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,144 @@
+import { getChallengeEndDate } from "@/lib/challengeStats";
+import { getChallengeDayNumber, getTodayDate, toDayKey } from "@/lib/dayBoundary";
+import { withTodayLog } from "@/lib/dayCompletion";
+import {
+    canProtectStreak,
+    FREEZE_EARN_DAYS,
+    getFreezeTokens,
+    getRestDayBlocker,
+    getRestDays,
+    MAX_FREEZE_TOKENS,
+} from "@/lib/streakFreezes";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { Feather } from "@expo/vector-icons";
+import { addDays, format, isAfter, parseISO } from "date-fns";
+import { router } from "expo-router";
+import { useMemo, useState } from "react";
+import { ActivityIndicator, Alert, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+// How far ahead rest days can be planned
+const PLANNING_DAYS = 28;
+
+export default function RestDaysScreen() {
+  const { challenge, allLogs, todayLog, setRestDay } = useChallengeStore();
+  const [savingDate, setSavingDate] = useState<string | null>(null);
+
+  const tokens = useMemo(
+    () => (challenge ? getFreezeTokens(challenge, withTodayLog(allLogs, todayLog)) : null),
+    [challenge, allLogs, todayLog]
+  );
+  const restDays = useMemo(() => (challenge ? getRestDays(challenge) : []), [challenge]);
+
+  // Upcoming challenge days that can still be planned
+  const upcomingDays = useMemo(() => {
+    if (!challenge) return [];
+    const end = getChallengeEndDate(challenge);
+    const today = getTodayDate();
+    return Array.from({ length: PLANNING_DAYS }, (_, index) => addDays(today, index + 1))
+      .filter(day => !isAfter(day, end) && !isAfter(parseISO(challenge.startDate), day))
+      .map(toDayKey);
+  }, [challenge]);
+
+  const handleToggle = async (date: string) => {
+    if (!challenge || savingDate) return;
+    const planned = !restDays.includes(date);
+    const blocker = planned ? getRestDayBlocker(challenge, date) : null;
+    if (blocker) {
+      Alert.alert("Can't Plan Rest Day", blocker);
+      return;
+    }
+
+    setSavingDate(date);
+    try {
+      await setRestDay(date, planned);
+    } catch (err) {
+      console.error("Failed to update rest day:", err);
+      Alert.alert("Error", err instanceof Error ? err.message : "Failed to update rest day. Please try again.");
+    } finally {
+      setSavingDate(null);
+    }
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-sky-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-sky-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-sky-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#0284C7" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900 flex-1">Rest Days & Freezes</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {!challenge || !canProtectStreak(challenge) ? (
+          <View className="bg-white rounded-2xl p-4 shadow-sm">
+            <Text className="text-sm text-gray-600">
+              Rest days and streak freezes aren&apos;t available in strict mode - every day has to be completed.
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Freeze tokens */}
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <View className="flex-row items-center mb-2">
+                <Feather name="shield" size={18} color="#0284C7" />
+                <Text className="text-base font-semibold text-gray-900 ml-2 flex-1">Streak Freezes</Text>
+                <Text className="text-base font-bold text-sky-600">{tokens?.available ?? 0} left</Text>
+              </View>
+              <Text className="text-sm text-gray-500">
+                Earn a freeze for every {FREEZE_EARN_DAYS} complete days, up to {MAX_FREEZE_TOKENS} per challenge.
+                Use one from a missed day in Analytics so it doesn&apos;t break your streak.
+              </Text>
+              {tokens && (
+                <Text className="text-xs text-gray-400 mt-2">
+                  {tokens.earned} earned • {tokens.used} used
+                </Text>
+              )}
+            </View>
+
+            {/* Planned rest days */}
+            <Text className="text-sm font-semibold text-gray-500 mb-2 ml-1">Plan Rest Days</Text>
+            <View className="bg-white rounded-2xl shadow-sm mb-4 overflow-hidden">
+              {upcomingDays.length === 0 ? (
+                <Text className="text-sm text-gray-500 p-4">There are no upcoming challenge days to plan.</Text>
+              ) : (
+                upcomingDays.map((date, index) => {
+                  const planned = restDays.includes(date);
+                  return (
+                    <Pressable
+                      key={date}
+                      onPress={() => handleToggle(date)}
+                      className={`flex-row items-center px-4 py-3 ${index < upcomingDays.length - 1 ? "border-b border-gray-100" : ""}`}
+                    >
+                      <View className="flex-1">
+                        <Text className="text-sm font-semibold text-gray-900">{format(parseISO(date), "EEEE, MMM d")}</Text>
+                        <Text className="text-xs text-gray-500">Day {getChallengeDayNumber(challenge.startDate, date)}</Text>
+                      </View>
+                      {savingDate === date ? (
+                        <ActivityIndicator size="small" color="#0284C7" />
+                      ) : (
+                        <View className={`flex-row items-center px-3 py-1 rounded-full ${planned ? "bg-sky-500" : "bg-gray-100"}`}>
+                          <Feather name="coffee" size={12} color={planned ? "white" : "#6B7280"} />
+                          <Text className={`text-xs font-semibold ml-1 ${planned ? "text-white" : "text-gray-600"}`}>
+                            {planned ? "Rest" : "Plan"}
+                          </Text>
+                        </View>
+                      )}
+                    </Pressable>
+                  );
+                })
+              )}
+            </View>
+            <Text className="text-xs text-gray-400 mb-8 ml-1">
+              One rest day per challenge week. Rest days don&apos;t count as complete, but they won&apos;t break your streak.
+            </Text>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
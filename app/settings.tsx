@@ -1,3 +1,7 @@
+import { buildChallengeExport, ExportFormat, shareChallengeExport } from "@/lib/dataExport";
+import { formatCutoffHour, getActiveTimeZone, MAX_CUTOFF_HOUR } from "@/lib/dayBoundary";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { useDayBoundaryStore } from "@/store/useDayBoundaryStore";
 import { useNotificationStore } from "@/store/useNotificationStore";
 import { useSessionStore } from "@/store/useSessionStore";
 import { Feather } from "@expo/vector-icons";
@@ -18,13 +22,42 @@ import { SafeAreaView } from "react-native-safe-area-context";
 export default function SettingsScreen() {
   const { user, logout, deleteAccount } = useSessionStore();
   const { notificationsEnabled, setNotificationsEnabled } = useNotificationStore();
+  const { cutoffHour, timeZoneMode, homeTimeZone, setCutoffHour, setTimeZoneMode } = useDayBoundaryStore();
   const [loading, setLoading] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const { challenge } = useChallengeStore();
 
-  const handleLogout = async () => {
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!challenge?.$id || exporting) return;
+    setExporting(exportFormat);
+    try {
+      const data = await buildChallengeExport(challenge);
+      await shareChallengeExport(data, exportFormat);
+    } catch (err) {
+      console.error("Export failed:", err);
+      Alert.alert("Export Failed", "Couldn't export your data. Please check your connection and try again.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleLogout = async (discardPendingChanges = false) => {
     setLoading(true);
     try {
-      await logout();
+      const loggedOut = await logout({ discardPendingChanges });
+      if (!loggedOut) {
+        const count = useChallengeStore.getState().pendingChanges.length;
+        Alert.alert(
+          "Unsynced Changes",
+          `${count} ${count === 1 ? "change hasn't" : "changes haven't"} been saved to your account yet. Logging out now will lose ${count === 1 ? "it" : "them"}.`,
+          [
+            { text: "Cancel", style: "cancel" },
+            { text: "Log Out Anyway", style: "destructive", onPress: () => handleLogout(true) },
+          ]
+        );
+        return;
+      }
       router.replace("/auth");
     } catch (err) {
       console.error("Logout failed:", err);
@@ -114,6 +147,16 @@ export default function SettingsScreen() {
               label="Challenge Settings" 
               onPress={() => router.push("/challenge-setup")}
             />
+            <MenuItem
+              icon="clock"
+              label="Challenge History"
+              onPress={() => router.push("/challenge-history")}
+            />
+            <MenuItem
+              icon="file-text"
+              label="Progress Reports"
+              onPress={() => router.push("/reports")}
+            />
             <MenuItem 
               icon="calendar" 
               label="Daily Log" 
@@ -122,6 +165,89 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Day Section */}
+        <View className="mt-6">
+          <Text className="text-xs font-semibold text-gray-400 uppercase px-5 mb-2">Day</Text>
+          <View className="bg-white rounded-xl overflow-hidden mx-4">
+            <View className="px-4 py-3.5 border-b border-gray-100">
+              <View className="flex-row items-center mb-3">
+                <View className="h-8 w-8 items-center justify-center rounded-full mr-3 bg-gray-100">
+                  <Feather name="moon" size={18} color="#6B7280" />
+                </View>
+                <View className="flex-1">
+                  <Text className="text-base text-gray-900">Day Ends At</Text>
+                  <Text className="text-xs text-gray-500">Logs before this time count for the previous day</Text>
+                </View>
+              </View>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {Array.from({ length: MAX_CUTOFF_HOUR + 1 }, (_, hour) => (
+                  <Pressable
+                    key={hour}
+                    onPress={() => setCutoffHour(hour)}
+                    className={`px-3 py-2 rounded-lg mr-2 border ${
+                      cutoffHour === hour ? "bg-purple-100 border-purple-300" : "bg-gray-50 border-gray-200"
+                    }`}
+                  >
+                    <Text className={`text-sm ${cutoffHour === hour ? "text-purple-700 font-semibold" : "text-gray-600"}`}>
+                      {formatCutoffHour(hour)}
+                    </Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+            </View>
+            <View className="flex-row items-center bg-white px-4 py-3.5">
+              <View className="h-8 w-8 items-center justify-center rounded-full mr-3 bg-gray-100">
+                <Feather name="globe" size={18} color="#6B7280" />
+              </View>
+              <View className="flex-1 mr-3">
+                <Text className="text-base text-gray-900">Keep Home Time Zone</Text>
+                <Text className="text-xs text-gray-500">
+                  {timeZoneMode === "home" && homeTimeZone
+                    ? `Days follow ${homeTimeZone} while traveling`
+                    : `Days follow this device (${getActiveTimeZone()})`}
+                </Text>
+              </View>
+              <Switch
+                value={timeZoneMode === "home"}
+                onValueChange={(value) => setTimeZoneMode(value ? "home" : "device")}
+                trackColor={{ false: "#D1D5DB", true: "#A78BFA" }}
+                thumbColor={timeZoneMode === "home" ? "#8B5CF6" : "#F3F4F6"}
+              />
+            </View>
+          </View>
+        </View>
+
+        {/* Data Section */}
+        <View className="mt-6">
+          <Text className="text-xs font-semibold text-gray-400 uppercase px-5 mb-2">Data</Text>
+          <View className="bg-white rounded-xl overflow-hidden mx-4">
+            {challenge?.$id && (
+              <>
+                <MenuItem
+                  icon="file-text"
+                  label={exporting === "csv" ? "Exporting..." : "Export Daily Logs (CSV)"}
+                  onPress={() => handleExport("csv")}
+                />
+                <MenuItem
+                  icon="download"
+                  label={exporting === "json" ? "Exporting..." : "Export All Data (JSON)"}
+                  onPress={() => handleExport("json")}
+                />
+                <MenuItem
+                  icon="upload"
+                  label="Import Logs from CSV"
+                  onPress={() => router.push("/import-logs")}
+                />
+              </>
+            )}
+            <MenuItem
+              icon="archive"
+              label="Backup & Restore"
+              onPress={() => router.push("/backup")}
+            />
+          </View>
+        </View>
+
         {/* Account Section */}
         <View className="mt-6">
           <Text className="text-xs font-semibold text-gray-400 uppercase px-5 mb-2">Account</Text>
@@ -167,7 +293,7 @@ export default function SettingsScreen() {
         <View className="mt-6 mb-8">
           <View className="bg-white rounded-xl overflow-hidden mx-4">
             <Pressable 
-              onPress={handleLogout}
+              onPress={() => handleLogout()}
               disabled={loading}
               className="flex-row items-center px-4 py-3.5 border-b border-gray-100"
             >
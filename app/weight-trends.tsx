@@ -0,0 +1,153 @@
+import WeightTrendChart from "@/components/WeightTrendChart";
+import { getUserProfile } from "@/lib/appwrite";
+import { getTodayDate, getTodayKey } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { BmiCategory, getBmiCategory, getWeightTrend, MOVING_AVERAGE_DAYS } from "@/lib/weightTrends";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { useSessionStore } from "@/store/useSessionStore";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router } from "expo-router";
+import { useEffect, useMemo, useState } from "react";
+import { Dimensions, Pressable, ScrollView, Text, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+const CHART_WIDTH = Dimensions.get("window").width - 72;
+
+const BMI_LABELS: Record<BmiCategory, { label: string; color: string }> = {
+  underweight: { label: "Underweight", color: "#3B82F6" },
+  healthy: { label: "Healthy", color: "#22C55E" },
+  overweight: { label: "Overweight", color: "#F97316" },
+  obese: { label: "Obese", color: "#EF4444" },
+};
+
+function StatTile({ label, value, detail, detailColor }: { label: string; value: string; detail?: string; detailColor?: string }) {
+  return (
+    <View className="flex-1 min-w-[45%] bg-white rounded-2xl p-4 shadow-sm">
+      <Text className="text-xs text-gray-500 mb-1">{label}</Text>
+      <Text className="text-lg font-bold text-gray-900">{value}</Text>
+      {detail && (
+        <Text className="text-xs mt-0.5" style={{ color: detailColor ?? "#6B7280" }}>
+          {detail}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+export default function WeightTrendsScreen() {
+  const { user } = useSessionStore();
+  const { challenge, allLogs } = useChallengeStore();
+  const [heightCm, setHeightCm] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    getUserProfile(user.id)
+      .then(profile => setHeightCm(profile?.heightCm || undefined))
+      .catch(err => console.error("Failed to load profile:", err));
+  }, [user?.id]);
+
+  const trend = useMemo(
+    () => (challenge ? getWeightTrend(challenge, allLogs, heightCm, getTodayDate()) : null),
+    [challenge, allLogs, heightCm]
+  );
+  const goal = challenge ? getGoalsForDate(challenge, getTodayKey()).weightGoal : 0;
+
+  const rate = trend?.weeklyRate ?? null;
+  const projection = trend?.projection ?? null;
+
+  return (
+    <SafeAreaView className="flex-1 bg-indigo-50" edges={["top"]}>
+      {/* Header */}
+      <View className="bg-white px-5 py-4 border-b border-indigo-100 flex-row items-center">
+        <Pressable
+          onPress={() => router.back()}
+          className="h-10 w-10 items-center justify-center rounded-full bg-indigo-100 mr-3"
+        >
+          <Feather name="arrow-left" size={20} color="#6366F1" />
+        </Pressable>
+        <Text className="text-xl font-bold text-gray-900 flex-1">Weight Trends</Text>
+      </View>
+
+      <ScrollView className="flex-1 p-4" showsVerticalScrollIndicator={false}>
+        {/* Chart */}
+        <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+          <Text className="text-sm font-semibold text-gray-600 mb-1">Trend</Text>
+          <Text className="text-xs text-gray-400 mb-3">
+            Dots are daily weigh-ins, the line is your {MOVING_AVERAGE_DAYS}-day average
+          </Text>
+          <WeightTrendChart
+            points={trend?.points ?? []}
+            markers={trend?.markers ?? []}
+            goal={goal}
+            color="#6366F1"
+            width={CHART_WIDTH}
+          />
+        </View>
+
+        {trend && trend.current !== null && (
+          <>
+            {/* Stats */}
+            <View className="flex-row flex-wrap gap-3 mb-4">
+              <StatTile label="Trend Weight" value={`${trend.current} kg`} detail={`${MOVING_AVERAGE_DAYS}-day average`} />
+              <StatTile
+                label="Weekly Rate"
+                value={rate === null ? "--" : `${rate > 0 ? "+" : ""}${rate} kg`}
+                detail={rate === null ? "Needs a week of weigh-ins" : "per week"}
+              />
+              {trend.bmi !== null ? (
+                <StatTile
+                  label="BMI"
+                  value={String(trend.bmi)}
+                  detail={BMI_LABELS[getBmiCategory(trend.bmi)].label}
+                  detailColor={BMI_LABELS[getBmiCategory(trend.bmi)].color}
+                />
+              ) : (
+                <Pressable onPress={() => router.push("/edit-profile")} className="flex-1 min-w-[45%] bg-white rounded-2xl p-4 shadow-sm">
+                  <Text className="text-xs text-gray-500 mb-1">BMI</Text>
+                  <Text className="text-sm font-semibold text-indigo-600">Add your height</Text>
+                  <Text className="text-xs text-gray-400 mt-0.5">in Edit Profile</Text>
+                </Pressable>
+              )}
+              {projection && (
+                <StatTile
+                  label="Goal Reached"
+                  value={
+                    projection.remaining === 0
+                      ? "Reached"
+                      : projection.date
+                        ? format(projection.date, "MMM d, yyyy")
+                        : "--"
+                  }
+                  detail={
+                    projection.remaining === 0
+                      ? "You're at your goal"
+                      : projection.date
+                        ? `${Math.abs(projection.remaining)} kg to go at this rate`
+                        : `${Math.abs(projection.remaining)} kg to go - trend isn't heading there yet`
+                  }
+                />
+              )}
+            </View>
+
+            {/* Progress markers */}
+            {trend.markers.length > 0 && (
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-8">
+                <Text className="text-sm font-semibold text-gray-600 mb-2">Milestones</Text>
+                {trend.markers.map(marker => (
+                  <View key={marker.percent} className="flex-row items-center py-1.5">
+                    <Feather name="flag" size={14} color={marker.percent === 100 ? "#22C55E" : "#6366F1"} />
+                    <Text className="text-sm text-gray-700 ml-2 flex-1">
+                      {marker.percent === 100 ? "Goal reached" : `${marker.percent}% of the way`}
+                    </Text>
+                    <Text className="text-sm text-gray-500">{format(parseISO(marker.date), "MMM d")}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
@@ -1,4 +1,6 @@
 import { useTodayCycleLog } from "@/hooks/useCycleLog";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { getCalorieTarget, getWeightTarget, isCalorieGoalMet, isOnTarget } from "@/lib/goalTargets";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useHealthStore } from "@/store/useHealthStore";
 import { Feather } from "@expo/vector-icons";
@@ -205,6 +207,9 @@ export default function ActivityProgressCard({ type, compact = false }: Props) {
   const config = ACTIVITY_CONFIG[type];
   const useHealthKit = Platform.OS === "ios" && healthAuthorized;
 
+  // Goals can vary by day, so use today's
+  const goals = getGoalsForDate(challenge, todayLog.date);
+
   // Get current value, goal, and completion status based on type
   let current = 0;
   let goal = 0;
@@ -216,28 +221,28 @@ export default function ActivityProgressCard({ type, compact = false }: Props) {
     case "steps":
       isTracked = challenge.trackSteps;
       current = useHealthKit ? Math.round(liveSteps) : (todayLog.stepsCount ?? 0);
-      goal = challenge.stepsGoal ?? 0;
+      goal = goals.stepsGoal ?? 0;
       unit = "";
       isCompleted = current >= goal;
       break;
     case "workout1":
       isTracked = challenge.trackWorkout1;
       current = todayLog.workout1Minutes ?? 0;
-      goal = challenge.workoutMinutes ?? 0;
+      goal = goals.workoutMinutes ?? 0;
       unit = "min";
       isCompleted = current >= goal;
       break;
     case "workout2":
       isTracked = challenge.trackWorkout2;
       current = todayLog.workout2Minutes ?? 0;
-      goal = challenge.workoutMinutes ?? 0;
+      goal = goals.workoutMinutes ?? 0;
       unit = "min";
       isCompleted = current >= goal;
       break;
     case "water":
       isTracked = challenge.trackWater;
       current = todayLog.waterLiters ?? 0;
-      goal = challenge.waterLiters ?? 0;
+      goal = goals.waterLiters ?? 0;
       unit = "L";
       isCompleted = current >= goal;
       break;
@@ -262,7 +267,7 @@ export default function ActivityProgressCard({ type, compact = false }: Props) {
     case "reading":
       isTracked = challenge.trackReading;
       current = todayLog.readingPages ?? 0;
-      goal = challenge.readingPages ?? 0;
+      goal = goals.readingPages ?? 0;
       unit = "pg";
       isCompleted = current >= goal || (todayLog.readingCompleted ?? false);
       break;
@@ -278,7 +283,8 @@ export default function ActivityProgressCard({ type, compact = false }: Props) {
       break;
     case "weight":
       isTracked = challenge.trackWeight;
-      isCompleted = todayLog.weightLogged ?? false;
+      const weightTarget = getWeightTarget(goals);
+      isCompleted = (todayLog.weightLogged ?? false) && (!weightTarget || isOnTarget(todayLog.currentWeight ?? 0, weightTarget));
       break;
     case "mood":
       isTracked = challenge.trackMood;
@@ -286,10 +292,11 @@ export default function ActivityProgressCard({ type, compact = false }: Props) {
       break;
     case "calories":
       isTracked = challenge.trackCalories;
+      const calorieTarget = getCalorieTarget(goals);
       current = todayLog.caloriesConsumed ?? 0;
-      goal = challenge.caloriesGoal ?? 2000;
+      goal = calorieTarget.max ?? calorieTarget.min ?? 2000;
       unit = "cal";
-      isCompleted = current > 0 && current <= goal;
+      isCompleted = isCalorieGoalMet(current, goals);
       break;
     case "cycle":
       isTracked = (challenge as any).trackCycle ?? false;
@@ -1,10 +1,15 @@
 import { useTodayCycleLog } from "@/hooks/useCycleLog";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { getWeightTarget, isCalorieGoalMet, isOnTarget } from "@/lib/goalTargets";
+import { getAttemptNumber, isChallengeFailed } from "@/lib/strictMode";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useHealthStore } from "@/store/useHealthStore";
 import { Feather } from "@expo/vector-icons";
+import { parseISO } from "date-fns";
 import { router } from "expo-router";
-import { useEffect, useRef } from "react";
-import { Animated, Pressable, Text, View } from "react-native";
+import { useEffect, useRef, useState } from "react";
+import { ActivityIndicator, Alert, Animated, Pressable, Text, View } from "react-native";
 
 // Celebration sparkle component
 function CelebrationSparkles() {
@@ -51,7 +56,8 @@ function CelebrationSparkles() {
 }
 
 export default function ChallengeStatusCard() {
-  const { challenge, todayLog, isLoading } = useChallengeStore();
+  const { challenge, todayLog, isLoading, restartChallenge } = useChallengeStore();
+  const [restarting, setRestarting] = useState(false);
   const { steps, workouts, isAuthorized: healthAuthorized } = useHealthStore();
   const { hasLoggedToday: cycleLoggedToday } = useTodayCycleLog();
   
@@ -106,15 +112,79 @@ export default function ChallengeStatusCard() {
     );
   }
 
+  const attemptNumber = getAttemptNumber(challenge);
+  const challengeTitle = `${challenge.totalDays} Hard Challenge${attemptNumber > 1 ? ` • Attempt ${attemptNumber}` : ""}`;
+
+  // Strict mode attempt was failed - offer a restart on Day 1
+  if (isChallengeFailed(challenge)) {
+    const handleRestart = () => {
+      Alert.alert(
+        "Restart Challenge",
+        `Start attempt ${attemptNumber + 1} today on Day 1 with the same settings?`,
+        [
+          { text: "Cancel", style: "cancel" },
+          {
+            text: "Restart",
+            onPress: async () => {
+              setRestarting(true);
+              try {
+                await restartChallenge();
+              } catch {
+                Alert.alert("Error", "Failed to restart challenge. Please try again.");
+              } finally {
+                setRestarting(false);
+              }
+            },
+          },
+        ]
+      );
+    };
+
+    return (
+      <View
+        className="rounded-2xl p-6 mb-4 bg-white"
+        style={{ borderWidth: 1, borderColor: '#FECACA' }}
+      >
+        <View className="flex-row items-center mb-4">
+          <View className="h-12 w-12 items-center justify-center rounded-full bg-red-100">
+            <Feather name="x-circle" size={24} color="#EF4444" />
+          </View>
+          <View className="ml-4 flex-1">
+            <Text className="text-xs uppercase tracking-wide text-gray-500">{challengeTitle}</Text>
+            <Text className="text-xl font-bold text-gray-900">Attempt {attemptNumber} Failed</Text>
+          </View>
+        </View>
+
+        {challenge.failureReason && (
+          <View className="bg-red-50 rounded-xl p-3 mb-4">
+            <Text className="text-sm text-red-700">{challenge.failureReason}</Text>
+          </View>
+        )}
+
+        <Text className="text-sm text-gray-500 mb-4">
+          Strict mode requires every task, every day. This attempt has been archived - start again on Day 1.
+        </Text>
+
+        <Pressable
+          onPress={handleRestart}
+          disabled={restarting}
+          className="bg-primary rounded-xl py-3 flex-row items-center justify-center"
+        >
+          {restarting ? (
+            <ActivityIndicator color="white" />
+          ) : (
+            <>
+              <Feather name="rotate-ccw" size={16} color="white" />
+              <Text className="text-white font-semibold ml-2">Restart on Day 1</Text>
+            </>
+          )}
+        </Pressable>
+      </View>
+    );
+  }
+
   // Calculate progress
-  const startDate = new Date(challenge.startDate);
-  // Set time to start of day for accurate comparison
-  startDate.setHours(0, 0, 0, 0);
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const daysPassed =
-    Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  const daysPassed = getChallengeDayNumber(challenge.startDate);
   const hasStarted = daysPassed >= 1;
   const currentDay = hasStarted ? Math.min(daysPassed, challenge.totalDays) : 0;
   const progressPercent = hasStarted ? (currentDay / challenge.totalDays) * 100 : 0;
@@ -125,25 +195,27 @@ export default function ChallengeStatusCard() {
   let totalTracked = 0;
 
   if (hasStarted && todayLog) {
+    const goals = getGoalsForDate(challenge, todayLog.date);
+
     // Steps
     if (challenge.trackSteps) {
       totalTracked++;
       const stepsCount = healthAuthorized ? steps : (todayLog.stepsCount ?? 0);
-      if (stepsCount >= challenge.stepsGoal) completedToday++;
+      if (stepsCount >= goals.stepsGoal) completedToday++;
     }
 
     // Workout 1
     if (challenge.trackWorkout1) {
       totalTracked++;
       const workout1Minutes = todayLog.workout1Minutes ?? 0;
-      if (workout1Minutes >= challenge.workoutMinutes) completedToday++;
+      if (workout1Minutes >= goals.workoutMinutes) completedToday++;
     }
 
     // Workout 2
     if (challenge.trackWorkout2) {
       totalTracked++;
       const workout2Minutes = todayLog.workout2Minutes ?? 0;
-      if (workout2Minutes >= challenge.workoutMinutes) completedToday++;
+      if (workout2Minutes >= goals.workoutMinutes) completedToday++;
     }
 
     // Diet
@@ -155,13 +227,13 @@ export default function ChallengeStatusCard() {
     // Water
     if (challenge.trackWater) {
       totalTracked++;
-      if ((todayLog.waterLiters ?? 0) >= challenge.waterLiters) completedToday++;
+      if ((todayLog.waterLiters ?? 0) >= goals.waterLiters) completedToday++;
     }
 
     // Reading
     if (challenge.trackReading) {
       totalTracked++;
-      if ((todayLog.readingPages ?? 0) >= challenge.readingPages || todayLog.readingCompleted) completedToday++;
+      if ((todayLog.readingPages ?? 0) >= goals.readingPages || todayLog.readingCompleted) completedToday++;
     }
 
     // Progress Photo
@@ -179,16 +251,15 @@ export default function ChallengeStatusCard() {
     // Weight
     if (challenge.trackWeight) {
       totalTracked++;
-      if (todayLog.weightLogged) completedToday++;
+      const weightTarget = getWeightTarget(goals);
+      if (todayLog.weightLogged && (!weightTarget || isOnTarget(todayLog.currentWeight ?? 0, weightTarget))) completedToday++;
     }
 
     // Calories
     if (challenge.trackCalories) {
       totalTracked++;
       const calories = todayLog.caloriesConsumed ?? 0;
-      const direction = (challenge as any).caloriesGoalDirection ?? "below";
-      const meetsGoal = calories > 0 && (direction === "below" ? calories <= challenge.caloriesGoal : calories >= challenge.caloriesGoal);
-      if (meetsGoal) completedToday++;
+      if (isCalorieGoalMet(calories, goals)) completedToday++;
     }
 
     // Mood
@@ -238,7 +309,7 @@ export default function ChallengeStatusCard() {
             <Text className="text-xs text-gray-500 uppercase tracking-wide">
               Starts in {daysUntilStart} day{daysUntilStart !== 1 ? "s" : ""}
             </Text>
-            <Text className="text-xl font-bold text-gray-900">{challenge.totalDays} Hard Challenge</Text>
+            <Text className="text-xl font-bold text-gray-900">{challengeTitle}</Text>
           </View>
           <Pressable
             onPress={(e) => {
@@ -259,7 +330,7 @@ export default function ChallengeStatusCard() {
             </View>
             <View className="ml-4 flex-1">
               <Text className="text-base font-semibold text-gray-900">
-                Starting {startDate.toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
+                Starting {parseISO(challenge.startDate).toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" })}
               </Text>
               <Text className="text-sm text-gray-500">
                 {challenge.totalDays} day challenge • {trackedTasksCount} daily tasks
@@ -295,7 +366,7 @@ export default function ChallengeStatusCard() {
         {/* Header */}
         <View className="flex-row items-center justify-between mb-4">
           <View>
-            <Text className="text-xs uppercase tracking-wide text-gray-500">{challenge.totalDays} Hard Challenge</Text>
+            <Text className="text-xs uppercase tracking-wide text-gray-500">{challengeTitle}</Text>
             <Text className="text-xl font-bold text-gray-900">Day {currentDay} of {challenge.totalDays}</Text>
           </View>
           <Pressable
@@ -330,6 +401,16 @@ export default function ChallengeStatusCard() {
           </View>
         </View>
 
+        {/* Why the previous strict mode attempt ended */}
+        {challenge.previousFailureReason && (
+          <View className="flex-row items-center mt-2">
+            <Feather name="rotate-ccw" size={12} color="#9CA3AF" />
+            <Text className="text-xs text-gray-400 ml-1 flex-1" numberOfLines={2}>
+              Attempt {attemptNumber - 1}: {challenge.previousFailureReason}
+            </Text>
+          </View>
+        )}
+
         {/* Today's activities */}
         <View 
           className="flex-row items-center justify-between mt-3 rounded-xl p-3" 
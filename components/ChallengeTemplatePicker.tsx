@@ -0,0 +1,256 @@
+import { createTemplateId, exportTemplate } from "@/lib/challengeTemplates";
+import { useTemplateStore } from "@/store/useTemplateStore";
+import { ChallengeTemplate } from "@/types/type.d";
+import { Feather } from "@expo/vector-icons";
+import * as Clipboard from "expo-clipboard";
+import { useState } from "react";
+import {
+    Alert,
+    Modal,
+    Pressable,
+    ScrollView,
+    Share,
+    Text,
+    TextInput,
+    View,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+type TemplateSettings = Omit<ChallengeTemplate, "id" | "name" | "description" | "builtIn">;
+
+interface ChallengeTemplatePickerProps {
+  selectedId: string | null;
+  onApply: (template: ChallengeTemplate) => void;
+  // Current form settings, used when saving a new template
+  getCurrentSettings: () => TemplateSettings;
+}
+
+export default function ChallengeTemplatePicker({
+  selectedId,
+  onApply,
+  getCurrentSettings,
+}: ChallengeTemplatePickerProps) {
+  const { customTemplates, getTemplates, saveTemplate, deleteTemplate, importTemplate } = useTemplateStore();
+  // Re-read when saved templates change
+  const templates = getTemplates();
+
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [templateDescription, setTemplateDescription] = useState("");
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [importJson, setImportJson] = useState("");
+
+  const handleSave = () => {
+    const name = templateName.trim();
+    if (!name) {
+      Alert.alert("Name Required", "Give your template a name.");
+      return;
+    }
+
+    const template: ChallengeTemplate = {
+      ...getCurrentSettings(),
+      id: createTemplateId(),
+      name,
+      description: templateDescription.trim() || undefined,
+    };
+    saveTemplate(template);
+    onApply(template);
+    setShowSaveModal(false);
+    setTemplateName("");
+    setTemplateDescription("");
+  };
+
+  const handleExport = async (template: ChallengeTemplate) => {
+    try {
+      await Share.share({ title: template.name, message: exportTemplate(template) });
+    } catch (err) {
+      console.error("Failed to export template:", err);
+    }
+  };
+
+  const handlePaste = async () => {
+    const text = await Clipboard.getStringAsync();
+    if (text) setImportJson(text);
+  };
+
+  const handleImport = () => {
+    try {
+      const template = importTemplate(importJson);
+      setShowImportModal(false);
+      setImportJson("");
+      Alert.alert("Template Imported", `"${template.name}" was added to your templates.`, [
+        { text: "Not Now", style: "cancel" },
+        { text: "Use It", onPress: () => onApply(template) },
+      ]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to import template";
+      Alert.alert("Import Failed", message);
+    }
+  };
+
+  const handleLongPress = (template: ChallengeTemplate) => {
+    const isCustom = customTemplates.some((t) => t.id === template.id);
+    Alert.alert(template.name, template.description, [
+      { text: "Export JSON", onPress: () => handleExport(template) },
+      ...(isCustom
+        ? [{ text: "Delete", style: "destructive" as const, onPress: () => deleteTemplate(template.id) }]
+        : []),
+      { text: "Cancel", style: "cancel" as const },
+    ]);
+  };
+
+  return (
+    <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm border border-purple-100">
+      <View className="flex-row items-center justify-between mb-3">
+        <Text className="text-sm font-semibold text-purple-700">Templates</Text>
+        <Pressable
+          onPress={() => setShowImportModal(true)}
+          className="flex-row items-center bg-purple-100 px-2 py-1 rounded-full"
+        >
+          <Feather name="download" size={12} color="#8B5CF6" />
+          <Text className="text-xs text-purple-700 ml-1">Import</Text>
+        </Pressable>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="-mx-1">
+        {templates.map((template) => {
+          const isSelected = template.id === selectedId;
+          const taskCount = Object.values(template.tracking).filter(Boolean).length;
+          return (
+            <Pressable
+              key={template.id}
+              onPress={() => onApply(template)}
+              onLongPress={() => handleLongPress(template)}
+              className={`w-36 mx-1 p-3 rounded-xl border ${
+                isSelected ? "bg-purple-100 border-purple-300" : "bg-gray-50 border-gray-200"
+              }`}
+            >
+              <View className="flex-row items-center">
+                <Text
+                  className={`text-sm font-semibold flex-1 ${isSelected ? "text-purple-700" : "text-gray-900"}`}
+                  numberOfLines={1}
+                >
+                  {template.name}
+                </Text>
+                {template.strictMode && <Feather name="shield" size={12} color="#EF4444" />}
+              </View>
+              <Text className="text-xs text-gray-500 mt-1">
+                {template.totalDays} days • {taskCount} task{taskCount === 1 ? "" : "s"}
+              </Text>
+              {!template.builtIn && (
+                <Text className="text-[10px] text-purple-500 mt-1">Saved</Text>
+              )}
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      <Text className="text-[10px] text-gray-400 mt-2">Long press a template to export or delete it</Text>
+
+      <Pressable
+        onPress={() => setShowSaveModal(true)}
+        className="flex-row items-center justify-center mt-3 py-2 rounded-lg bg-gray-50"
+      >
+        <Feather name="save" size={14} color="#6B7280" />
+        <Text className="text-sm text-gray-600 ml-2">Save current setup as template</Text>
+      </Pressable>
+
+      {/* Save Template Modal */}
+      <Modal
+        visible={showSaveModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowSaveModal(false)}
+      >
+        <SafeAreaView className="flex-1 bg-purple-50">
+          <View className="bg-white px-5 py-4 border-b border-purple-100 flex-row items-center justify-between">
+            <Text className="text-xl font-bold text-gray-900">Save Template</Text>
+            <Pressable
+              onPress={() => setShowSaveModal(false)}
+              className="h-8 w-8 items-center justify-center rounded-full bg-orange-100"
+            >
+              <Feather name="x" size={20} color="#F97316" />
+            </Pressable>
+          </View>
+          <View className="p-4">
+            <View className="bg-white rounded-2xl p-4 shadow-sm">
+              <Text className="text-sm font-semibold text-gray-600 mb-2">Name</Text>
+              <TextInput
+                value={templateName}
+                onChangeText={setTemplateName}
+                placeholder="My Challenge"
+                className="bg-gray-50 rounded-xl px-4 py-3 mb-4"
+                style={{ fontSize: 16, color: "#111827" }}
+              />
+              <Text className="text-sm font-semibold text-gray-600 mb-2">Description (optional)</Text>
+              <TextInput
+                value={templateDescription}
+                onChangeText={setTemplateDescription}
+                placeholder="What's in this setup?"
+                multiline
+                className="bg-gray-50 rounded-xl px-4 py-3"
+                style={{ fontSize: 14, color: "#111827", minHeight: 80, textAlignVertical: "top" }}
+              />
+            </View>
+            <Pressable onPress={handleSave} className="bg-purple-500 rounded-full py-4 items-center mt-4">
+              <Text className="text-white text-base font-semibold">Save Template</Text>
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </Modal>
+
+      {/* Import Template Modal */}
+      <Modal
+        visible={showImportModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowImportModal(false)}
+      >
+        <SafeAreaView className="flex-1 bg-purple-50">
+          <View className="bg-white px-5 py-4 border-b border-purple-100 flex-row items-center justify-between">
+            <Text className="text-xl font-bold text-gray-900">Import Template</Text>
+            <Pressable
+              onPress={() => setShowImportModal(false)}
+              className="h-8 w-8 items-center justify-center rounded-full bg-orange-100"
+            >
+              <Feather name="x" size={20} color="#F97316" />
+            </Pressable>
+          </View>
+          <View className="p-4">
+            <View className="bg-white rounded-2xl p-4 shadow-sm">
+              <View className="flex-row items-center justify-between mb-2">
+                <Text className="text-sm font-semibold text-gray-600">Template JSON</Text>
+                <Pressable
+                  onPress={handlePaste}
+                  className="flex-row items-center bg-purple-100 px-2 py-1 rounded-full"
+                >
+                  <Feather name="clipboard" size={12} color="#8B5CF6" />
+                  <Text className="text-xs text-purple-700 ml-1">Paste</Text>
+                </Pressable>
+              </View>
+              <TextInput
+                value={importJson}
+                onChangeText={setImportJson}
+                placeholder="Paste a template shared with you"
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                className="bg-gray-50 rounded-xl px-4 py-3"
+                style={{ fontSize: 12, color: "#111827", minHeight: 200, textAlignVertical: "top" }}
+              />
+            </View>
+            <Pressable
+              onPress={handleImport}
+              disabled={!importJson.trim()}
+              className={`rounded-full py-4 items-center mt-4 ${importJson.trim() ? "bg-purple-500" : "bg-gray-200"}`}
+            >
+              <Text className={`text-base font-semibold ${importJson.trim() ? "text-white" : "text-gray-400"}`}>
+                Import
+              </Text>
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </Modal>
+    </View>
+  );
+}
@@ -0,0 +1,160 @@
+import { getChallengeEndDate } from "@/lib/challengeStats";
+import { getTodayDate, toDayKey } from "@/lib/dayBoundary";
+import { getDayCompletionPercentage, getTaskStatuses } from "@/lib/dayCompletion";
+import type { Challenge, DailyLog } from "@/types/type";
+import { Feather } from "@expo/vector-icons";
+import { addDays, eachWeekOfInterval, format, isAfter, isBefore, parseISO } from "date-fns";
+import { useMemo, useState } from "react";
+import { Pressable, ScrollView, Text, View } from "react-native";
+
+const ALL_TASKS = "all";
+const CELL_SIZE = 18;
+const CELL_GAP = 4;
+const WEEKDAY_LABELS = ["M", "", "W", "", "F", "", "S"];
+
+// Colour steps from nothing done to everything done
+const LEVEL_COLORS = ["#F3F4F6", "#BBF7D0", "#86EFAC", "#4ADE80", "#16A34A"];
+
+function getLevel(percentage: number): number {
+  if (percentage <= 0) return 0;
+  if (percentage >= 100) return 4;
+  if (percentage >= 66) return 3;
+  if (percentage >= 33) return 2;
+  return 1;
+}
+
+type HeatmapCell = {
+  date: Date;
+  inChallenge: boolean;
+  isFuture: boolean;
+  percentage: number;
+};
+
+interface CompletionHeatmapProps {
+  challenge: Challenge;
+  logs: DailyLog[];
+  onSelectDate: (date: Date) => void;
+}
+
+/**
+ * GitHub-style grid of every challenge day, one column per week, shaded by how
+ * much of the day was completed
+ */
+export default function CompletionHeatmap({ challenge, logs, onSelectDate }: CompletionHeatmapProps) {
+  const [filter, setFilter] = useState(ALL_TASKS);
+
+  // Tasks tracked at any point, so filters still work for days with older goals
+  const tasks = useMemo(() => {
+    const seen = new Map<string, string>();
+    [null, ...logs].forEach(log => {
+      getTaskStatuses(challenge, log, logs).forEach(task => {
+        if (!seen.has(task.id)) seen.set(task.id, task.label);
+      });
+    });
+    return Array.from(seen, ([id, label]) => ({ id, label }));
+  }, [challenge, logs]);
+
+  const weeks = useMemo(() => {
+    const start = parseISO(challenge.startDate);
+    const end = getChallengeEndDate(challenge);
+    const today = getTodayDate();
+    const logsByDate = new Map(logs.map(log => [log.date, log]));
+
+    return eachWeekOfInterval({ start, end }, { weekStartsOn: 1 }).map(weekStart =>
+      Array.from({ length: 7 }, (_, index): HeatmapCell => {
+        const date = addDays(weekStart, index);
+        const log = logsByDate.get(toDayKey(date)) ?? null;
+        let percentage = 0;
+        if (log) {
+          percentage =
+            filter === ALL_TASKS
+              ? getDayCompletionPercentage(challenge, log, logs)
+              : getTaskStatuses(challenge, log, logs).find(task => task.id === filter)?.completed
+                ? 100
+                : 0;
+        }
+        return {
+          date,
+          inChallenge: !isBefore(date, start) && !isAfter(date, end),
+          isFuture: isAfter(date, today),
+          percentage,
+        };
+      })
+    );
+  }, [challenge, logs, filter]);
+
+  return (
+    <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+      <View className="flex-row items-center mb-3">
+        <Feather name="grid" size={16} color="#16A34A" />
+        <Text className="text-sm font-semibold text-gray-600 ml-2">Challenge Heatmap</Text>
+      </View>
+
+      {/* Task filters */}
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+        {[{ id: ALL_TASKS, label: "All Tasks" }, ...tasks].map(option => (
+          <Pressable
+            key={option.id}
+            onPress={() => setFilter(option.id)}
+            className={`px-3 py-1.5 rounded-full mr-2 ${filter === option.id ? "bg-green-600" : "bg-gray-100"}`}
+          >
+            <Text className={`text-xs font-semibold ${filter === option.id ? "text-white" : "text-gray-600"}`}>
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View className="flex-row">
+        {/* Weekday labels */}
+        <View className="mr-1" style={{ paddingTop: 16, gap: CELL_GAP }}>
+          {WEEKDAY_LABELS.map((label, index) => (
+            <Text key={index} className="text-[10px] text-gray-400" style={{ height: CELL_SIZE, lineHeight: CELL_SIZE }}>
+              {label}
+            </Text>
+          ))}
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View className="flex-row" style={{ gap: CELL_GAP }}>
+            {weeks.map((week, weekIndex) => {
+              // Label the first week of each month
+              const showMonth = weekIndex === 0 || week[0].date.getMonth() !== weeks[weekIndex - 1][0].date.getMonth();
+              return (
+                <View key={toDayKey(week[0].date)} style={{ gap: CELL_GAP }}>
+                  <Text className="text-[10px] text-gray-400" style={{ height: 12, width: CELL_SIZE }} numberOfLines={1}>
+                    {showMonth ? format(week[0].date, "MMM") : ""}
+                  </Text>
+                  {week.map(cell => (
+                    <Pressable
+                      key={toDayKey(cell.date)}
+                      onPress={() => onSelectDate(cell.date)}
+                      disabled={!cell.inChallenge || cell.isFuture}
+                      style={{
+                        width: CELL_SIZE,
+                        height: CELL_SIZE,
+                        borderRadius: 4,
+                        backgroundColor: cell.inChallenge && !cell.isFuture ? LEVEL_COLORS[getLevel(cell.percentage)] : "transparent",
+                        borderWidth: cell.inChallenge && cell.isFuture ? 1 : 0,
+                        borderColor: "#E5E7EB",
+                      }}
+                    />
+                  ))}
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </View>
+
+      {/* Legend */}
+      <View className="flex-row items-center justify-end mt-3">
+        <Text className="text-[10px] text-gray-400 mr-1">Less</Text>
+        {LEVEL_COLORS.map(color => (
+          <View key={color} style={{ width: 10, height: 10, borderRadius: 2, backgroundColor: color, marginHorizontal: 1 }} />
+        ))}
+        <Text className="text-[10px] text-gray-400 ml-1">More</Text>
+      </View>
+    </View>
+  );
+}
@@ -0,0 +1,224 @@
+import {
+    createCustomTaskId,
+    CUSTOM_TASK_ICONS,
+    CUSTOM_TASK_TYPES,
+    describeCustomTaskGoal,
+} from "@/lib/customTasks";
+import { CustomTask, CustomTaskGoalDirection, CustomTaskType } from "@/types/type.d";
+import { Feather } from "@expo/vector-icons";
+import { useState } from "react";
+import { Alert, Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+interface CustomTaskEditorProps {
+  tasks: CustomTask[];
+  onChange: (tasks: CustomTask[]) => void;
+}
+
+export default function CustomTaskEditor({ tasks, onChange }: CustomTaskEditorProps) {
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState<string>(CUSTOM_TASK_ICONS[0]);
+  const [type, setType] = useState<CustomTaskType>("checkbox");
+  const [unit, setUnit] = useState("");
+  const [goal, setGoal] = useState("");
+  const [goalDirection, setGoalDirection] = useState<CustomTaskGoalDirection>("at_least");
+
+  const openModal = (task?: CustomTask) => {
+    setEditingId(task?.id ?? null);
+    setName(task?.name ?? "");
+    setIcon(task?.icon ?? CUSTOM_TASK_ICONS[0]);
+    setType(task?.type ?? "checkbox");
+    setUnit(task?.type === "count" ? task.unit ?? "" : "");
+    setGoal(task?.goal !== undefined ? String(task.goal) : "");
+    setGoalDirection(task?.goalDirection ?? "at_least");
+    setShowModal(true);
+  };
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      Alert.alert("Name Required", "Give your task a name.");
+      return;
+    }
+    const goalValue = parseFloat(goal);
+    if (type !== "checkbox" && !(goalValue >= 0)) {
+      Alert.alert("Goal Required", "Enter a daily goal for this task.");
+      return;
+    }
+
+    const task: CustomTask = {
+      id: editingId ?? createCustomTaskId(),
+      name: trimmedName,
+      icon,
+      type,
+      unit: type === "duration" ? "min" : type === "count" ? unit.trim() || undefined : undefined,
+      goal: type === "checkbox" ? undefined : goalValue,
+      goalDirection: type === "checkbox" ? undefined : goalDirection,
+    };
+
+    onChange(editingId ? tasks.map((t) => (t.id === editingId ? task : t)) : [...tasks, task]);
+    setShowModal(false);
+  };
+
+  const handleDelete = (task: CustomTask) => {
+    Alert.alert("Remove Task", `Remove "${task.name}" from this challenge?`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Remove", style: "destructive", onPress: () => onChange(tasks.filter((t) => t.id !== task.id)) },
+    ]);
+  };
+
+  return (
+    <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm border border-purple-100">
+      <Text className="text-sm font-semibold text-purple-700 mb-2">Custom Tasks</Text>
+
+      {tasks.map((task, index) => (
+        <View key={task.id}>
+          <Pressable onPress={() => openModal(task)} className="flex-row items-center py-3">
+            <View className="h-10 w-10 items-center justify-center rounded-full bg-purple-100">
+              <Feather name={task.icon as keyof typeof Feather.glyphMap} size={18} color="#8B5CF6" />
+            </View>
+            <View className="ml-3 flex-1">
+              <Text className="text-base font-medium text-gray-900">{task.name}</Text>
+              <Text className="text-xs text-gray-500">{describeCustomTaskGoal(task)}</Text>
+            </View>
+            <Pressable onPress={() => handleDelete(task)} className="p-2">
+              <Feather name="trash-2" size={16} color="#EF4444" />
+            </Pressable>
+          </Pressable>
+          {index < tasks.length - 1 && <View className="h-px bg-gray-100" />}
+        </View>
+      ))}
+
+      <Pressable
+        onPress={() => openModal()}
+        className="flex-row items-center justify-center mt-2 py-3 rounded-lg bg-purple-50"
+      >
+        <Feather name="plus" size={16} color="#8B5CF6" />
+        <Text className="text-sm font-medium text-purple-700 ml-2">Add Custom Task</Text>
+      </Pressable>
+
+      <Modal
+        visible={showModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowModal(false)}
+      >
+        <SafeAreaView className="flex-1 bg-purple-50">
+          <View className="bg-white px-5 py-4 border-b border-purple-100 flex-row items-center justify-between">
+            <Text className="text-xl font-bold text-gray-900">{editingId ? "Edit Task" : "New Task"}</Text>
+            <Pressable
+              onPress={() => setShowModal(false)}
+              className="h-8 w-8 items-center justify-center rounded-full bg-orange-100"
+            >
+              <Feather name="x" size={20} color="#F97316" />
+            </Pressable>
+          </View>
+
+          <ScrollView className="flex-1 p-4">
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-600 mb-2">Name</Text>
+              <TextInput
+                value={name}
+                onChangeText={setName}
+                placeholder="e.g. Cold shower"
+                className="bg-gray-50 rounded-xl px-4 py-3"
+                style={{ fontSize: 16, color: "#111827" }}
+              />
+            </View>
+
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-600 mb-3">Icon</Text>
+              <View className="flex-row flex-wrap gap-2">
+                {CUSTOM_TASK_ICONS.map((iconName) => (
+                  <Pressable
+                    key={iconName}
+                    onPress={() => setIcon(iconName)}
+                    className={`h-10 w-10 items-center justify-center rounded-full ${
+                      icon === iconName ? "bg-purple-500" : "bg-gray-100"
+                    }`}
+                  >
+                    <Feather name={iconName} size={18} color={icon === iconName ? "white" : "#6B7280"} />
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-600 mb-3">Type</Text>
+              {CUSTOM_TASK_TYPES.map((option) => (
+                <Pressable
+                  key={option.type}
+                  onPress={() => setType(option.type)}
+                  className={`flex-row items-center p-3 rounded-xl mb-2 border ${
+                    type === option.type ? "bg-purple-100 border-purple-300" : "bg-gray-50 border-gray-200"
+                  }`}
+                >
+                  <View className="flex-1">
+                    <Text className={`text-sm font-semibold ${type === option.type ? "text-purple-700" : "text-gray-900"}`}>
+                      {option.label}
+                    </Text>
+                    <Text className="text-xs text-gray-500">{option.description}</Text>
+                  </View>
+                  {type === option.type && <Feather name="check" size={16} color="#8B5CF6" />}
+                </Pressable>
+              ))}
+            </View>
+
+            {type !== "checkbox" && (
+              <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+                <Text className="text-sm font-semibold text-gray-600 mb-3">Daily Goal</Text>
+
+                {/* Goal direction */}
+                <View className="flex-row gap-2 mb-3">
+                  {(["at_least", "at_most"] as const).map((direction) => (
+                    <Pressable
+                      key={direction}
+                      onPress={() => setGoalDirection(direction)}
+                      className={`flex-1 py-2 px-3 rounded-lg border ${
+                        goalDirection === direction ? "bg-purple-100 border-purple-300" : "bg-gray-50 border-gray-200"
+                      }`}
+                    >
+                      <Text className={`text-center text-sm ${
+                        goalDirection === direction ? "text-purple-700 font-semibold" : "text-gray-600"
+                      }`}>
+                        {direction === "at_least" ? "At least" : "At most"}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+
+                <View className="flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
+                  <TextInput
+                    value={goal}
+                    onChangeText={setGoal}
+                    keyboardType="decimal-pad"
+                    placeholder="0"
+                    className="flex-1"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  {type === "duration" ? (
+                    <Text className="text-sm text-gray-500">min</Text>
+                  ) : (
+                    <TextInput
+                      value={unit}
+                      onChangeText={setUnit}
+                      placeholder="unit"
+                      className="w-24 text-right"
+                      style={{ fontSize: 14, color: "#6B7280", padding: 0, margin: 0, includeFontPadding: false }}
+                    />
+                  )}
+                </View>
+              </View>
+            )}
+
+            <Pressable onPress={handleSave} className="bg-purple-500 rounded-full py-4 items-center mb-8">
+              <Text className="text-white text-base font-semibold">{editingId ? "Save Task" : "Add Task"}</Text>
+            </Pressable>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </View>
+  );
+}
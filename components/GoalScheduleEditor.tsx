@@ -0,0 +1,180 @@
+import { describeGoalSchedule, SCHEDULED_GOALS, WEEKDAY_LABELS } from "@/lib/goalSchedules";
+import { GoalSchedule, ScheduledGoalKey } from "@/types/type.d";
+import { Feather } from "@expo/vector-icons";
+import { useState } from "react";
+import { Alert, Modal, Pressable, ScrollView, Text, TextInput, View } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+
+interface GoalScheduleEditorProps {
+  schedules: GoalSchedule[];
+  goals: ScheduledGoalKey[]; // Goals currently being tracked
+  onChange: (schedules: GoalSchedule[]) => void;
+}
+
+const emptyWeekdays = () => WEEKDAY_LABELS.map(() => "");
+
+export default function GoalScheduleEditor({ schedules, goals, onChange }: GoalScheduleEditorProps) {
+  const [editingGoal, setEditingGoal] = useState<ScheduledGoalKey | null>(null);
+  const [weekdays, setWeekdays] = useState<string[]>(emptyWeekdays);
+  const [rampFrom, setRampFrom] = useState("");
+  const [rampDays, setRampDays] = useState("");
+
+  const availableGoals = SCHEDULED_GOALS.filter((goal) => goals.includes(goal.key));
+  if (availableGoals.length === 0) return null;
+
+  const editingMeta = SCHEDULED_GOALS.find((goal) => goal.key === editingGoal);
+
+  const openModal = (goal: ScheduledGoalKey) => {
+    const schedule = schedules.find((s) => s.goal === goal);
+    setEditingGoal(goal);
+    setWeekdays(WEEKDAY_LABELS.map((_, day) => {
+      const value = schedule?.weekdays?.[day];
+      return value !== undefined ? String(value) : "";
+    }));
+    setRampFrom(schedule?.ramp ? String(schedule.ramp.from) : "");
+    setRampDays(schedule?.ramp ? String(schedule.ramp.days) : "");
+  };
+
+  const handleSave = () => {
+    if (!editingGoal) return;
+
+    const weekdayGoals: Partial<Record<number, number>> = {};
+    for (const [day, text] of weekdays.entries()) {
+      if (!text.trim()) continue;
+      const value = parseFloat(text);
+      if (!(value >= 0)) {
+        Alert.alert("Invalid Goal", `Enter a number for ${WEEKDAY_LABELS[day]} or leave it blank.`);
+        return;
+      }
+      weekdayGoals[day] = value;
+    }
+
+    let ramp: GoalSchedule["ramp"];
+    if (rampFrom.trim() || rampDays.trim()) {
+      const from = parseFloat(rampFrom);
+      const days = parseInt(rampDays, 10);
+      if (!(from >= 0) || !(days > 1)) {
+        Alert.alert("Invalid Ramp", "Enter a starting goal and ramp over at least 2 days.");
+        return;
+      }
+      ramp = { from, days };
+    }
+
+    const schedule: GoalSchedule = { goal: editingGoal, weekdays: weekdayGoals, ramp };
+    onChange([...schedules.filter((s) => s.goal !== editingGoal), schedule]);
+    setEditingGoal(null);
+  };
+
+  const handleClear = (goal: ScheduledGoalKey) => {
+    onChange(schedules.filter((s) => s.goal !== goal));
+  };
+
+  return (
+    <View className="bg-white rounded-2xl p-4 mb-4 shadow-sm border border-indigo-100">
+      <Text className="text-sm font-semibold text-indigo-700 mb-1">Goal Schedules</Text>
+      <Text className="text-xs text-gray-500 mb-2">
+        Set different goals for some weekdays, or start lower and build up to your goal.
+      </Text>
+
+      {availableGoals.map((goal, index) => {
+        const schedule = schedules.find((s) => s.goal === goal.key);
+        const summary = schedule ? describeGoalSchedule(schedule) : "";
+        return (
+          <View key={goal.key}>
+            <Pressable onPress={() => openModal(goal.key)} className="flex-row items-center py-3">
+              <View className="flex-1">
+                <Text className="text-base font-medium text-gray-900">{goal.label}</Text>
+                <Text className="text-xs text-gray-500">{summary || "Same goal every day"}</Text>
+              </View>
+              {summary ? (
+                <Pressable onPress={() => handleClear(goal.key)} className="p-2">
+                  <Feather name="x-circle" size={16} color="#EF4444" />
+                </Pressable>
+              ) : (
+                <Feather name="chevron-right" size={16} color="#9CA3AF" />
+              )}
+            </Pressable>
+            {index < availableGoals.length - 1 && <View className="h-px bg-gray-100" />}
+          </View>
+        );
+      })}
+
+      <Modal
+        visible={editingGoal !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEditingGoal(null)}
+      >
+        <SafeAreaView className="flex-1 bg-indigo-50">
+          <View className="bg-white px-5 py-4 border-b border-indigo-100 flex-row items-center justify-between">
+            <Text className="text-xl font-bold text-gray-900">{editingMeta?.label} Schedule</Text>
+            <Pressable
+              onPress={() => setEditingGoal(null)}
+              className="h-8 w-8 items-center justify-center rounded-full bg-orange-100"
+            >
+              <Feather name="x" size={20} color="#F97316" />
+            </Pressable>
+          </View>
+
+          <ScrollView className="flex-1 p-4">
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-600 mb-1">Weekday Goals</Text>
+              <Text className="text-xs text-gray-500 mb-3">Leave a day blank to use the challenge goal.</Text>
+              {WEEKDAY_LABELS.map((label, day) => (
+                <View key={label} className="flex-row items-center mb-2">
+                  <Text className="w-12 text-sm text-gray-700">{label}</Text>
+                  <View className="flex-1 flex-row items-center bg-gray-50 rounded-lg px-3 py-2">
+                    <TextInput
+                      value={weekdays[day]}
+                      onChangeText={(text) => setWeekdays((prev) => prev.map((v, i) => (i === day ? text : v)))}
+                      keyboardType={editingMeta?.decimal ? "decimal-pad" : "number-pad"}
+                      placeholder="-"
+                      className="flex-1"
+                      style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                    />
+                    <Text className="text-sm text-gray-500">{editingMeta?.unit}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+
+            <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+              <Text className="text-sm font-semibold text-gray-600 mb-1">Ramp Up</Text>
+              <Text className="text-xs text-gray-500 mb-3">
+                Start at a lower goal on day 1 and reach the challenge goal on the last ramp day.
+              </Text>
+              <View className="flex-row gap-2">
+                <View className="flex-1 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
+                  <TextInput
+                    value={rampFrom}
+                    onChangeText={setRampFrom}
+                    keyboardType={editingMeta?.decimal ? "decimal-pad" : "number-pad"}
+                    placeholder="Start at"
+                    className="flex-1"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  <Text className="text-sm text-gray-500">{editingMeta?.unit}</Text>
+                </View>
+                <View className="flex-1 flex-row items-center bg-gray-50 rounded-lg px-3 py-3">
+                  <TextInput
+                    value={rampDays}
+                    onChangeText={setRampDays}
+                    keyboardType="number-pad"
+                    placeholder="Over"
+                    className="flex-1"
+                    style={{ fontSize: 14, color: "#111827", padding: 0, margin: 0, includeFontPadding: false }}
+                  />
+                  <Text className="text-sm text-gray-500">days</Text>
+                </View>
+              </View>
+            </View>
+
+            <Pressable onPress={handleSave} className="bg-indigo-500 rounded-full py-4 items-center mb-8">
+              <Text className="text-white text-base font-semibold">Save Schedule</Text>
+            </Pressable>
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
+    </View>
+  );
+}
@@ -1,4 +1,5 @@
 import { NotificationBell, NotificationTray } from "@/components/NotificationTray";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useSessionStore } from "@/store/useSessionStore";
 import { Feather } from "@expo/vector-icons";
@@ -18,7 +19,7 @@ export default function Header({
   noPaddingBottom?: boolean;
 }) {
   const { user } = useSessionStore();
-  const { challenge } = useChallengeStore();
+  const { challenge, pendingChanges, isSyncingPending, syncPendingChanges } = useChallengeStore();
   const [showNotifications, setShowNotifications] = useState(false);
   
   const initials = user?.name
@@ -32,11 +33,7 @@ export default function Header({
   // Calculate current streak/day
   const getCurrentDay = () => {
     if (!challenge) return null;
-    const startDate = new Date(challenge.startDate);
-    startDate.setHours(0, 0, 0, 0);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const daysPassed = Math.floor((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+    const daysPassed = getChallengeDayNumber(challenge.startDate);
     if (daysPassed < 1) return null;
     return Math.min(daysPassed, challenge.totalDays);
   };
@@ -63,6 +60,18 @@ export default function Header({
           </Pressable>
         )}
         
+        {/* Unsynced changes - tap to retry */}
+        {pendingChanges.length > 0 && (
+          <Pressable
+            onPress={() => syncPendingChanges()}
+            disabled={isSyncingPending}
+            className="flex-row items-center bg-gray-100 px-2.5 py-1.5 rounded-full mr-3"
+          >
+            <Feather name={isSyncingPending ? "refresh-cw" : "cloud-off"} size={14} color="#6B7280" />
+            <Text className="text-xs font-semibold text-gray-600 ml-1">{pendingChanges.length}</Text>
+          </Pressable>
+        )}
+        
         <View className="flex-row items-center gap-3">
           <NotificationBell onPress={() => setShowNotifications(true)} />
           <Pressable onPress={() => router.push("/profile")}>
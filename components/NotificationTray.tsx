@@ -32,6 +32,8 @@ const NOTIFICATION_ICONS: Record<
     streak: { icon: "zap", defaultColor: "#EF4444" },
     reminder: { icon: "bell", defaultColor: "#6B7280" },
     milestone: { icon: "flag", defaultColor: "#EC4899" },
+    challenge_failed: { icon: "rotate-ccw", defaultColor: "#EF4444" },
+    report: { icon: "file-text", defaultColor: "#0EA5E9" },
 };
 
 interface NotificationItemProps {
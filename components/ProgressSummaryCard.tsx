@@ -1,3 +1,5 @@
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { describeTargetOffset, getCalorieTarget, getWeightTarget } from "@/lib/goalTargets";
 import { useChallengeStore } from "@/store/useChallengeStore";
 import { useHealthStore } from "@/store/useHealthStore";
 import { Feather } from "@expo/vector-icons";
@@ -32,6 +34,7 @@ export default function ProgressSummaryCard() {
   // Use stored workout minutes for consistency
   const liveOutdoorMinutes = todayLog.workout1Minutes ?? 0;
   const liveIndoorMinutes = todayLog.workout2Minutes ?? 0;
+  const goals = getGoalsForDate(challenge, todayLog.date);
 
   const exerciseItems: JSX.Element[] = [];
   const nutritionItems: JSX.Element[] = [];
@@ -40,39 +43,45 @@ export default function ProgressSummaryCard() {
   // Exercise group
   if (challenge.trackSteps) {
     exerciseItems.push(
-      <ProgressRow key="steps" label="Steps" current={currentSteps} goal={challenge.stepsGoal ?? 0} unit="steps" />
+      <ProgressRow key="steps" label="Steps" current={currentSteps} goal={goals.stepsGoal ?? 0} unit="steps" />
     );
   }
   if (challenge.trackWorkout1) {
     exerciseItems.push(
-      <ProgressRow key="w1" label="Workout 1" current={liveOutdoorMinutes} goal={challenge.workoutMinutes ?? 0} unit="min" />
+      <ProgressRow key="w1" label="Workout 1" current={liveOutdoorMinutes} goal={goals.workoutMinutes ?? 0} unit="min" />
     );
   }
   if (challenge.trackWorkout2) {
     exerciseItems.push(
-      <ProgressRow key="w2" label="Workout 2" current={liveIndoorMinutes} goal={challenge.workoutMinutes ?? 0} unit="min" />
+      <ProgressRow key="w2" label="Workout 2" current={liveIndoorMinutes} goal={goals.workoutMinutes ?? 0} unit="min" />
     );
   }
 
   // Nutrition group
   if (challenge.trackWater) {
     nutritionItems.push(
-      <ProgressRow key="water" label="Water" current={todayLog.waterLiters ?? 0} goal={challenge.waterLiters ?? 0} unit="L" />
+      <ProgressRow key="water" label="Water" current={todayLog.waterLiters ?? 0} goal={goals.waterLiters ?? 0} unit="L" />
     );
   }
   if ((challenge as any).trackCalories) {
+    const calorieTarget = getCalorieTarget(goals);
     nutritionItems.push(
-      <ProgressRow key="calories" label="Calories" current={todayLog.caloriesConsumed ?? 0} goal={challenge.caloriesGoal ?? 0} unit="kcal" />
+      <ProgressRow key="calories" label="Calories" current={todayLog.caloriesConsumed ?? 0} goal={calorieTarget.max ?? calorieTarget.min ?? 0} unit="kcal" />
     );
   }
   if (challenge.trackWeight) {
     const current = todayLog.currentWeight ?? 0;
-    const goal = challenge.weightGoal ?? 0;
+    const goal = goals.weightGoal ?? 0;
     const delta = current && goal ? (current - goal) : 0;
+    const weightTarget = getWeightTarget(goals);
     nutritionItems.push(
       <View key="weight" className="mb-1 flex-row items-center justify-between">
         <Text className="text-sm text-gray-700">Weight</Text>
-        <Text className="text-sm text-gray-700">{current} kg {goal ? `(goal ${goal} kg${delta ? `, ${delta > 0 ? "+" : ""}${delta.toFixed(1)} kg` : ""})` : ""}</Text>
+        {weightTarget && current ? (
+          <Text className="text-sm text-gray-700">{current} kg ({describeTargetOffset(current, weightTarget, "kg")})</Text>
+        ) : (
+          <Text className="text-sm text-gray-700">{current} kg {goal ? `(goal ${goal} kg${delta ? `, ${delta > 0 ? "+" : ""}${delta.toFixed(1)} kg` : ""})` : ""}</Text>
+        )}
       </View>
     );
   }
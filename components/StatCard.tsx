@@ -0,0 +1,31 @@
+import { Feather } from "@expo/vector-icons";
+import { Text, View } from "react-native";
+
+interface StatCardProps {
+  icon: keyof typeof Feather.glyphMap;
+  label: string;
+  value: string | number;
+  unit?: string;
+  color: string;
+  bgColor: string;
+}
+
+export default function StatCard({ icon, label, value, unit, color, bgColor }: StatCardProps) {
+  return (
+    <View className="bg-white rounded-2xl p-4 shadow-sm flex-1">
+      <View className="flex-row items-center mb-2">
+        <View 
+          className="h-8 w-8 items-center justify-center rounded-full mr-2"
+          style={{ backgroundColor: bgColor }}
+        >
+          <Feather name={icon} size={16} color={color} />
+        </View>
+        <Text className="text-xs text-gray-500 flex-1">{label}</Text>
+      </View>
+      <View className="flex-row items-baseline">
+        <Text className="text-2xl font-bold text-gray-900">{value}</Text>
+        {unit && <Text className="text-sm text-gray-500 ml-1">{unit}</Text>}
+      </View>
+    </View>
+  );
+}
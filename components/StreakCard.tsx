@@ -0,0 +1,81 @@
+import { useStreaks } from "@/hooks/useStreaks";
+import { canProtectStreak } from "@/lib/streakFreezes";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { router } from "expo-router";
+import { Pressable, Text, View } from "react-native";
+
+// Most recent runs shown on the timeline
+const HISTORY_LIMIT = 8;
+const TASK_LIMIT = 3;
+
+export default function StreakCard() {
+  const streaks = useStreaks();
+  const { challenge } = useChallengeStore();
+  if (!streaks || streaks.history.length === 0) return null;
+
+  const history = streaks.history.slice(-HISTORY_LIMIT);
+  const tallestRun = Math.max(...history.map(run => run.length));
+  const taskStreaks = streaks.tasks.filter(task => task.current > 1).slice(0, TASK_LIMIT);
+
+  return (
+    <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+      <View className="flex-row items-center">
+        <View className="h-10 w-10 items-center justify-center rounded-full bg-amber-100 mr-3">
+          <Feather name="zap" size={20} color="#F59E0B" />
+        </View>
+        <View className="flex-1">
+          <Text className="text-xs text-gray-500">Current Streak</Text>
+          <Text className="text-2xl font-bold text-gray-900">
+            {streaks.current} <Text className="text-sm font-normal text-gray-500">day{streaks.current !== 1 ? "s" : ""}</Text>
+          </Text>
+        </View>
+        <View className="items-end">
+          <Text className="text-xs text-gray-500">Longest</Text>
+          <Text className="text-base font-semibold text-amber-600">{streaks.longest} days</Text>
+        </View>
+      </View>
+
+      {/* Streak timeline */}
+      {history.length > 1 && (
+        <View className="flex-row items-end mt-4" style={{ gap: 4, height: 40 }}>
+          {history.map(run => (
+            <View
+              key={run.startDate}
+              className={`flex-1 rounded-t-md ${run === streaks.history[streaks.history.length - 1] && streaks.current > 0 ? "bg-amber-400" : "bg-amber-100"}`}
+              style={{ height: Math.max(4, (run.length / tallestRun) * 40) }}
+            />
+          ))}
+        </View>
+      )}
+      {history.length > 1 && (
+        <View className="flex-row justify-between mt-1">
+          <Text className="text-xs text-gray-400">{format(parseISO(history[0].startDate), "MMM d")}</Text>
+          <Text className="text-xs text-gray-400">{format(parseISO(history[history.length - 1].endDate), "MMM d")}</Text>
+        </View>
+      )}
+
+      {/* Per-task streaks */}
+      {taskStreaks.length > 0 && (
+        <View className="flex-row flex-wrap mt-3" style={{ gap: 6 }}>
+          {taskStreaks.map(task => (
+            <View key={task.id} className="bg-amber-50 px-2.5 py-1 rounded-full">
+              <Text className="text-xs text-amber-700">
+                {task.label} • {task.current} days in a row
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {challenge && canProtectStreak(challenge) && (
+        <Pressable onPress={() => router.push("/rest-days")} className="flex-row items-center mt-3 pt-3 border-t border-gray-100">
+          <Feather name="shield" size={14} color="#0284C7" />
+          <Text className="text-xs font-semibold text-sky-700 ml-1.5 flex-1">Rest days & streak freezes</Text>
+          <Feather name="chevron-right" size={16} color="#9CA3AF" />
+        </Pressable>
+      )}
+    </View>
+  );
+}
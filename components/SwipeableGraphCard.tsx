@@ -1,5 +1,8 @@
+import WeightTrendChart from "@/components/WeightTrendChart";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { getMovingAverage, getProgressMarkers, getWeighIns } from "@/lib/weightTrends";
 import { useChallengeStore } from "@/store/useChallengeStore";
-import { DailyLog } from "@/types/type.d";
+import { Challenge, DailyLog } from "@/types/type.d";
 import { Feather } from "@expo/vector-icons";
 import { eachDayOfInterval, format, parseISO, subDays } from "date-fns";
 import { useMemo, useRef, useState } from "react";
@@ -10,7 +13,7 @@ const { width: SCREEN_WIDTH } = Dimensions.get("window");
 const CARD_PADDING = 16;
 const CARD_WIDTH = SCREEN_WIDTH - (CARD_PADDING * 4); // Account for screen padding
 
-type GraphType = "mood" | "sleep" | "water" | "steps";
+type GraphType = "mood" | "sleep" | "water" | "steps" | "weight";
 
 interface GraphConfig {
   type: GraphType;
@@ -61,6 +64,16 @@ const GRAPH_CONFIGS: GraphConfig[] = [
     },
     getMaxValue: () => 600, // 10 hours max
   },
+  {
+    type: "weight",
+    title: "Weight Trend",
+    icon: "trending-down",
+    color: "#6366F1",
+    bgColor: "#E0E7FF",
+    dataKey: "currentWeight",
+    formatValue: (value: number) => `${value.toFixed(1)} kg`,
+    getMaxValue: () => 0, // Scaled to the logged range
+  },
 ];
 
 // Mood icon mapping (matching log-mood.tsx)
@@ -198,7 +211,7 @@ function MoodChart({ data, color }: { data: { date: Date; value: number | undefi
 }
 
 // Bar chart component for steps
-function StepsChart({ data, color, goalSteps }: { data: { date: Date; value: number | undefined }[]; color: string; goalSteps: number }) {
+function StepsChart({ data, color, goalSteps }: { data: { date: Date; value: number | undefined }[]; color: string; goalSteps: (date: Date) => number }) {
   const chartWidth = CARD_WIDTH - 40;
   const chartHeight = 180;
   const padding = { top: 20, right: 10, bottom: 30, left: 35 };
@@ -215,7 +228,10 @@ function StepsChart({ data, color, goalSteps }: { data: { date: Date; value: num
     );
   }
   
-  const maxValue = Math.max(...data.map(d => d.value || 0), goalSteps);
+  // Goals can change day to day with goal schedules
+  const dayGoals = data.map(d => goalSteps(d.date));
+  const hasSingleGoal = dayGoals.every(goal => goal === dayGoals[0]);
+  const maxValue = Math.max(...data.map(d => d.value || 0), ...dayGoals);
   
   // Calculate dimensions
   const graphWidth = chartWidth - padding.left - padding.right;
@@ -226,20 +242,39 @@ function StepsChart({ data, color, goalSteps }: { data: { date: Date; value: num
   return (
     <View>
       <Svg width={chartWidth} height={chartHeight}>
-        {/* Goal line */}
-        {goalSteps > 0 && (() => {
-          const goalY = padding.top + graphHeight - (goalSteps / maxValue) * graphHeight;
+        {/* Goal line, one segment per bar when the goal varies */}
+        {dayGoals[0] > 0 && (() => {
+          const goalY = padding.top + graphHeight - (dayGoals[0] / maxValue) * graphHeight;
           return (
             <>
-              <Line
-                x1={padding.left}
-                y1={goalY}
-                x2={chartWidth - padding.right}
-                y2={goalY}
-                stroke="#6366F1"
-                strokeWidth="2"
-                strokeDasharray="6,4"
-              />
+              {hasSingleGoal ? (
+                <Line
+                  x1={padding.left}
+                  y1={goalY}
+                  x2={chartWidth - padding.right}
+                  y2={goalY}
+                  stroke="#6366F1"
+                  strokeWidth="2"
+                  strokeDasharray="6,4"
+                />
+              ) : (
+                dayGoals.map((goal, i) => {
+                  const x = padding.left + (i * (barWidth + barSpacing));
+                  const y = padding.top + graphHeight - (goal / maxValue) * graphHeight;
+                  return (
+                    <Line
+                      key={`goal-${i}`}
+                      x1={x - barSpacing / 2}
+                      y1={y}
+                      x2={x + barWidth + barSpacing / 2}
+                      y2={y}
+                      stroke="#6366F1"
+                      strokeWidth="2"
+                      strokeDasharray="4,3"
+                    />
+                  );
+                })
+              )}
               <SvgText
                 x={padding.left - 5}
                 y={goalY - 5}
@@ -259,7 +294,7 @@ function StepsChart({ data, color, goalSteps }: { data: { date: Date; value: num
           const barHeight = (d.value / maxValue) * graphHeight;
           const x = padding.left + (i * (barWidth + barSpacing));
           const y = padding.top + graphHeight - barHeight;
-          const metGoal = d.value >= goalSteps;
+          const metGoal = d.value >= dayGoals[i];
           
           return (
             <Rect
@@ -434,8 +469,18 @@ function SleepChart({ data, color, goalHours }: { data: { date: Date; value: num
   );
 }
 
-export default function SwipeableGraphCard() {
-  const { allLogs, challenge } = useChallengeStore();
+interface SwipeableGraphCardProps {
+  // Show a specific attempt (e.g. from challenge history) instead of the current challenge
+  challenge?: Challenge;
+  logs?: DailyLog[];
+  // Last day shown on the graphs, defaults to today
+  endDate?: Date;
+}
+
+export default function SwipeableGraphCard({ challenge: challengeProp, logs, endDate }: SwipeableGraphCardProps = {}) {
+  const { allLogs: storeLogs, challenge: storeChallenge } = useChallengeStore();
+  const allLogs = logs ?? storeLogs;
+  const challenge = challengeProp ?? storeChallenge;
   const [currentIndex, setCurrentIndex] = useState(0);
   const scrollViewRef = useRef<ScrollView>(null);
   
@@ -449,8 +494,18 @@ export default function SwipeableGraphCard() {
     return shuffled;
   };
   
-  // Randomize graph order once when component mounts (useMemo with empty deps)
-  const availableGraphs = useMemo(() => shuffleArray(GRAPH_CONFIGS), []);
+  // Randomize graph order once when component mounts, weight only when it's tracked
+  const availableGraphs = useMemo(
+    () => shuffleArray(GRAPH_CONFIGS.filter(graph => graph.type !== "weight" || challenge?.trackWeight)),
+    [challenge?.trackWeight]
+  );
+
+  // Moving average over every weigh-in, so the first days shown are smoothed too
+  const weightTrend = useMemo(() => {
+    const points = getMovingAverage(getWeighIns(allLogs ?? []));
+    const goals = challenge ? getGoalsForDate(challenge, format(endDate ?? new Date(), "yyyy-MM-dd")) : null;
+    return { points, goals, markers: goals ? getProgressMarkers(goals, points) : [] };
+  }, [allLogs, challenge, endDate]);
   
   if (availableGraphs.length === 0) {
     return null; // Don't show if no graphs available
@@ -460,7 +515,7 @@ export default function SwipeableGraphCard() {
   
   // Get last 7 days of data for a specific graph
   const getLast7DaysData = (graph: GraphConfig) => {
-    const today = new Date();
+    const today = endDate ?? new Date();
     const days = eachDayOfInterval({
       start: subDays(today, 6),
       end: today,
@@ -570,9 +625,25 @@ export default function SwipeableGraphCard() {
                 <StepsChart 
                   data={graphData} 
                   color={graph.color} 
-                  goalSteps={challenge?.stepsGoal || 10000}
+                  goalSteps={date => (challenge ? getGoalsForDate(challenge, format(date, "yyyy-MM-dd")).stepsGoal : 0) || 10000}
                 />
               )}
+              {graph.type === "weight" && (() => {
+                const windowStart = format(graphData[0].date, "yyyy-MM-dd");
+                const windowEnd = format(graphData[graphData.length - 1].date, "yyyy-MM-dd");
+                const inWindow = (date: string) => date >= windowStart && date <= windowEnd;
+                return (
+                  <WeightTrendChart
+                    points={weightTrend.points.filter(p => inWindow(p.date))}
+                    markers={weightTrend.markers.filter(m => inWindow(m.date))}
+                    goal={weightTrend.goals?.weightGoal}
+                    color={graph.color}
+                    width={CARD_WIDTH - 40}
+                    startDate={graphData[0].date}
+                    endDate={graphData[graphData.length - 1].date}
+                  />
+                );
+              })()}
               {graph.type === "sleep" && (
                 <SleepChart 
                   data={graphData} 
@@ -0,0 +1,108 @@
+import { getTargetDays, TargetMetric, TargetResult } from "@/lib/goalTargets";
+import type { Challenge, DailyLog } from "@/types/type";
+import { Feather } from "@expo/vector-icons";
+import { format, parseISO } from "date-fns";
+import { useMemo } from "react";
+import { Pressable, ScrollView, Text, View } from "react-native";
+
+const BAR_WIDTH = 10;
+const BAR_GAP = 3;
+const CHART_HEIGHT = 56;
+
+const RESULT_STYLES: Record<TargetResult, { label: string; color: string }> = {
+  in_range: { label: "In range", color: "#22C55E" },
+  under: { label: "Under", color: "#3B82F6" },
+  over: { label: "Over", color: "#F43F5E" },
+};
+
+const METRICS: { metric: TargetMetric; label: string; unit: string; track: keyof Challenge }[] = [
+  { metric: "calories", label: "Calories", unit: "kcal", track: "trackCalories" },
+  { metric: "weight", label: "Weight", unit: "kg", track: "trackWeight" },
+];
+
+interface TargetRangeCardProps {
+  challenge: Challenge;
+  logs: DailyLog[];
+  onSelectDate: (date: Date) => void;
+}
+
+/**
+ * Logged calorie and weight days in range versus over or under the goal, one
+ * bar per day scaled by the logged value
+ */
+export default function TargetRangeCard({ challenge, logs, onSelectDate }: TargetRangeCardProps) {
+  const rows = useMemo(
+    () =>
+      METRICS.filter(({ track }) => challenge[track])
+        .map(option => ({ ...option, days: getTargetDays(challenge, logs, option.metric) }))
+        .filter(row => row.days.length > 0),
+    [challenge, logs]
+  );
+
+  if (rows.length === 0) return null;
+
+  return (
+    <View className="bg-white rounded-2xl p-4 shadow-sm mb-4">
+      <View className="flex-row items-center mb-3">
+        <Feather name="crosshair" size={16} color="#F43F5E" />
+        <Text className="text-sm font-semibold text-gray-600 ml-2">Days On Target</Text>
+      </View>
+
+      {rows.map((row, index) => {
+        const counts = { in_range: 0, under: 0, over: 0 };
+        row.days.forEach(day => counts[day.result]++);
+        const maxValue = Math.max(...row.days.map(day => day.value));
+        const minValue = Math.min(...row.days.map(day => day.value));
+
+        return (
+          <View key={row.metric} className={index < rows.length - 1 ? "mb-4" : ""}>
+            <View className="flex-row items-center justify-between mb-2">
+              <Text className="text-xs font-semibold text-gray-900">{row.label}</Text>
+              <Text className="text-xs text-gray-500">
+                {counts.in_range}/{row.days.length} days in range
+              </Text>
+            </View>
+
+            {/* One bar per logged day, oldest first */}
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View className="flex-row items-end" style={{ height: CHART_HEIGHT, gap: BAR_GAP }}>
+                {row.days.map(day => {
+                  // Weight barely moves, so scale from the lowest value rather than zero
+                  const floor = row.metric === "weight" ? minValue * 0.98 : 0;
+                  const ratio = maxValue > floor ? (day.value - floor) / (maxValue - floor) : 1;
+                  return (
+                    <Pressable
+                      key={day.date}
+                      onPress={() => onSelectDate(parseISO(day.date))}
+                      accessibilityLabel={`${format(parseISO(day.date), "MMM d")}: ${day.value} ${row.unit}`}
+                      style={{
+                        width: BAR_WIDTH,
+                        height: Math.max(ratio * CHART_HEIGHT, 4),
+                        borderRadius: 3,
+                        backgroundColor: RESULT_STYLES[day.result].color,
+                      }}
+                    />
+                  );
+                })}
+              </View>
+            </ScrollView>
+
+            {/* Counts */}
+            <View className="flex-row mt-2">
+              {(Object.keys(RESULT_STYLES) as TargetResult[]).map(result => (
+                <View key={result} className="flex-row items-center mr-3">
+                  <View
+                    style={{ width: 8, height: 8, borderRadius: 2, backgroundColor: RESULT_STYLES[result].color }}
+                  />
+                  <Text className="text-[10px] text-gray-500 ml-1">
+                    {RESULT_STYLES[result].label} {counts[result]}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
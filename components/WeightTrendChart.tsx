@@ -0,0 +1,155 @@
+import type { ProgressMarker, TrendPoint } from "@/lib/weightTrends";
+import { Feather } from "@expo/vector-icons";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Text, View } from "react-native";
+import Svg, { Circle, Line, Path, Text as SvgText } from "react-native-svg";
+
+const PADDING = { top: 20, right: 10, bottom: 30, left: 35 };
+const DOT_COLOR = "#C7D2FE";
+
+interface WeightTrendChartProps {
+  points: TrendPoint[];
+  markers: ProgressMarker[];
+  goal?: number;
+  color: string;
+  width: number;
+  height?: number;
+  // Days shown, defaults to the first and last weigh-in
+  startDate?: Date;
+  endDate?: Date;
+}
+
+/**
+ * Daily weigh-ins as dots with the moving average drawn through them, the
+ * goal as a dashed line and a flag wherever the trend passed a progress marker
+ */
+export default function WeightTrendChart({
+  points,
+  markers,
+  goal,
+  color,
+  width,
+  height = 180,
+  startDate,
+  endDate,
+}: WeightTrendChartProps) {
+  if (points.length === 0) {
+    return (
+      <View style={{ height, justifyContent: "center", alignItems: "center" }}>
+        <Feather name="trending-down" size={48} color="#D1D5DB" />
+        <Text className="text-gray-400 mt-3">No weight data yet</Text>
+        <Text className="text-gray-400 text-sm mt-1">Log your weight to see your trend!</Text>
+      </View>
+    );
+  }
+
+  const start = startDate ?? parseISO(points[0].date);
+  const end = endDate ?? parseISO(points[points.length - 1].date);
+  const totalDays = Math.max(differenceInCalendarDays(end, start), 1);
+
+  // Weight barely moves, so pad around the logged range rather than starting at zero
+  const values = [...points.flatMap(p => [p.weight, p.average]), ...(goal && goal > 0 ? [goal] : [])];
+  const minValue = Math.floor(Math.min(...values) - 1);
+  const maxValue = Math.ceil(Math.max(...values) + 1);
+
+  const graphWidth = width - PADDING.left - PADDING.right;
+  const graphHeight = height - PADDING.top - PADDING.bottom;
+  const toX = (date: string) =>
+    PADDING.left + (differenceInCalendarDays(parseISO(date), start) / totalDays) * graphWidth;
+  const toY = (value: number) =>
+    PADDING.top + graphHeight - ((value - minValue) / (maxValue - minValue)) * graphHeight;
+
+  const averagePath = points
+    .map((p, i) => `${i === 0 ? "M" : "L"} ${toX(p.date)} ${toY(p.average)}`)
+    .join(" ");
+  const markerPoints = markers.flatMap(marker => {
+    const point = points.find(p => p.date === marker.date);
+    return point ? [{ ...marker, x: toX(point.date), y: toY(point.average) }] : [];
+  });
+
+  return (
+    <View style={{ position: "relative" }}>
+      <Svg width={width} height={height}>
+        {/* Goal line */}
+        {goal !== undefined && goal > 0 && (
+          <>
+            <Line
+              x1={PADDING.left}
+              y1={toY(goal)}
+              x2={width - PADDING.right}
+              y2={toY(goal)}
+              stroke="#6366F1"
+              strokeWidth="2"
+              strokeDasharray="6,4"
+            />
+            <SvgText x={PADDING.left - 5} y={toY(goal) - 5} fill="#6366F1" fontSize="10" textAnchor="end">
+              Goal
+            </SvgText>
+          </>
+        )}
+
+        {/* Daily weigh-ins */}
+        {points.map(p => (
+          <Circle key={`dot-${p.date}`} cx={toX(p.date)} cy={toY(p.weight)} r={3} fill={DOT_COLOR} />
+        ))}
+
+        {/* Moving average */}
+        <Path d={averagePath} stroke={color} strokeWidth="3" fill="none" strokeLinecap="round" strokeLinejoin="round" />
+
+        {/* X-axis labels */}
+        {[start, end].map((date, i) => (
+          <SvgText
+            key={`label-${i}`}
+            x={i === 0 ? PADDING.left : width - PADDING.right}
+            y={height - 10}
+            fill="#9CA3AF"
+            fontSize="10"
+            textAnchor={i === 0 ? "start" : "end"}
+          >
+            {format(date, "MMM d")}
+          </SvgText>
+        ))}
+
+        {/* Y-axis labels */}
+        {[0, 0.5, 1].map(fraction => {
+          const value = minValue + (maxValue - minValue) * fraction;
+          return (
+            <SvgText
+              key={`y-${fraction}`}
+              x={PADDING.left - 8}
+              y={toY(value) + 4}
+              fill="#9CA3AF"
+              fontSize="10"
+              textAnchor="end"
+            >
+              {value.toFixed(0)}
+            </SvgText>
+          );
+        })}
+      </Svg>
+
+      {/* Progress markers */}
+      {markerPoints.map(marker => (
+        <View
+          key={`marker-${marker.percent}`}
+          style={{
+            position: "absolute",
+            left: marker.x - 11,
+            top: marker.y - 26,
+            backgroundColor: "white",
+            borderRadius: 11,
+            width: 22,
+            height: 22,
+            alignItems: "center",
+            justifyContent: "center",
+            borderWidth: 2,
+            borderColor: marker.percent === 100 ? "#22C55E" : color,
+          }}
+          accessibilityLabel={`${marker.percent}% of the way to your goal on ${format(parseISO(marker.date), "MMM d")}`}
+        >
+          <Feather name="flag" size={11} color={marker.percent === 100 ? "#22C55E" : color} />
+        </View>
+      ))}
+    </View>
+  );
+}
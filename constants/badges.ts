@@ -1,4 +1,7 @@
-import type { Badge, BadgeId } from "@/types/type";
+import type { ChallengeStats } from "@/lib/challengeStats";
+import { isPerfectDay } from "@/lib/dayCompletion";
+import { parseWorkoutDetails } from "@/lib/workoutRules";
+import type { ActivityLog, Badge, BadgeId, Challenge, DailyLog } from "@/types/type";
 
 export const BADGES: Record<BadgeId, Badge> = {
   // Streak badges
@@ -235,7 +238,7 @@ export const BADGES: Record<BadgeId, Badge> = {
   perfect_day: {
     id: "perfect_day",
     name: "Perfect Day",
-    description: "Complete all tracked activities in one day",
+    description: "Hit every tracked goal in one day",
     icon: "sun",
     color: "#F59E0B",
     bgColor: "#FEF3C7",
@@ -253,3 +256,87 @@ export const BADGE_CATEGORIES = {
   photos: ["photo_7", "photo_30"] as BadgeId[],
   special: ["early_bird", "night_owl", "perfect_day"] as BadgeId[],
 };
+
+// Everything badge criteria are evaluated against
+export type BadgeContext = {
+  challenge: Challenge;
+  logs: DailyLog[];
+  activityLogs: ActivityLog[];
+  stats: ChallengeStats;
+};
+
+// A badge is earned once its metric reaches the target
+export type BadgeCriterion = {
+  metric: (context: BadgeContext) => number;
+  target: number | ((context: BadgeContext) => number);
+};
+
+const completedDays = ({ stats }: BadgeContext) => stats.completedDays;
+// Streak badges are kept once earned, so they count the longest streak
+const longestStreak = ({ stats }: BadgeContext) => stats.longestStreak;
+const workouts = ({ stats }: BadgeContext) => stats.workoutCompletions;
+const pages = ({ stats }: BadgeContext) => stats.totalPages;
+const booksFinished = ({ logs }: BadgeContext) => logs.filter(log => log.finishedBook).length;
+const maxSteps = ({ stats }: BadgeContext) => stats.maxSteps;
+const waterDays = ({ stats }: BadgeContext) => stats.waterCompletions;
+const photoDays = ({ stats }: BadgeContext) => stats.photoCompletions;
+
+/**
+ * When the user was active - each activity entry's log time plus the start of
+ * every workout synced from Health
+ */
+function getActivityTimes({ logs, activityLogs }: BadgeContext): Date[] {
+  const times = activityLogs.flatMap(log => (log.$createdAt ? [new Date(log.$createdAt)] : []));
+  logs.forEach(log => {
+    const details = parseWorkoutDetails(log.workoutDetails);
+    [details.workout1, details.workout2].forEach(workout => {
+      if (workout?.syncedFromHealth && workout.startTime) times.push(new Date(workout.startTime));
+    });
+  });
+  return times;
+}
+
+// 4:00-5:59 counts as early, 22:00-3:59 as late
+const earlyActivities = (context: BadgeContext) =>
+  getActivityTimes(context).filter(time => time.getHours() >= 4 && time.getHours() < 6).length;
+const lateActivities = (context: BadgeContext) =>
+  getActivityTimes(context).filter(time => time.getHours() >= 22 || time.getHours() < 4).length;
+const perfectDays = ({ challenge, logs }: BadgeContext) => logs.filter(log => isPerfectDay(challenge, log, logs)).length;
+
+export const BADGE_CRITERIA: Partial<Record<BadgeId, BadgeCriterion>> = {
+  streak_3: { metric: longestStreak, target: 3 },
+  streak_7: { metric: longestStreak, target: 7 },
+  streak_14: { metric: longestStreak, target: 14 },
+  streak_30: { metric: longestStreak, target: 30 },
+
+  day_1: { metric: completedDays, target: 1 },
+  week_1: { metric: completedDays, target: 7 },
+  day_25: { metric: completedDays, target: 25 },
+  day_50: { metric: completedDays, target: 50 },
+  day_75: { metric: completedDays, target: 75 },
+  challenge_complete: { metric: completedDays, target: ({ stats }) => stats.totalDays },
+
+  workout_10: { metric: workouts, target: 10 },
+  workout_25: { metric: workouts, target: 25 },
+  workout_50: { metric: workouts, target: 50 },
+  workout_100: { metric: workouts, target: 100 },
+
+  pages_100: { metric: pages, target: 100 },
+  pages_500: { metric: pages, target: 500 },
+  pages_1000: { metric: pages, target: 1000 },
+  book_finished: { metric: booksFinished, target: 1 },
+
+  steps_10k: { metric: maxSteps, target: 10000 },
+  steps_15k: { metric: maxSteps, target: 15000 },
+  steps_20k: { metric: maxSteps, target: 20000 },
+
+  hydration_7: { metric: waterDays, target: 7 },
+  hydration_30: { metric: waterDays, target: 30 },
+
+  photo_7: { metric: photoDays, target: 7 },
+  photo_30: { metric: photoDays, target: 30 },
+
+  early_bird: { metric: earlyActivities, target: 1 },
+  night_owl: { metric: lateActivities, target: 1 },
+  perfect_day: { metric: perfectDays, target: 1 },
+};
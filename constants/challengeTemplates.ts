@@ -0,0 +1,82 @@
+import type { ChallengeTemplate } from "@/types/type";
+
+export const BUILT_IN_TEMPLATES: ChallengeTemplate[] = [
+  {
+    id: "75_hard",
+    name: "75 Hard",
+    description: "Two 45 min workouts (one outdoors, 3 hours apart), diet, a gallon of water, 10 pages, daily photo, no alcohol. Miss a day and start over.",
+    builtIn: true,
+    totalDays: 75,
+    tracking: {
+      trackWorkout1: true,
+      trackWorkout2: true,
+      trackDiet: true,
+      trackWater: true,
+      trackReading: true,
+      trackProgressPhoto: true,
+      trackNoAlcohol: true,
+    },
+    goals: {
+      workoutMinutes: 45,
+      waterLiters: 3.8,
+      readingPages: 10,
+      progressPhotoDays: 1,
+    },
+    strictMode: true,
+    requireOutdoorWorkout: true,
+    workoutSeparationHours: 3,
+  },
+  {
+    id: "75_medium",
+    name: "75 Medium",
+    description: "One 45 min workout, 10k steps, diet, 3L of water, 10 pages and a weekly photo.",
+    builtIn: true,
+    totalDays: 75,
+    tracking: {
+      trackWorkout1: true,
+      trackSteps: true,
+      trackDiet: true,
+      trackWater: true,
+      trackReading: true,
+      trackProgressPhoto: true,
+      trackNoAlcohol: true,
+    },
+    goals: {
+      workoutMinutes: 45,
+      stepsGoal: 10000,
+      waterLiters: 3.0,
+      readingPages: 10,
+      progressPhotoDays: 7,
+    },
+    strictMode: false,
+  },
+  {
+    id: "75_soft",
+    name: "75 Soft",
+    description: "One 45 min workout, eat well, 3L of water and 10 pages a day.",
+    builtIn: true,
+    totalDays: 75,
+    tracking: {
+      trackWorkout1: true,
+      trackDiet: true,
+      trackWater: true,
+      trackReading: true,
+    },
+    goals: {
+      workoutMinutes: 45,
+      waterLiters: 3.0,
+      readingPages: 10,
+    },
+    strictMode: false,
+  },
+  {
+    id: "custom",
+    name: "Custom",
+    description: "Start from scratch and pick your own tasks.",
+    builtIn: true,
+    totalDays: 30,
+    tracking: {},
+    goals: {},
+    strictMode: false,
+  },
+];
@@ -0,0 +1,65 @@
+import { getChallengesForUser, getDailyLogsForChallenge, getUserBadges } from "@/lib/appwrite";
+import { ChallengeStats, computeChallengeStats, getAttemptStatus, getStatsAsOfDate } from "@/lib/challengeStats";
+import { useSessionStore } from "@/store/useSessionStore";
+import { Challenge, ChallengeStatus, DailyLog, UserBadge } from "@/types/type.d";
+import { useCallback, useEffect, useState } from "react";
+
+export type ChallengeAttempt = {
+  challenge: Challenge;
+  logs: DailyLog[];
+  stats: ChallengeStats | null;
+  badges: UserBadge[];
+  status: ChallengeStatus;
+  asOfDate: Date; // Last day the stats cover
+};
+
+/**
+ * Hook to load every challenge attempt for the current user with its logs,
+ * stats and badges (newest first)
+ */
+export function useChallengeHistory() {
+  const { user } = useSessionStore();
+  const [attempts, setAttempts] = useState<ChallengeAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    if (!user?.id) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [challenges, userBadges] = await Promise.all([
+        getChallengesForUser(user.id),
+        getUserBadges(user.id),
+      ]);
+
+      const loaded = await Promise.all(
+        challenges.map(async (challenge): Promise<ChallengeAttempt> => {
+          const logs = challenge.$id ? await getDailyLogsForChallenge(challenge.$id) : [];
+          const asOfDate = getStatsAsOfDate(challenge);
+          return {
+            challenge,
+            logs,
+            stats: computeChallengeStats(challenge, logs, asOfDate),
+            badges: userBadges.filter(badge => badge.challengeId === challenge.$id),
+            status: getAttemptStatus(challenge),
+            asOfDate,
+          };
+        })
+      );
+      setAttempts(loaded);
+    } catch (err) {
+      console.error("Failed to load challenge history:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  return { attempts, loading, refresh: loadHistory };
+}
@@ -1,4 +1,5 @@
 import { getCycleLog } from "@/lib/appwrite";
+import { getTodayKey } from "@/lib/dayBoundary";
 import { useSessionStore } from "@/store/useSessionStore";
 import { CycleLog } from "@/types/type.d";
 import { useFocusEffect } from "expo-router";
@@ -22,7 +23,7 @@ const useCycleLogStore = create<CycleLogState>((set, get) => ({
   lastFetchTime: 0,
 
   fetchCycleLog: async (userId: string, forceRefresh = false) => {
-    const today = new Date().toISOString().split("T")[0];
+    const today = getTodayKey();
     const now = Date.now();
     const { lastFetchDate, lastFetchTime, loading } = get();
     
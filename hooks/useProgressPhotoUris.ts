@@ -0,0 +1,34 @@
+import { getCachedPhotoUri, PhotoSize } from "@/lib/progressPhotos";
+import { useEffect, useState } from "react";
+
+/**
+ * Local URIs for progress photos, filled in as each one is loaded from the
+ * cache or downloaded
+ */
+export function useProgressPhotoUris(fileIds: string[], size: PhotoSize = "thumbnail"): Record<string, string> {
+  const [uris, setUris] = useState<Record<string, string>>({});
+  const key = fileIds.join(",");
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Load in order so the first photos appear first
+    (async () => {
+      for (const fileId of key ? key.split(",") : []) {
+        if (cancelled) return;
+        try {
+          const uri = await getCachedPhotoUri(fileId, size);
+          if (!cancelled) setUris(prev => (prev[fileId] ? prev : { ...prev, [fileId]: uri }));
+        } catch (err) {
+          console.error("Failed to load progress photo:", err);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, size]);
+
+  return uris;
+}
@@ -0,0 +1,17 @@
+import { getStatsAsOfDate } from "@/lib/challengeStats";
+import { withTodayLog } from "@/lib/dayCompletion";
+import { computeStreaks, StreakSummary } from "@/lib/streaks";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { useMemo } from "react";
+
+/**
+ * Streaks for the current challenge, including today's latest changes
+ */
+export function useStreaks(): StreakSummary | null {
+  const { challenge, allLogs, todayLog } = useChallengeStore();
+
+  return useMemo(() => {
+    if (!challenge) return null;
+    return computeStreaks(challenge, withTodayLog(allLogs, todayLog), getStatsAsOfDate(challenge));
+  }, [challenge, allLogs, todayLog]);
+}
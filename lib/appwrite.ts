@@ -1,6 +1,8 @@
+import { isNetworkError } from "@/lib/offlineQueue";
 import type { ActivityLog, ActivityType, Challenge, CycleLog, DailyLog, UserBadge, UserProfile } from "@/types/type";
 import { BadgeId } from "@/types/type";
-import { Account, Client, Databases, Permission, Query, Role } from "appwrite";
+import { Account, Client, Databases, ImageFormat, Models, Permission, Query, Role, Storage } from "appwrite";
+import { File, Paths } from "expo-file-system";
 
 /**
  * Generate document-level permissions for a specific user.
@@ -27,6 +29,10 @@ const COLLECTIONS = {
   ACTIVITY_LOGS: "activityLogs",
   USER_BADGES: "userBadges",
 };
+// Storage buckets - files are private to the user who uploaded them
+const BUCKETS = {
+  PROGRESS_PHOTOS: "progressPhotos",
+};
 
 export const appwriteClient = new Client();
 if (endpoint && projectId) {
@@ -35,6 +41,30 @@ if (endpoint && projectId) {
 
 export const account = new Account(appwriteClient);
 export const databases = new Databases(appwriteClient);
+export const storage = new Storage(appwriteClient);
+
+// Appwrite returns at most this many documents per request
+export const PAGE_SIZE = 100;
+
+/**
+ * List every matching document, following cursors past the page size
+ */
+async function listAllDocuments<T>(collectionId: string, queries: string[]): Promise<T[]> {
+  const documents: T[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const response: Models.DocumentList<Models.Document> = await databases.listDocuments(DATABASE_ID, collectionId, [
+      ...queries,
+      Query.limit(PAGE_SIZE),
+      ...(cursor ? [Query.cursorAfter(cursor)] : []),
+    ]);
+    documents.push(...(response.documents as unknown as T[]));
+    cursor = response.documents.length === PAGE_SIZE ? response.documents[response.documents.length - 1].$id : null;
+  } while (cursor);
+
+  return documents;
+}
 
 // Auth functions
 export async function createAccount(email: string, password: string, name: string) {
@@ -158,10 +188,24 @@ export async function getChallenge(userId: string): Promise<Challenge | null> {
     return null;
   } catch (err) {
     console.error("getChallenge error:", err);
+    // Offline - let callers keep their cached copy
+    if (isNetworkError(err)) throw err;
     return null;
   }
 }
 
+export async function getChallengesForUser(userId: string): Promise<Challenge[]> {
+  try {
+    return await listAllDocuments<Challenge>(COLLECTIONS.CHALLENGES, [
+      Query.equal("userId", userId),
+      Query.orderDesc("$createdAt"),
+    ]);
+  } catch (err) {
+    console.error("getChallengesForUser error:", err);
+    throw err;
+  }
+}
+
 export async function updateChallenge(challengeId: string, data: Partial<Challenge>): Promise<Challenge> {
   const doc = await databases.updateDocument(
     DATABASE_ID,
@@ -201,6 +245,8 @@ export async function getDailyLog(challengeId: string, date: string): Promise<Da
     return null;
   } catch (err) {
     console.error("getDailyLog error:", err);
+    // Offline - let callers keep their cached copy
+    if (isNetworkError(err)) throw err;
     return null;
   }
 }
@@ -215,21 +261,25 @@ export async function updateDailyLog(logId: string, data: Partial<DailyLog>): Pr
   return doc as unknown as DailyLog;
 }
 
-export async function getDailyLogsForChallenge(challengeId: string): Promise<DailyLog[]> {
+/**
+ * Get every daily log for a challenge, newest first. Pass `updatedSince` (an
+ * Appwrite $updatedAt) to fetch only logs changed after it. Throws on failure,
+ * so an error is never mistaken for an empty history.
+ */
+export async function getDailyLogsForChallenge(challengeId: string, updatedSince?: string): Promise<DailyLog[]> {
   if (!challengeId) {
     console.warn("getDailyLogsForChallenge called with empty challengeId");
     return [];
   }
   try {
-    const response = await databases.listDocuments(
-      DATABASE_ID,
-      COLLECTIONS.DAILY_LOGS,
-      [Query.equal("challengeId", challengeId), Query.orderDesc("date"), Query.limit(100)]
-    );
-    return response.documents as unknown as DailyLog[];
+    return await listAllDocuments<DailyLog>(COLLECTIONS.DAILY_LOGS, [
+      Query.equal("challengeId", challengeId),
+      ...(updatedSince ? [Query.greaterThan("$updatedAt", updatedSince)] : []),
+      Query.orderDesc("date"),
+    ]);
   } catch (err) {
     console.error("getDailyLogsForChallenge error:", err);
-    return [];
+    throw err;
   }
 }
 
@@ -286,6 +336,21 @@ export async function getCycleLogsForUser(userId: string, limit: number = 90): P
   }
 }
 
+/**
+ * Get every cycle log for a user, oldest first
+ */
+export async function getAllCycleLogsForUser(userId: string): Promise<CycleLog[]> {
+  try {
+    return await listAllDocuments<CycleLog>(COLLECTIONS.CYCLE_LOGS, [
+      Query.equal("userId", userId),
+      Query.orderAsc("date"),
+    ]);
+  } catch (err) {
+    console.error("getAllCycleLogsForUser error:", err);
+    throw err;
+  }
+}
+
 export async function getLastPeriodStart(userId: string): Promise<CycleLog | null> {
   try {
     const response = await databases.listDocuments(
@@ -338,7 +403,15 @@ export async function getActivityLogs(userId: string, limit: number = 50): Promi
   }
 }
 
-export async function getActivityLogsForChallenge(challengeId: string, limit: number = 100): Promise<ActivityLog[]> {
+/**
+ * Get a page of a challenge's activity logs, newest first. Pass the $id of the
+ * last log already loaded as `cursor` to get the next (older) page.
+ */
+export async function getActivityLogsForChallenge(
+  challengeId: string,
+  cursor?: string,
+  limit: number = PAGE_SIZE
+): Promise<ActivityLog[]> {
   if (!challengeId) {
     console.warn("getActivityLogsForChallenge called with empty challengeId");
     return [];
@@ -350,16 +423,53 @@ export async function getActivityLogsForChallenge(challengeId: string, limit: nu
       [
         Query.equal("challengeId", challengeId),
         Query.orderDesc("$createdAt"),
-        Query.limit(limit)
+        Query.limit(limit),
+        ...(cursor ? [Query.cursorAfter(cursor)] : []),
       ]
     );
     return response.documents as unknown as ActivityLog[];
   } catch (err) {
     console.error("getActivityLogsForChallenge error:", err);
+    // Offline - let callers keep their cached copy
+    if (isNetworkError(err)) throw err;
+    return [];
+  }
+}
+
+/**
+ * Get every activity log created or edited after an $updatedAt timestamp,
+ * newest first
+ */
+export async function getActivityLogsUpdatedSince(challengeId: string, updatedSince: string): Promise<ActivityLog[]> {
+  try {
+    return await listAllDocuments<ActivityLog>(COLLECTIONS.ACTIVITY_LOGS, [
+      Query.equal("challengeId", challengeId),
+      Query.greaterThan("$updatedAt", updatedSince),
+      Query.orderDesc("$createdAt"),
+    ]);
+  } catch (err) {
+    console.error("getActivityLogsUpdatedSince error:", err);
+    // Offline - let callers keep their cached copy
+    if (isNetworkError(err)) throw err;
     return [];
   }
 }
 
+/**
+ * Get every activity log for a challenge, oldest first
+ */
+export async function getAllActivityLogsForChallenge(challengeId: string): Promise<ActivityLog[]> {
+  try {
+    return await listAllDocuments<ActivityLog>(COLLECTIONS.ACTIVITY_LOGS, [
+      Query.equal("challengeId", challengeId),
+      Query.orderAsc("$createdAt"),
+    ]);
+  } catch (err) {
+    console.error("getAllActivityLogsForChallenge error:", err);
+    throw err;
+  }
+}
+
 export async function getActivityLogsForDate(challengeId: string, date: string, type?: ActivityType): Promise<ActivityLog[]> {
   if (!challengeId || !date) {
     console.warn("getActivityLogsForDate called with empty challengeId or date");
@@ -444,19 +554,13 @@ export async function createUserBadge(userId: string, badgeId: BadgeId, challeng
 
 export async function getUserBadges(userId: string): Promise<UserBadge[]> {
   try {
-    const response = await databases.listDocuments(
-      DATABASE_ID,
-      COLLECTIONS.USER_BADGES,
-      [
-        Query.equal("userId", userId),
-        Query.orderDesc("$createdAt"),
-        Query.limit(100)
-      ]
-    );
-    return response.documents as unknown as UserBadge[];
+    return await listAllDocuments<UserBadge>(COLLECTIONS.USER_BADGES, [
+      Query.equal("userId", userId),
+      Query.orderDesc("$createdAt"),
+    ]);
   } catch (err) {
     console.error("getUserBadges error:", err);
-    return [];
+    throw err;
   }
 }
 
@@ -476,4 +580,76 @@ export async function hasUserBadge(userId: string, badgeId: BadgeId): Promise<bo
     console.error("hasUserBadge error:", err);
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Progress photo functions
+export type LocalImage = {
+  uri: string;
+  name: string;
+  type: string; // MIME type
+  size: number; // bytes
+};
+
+/**
+ * Upload a photo from the device. The SDK's createFile needs a web File it can
+ * slice, so this sends React Native's { uri, name, type } form uploads itself,
+ * splitting photos over Appwrite's chunk size into cached chunk files.
+ */
+export async function uploadProgressPhoto(userId: string, image: LocalImage): Promise<string> {
+  const url = new URL(`${appwriteClient.config.endpoint}/storage/buckets/${BUCKETS.PROGRESS_PHOTOS}/files`);
+  const payload = { fileId: "unique()", permissions: getUserPermissions(userId) };
+  const source = new File(image.uri);
+  const size = source.size || image.size;
+
+  if (size <= Client.CHUNK_SIZE) {
+    const file = await appwriteClient.call("post", url, { "content-type": "multipart/form-data" }, {
+      ...payload,
+      file: { uri: image.uri, name: image.name, type: image.type },
+    });
+    return file.$id;
+  }
+
+  const handle = source.open();
+  let fileId: string | null = null;
+  try {
+    for (let start = 0; start < size; start += Client.CHUNK_SIZE) {
+      const end = Math.min(start + Client.CHUNK_SIZE, size);
+      handle.offset = start;
+      const chunk = new File(Paths.cache, `upload-${Date.now()}-${start}`);
+      chunk.write(handle.readBytes(end - start));
+      try {
+        const file = await appwriteClient.call("post", url, {
+          "content-type": "multipart/form-data",
+          "content-range": `bytes ${start}-${end - 1}/${size}`,
+          ...(fileId ? { "x-appwrite-id": fileId } : {}),
+        }, {
+          ...payload,
+          file: { uri: chunk.uri, name: image.name, type: image.type },
+        });
+        fileId = file.$id;
+      } finally {
+        chunk.delete();
+      }
+    }
+  } finally {
+    handle.close();
+  }
+  if (!fileId) throw new Error("Photo upload returned no file");
+  return fileId;
+}
+
+export async function deleteProgressPhoto(fileId: string): Promise<void> {
+  await storage.deleteFile(BUCKETS.PROGRESS_PHOTOS, fileId);
+}
+
+/**
+ * URL of a resized JPEG of a progress photo. Omit `width` for the full-size image.
+ */
+export function getProgressPhotoUrl(fileId: string, width?: number): string {
+  return storage.getFilePreview({
+    bucketId: BUCKETS.PROGRESS_PHOTOS,
+    fileId,
+    width,
+    output: ImageFormat.Jpg,
+  });
+}
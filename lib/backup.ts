@@ -0,0 +1,316 @@
+import {
+  createActivityLog,
+  createChallenge,
+  createCycleLog,
+  createDailyLog,
+  createUserBadge,
+  getAllActivityLogsForChallenge,
+  getAllCycleLogsForUser,
+  getChallengesForUser,
+  getDailyLogsForChallenge,
+  getUserBadges,
+  getUserProfile,
+  updateChallenge,
+  updateUserProfile,
+} from "@/lib/appwrite";
+import { shareFile } from "@/lib/dataExport";
+import type { DayBoundarySettings } from "@/lib/dayBoundary";
+import { parseProgressPhotos } from "@/lib/progressPhotos";
+import { getReportId } from "@/lib/progressReports";
+import type {
+    ActivityLog,
+    Challenge,
+    ChallengeTemplate,
+    CycleLog,
+    DailyLog,
+    ProgressReport,
+    UserBadge,
+    UserProfile,
+} from "@/types/type";
+import { format } from "date-fns";
+
+/**
+ * Account backup - every record and setting for an account in one versioned
+ * JSON archive, restorable into another (usually fresh) account.
+ */
+
+export const BACKUP_TYPE = "ascend-account-backup";
+export const BACKUP_VERSION = 1;
+
+// Device settings that aren't stored in Appwrite
+export type BackupSettings = {
+  notificationsEnabled: boolean;
+  dayBoundary: DayBoundarySettings;
+  customTemplates: ChallengeTemplate[];
+};
+
+export type AccountBackup = {
+  type: typeof BACKUP_TYPE;
+  version: number;
+  createdAt: string; // ISO
+  profile: Pick<UserProfile, "firstName" | "lastName" | "heightCm" | "badges"> | null;
+  challenges: Challenge[]; // Oldest first, so the newest is still current after a restore
+  dailyLogs: DailyLog[];
+  activityLogs: ActivityLog[];
+  cycleLogs: CycleLog[];
+  userBadges: UserBadge[];
+  reports: ProgressReport[]; // Saved on the device - missing from older backups
+  settings: BackupSettings;
+};
+
+export type BackupCollection = "challenges" | "dailyLogs" | "activityLogs" | "cycleLogs" | "userBadges";
+
+export const BACKUP_COLLECTIONS: { id: BackupCollection; label: string }[] = [
+  { id: "challenges", label: "Challenges" },
+  { id: "dailyLogs", label: "Daily logs" },
+  { id: "activityLogs", label: "Activity entries" },
+  { id: "cycleLogs", label: "Cycle logs" },
+  { id: "userBadges", label: "Badges" },
+];
+
+export type RestoreReport = {
+  profileRestored: boolean;
+  counts: Record<BackupCollection, { imported: number; skipped: number; failed: number }>;
+  photosDropped: number; // Progress photos left behind in the old account's storage
+  reports: ProgressReport[]; // Backed-up reports moved onto the restored challenges
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Drop Appwrite's system fields ($id, $createdAt, $permissions...) so a record can be recreated
+ */
+function withoutSystemFields<T extends object>(doc: T): T {
+  return Object.fromEntries(Object.entries(doc).filter(([key]) => !key.startsWith("$"))) as T;
+}
+
+/**
+ * Gather everything stored for an account
+ */
+export async function createAccountBackup(
+  userId: string,
+  settings: BackupSettings,
+  reports: ProgressReport[]
+): Promise<AccountBackup> {
+  const [profile, challenges, cycleLogs, userBadges] = await Promise.all([
+    getUserProfile(userId),
+    getChallengesForUser(userId),
+    getAllCycleLogsForUser(userId),
+    getUserBadges(userId),
+  ]);
+
+  const dailyLogs: DailyLog[] = [];
+  const activityLogs: ActivityLog[] = [];
+  for (const challenge of challenges) {
+    const [logs, activity] = await Promise.all([
+      getDailyLogsForChallenge(challenge.$id!),
+      getAllActivityLogsForChallenge(challenge.$id!),
+    ]);
+    dailyLogs.push(...logs);
+    activityLogs.push(...activity);
+  }
+
+  return {
+    type: BACKUP_TYPE,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    profile: profile ? { firstName: profile.firstName, lastName: profile.lastName, heightCm: profile.heightCm, badges: profile.badges } : null,
+    challenges: [...challenges].reverse(),
+    dailyLogs,
+    activityLogs,
+    cycleLogs,
+    userBadges,
+    reports,
+    settings,
+  };
+}
+
+export async function shareAccountBackup(backup: AccountBackup): Promise<void> {
+  await shareFile(
+    `ascend-backup-${format(new Date(), "yyyy-MM-dd")}.json`,
+    JSON.stringify(backup, null, 2),
+    "Account backup",
+    "application/json"
+  );
+}
+
+/**
+ * Parse and validate a backup archive. Throws with a user-facing message if it
+ * can't be restored.
+ */
+export function parseAccountBackup(json: string): AccountBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("This isn't valid JSON.");
+  }
+
+  if (!isRecord(data) || data.type !== BACKUP_TYPE) {
+    throw new Error("This file isn't an account backup.");
+  }
+  if (typeof data.version !== "number" || data.version > BACKUP_VERSION) {
+    throw new Error("This backup was made with a newer version of the app.");
+  }
+
+  const collections = {} as Record<BackupCollection, Record<string, unknown>[]>;
+  for (const { id, label } of BACKUP_COLLECTIONS) {
+    const records = data[id];
+    if (!Array.isArray(records)) {
+      throw new Error(`The backup is missing ${label.toLowerCase()}.`);
+    }
+    if (!records.every(isRecord)) {
+      throw new Error(`The backup's ${label.toLowerCase()} are damaged.`);
+    }
+    collections[id] = records;
+  }
+  if (collections.challenges.some(challenge => typeof challenge.$id !== "string" || !challenge.startDate)) {
+    throw new Error("The backup contains a challenge without an id or start date.");
+  }
+  if (collections.dailyLogs.some(log => typeof log.challengeId !== "string" || typeof log.date !== "string")) {
+    throw new Error("The backup contains a daily log without a challenge or date.");
+  }
+
+  const { settings } = data;
+  if (!isRecord(settings) || !isRecord(settings.dayBoundary) || !Array.isArray(settings.customTemplates)) {
+    throw new Error("The backup is missing its settings.");
+  }
+
+  // Reports are a convenience, so ones that don't look right are left out
+  const reports = (Array.isArray(data.reports) ? data.reports : []).filter(
+    (report): report is Record<string, unknown> =>
+      isRecord(report) &&
+      typeof report.challengeId === "string" &&
+      (report.period === "week" || report.period === "month") &&
+      typeof report.startDate === "string" &&
+      isRecord(report.totals)
+  );
+
+  return { ...data, ...collections, reports, settings } as unknown as AccountBackup;
+}
+
+/**
+ * Recreate a backup's records under another account. Challenges get new ids, so
+ * every challengeId and previousAttemptId reference is remapped; records whose
+ * challenge isn't in the backup are skipped.
+ */
+export async function restoreAccountBackup(
+  backup: AccountBackup,
+  userId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<RestoreReport> {
+  const report: RestoreReport = {
+    profileRestored: false,
+    counts: {
+      challenges: { imported: 0, skipped: 0, failed: 0 },
+      dailyLogs: { imported: 0, skipped: 0, failed: 0 },
+      activityLogs: { imported: 0, skipped: 0, failed: 0 },
+      cycleLogs: { imported: 0, skipped: 0, failed: 0 },
+      userBadges: { imported: 0, skipped: 0, failed: 0 },
+    },
+    photosDropped: 0,
+    reports: [],
+  };
+  const total =
+    backup.challenges.length +
+    backup.dailyLogs.length +
+    backup.activityLogs.length +
+    backup.cycleLogs.length +
+    backup.userBadges.length;
+  let done = 0;
+
+  const restore = async (collection: BackupCollection, write: () => Promise<unknown>) => {
+    try {
+      const result = await write();
+      report.counts[collection][result === null ? "failed" : "imported"]++;
+    } catch (err) {
+      console.error(`Failed to restore ${collection} record:`, err);
+      report.counts[collection].failed++;
+    }
+    onProgress?.(++done, total);
+  };
+
+  if (backup.profile) {
+    try {
+      const profile = await getUserProfile(userId);
+      if (profile?.$id) {
+        await updateUserProfile(profile.$id, backup.profile);
+        report.profileRestored = true;
+      }
+    } catch (err) {
+      console.error("Failed to restore profile:", err);
+    }
+  }
+
+  // Challenges first, so logs can point at their new ids
+  const challengeIds = new Map<string, string>();
+  for (const challenge of backup.challenges) {
+    await restore("challenges", async () => {
+      const { previousAttemptId, ...data } = withoutSystemFields(challenge);
+      const created = await createChallenge({ ...data, userId });
+      challengeIds.set(challenge.$id!, created.$id!);
+      // Restarted attempts link back to the attempt they replaced
+      const previousId = previousAttemptId && challengeIds.get(previousAttemptId);
+      if (previousId) await updateChallenge(created.$id!, { previousAttemptId: previousId });
+      return created;
+    });
+  }
+
+  const skip = (collection: BackupCollection) => {
+    report.counts[collection].skipped++;
+    onProgress?.(++done, total);
+  };
+
+  for (const log of backup.dailyLogs) {
+    const challengeId = challengeIds.get(log.challengeId);
+    if (!challengeId) {
+      skip("dailyLogs");
+      continue;
+    }
+    // Photo file ids point into the old account's storage, so only the fact a
+    // photo was taken is kept
+    const { progressPhotos: _photos, ...data } = withoutSystemFields(log);
+    const photoCount = Object.keys(parseProgressPhotos(log)).length;
+    report.photosDropped += photoCount;
+    await restore("dailyLogs", () =>
+      createDailyLog(
+        { ...data, progressPhotoCompleted: data.progressPhotoCompleted || photoCount > 0, userId, challengeId },
+        userId
+      )
+    );
+  }
+
+  for (const activity of backup.activityLogs) {
+    const challengeId = challengeIds.get(activity.challengeId);
+    if (!challengeId) {
+      skip("activityLogs");
+      continue;
+    }
+    await restore("activityLogs", () => createActivityLog({ ...withoutSystemFields(activity), userId, challengeId }));
+  }
+
+  for (const log of backup.cycleLogs) {
+    await restore("cycleLogs", () => createCycleLog({ ...withoutSystemFields(log), userId }));
+  }
+
+  for (const badge of backup.userBadges) {
+    const challengeId = badge.challengeId ? challengeIds.get(badge.challengeId) : undefined;
+    await restore("userBadges", () => createUserBadge(userId, badge.badgeId, challengeId));
+  }
+
+  for (const saved of backup.reports) {
+    const challengeId = challengeIds.get(saved.challengeId);
+    if (challengeId) {
+      report.reports.push({
+        ...saved,
+        id: getReportId(challengeId, saved.period, saved.startDate),
+        userId,
+        challengeId,
+      });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,46 @@
+import { BADGE_CRITERIA, BadgeContext } from "@/constants/badges";
+import { computeChallengeStats } from "@/lib/challengeStats";
+import type { ActivityLog, BadgeId, Challenge, DailyLog } from "@/types/type";
+
+/**
+ * Badge engine - evaluates the criteria declared in constants/badges against a
+ * challenge's logs.
+ */
+
+export type BadgeProgress = {
+  current: number;
+  target: number;
+  earned: boolean;
+};
+
+/**
+ * Gather what badge criteria need. Null until the challenge has logs.
+ */
+export function buildBadgeContext(
+  challenge: Challenge,
+  logs: DailyLog[],
+  activityLogs: ActivityLog[]
+): BadgeContext | null {
+  const stats = computeChallengeStats(challenge, logs);
+  if (!stats) return null;
+  return { challenge, logs, activityLogs, stats };
+}
+
+/**
+ * How far along a badge is, or null if it has no criteria
+ */
+export function getBadgeProgress(badgeId: BadgeId, context: BadgeContext): BadgeProgress | null {
+  const criterion = BADGE_CRITERIA[badgeId];
+  if (!criterion) return null;
+
+  const current = criterion.metric(context);
+  const target = typeof criterion.target === "function" ? criterion.target(context) : criterion.target;
+  return { current: Math.min(current, target), target, earned: current >= target };
+}
+
+/**
+ * Every badge whose criteria are currently met
+ */
+export function evaluateBadges(context: BadgeContext): BadgeId[] {
+  return (Object.keys(BADGE_CRITERIA) as BadgeId[]).filter(badgeId => getBadgeProgress(badgeId, context)?.earned);
+}
@@ -0,0 +1,160 @@
+import { getCustomTasks, getCustomTaskValue, isCustomTaskComplete } from "@/lib/customTasks";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getChallengeForDate } from "@/lib/goalHistory";
+import { computeStreaks } from "@/lib/streaks";
+import type { Challenge, ChallengeStatus, CustomTask, DailyLog } from "@/types/type";
+import { addDays, differenceInDays, format, isAfter, isBefore, parseISO } from "date-fns";
+
+export type ChallengeStats = {
+  completedDays: number;
+  totalDays: number;
+  completionRate: number;
+  currentStreak: number;
+  longestStreak: number;
+  avgSteps: number;
+  avgWater: string;
+  avgReading: number;
+  totalWorkoutTime: number;
+  totalPages: number;
+  totalWater: number;
+  workoutCompletions: number;
+  photoCompletions: number;
+  waterCompletions: number;
+  maxSteps: number;
+  customTaskStats: CustomTaskStats[];
+};
+
+export type CustomTaskStats = {
+  task: CustomTask;
+  completions: number; // Days the task goal was met
+  average: number; // Average logged value on days it was logged
+};
+
+/**
+ * Check if a log has any completed task or logged value
+ */
+function hasActivity(log: DailyLog): boolean {
+  return !!(
+    log.workout1Completed || log.workout2Completed ||
+    log.dietCompleted || log.waterCompleted ||
+    log.readingCompleted || log.progressPhotoCompleted ||
+    log.stepsCompleted ||
+    // Also consider logged values as activity
+    (log.stepsCount && log.stepsCount > 0) ||
+    (log.workout1Minutes && log.workout1Minutes > 0) ||
+    (log.workout2Minutes && log.workout2Minutes > 0) ||
+    (log.waterLiters && log.waterLiters > 0) ||
+    (log.readingPages && log.readingPages > 0)
+  );
+}
+
+/**
+ * Get the last date of a challenge (inclusive)
+ */
+export function getChallengeEndDate(challenge: Challenge): Date {
+  return addDays(parseISO(challenge.startDate), (challenge.totalDays || 75) - 1);
+}
+
+/**
+ * Get the date stats should be calculated up to. Failed attempts stop on the
+ * day they failed, finished attempts on their last day.
+ */
+export function getStatsAsOfDate(challenge: Challenge, today: Date = getTodayDate()): Date {
+  if (challenge.status === "failed" && challenge.failedDate) {
+    return parseISO(challenge.failedDate);
+  }
+  const endDate = getChallengeEndDate(challenge);
+  return isAfter(today, endDate) ? endDate : today;
+}
+
+/**
+ * Calculate the analytics stats for a challenge from its daily logs
+ */
+export function computeChallengeStats(
+  challenge: Challenge,
+  allLogs: DailyLog[],
+  today: Date = getTodayDate()
+): ChallengeStats | null {
+  if (!allLogs || allLogs.length === 0) return null;
+
+  const startDate = parseISO(challenge.startDate);
+  const challengeTotalDays = challenge.totalDays || 75;
+  const challengeEndDate = getChallengeEndDate(challenge);
+
+  // Filter logs to only include those within the challenge date range
+  const logsInChallengeRange = allLogs.filter((log: DailyLog) => {
+    const logDate = parseISO(log.date);
+    return !isBefore(logDate, startDate) && !isAfter(logDate, challengeEndDate) && !isAfter(logDate, today);
+  });
+
+  // Days elapsed since start (including today as in-progress)
+  const daysElapsed = Math.min(differenceInDays(today, startDate) + 1, challengeTotalDays);
+
+  // Completed days = days with any completed activity (only within challenge range)
+  const completedDays = logsInChallengeRange.filter(hasActivity).length;
+
+  const streaks = computeStreaks(challenge, allLogs, getStatsAsOfDate(challenge, today));
+
+  // Calculate averages (use logs in challenge range only)
+  const totalSteps = logsInChallengeRange.reduce((sum: number, log: DailyLog) => sum + (log.stepsCount || 0), 0);
+  const totalWater = logsInChallengeRange.reduce((sum: number, log: DailyLog) => sum + (log.waterLiters || 0), 0);
+  const totalReading = logsInChallengeRange.reduce((sum: number, log: DailyLog) => sum + (log.readingPages || 0), 0);
+  const totalWorkoutTime = logsInChallengeRange.reduce((sum: number, log: DailyLog) =>
+    sum + (log.workout1Minutes || 0) + (log.workout2Minutes || 0), 0
+  );
+
+  // Completion rates (use logs in challenge range only)
+  const workoutCompletions = logsInChallengeRange.filter((log: DailyLog) =>
+    (log.workout1Minutes && log.workout1Minutes > 0) || (log.workout2Minutes && log.workout2Minutes > 0)
+  ).length;
+  const photoCompletions = logsInChallengeRange.filter((log: DailyLog) => log.progressPhotoCompleted).length;
+
+  // Custom tasks (use logs in challenge range only)
+  const customTaskStats = getCustomTasks(challenge).map((task): CustomTaskStats => {
+    const values = logsInChallengeRange
+      .map(log => getCustomTaskValue(log, task.id))
+      .filter((value): value is number => value !== undefined);
+    // Each day counts against the task's goal in force on that day
+    const completions = logsInChallengeRange.filter(log => {
+      const dayTask = getCustomTasks(getChallengeForDate(challenge, log.date)).find(t => t.id === task.id) ?? task;
+      return isCustomTaskComplete(dayTask, getCustomTaskValue(log, task.id));
+    }).length;
+    return {
+      task,
+      completions,
+      average: values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : 0,
+    };
+  });
+
+  // Use days elapsed for rate calculations (how many days have passed)
+  // Use challenge total days for the "X / Y" display
+  return {
+    completedDays,
+    totalDays: challengeTotalDays,
+    completionRate: daysElapsed > 0 ? Math.min(100, Math.round((completedDays / daysElapsed) * 100)) : 0,
+    currentStreak: streaks.current,
+    longestStreak: streaks.longest,
+    avgSteps: completedDays > 0 ? Math.round(totalSteps / completedDays) : 0,
+    avgWater: completedDays > 0 ? (totalWater / completedDays).toFixed(1) : "0",
+    avgReading: completedDays > 0 ? Math.round(totalReading / completedDays) : 0,
+    totalWorkoutTime,
+    totalPages: totalReading,
+    totalWater,
+    workoutCompletions,
+    photoCompletions,
+    waterCompletions: allLogs.filter((log: DailyLog) => log.waterCompleted).length,
+    maxSteps: Math.max(...allLogs.map((log: DailyLog) => log.stepsCount || 0), 0),
+    customTaskStats,
+  };
+}
+
+/**
+ * Get the status of an attempt. Attempts saved before statuses were tracked
+ * count as completed once their last day has passed.
+ */
+export function getAttemptStatus(challenge: Challenge, today: Date = getTodayDate()): ChallengeStatus {
+  if (challenge.status === "failed" || challenge.status === "completed") {
+    return challenge.status;
+  }
+  return isAfter(parseISO(format(today, "yyyy-MM-dd")), getChallengeEndDate(challenge)) ? "completed" : "active";
+}
@@ -0,0 +1,127 @@
+import { normalizeCustomTasks } from "@/lib/customTasks";
+import type {
+  ChallengeTemplate,
+  ChallengeTemplateGoalKey,
+  ChallengeTemplateTrackingKey,
+} from "@/types/type";
+
+// Bump when the exported JSON shape changes
+export const TEMPLATE_EXPORT_VERSION = 1;
+const TEMPLATE_EXPORT_TYPE = "challenge-template";
+
+export const TEMPLATE_TRACKING_KEYS: ChallengeTemplateTrackingKey[] = [
+  "trackWorkout1",
+  "trackWorkout2",
+  "trackDiet",
+  "trackCalories",
+  "trackWater",
+  "trackReading",
+  "trackProgressPhoto",
+  "trackNoAlcohol",
+  "trackMood",
+  "trackSleep",
+  "trackCycle",
+  "trackSteps",
+  "trackWeight",
+  "trackSkincare",
+];
+
+export const TEMPLATE_GOAL_KEYS: ChallengeTemplateGoalKey[] = [
+  "workoutMinutes",
+  "waterLiters",
+  "readingPages",
+  "stepsGoal",
+  "caloriesGoal",
+  "caloriesGoalMax",
+  "weightGoal",
+  "sleepGoalHours",
+  "progressPhotoDays",
+];
+
+export function createTemplateId(): string {
+  return `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Serialize a template to shareable JSON (ids and built-in flags are not exported)
+ */
+export function exportTemplate(template: ChallengeTemplate): string {
+  const { id, builtIn, ...settings } = template;
+  return JSON.stringify(
+    { type: TEMPLATE_EXPORT_TYPE, version: TEMPLATE_EXPORT_VERSION, template: settings },
+    null,
+    2
+  );
+}
+
+/**
+ * An object's fields, or none when the value isn't an object
+ */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+/**
+ * Parse a template from exported JSON. Unknown tasks and goals are dropped.
+ * Throws an Error with a user-facing message if the JSON is not a valid template.
+ */
+export function parseTemplate(json: string): ChallengeTemplate {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("This isn't valid JSON.");
+  }
+
+  const data = asRecord(parsed);
+  if (data.type !== TEMPLATE_EXPORT_TYPE || !data.template) {
+    throw new Error("This JSON isn't a challenge template.");
+  }
+  if (typeof data.version !== "number" || data.version > TEMPLATE_EXPORT_VERSION) {
+    throw new Error("This template was made with a newer version of the app.");
+  }
+
+  const raw = asRecord(data.template);
+  const rawTracking = asRecord(raw.tracking);
+  const rawGoals = asRecord(raw.goals);
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (!name) {
+    throw new Error("The template is missing a name.");
+  }
+  const totalDays = Number(raw.totalDays);
+  if (!Number.isInteger(totalDays) || totalDays < 1) {
+    throw new Error("The template needs a duration of at least 1 day.");
+  }
+
+  const tracking: ChallengeTemplate["tracking"] = {};
+  for (const key of TEMPLATE_TRACKING_KEYS) {
+    const value = rawTracking[key];
+    if (typeof value === "boolean") {
+      tracking[key] = value;
+    }
+  }
+
+  const goals: ChallengeTemplate["goals"] = {};
+  for (const key of TEMPLATE_GOAL_KEYS) {
+    const value = Number(rawGoals[key]);
+    if (rawGoals[key] !== undefined && Number.isFinite(value) && value >= 0) {
+      goals[key] = value;
+    }
+  }
+
+  return {
+    id: createTemplateId(),
+    name,
+    description: typeof raw.description === "string" ? raw.description : undefined,
+    totalDays,
+    tracking,
+    goals,
+    caloriesGoalDirection: raw.caloriesGoalDirection === "above" || raw.caloriesGoalDirection === "range"
+      ? raw.caloriesGoalDirection
+      : "below",
+    strictMode: raw.strictMode === true,
+    requireOutdoorWorkout: raw.requireOutdoorWorkout === true,
+    workoutSeparationHours: Number(raw.workoutSeparationHours) > 0 ? Number(raw.workoutSeparationHours) : undefined,
+    customTasks: normalizeCustomTasks(raw.customTasks),
+  };
+}
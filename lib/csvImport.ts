@@ -0,0 +1,248 @@
+import { createDailyLog, updateDailyLog } from "@/lib/appwrite";
+import { toDayKey } from "@/lib/dayBoundary";
+import type { Challenge, DailyLog } from "@/types/type";
+import { addDays, isValid, parse, parseISO } from "date-fns";
+
+/**
+ * CSV import - maps columns from another tracker's export (or a spreadsheet) onto
+ * daily log fields, validates each row and merges it into the challenge's logs.
+ */
+
+type ImportFieldType = "date" | "number" | "boolean" | "text";
+
+export type ImportField = {
+  key: keyof DailyLog;
+  label: string;
+  type: ImportFieldType;
+  min?: number;
+  max?: number;
+  aliases?: string[]; // Other header names that map to this field
+};
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { key: "date", label: "Date", type: "date", aliases: ["day"] },
+  { key: "stepsCount", label: "Steps", type: "number", min: 0, aliases: ["steps"] },
+  { key: "waterLiters", label: "Water (L)", type: "number", min: 0, max: 20, aliases: ["water"] },
+  { key: "workout1Minutes", label: "Workout 1 (min)", type: "number", min: 0, max: 1440, aliases: ["workout", "workout 1"] },
+  { key: "workout2Minutes", label: "Workout 2 (min)", type: "number", min: 0, max: 1440, aliases: ["workout 2"] },
+  { key: "readingPages", label: "Pages Read", type: "number", min: 0, aliases: ["pages", "reading"] },
+  { key: "caloriesConsumed", label: "Calories", type: "number", min: 0, aliases: ["calories", "kcal"] },
+  { key: "currentWeight", label: "Weight (kg)", type: "number", min: 0, max: 500, aliases: ["weight"] },
+  { key: "sleepMinutes", label: "Sleep (min)", type: "number", min: 0, max: 1440, aliases: ["sleep"] },
+  { key: "sleepQuality", label: "Sleep Quality (1-5)", type: "number", min: 1, max: 5 },
+  { key: "moodScore", label: "Mood (1-5)", type: "number", min: 1, max: 5, aliases: ["mood"] },
+  { key: "dietCompleted", label: "Diet Followed", type: "boolean", aliases: ["diet"] },
+  { key: "noAlcoholCompleted", label: "No Alcohol", type: "boolean", aliases: ["no alcohol", "alcohol free"] },
+  { key: "progressPhotoCompleted", label: "Progress Photo", type: "boolean", aliases: ["photo"] },
+  { key: "skincareCompleted", label: "Skincare", type: "boolean", aliases: ["skincare"] },
+  { key: "finishedBook", label: "Finished Book", type: "boolean" },
+  { key: "moodNotes", label: "Mood Notes", type: "text" },
+  { key: "notes", label: "Notes", type: "text", aliases: ["note", "comments"] },
+];
+
+export const IMPORT_DATE_FORMATS = [
+  { id: "yyyy-MM-dd", label: "YYYY-MM-DD" },
+  { id: "dd/MM/yyyy", label: "DD/MM/YYYY" },
+  { id: "MM/dd/yyyy", label: "MM/DD/YYYY" },
+] as const;
+
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMATS)[number]["id"];
+
+// Field each CSV column maps to, by column index. Null columns are skipped.
+export type ColumnMapping = (keyof DailyLog | null)[];
+
+export type ImportRow = {
+  line: number; // 1-based line in the file, for error messages
+  date: string | null; // YYYY-MM-DD
+  values: Partial<DailyLog>;
+  errors: string[];
+  existing?: DailyLog; // Log already recorded for this date - values are merged into it
+};
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x", "done", "✓", "✅"];
+const FALSE_VALUES = ["false", "no", "n", "0", "", "-"];
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, " ");
+
+/**
+ * Split CSV text into rows of cells, handling quoted cells with commas,
+ * escaped quotes and line breaks. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Guess which field each column holds from its header. Each field is only
+ * mapped once; the user can change the mapping before importing.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<keyof DailyLog>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(
+      f =>
+        !used.has(f.key) &&
+        [f.key, f.label, ...(f.aliases ?? [])].some(name => normalizeHeader(name) === normalized)
+    );
+    if (!field) return null;
+    used.add(field.key);
+    return field.key;
+  });
+}
+
+function parseDateValue(value: string, dateFormat: ImportDateFormat): string | null {
+  const trimmed = value.trim();
+  // Timestamps like 2024-01-31T07:00:00Z are accepted whatever the chosen format
+  const date = /^\d{4}-\d{2}-\d{2}T/.test(trimmed) ? parseISO(trimmed) : parse(trimmed, dateFormat, new Date());
+  return isValid(date) ? toDayKey(date) : null;
+}
+
+/**
+ * Parse one cell for a field. Returns undefined for empty cells.
+ */
+function parseCell(field: ImportField, raw: string): { value?: DailyLog[keyof DailyLog]; error?: string } {
+  const value = raw.trim();
+  if (field.type === "text") return { value: value || undefined };
+
+  if (field.type === "boolean") {
+    const lower = value.toLowerCase();
+    if (TRUE_VALUES.includes(lower)) return { value: true };
+    if (FALSE_VALUES.includes(lower)) return { value: lower === "" ? undefined : false };
+    return { error: `${field.label}: "${value}" isn't yes or no` };
+  }
+
+  if (value === "") return {};
+  const number = Number(value.replace(/,/g, ""));
+  if (!Number.isFinite(number)) return { error: `${field.label}: "${value}" isn't a number` };
+  if (field.min !== undefined && number < field.min) return { error: `${field.label}: must be at least ${field.min}` };
+  if (field.max !== undefined && number > field.max) return { error: `${field.label}: must be at most ${field.max}` };
+  return { value: number };
+}
+
+/**
+ * Turn CSV rows into validated daily log values. Rows with errors are kept so
+ * the preview can show them, but are never imported.
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  dateFormat: ImportDateFormat,
+  challenge: Challenge,
+  existingLogs: DailyLog[]
+): ImportRow[] {
+  const dateColumn = mapping.indexOf("date");
+  const firstDay = challenge.startDate.slice(0, 10);
+  const lastDay = toDayKey(addDays(parseISO(firstDay), challenge.totalDays - 1));
+  const existingByDate = new Map(existingLogs.map(log => [log.date, log]));
+  const seenDates = new Set<string>();
+
+  // First row is the header
+  return rows.slice(1).map((cells, index) => {
+    const row: ImportRow = { line: index + 2, date: null, values: {}, errors: [] };
+
+    if (dateColumn === -1) {
+      row.errors.push("No column is mapped to Date");
+    } else {
+      row.date = parseDateValue(cells[dateColumn] ?? "", dateFormat);
+      if (!row.date) {
+        row.errors.push(`Date: "${cells[dateColumn] ?? ""}" doesn't match ${dateFormat.toUpperCase()}`);
+      } else if (row.date < firstDay || row.date > lastDay) {
+        row.errors.push("Date is outside this challenge");
+      } else if (seenDates.has(row.date)) {
+        row.errors.push("Date appears more than once in the file");
+      } else {
+        seenDates.add(row.date);
+        row.existing = existingByDate.get(row.date);
+      }
+    }
+
+    mapping.forEach((key, column) => {
+      const field = key && key !== "date" ? IMPORT_FIELDS.find(f => f.key === key) : undefined;
+      if (!field) return;
+      const { value, error } = parseCell(field, cells[column] ?? "");
+      if (error) row.errors.push(error);
+      else if (value !== undefined) (row.values as Record<string, unknown>)[field.key] = value;
+    });
+
+    if (row.values.currentWeight !== undefined) row.values.weightLogged = true;
+    if (row.values.sleepMinutes !== undefined) row.values.sleepLogged = true;
+    if (row.errors.length === 0 && Object.keys(row.values).length === 0) {
+      row.errors.push("No values to import");
+    }
+
+    return row;
+  });
+}
+
+/**
+ * Create logs for new dates and merge values into logs that already exist.
+ * Only valid rows are written. Returns how many logs were created and updated.
+ */
+export async function importDailyLogs(
+  challenge: Challenge,
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ created: number; updated: number; failed: number }> {
+  const valid = rows.filter(row => row.errors.length === 0 && row.date);
+  const result = { created: 0, updated: 0, failed: 0 };
+
+  for (let i = 0; i < valid.length; i++) {
+    const row = valid[i];
+    try {
+      if (row.existing?.$id) {
+        await updateDailyLog(row.existing.$id, row.values);
+        result.updated++;
+      } else {
+        await createDailyLog(
+          { userId: challenge.userId, challengeId: challenge.$id!, date: row.date!, ...row.values },
+          challenge.userId
+        );
+        result.created++;
+      }
+    } catch (err) {
+      console.error(`Failed to import ${row.date}:`, err);
+      result.failed++;
+    }
+    onProgress?.(i + 1, valid.length);
+  }
+
+  return result;
+}
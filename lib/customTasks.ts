@@ -0,0 +1,119 @@
+import type { Challenge, CustomTask, CustomTaskType, DailyLog } from "@/types/type";
+
+// Task status ids for custom tasks are prefixed to avoid clashing with built-in ids
+export const CUSTOM_TASK_STATUS_PREFIX = "custom:";
+
+export const CUSTOM_TASK_TYPES: { type: CustomTaskType; label: string; description: string }[] = [
+  { type: "checkbox", label: "Checkbox", description: "Done or not done" },
+  { type: "count", label: "Count", description: "Hit a number, e.g. 8 glasses" },
+  { type: "duration", label: "Duration", description: "Time in minutes" },
+];
+
+// Icons offered when creating a custom task
+export const CUSTOM_TASK_ICONS = [
+  "star", "heart", "sun", "moon", "coffee", "wind", "feather", "music",
+  "edit-3", "headphones", "smile", "target", "award", "zap", "droplet", "clock",
+] as const;
+
+export function createCustomTaskId(): string {
+  return `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Validate and clean up custom task definitions (e.g. from storage or an imported template)
+ */
+export function normalizeCustomTasks(raw: unknown): CustomTask[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((task) => task && typeof task.name === "string" && task.name.trim())
+    .map((task) => {
+      const type: CustomTaskType = ["checkbox", "count", "duration"].includes(task.type) ? task.type : "checkbox";
+      const goal = Number(task.goal);
+      return {
+        id: typeof task.id === "string" && task.id ? task.id : createCustomTaskId(),
+        name: task.name.trim(),
+        icon: typeof task.icon === "string" && task.icon ? task.icon : "star",
+        type,
+        unit: type === "duration" ? "min" : typeof task.unit === "string" ? task.unit : undefined,
+        goal: type !== "checkbox" && Number.isFinite(goal) && goal >= 0 ? goal : undefined,
+        goalDirection: task.goalDirection === "at_most" ? "at_most" : "at_least",
+      };
+    });
+}
+
+/**
+ * Get the custom tasks defined on a challenge
+ */
+export function getCustomTasks(challenge: Challenge | null): CustomTask[] {
+  if (!challenge?.customTasks) return [];
+  try {
+    return normalizeCustomTasks(JSON.parse(challenge.customTasks));
+  } catch {
+    return [];
+  }
+}
+
+export function serializeCustomTasks(tasks: CustomTask[]): string {
+  return JSON.stringify(tasks);
+}
+
+/**
+ * Get all logged custom task values for a day
+ */
+export function getCustomTaskValues(log: DailyLog | null): Record<string, number> {
+  if (!log?.customTaskValues) return {};
+  try {
+    const values = JSON.parse(log.customTaskValues);
+    return values && typeof values === "object" ? values : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the logged value of a custom task, or undefined if nothing was logged
+ */
+export function getCustomTaskValue(log: DailyLog | null, taskId: string): number | undefined {
+  const value = getCustomTaskValues(log)[taskId];
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Build the DailyLog update that sets a custom task value
+ */
+export function withCustomTaskValue(log: DailyLog | null, taskId: string, value: number): Pick<DailyLog, "customTaskValues"> {
+  return {
+    customTaskValues: JSON.stringify({ ...getCustomTaskValues(log), [taskId]: value }),
+  };
+}
+
+/**
+ * Check if a custom task is complete for a logged value. "At most" tasks only
+ * count once something has been logged for the day.
+ */
+export function isCustomTaskComplete(task: CustomTask, value: number | undefined): boolean {
+  if (value === undefined) return false;
+  if (task.type === "checkbox") return value > 0;
+
+  const goal = task.goal ?? 0;
+  return task.goalDirection === "at_most" ? value <= goal : value >= goal;
+}
+
+/**
+ * Format a custom task value for display, e.g. "6 glasses" or "25 min"
+ */
+export function formatCustomTaskValue(task: CustomTask, value: number | undefined): string {
+  if (task.type === "checkbox") return value && value > 0 ? "Done" : "Not done";
+  const amount = value ?? 0;
+  return task.unit ? `${amount.toLocaleString()} ${task.unit}` : amount.toLocaleString();
+}
+
+/**
+ * Describe a custom task's goal, e.g. "At least 8 glasses" or "At most 60 min"
+ */
+export function describeCustomTaskGoal(task: CustomTask): string {
+  if (task.type === "checkbox") return "Check off daily";
+  const prefix = task.goalDirection === "at_most" ? "At most" : "At least";
+  return `${prefix} ${formatCustomTaskValue(task, task.goal)}`;
+}
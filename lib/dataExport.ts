@@ -0,0 +1,221 @@
+import {
+  getAllActivityLogsForChallenge,
+  getAllCycleLogsForUser,
+  getDailyLogsForChallenge,
+  getUserBadges,
+} from "@/lib/appwrite";
+import { getCustomTasks, getCustomTaskValues } from "@/lib/customTasks";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
+import { parseWorkoutDetails, WorkoutSlotDetails } from "@/lib/workoutRules";
+import type { ActivityLog, Challenge, CycleLog, DailyLog, UserBadge } from "@/types/type";
+import { format } from "date-fns";
+import { Directory, File, Paths } from "expo-file-system";
+import { Platform, Share } from "react-native";
+
+/**
+ * Data export - everything recorded for a challenge as JSON, or one CSV row per
+ * day with the JSON-string fields expanded into columns.
+ */
+
+export type ExportFormat = "json" | "csv";
+
+export const EXPORT_VERSION = 1;
+
+export type ChallengeExport = {
+  version: number;
+  exportedAt: string; // ISO
+  challenge: Challenge;
+  dailyLogs: DailyLog[];
+  activityLogs: ActivityLog[];
+  cycleLogs: CycleLog[];
+  userBadges: UserBadge[];
+};
+
+const MEALS = ["breakfast", "lunch", "dinner", "snacks"] as const;
+const WORKOUT_FIELDS: (keyof WorkoutSlotDetails)[] = [
+  "type",
+  "activityName",
+  "notes",
+  "calories",
+  "distance",
+  "isOutdoor",
+  "startTime",
+  "endTime",
+  "syncedFromHealth",
+];
+
+// Fields already written as their own column, or expanded into several
+const SKIPPED_LOG_FIELDS = new Set([
+  "$id",
+  "userId",
+  "challengeId",
+  "date",
+  "meals",
+  "calorieDetails",
+  "workoutDetails",
+  "workoutOverrides",
+  "alcoholDetails",
+  "customTaskValues",
+]);
+
+type Row = Record<string, string | number | boolean | undefined | null>;
+
+function parseJson<T>(value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Meals are JSON, but older logs stored plain text notes
+ */
+function parseMeals(meals: string | undefined): Partial<Record<(typeof MEALS)[number], string>> {
+  if (!meals) return {};
+  try {
+    return JSON.parse(meals);
+  } catch {
+    return { snacks: meals };
+  }
+}
+
+/**
+ * Fetch everything recorded for a challenge
+ */
+export async function buildChallengeExport(challenge: Challenge): Promise<ChallengeExport> {
+  const [dailyLogs, activityLogs, cycleLogs, userBadges] = await Promise.all([
+    getDailyLogsForChallenge(challenge.$id!),
+    getAllActivityLogsForChallenge(challenge.$id!),
+    getAllCycleLogsForUser(challenge.userId),
+    getUserBadges(challenge.userId),
+  ]);
+
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    challenge,
+    dailyLogs: [...dailyLogs].sort((a, b) => a.date.localeCompare(b.date)),
+    activityLogs,
+    cycleLogs,
+    userBadges,
+  };
+}
+
+/**
+ * Flatten a daily log (and the cycle log for the same date) into a CSV row
+ */
+function toDailyRow(data: ChallengeExport, log: DailyLog, cycleLog: CycleLog | undefined): Row {
+  const row: Row = {
+    date: log.date,
+    day: getChallengeDayNumber(data.challenge.startDate, log.date),
+  };
+
+  Object.entries(log).forEach(([key, value]) => {
+    if (!SKIPPED_LOG_FIELDS.has(key) && !key.startsWith("$")) row[key] = value;
+  });
+
+  const meals = parseMeals(log.meals);
+  const mealCalories = parseJson<Partial<Record<string, number>>>(log.calorieDetails, {});
+  MEALS.forEach(meal => {
+    row[`meal_${meal}`] = meals[meal];
+    row[`calories_${meal}`] = mealCalories[meal];
+  });
+
+  const workouts = parseWorkoutDetails(log.workoutDetails);
+  (["workout1", "workout2"] as const).forEach(slot => {
+    WORKOUT_FIELDS.forEach(field => {
+      row[`${slot}_${field}`] = workouts[slot]?.[field];
+    });
+  });
+
+  const alcohol = parseJson<{ drinks?: { drinkId: string; count: number }[]; notes?: string }>(log.alcoholDetails, {});
+  alcohol.drinks?.forEach(drink => {
+    row[`alcohol_${drink.drinkId}`] = drink.count;
+  });
+  row.alcohol_notes = alcohol.notes;
+
+  const customValues = getCustomTaskValues(log);
+  getCustomTasks(data.challenge).forEach(task => {
+    row[`custom_${task.name}`] = customValues[task.id];
+  });
+
+  if (cycleLog) {
+    row.cycle_periodFlow = cycleLog.periodFlow;
+    row.cycle_isPeriodStart = cycleLog.isPeriodStart;
+    row.cycle_isPeriodEnd = cycleLog.isPeriodEnd;
+    row.cycle_cervicalMucus = cycleLog.cervicalMucus;
+    row.cycle_basalTemp = cycleLog.basalTemp;
+    row.cycle_ovulationTest = cycleLog.ovulationTest;
+    row.cycle_notes = cycleLog.notes;
+    parseJson<string[]>(cycleLog.symptoms, []).forEach(symptom => {
+      row[`symptom_${symptom}`] = true;
+    });
+  }
+
+  return row;
+}
+
+function escapeCsvValue(value: Row[string]): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per logged day. Columns are the union of every row's fields, so
+ * drinks, symptoms and custom tasks only appear if they were ever logged.
+ */
+export function buildDailyCsv(data: ChallengeExport): string {
+  const cycleByDate = new Map(data.cycleLogs.map(log => [log.date, log]));
+  const rows = data.dailyLogs.map(log => toDailyRow(data, log, cycleByDate.get(log.date)));
+
+  const columns: string[] = [];
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!columns.includes(key)) columns.push(key);
+    });
+  });
+
+  return [
+    columns.map(escapeCsvValue).join(","),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(",")),
+  ].join("\n");
+}
+
+/**
+ * Write text to a file and hand it to the user - through the share sheet on
+ * iOS, or into a folder they pick on Android, whose share sheet only carries text
+ */
+export async function shareFile(fileName: string, contents: string, title: string, mimeType: string): Promise<void> {
+  if (Platform.OS === "android") {
+    const directory = await Directory.pickDirectoryAsync().catch((err: { code?: string }) => {
+      // Closing the picker isn't a failure
+      if (err?.code === "ERR_PICKER_CANCELLED") return null;
+      throw err;
+    });
+    directory?.createFile(fileName, mimeType).write(contents);
+    return;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(contents);
+
+  await Share.share({ title, url: file.uri });
+}
+
+/**
+ * Write the export to a file and open the share sheet
+ */
+export async function shareChallengeExport(data: ChallengeExport, exportFormat: ExportFormat): Promise<void> {
+  const name = `ascend-challenge-${data.challenge.startDate}-exported-${format(new Date(), "yyyy-MM-dd")}`;
+  await shareFile(
+    `${name}.${exportFormat}`,
+    exportFormat === "json" ? JSON.stringify(data, null, 2) : buildDailyCsv(data),
+    "Challenge export",
+    exportFormat === "json" ? "application/json" : "text/csv"
+  );
+}
@@ -0,0 +1,145 @@
+import { differenceInCalendarDays, format, parseISO, subHours } from "date-fns";
+
+/**
+ * Day boundary service - resolves which challenge day ("today") a moment
+ * belongs to. Day keys are YYYY-MM-DD strings in the user's time zone, so a
+ * log saved at 11 PM is never filed under tomorrow's UTC date.
+ */
+
+export type TimeZoneMode = "device" | "home";
+
+export type DayBoundarySettings = {
+  cutoffHour: number; // 0-6, hour the day rolls over (e.g. 3 = "my day ends at 3 AM")
+  timeZoneMode: TimeZoneMode; // "home" keeps the home time zone while traveling
+  homeTimeZone: string | null; // IANA name, e.g. "America/New_York"
+};
+
+export const MAX_CUTOFF_HOUR = 6;
+
+export const DEFAULT_DAY_BOUNDARY_SETTINGS: DayBoundarySettings = {
+  cutoffHour: 0,
+  timeZoneMode: "device",
+  homeTimeZone: null,
+};
+
+let settings: DayBoundarySettings = DEFAULT_DAY_BOUNDARY_SETTINGS;
+
+// Latest day key handed out, so flying west never moves "today" backwards
+let lastDayKey: string | null = null;
+let onDayKeyChange: ((dayKey: string) => void) | null = null;
+
+/**
+ * Set the day boundary settings (called by useDayBoundaryStore when they change)
+ */
+export function configureDayBoundary(
+  next: DayBoundarySettings,
+  options: { lastDayKey?: string | null; onDayKeyChange?: (dayKey: string) => void } = {}
+) {
+  settings = {
+    ...next,
+    cutoffHour: Math.min(Math.max(Math.round(next.cutoffHour), 0), MAX_CUTOFF_HOUR),
+  };
+  if (options.lastDayKey !== undefined) lastDayKey = options.lastDayKey;
+  if (options.onDayKeyChange) onDayKeyChange = options.onDayKeyChange;
+}
+
+export function getDayBoundarySettings(): DayBoundarySettings {
+  return settings;
+}
+
+/**
+ * Get the device's current IANA time zone
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * Get the time zone day keys are calculated in
+ */
+export function getActiveTimeZone(current: DayBoundarySettings = settings): string {
+  if (current.timeZoneMode === "home" && current.homeTimeZone) {
+    return current.homeTimeZone;
+  }
+  return getDeviceTimeZone();
+}
+
+/**
+ * Format a moment as YYYY-MM-DD in a time zone
+ */
+function formatInTimeZone(date: Date, timeZone: string): string {
+  if (timeZone === getDeviceTimeZone()) {
+    return format(date, "yyyy-MM-dd");
+  }
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).format(date);
+  } catch {
+    return format(date, "yyyy-MM-dd");
+  }
+}
+
+/**
+ * Get the day key a moment belongs to, applying the cutoff hour. Use this for
+ * timestamps (e.g. when an activity was logged), not for calendar dates.
+ */
+export function getDayKey(date: Date, current: DayBoundarySettings = settings): string {
+  return formatInTimeZone(subHours(date, current.cutoffHour), getActiveTimeZone(current));
+}
+
+/**
+ * Get the day key for "today". Every store, screen and notification dedup key
+ * should use this instead of formatting `new Date()` directly.
+ */
+export function getTodayKey(now: Date = new Date()): string {
+  const dayKey = getDayKey(now);
+
+  // After flying west the local date can fall behind a day that was already
+  // started - keep using the later day until the clock catches up
+  if (lastDayKey && dayKey < lastDayKey && differenceInCalendarDays(parseISO(lastDayKey), parseISO(dayKey)) <= 1) {
+    return lastDayKey;
+  }
+
+  if (dayKey !== lastDayKey) {
+    lastDayKey = dayKey;
+    onDayKeyChange?.(dayKey);
+  }
+  return dayKey;
+}
+
+/**
+ * Get "today" as a local midnight Date, for date-fns calculations
+ */
+export function getTodayDate(now: Date = new Date()): Date {
+  return parseISO(getTodayKey(now));
+}
+
+/**
+ * Format a calendar date (e.g. from a date picker) as a day key
+ */
+export function toDayKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Get the 1-based challenge day number for a day (defaults to today)
+ */
+export function getChallengeDayNumber(startDate: string, dayKey: string = getTodayKey()): number {
+  return differenceInCalendarDays(parseISO(dayKey), parseISO(startDate)) + 1;
+}
+
+/**
+ * Describe the cutoff hour for settings, e.g. "Midnight" or "3 AM"
+ */
+export function formatCutoffHour(hour: number): string {
+  return hour === 0 ? "Midnight" : `${hour} AM`;
+}
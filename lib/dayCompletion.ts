@@ -1,3 +1,8 @@
+import { CUSTOM_TASK_STATUS_PREFIX, getCustomTasks, getCustomTaskValue, isCustomTaskComplete } from "@/lib/customTasks";
+import { getChallengeForDate } from "@/lib/goalHistory";
+import { getWeightTarget, isCalorieGoalMet, isOnTarget } from "@/lib/goalTargets";
+import { hasProgressPhoto } from "@/lib/progressPhotos";
+import { getWorkoutRuleStatuses } from "@/lib/workoutRules";
 import type { Challenge, DailyLog } from "@/types/type";
 
 export type TaskStatus = {
@@ -6,6 +11,15 @@ export type TaskStatus = {
   completed: boolean;
 };
 
+/**
+ * All logs with today's log swapped in, since today's log is saved on its own
+ * before allLogs is refetched
+ */
+export function withTodayLog(allLogs: DailyLog[], todayLog: DailyLog | null): DailyLog[] {
+  if (!todayLog) return allLogs;
+  return [todayLog, ...allLogs.filter(log => log.$id !== todayLog.$id && log.date !== todayLog.date)];
+}
+
 /**
  * Check if all tracked tasks for a day are complete
  */
@@ -37,10 +51,14 @@ export function getCompletedTasks(challenge: Challenge, log: DailyLog | null, al
 }
 
 /**
- * Get task status details for all tracked tasks
+ * Get task status details for all tracked tasks. Pass the date for a day
+ * without a log so it's still checked against that day's goals.
  */
-export function getTaskStatuses(challenge: Challenge, log: DailyLog | null, allLogs?: DailyLog[]): TaskStatus[] {
+export function getTaskStatuses(challenge: Challenge, log: DailyLog | null, allLogs?: DailyLog[], date?: string): TaskStatus[] {
   if (!challenge) return [];
+
+  // Evaluate the day against the goals and tasks in force on that day
+  challenge = getChallengeForDate(challenge, log?.date ?? date);
   
   const tasks: TaskStatus[] = [];
   
@@ -79,6 +97,11 @@ export function getTaskStatuses(challenge: Challenge, log: DailyLog | null, allL
       completed: log?.workout2Completed === true || (log?.workout2Minutes ?? 0) >= challenge.workoutMinutes,
     });
   }
+
+  // Workout rules - one outdoor, workouts separated by the configured hours
+  getWorkoutRuleStatuses(challenge, log).forEach(({ id, label, completed }) => {
+    tasks.push({ id, label, completed });
+  });
   
   // Reading - need to read required pages
   if (challenge.trackReading) {
@@ -98,28 +121,33 @@ export function getTaskStatuses(challenge: Challenge, log: DailyLog | null, allL
     });
   }
   
-  // Calories - need to log something
+  // Calories - need to log, and stay above, below or inside the goal band once one is set
   if (challenge.trackCalories) {
     tasks.push({
       id: "calories",
       label: "Calories",
-      completed: (log?.caloriesConsumed ?? 0) > 0,
+      completed: isCalorieGoalMet(log?.caloriesConsumed ?? 0, challenge),
     });
   }
   
-  // Weight - need to log
+  // Weight - need to log, and be on target when the goal is evaluated
   if (challenge.trackWeight) {
+    const weightTarget = getWeightTarget(challenge);
+    const weight = log?.currentWeight ?? 0;
     tasks.push({
       id: "weight",
       label: "Weight",
-      completed: log?.weightLogged === true,
+      completed: weightTarget
+        ? log?.weightLogged === true && weight > 0 && isOnTarget(weight, weightTarget)
+        : log?.weightLogged === true,
     });
   }
   
   // Progress photo - check based on frequency setting
   if (challenge.trackProgressPhoto) {
     const photoFrequency = challenge.progressPhotoDays ?? 1;
-    let photoCompleted = log?.progressPhotoCompleted === true;
+    // Only days with a stored image count
+    let photoCompleted = hasProgressPhoto(log);
     
     // If frequency > 1, check if any recent photo in the allowed window
     if (!photoCompleted && photoFrequency > 1 && allLogs) {
@@ -127,7 +155,7 @@ export function getTaskStatuses(challenge: Challenge, log: DailyLog | null, allL
       const logsWithinWindow = allLogs.filter(l => {
         const logDate = new Date(l.date);
         const daysDiff = Math.abs(Math.floor((today.getTime() - logDate.getTime()) / (1000 * 60 * 60 * 24)));
-        return daysDiff < photoFrequency && l.progressPhotoCompleted;
+        return daysDiff < photoFrequency && hasProgressPhoto(l);
       });
       photoCompleted = logsWithinWindow.length > 0;
     }
@@ -186,10 +214,37 @@ export function getTaskStatuses(challenge: Challenge, log: DailyLog | null, allL
       completed: log?.skincareCompleted === true,
     });
   }
-  
+
+  // Custom tasks - evaluated against their own goal and direction
+  getCustomTasks(challenge).forEach(task => {
+    tasks.push({
+      id: `${CUSTOM_TASK_STATUS_PREFIX}${task.id}`,
+      label: task.name,
+      completed: isCustomTaskComplete(task, getCustomTaskValue(log, task.id)),
+    });
+  });
+
   return tasks;
 }
 
+/**
+ * A complete day where every measured task reached its goal, rather than
+ * being ticked off by hand
+ */
+export function isPerfectDay(challenge: Challenge, log: DailyLog | null, allLogs?: DailyLog[]): boolean {
+  if (!log || !isDayComplete(challenge, log, allLogs)) return false;
+
+  const goals = getChallengeForDate(challenge, log.date);
+  return (
+    (!goals.trackSteps || (log.stepsCount ?? 0) >= goals.stepsGoal) &&
+    (!goals.trackWater || (log.waterLiters ?? 0) >= goals.waterLiters) &&
+    (!goals.trackWorkout1 || (log.workout1Minutes ?? 0) >= goals.workoutMinutes) &&
+    (!goals.trackWorkout2 || (log.workout2Minutes ?? 0) >= goals.workoutMinutes) &&
+    (!goals.trackReading || (log.readingPages ?? 0) >= goals.readingPages) &&
+    (!goals.trackSleep || (log.sleepMinutes ?? 0) >= (goals.sleepGoalHours || 8) * 60)
+  );
+}
+
 /**
  * Calculate overall completion percentage for a day
  */
@@ -0,0 +1,252 @@
+import { formatCustomTaskValue, getCustomTasks } from "@/lib/customTasks";
+import { getTodayKey } from "@/lib/dayBoundary";
+import { applyGoalSchedules, getGoalSchedules } from "@/lib/goalSchedules";
+import type { Challenge, ChallengeGoals, GoalVersion, TargetDirection } from "@/types/type";
+import { format, parseISO } from "date-fns";
+
+// Challenge fields that are versioned when a challenge is edited
+export const GOAL_VERSION_KEYS: (keyof ChallengeGoals)[] = [
+  "trackWorkout1",
+  "trackWorkout2",
+  "trackDiet",
+  "trackCalories",
+  "trackWater",
+  "trackReading",
+  "trackProgressPhoto",
+  "trackNoAlcohol",
+  "trackMood",
+  "trackSleep",
+  "trackCycle",
+  "trackSteps",
+  "trackWeight",
+  "trackSkincare",
+  "strictMode",
+  "stepsGoal",
+  "waterLiters",
+  "caloriesGoal",
+  "caloriesGoalDirection",
+  "caloriesGoalMax",
+  "weightGoal",
+  "weightGoalDirection",
+  "weightGoalMax",
+  "workoutMinutes",
+  "readingPages",
+  "progressPhotoDays",
+  "sleepGoalHours",
+  "customTasks",
+  "goalSchedules",
+  "requireOutdoorWorkout",
+  "workoutSeparationHours",
+];
+
+export type GoalChange = {
+  date: string; // YYYY-MM-DD the new goals applied from
+  changes: string[]; // e.g. "Water 3L → 4L"
+};
+
+const TARGET_DIRECTION_LABELS: Record<TargetDirection, string> = {
+  above: "stay above",
+  below: "stay below",
+  range: "stay in range",
+};
+
+// Versions are stored JSON, so each formatter checks the value's type itself
+const formatTracked = (value: unknown) => (value ? "on" : "off");
+const toNumber = (value: unknown, fallback: number) => (typeof value === "number" ? value : fallback);
+const formatDirection = (value: unknown) =>
+  value === "above" || value === "below" || value === "range" ? TARGET_DIRECTION_LABELS[value] : "log only";
+
+const GOAL_LABELS: Record<Exclude<keyof ChallengeGoals, "customTasks" | "goalSchedules">, { label: string; format: (value: unknown) => string }> = {
+  trackWorkout1: { label: "Workout 1", format: formatTracked },
+  trackWorkout2: { label: "Workout 2", format: formatTracked },
+  trackDiet: { label: "Diet", format: formatTracked },
+  trackCalories: { label: "Calorie tracking", format: formatTracked },
+  trackWater: { label: "Water tracking", format: formatTracked },
+  trackReading: { label: "Reading tracking", format: formatTracked },
+  trackProgressPhoto: { label: "Progress photo", format: formatTracked },
+  trackNoAlcohol: { label: "No alcohol", format: formatTracked },
+  trackMood: { label: "Mood", format: formatTracked },
+  trackSleep: { label: "Sleep tracking", format: formatTracked },
+  trackCycle: { label: "Cycle", format: formatTracked },
+  trackSteps: { label: "Steps tracking", format: formatTracked },
+  trackWeight: { label: "Weight tracking", format: formatTracked },
+  trackSkincare: { label: "Skincare", format: formatTracked },
+  strictMode: { label: "Strict mode", format: formatTracked },
+  stepsGoal: { label: "Steps", format: (value) => toNumber(value, 0).toLocaleString() },
+  waterLiters: { label: "Water", format: (value) => `${toNumber(value, 0)}L` },
+  caloriesGoal: { label: "Calories", format: (value) => `${toNumber(value, 0)} kcal` },
+  caloriesGoalDirection: { label: "Calories", format: formatDirection },
+  caloriesGoalMax: { label: "Calorie max", format: (value) => (toNumber(value, 0) ? `${value} kcal` : "none") },
+  weightGoal: { label: "Weight goal", format: (value) => `${toNumber(value, 0)} kg` },
+  weightGoalDirection: { label: "Weight goal", format: formatDirection },
+  weightGoalMax: { label: "Weight max", format: (value) => (toNumber(value, 0) ? `${value} kg` : "none") },
+  workoutMinutes: { label: "Workout", format: (value) => `${toNumber(value, 0)} min` },
+  readingPages: { label: "Reading", format: (value) => `${toNumber(value, 0)} pages` },
+  progressPhotoDays: { label: "Photo", format: (value) => (toNumber(value, 1) === 1 ? "daily" : `every ${value} days`) },
+  sleepGoalHours: { label: "Sleep", format: (value) => `${toNumber(value, 8)}h` },
+  requireOutdoorWorkout: { label: "Outdoor workout", format: (value) => (value ? "required" : "optional") },
+  workoutSeparationHours: { label: "Workout gap", format: (value) => (toNumber(value, 0) ? `${value}h` : "none") },
+};
+
+// Fields a version saved before they were versioned never had, rather than
+// inheriting the challenge's current value. Tracked tasks still inherit, so
+// those days keep their tasks.
+const UNSET_IN_OLDER_VERSIONS: Partial<ChallengeGoals> = {
+  strictMode: undefined,
+  caloriesGoalDirection: undefined,
+  caloriesGoalMax: undefined,
+  weightGoalDirection: undefined,
+  weightGoalMax: undefined,
+  goalSchedules: undefined,
+};
+
+function toDateKey(date: string): string {
+  return format(parseISO(date), "yyyy-MM-dd");
+}
+
+/**
+ * Compare goals ignoring unset fields and custom task formatting
+ */
+function goalsEqual(a: ChallengeGoals, b: ChallengeGoals): boolean {
+  const normalize = (goals: ChallengeGoals) =>
+    JSON.stringify(
+      { ...goals, customTasks: getCustomTasks(goals as Challenge), goalSchedules: getGoalSchedules(goals) },
+      (_, value) => value ?? undefined
+    );
+  return normalize(a) === normalize(b);
+}
+
+function isFlagKey(key: string): boolean {
+  return key.startsWith("track") || key === "strictMode";
+}
+
+/**
+ * Pick the versioned goal fields from a challenge. Flags are stored as true or
+ * false, so a version never picks up a task turned on later.
+ */
+export function pickGoals(challenge: Partial<Challenge>): ChallengeGoals {
+  return Object.fromEntries(
+    GOAL_VERSION_KEYS.map(key => [key, isFlagKey(key) ? Boolean(challenge[key]) : challenge[key]])
+  ) as ChallengeGoals;
+}
+
+/**
+ * Parse a challenge's goal history, oldest first. Empty if goals were never edited.
+ */
+export function getGoalHistory(challenge: Challenge | null): GoalVersion[] {
+  if (!challenge?.goalHistory) return [];
+  try {
+    const parsed = JSON.parse(challenge.goalHistory);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((version): version is GoalVersion =>
+        typeof version?.effectiveDate === "string" && typeof version?.goals === "object" && version.goals !== null
+      )
+      .sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+  } catch (err) {
+    console.error("Failed to parse goal history:", err);
+    return [];
+  }
+}
+
+/**
+ * Get the goals that were in force on a day (YYYY-MM-DD or ISO date), with
+ * weekday and ramp schedules applied
+ */
+export function getGoalsForDate(challenge: Challenge, date: string): ChallengeGoals {
+  const history = getGoalHistory(challenge);
+  const dateKey = toDateKey(date);
+  const version = [...history].reverse().find(v => v.effectiveDate <= dateKey) ?? history[0];
+  const goals = version ? { ...pickGoals(challenge), ...UNSET_IN_OLDER_VERSIONS, ...version.goals } : pickGoals(challenge);
+  return applyGoalSchedules(goals, challenge.startDate, dateKey);
+}
+
+/**
+ * Get the challenge as it was configured on a day, for evaluating that day's log
+ */
+export function getChallengeForDate(challenge: Challenge, date: string | undefined): Challenge {
+  if (!date || (!challenge.goalHistory && !challenge.goalSchedules)) return challenge;
+  return { ...challenge, ...getGoalsForDate(challenge, date) };
+}
+
+/**
+ * Record a goal change made by editing a challenge. Returns the new serialized
+ * history, or undefined if no goals changed. Changes apply from today, or from
+ * the start date if the challenge hasn't started yet.
+ */
+export function buildGoalHistory(
+  challenge: Challenge,
+  updates: Partial<Challenge>,
+  effectiveDate: string = getTodayKey()
+): string | undefined {
+  const previousGoals = pickGoals(challenge);
+  const nextGoals = pickGoals({ ...challenge, ...updates });
+  if (goalsEqual(previousGoals, nextGoals)) return undefined;
+
+  const startDate = toDateKey(updates.startDate ?? challenge.startDate);
+  const appliesFrom = effectiveDate > startDate ? effectiveDate : startDate;
+
+  // The original goals apply from the start until the first edit
+  const history = getGoalHistory(challenge);
+  const versions = history.length > 0 ? history : [{ effectiveDate: startDate, goals: previousGoals }];
+
+  // Editing again on the same day replaces that day's version
+  return JSON.stringify([
+    ...versions.filter(v => v.effectiveDate < appliesFrom),
+    { effectiveDate: appliesFrom, goals: nextGoals },
+  ]);
+}
+
+/**
+ * Describe what changed between two sets of goals
+ */
+function describeGoalChanges(previous: ChallengeGoals, next: ChallengeGoals): string[] {
+  const changes: string[] = [];
+
+  (Object.keys(GOAL_LABELS) as (keyof typeof GOAL_LABELS)[]).forEach(key => {
+    const { label, format: formatGoal } = GOAL_LABELS[key];
+    if (formatGoal(previous[key]) !== formatGoal(next[key])) {
+      changes.push(`${label} ${formatGoal(previous[key])} → ${formatGoal(next[key])}`);
+    }
+  });
+
+  const previousTasks = getCustomTasks(previous as Challenge);
+  const nextTasks = getCustomTasks(next as Challenge);
+  nextTasks.forEach(task => {
+    const before = previousTasks.find(t => t.id === task.id);
+    if (!before) {
+      changes.push(`Added ${task.name}`);
+    } else if (before.goal !== task.goal || before.goalDirection !== task.goalDirection) {
+      changes.push(`${task.name} ${formatCustomTaskValue(before, before.goal ?? 0)} → ${formatCustomTaskValue(task, task.goal ?? 0)}`);
+    }
+  });
+  previousTasks
+    .filter(task => !nextTasks.some(t => t.id === task.id))
+    .forEach(task => changes.push(`Removed ${task.name}`));
+
+  if (JSON.stringify(getGoalSchedules(previous)) !== JSON.stringify(getGoalSchedules(next))) {
+    changes.push("Goal schedules updated");
+  }
+
+  return changes;
+}
+
+/**
+ * List the goal changes made after the challenge started, oldest first
+ */
+export function getGoalChanges(challenge: Challenge): GoalChange[] {
+  const history = getGoalHistory(challenge);
+  const changes: GoalChange[] = [];
+
+  for (let i = 1; i < history.length; i++) {
+    const described = describeGoalChanges(
+      { ...pickGoals(challenge), ...UNSET_IN_OLDER_VERSIONS, ...history[i - 1].goals },
+      { ...pickGoals(challenge), ...UNSET_IN_OLDER_VERSIONS, ...history[i].goals }
+    );
+    if (described.length > 0) {
+      changes.push({ date: history[i].effectiveDate, changes: described });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,91 @@
+import type { Challenge, ChallengeGoals, GoalSchedule, ScheduledGoalKey } from "@/types/type";
+import { differenceInCalendarDays, getDay, parseISO } from "date-fns";
+
+/**
+ * Goal schedules - per-weekday goals (a lower step goal on Sundays) and goals
+ * that ramp up over the first days of a challenge (water from 2L to 3.8L over
+ * three weeks). The challenge's own goal is the target a ramp ends at.
+ */
+
+export const SCHEDULED_GOALS: { key: ScheduledGoalKey; label: string; unit: string; step: number; decimal: boolean }[] = [
+  { key: "stepsGoal", label: "Steps", unit: "steps", step: 100, decimal: false },
+  { key: "waterLiters", label: "Water", unit: "L", step: 0.1, decimal: true },
+  { key: "readingPages", label: "Reading", unit: "pages", step: 1, decimal: false },
+  { key: "workoutMinutes", label: "Workouts", unit: "min", step: 1, decimal: false },
+];
+
+// Sunday first, matching Date.getDay()
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function getGoalSchedules(challenge: Pick<Challenge, "goalSchedules"> | null): GoalSchedule[] {
+  if (!challenge?.goalSchedules) return [];
+  try {
+    const parsed = JSON.parse(challenge.goalSchedules);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (schedule): schedule is GoalSchedule => SCHEDULED_GOALS.some(goal => goal.key === schedule?.goal)
+    );
+  } catch (err) {
+    console.error("Failed to parse goal schedules:", err);
+    return [];
+  }
+}
+
+export function serializeGoalSchedules(schedules: GoalSchedule[]): string {
+  // Drop schedules with nothing set
+  return JSON.stringify(
+    schedules.filter(schedule => schedule.ramp || Object.keys(schedule.weekdays ?? {}).length > 0)
+  );
+}
+
+function roundToStep(value: number, step: number): number {
+  return Math.round(Math.round(value / step) * step * 10) / 10;
+}
+
+/**
+ * A goal's value on a day of the challenge
+ */
+export function getScheduledGoal(schedule: GoalSchedule, baseGoal: number, startDate: string, date: string): number {
+  const weekdayGoal = schedule.weekdays?.[getDay(parseISO(date))];
+  if (weekdayGoal !== undefined) return weekdayGoal;
+
+  const { ramp } = schedule;
+  if (!ramp || ramp.days <= 1) return baseGoal;
+
+  const dayNumber = differenceInCalendarDays(parseISO(date), parseISO(startDate)) + 1;
+  if (dayNumber >= ramp.days) return baseGoal;
+  if (dayNumber <= 1) return ramp.from;
+
+  const step = SCHEDULED_GOALS.find(goal => goal.key === schedule.goal)?.step ?? 1;
+  const progress = (dayNumber - 1) / (ramp.days - 1);
+  return roundToStep(ramp.from + (baseGoal - ramp.from) * progress, step);
+}
+
+/**
+ * Apply the schedules in a set of goals to a day
+ */
+export function applyGoalSchedules(goals: ChallengeGoals, startDate: string, date: string): ChallengeGoals {
+  const schedules = getGoalSchedules(goals);
+  if (schedules.length === 0) return goals;
+
+  const scheduled = { ...goals };
+  schedules.forEach(schedule => {
+    scheduled[schedule.goal] = getScheduledGoal(schedule, goals[schedule.goal] ?? 0, startDate, date);
+  });
+  return scheduled;
+}
+
+/**
+ * Summarize a schedule, e.g. "Sun 6,000 • ramps from 2L over 21 days"
+ */
+export function describeGoalSchedule(schedule: GoalSchedule): string {
+  const meta = SCHEDULED_GOALS.find(goal => goal.key === schedule.goal);
+  const unit = meta?.unit === "L" ? "L" : "";
+  const parts = Object.entries(schedule.weekdays ?? {}).map(
+    ([day, value]) => `${WEEKDAY_LABELS[Number(day)]} ${Number(value).toLocaleString()}${unit}`
+  );
+  if (schedule.ramp) {
+    parts.push(`ramps from ${schedule.ramp.from.toLocaleString()}${unit} over ${schedule.ramp.days} days`);
+  }
+  return parts.join(" • ");
+}
@@ -0,0 +1,123 @@
+import { getGoalsForDate } from "@/lib/goalHistory";
+import type { Challenge, ChallengeGoals, DailyLog, TargetDirection } from "@/types/type";
+
+/**
+ * Goal targets - calorie and weight goals checked as "stay above", "stay
+ * below" or "stay between", rather than just logging a value.
+ */
+
+// Either bound can be open
+export type GoalTarget = {
+  min?: number;
+  max?: number;
+};
+
+export type TargetResult = "under" | "in_range" | "over";
+
+export type TargetMetric = "calories" | "weight";
+
+export type TargetDay = {
+  date: string; // YYYY-MM-DD
+  value: number;
+  result: TargetResult;
+};
+
+function toTarget(direction: TargetDirection, goal: number, max?: number): GoalTarget {
+  if (direction === "above") return { min: goal };
+  // A band without a usable top falls back to staying below the goal
+  if (direction === "range" && max !== undefined && max > 0) {
+    return { min: Math.min(goal, max), max: Math.max(goal, max) };
+  }
+  return { max: goal };
+}
+
+export function getCalorieTarget(
+  goals: Pick<ChallengeGoals, "caloriesGoal" | "caloriesGoalDirection" | "caloriesGoalMax">
+): GoalTarget {
+  return toTarget(goals.caloriesGoalDirection ?? "below", goals.caloriesGoal || 2000, goals.caloriesGoalMax);
+}
+
+/**
+ * The weight target, or null when logging a weight is all that's needed
+ */
+export function getWeightTarget(
+  goals: Pick<ChallengeGoals, "weightGoal" | "weightGoalDirection" | "weightGoalMax">
+): GoalTarget | null {
+  if (!goals.weightGoalDirection || !(goals.weightGoal > 0)) return null;
+  return toTarget(goals.weightGoalDirection, goals.weightGoal, goals.weightGoalMax);
+}
+
+/**
+ * How far a value is outside its target - negative when under, positive when
+ * over, 0 when on target
+ */
+export function getTargetOffset(value: number, target: GoalTarget): number {
+  if (target.min !== undefined && value < target.min) return value - target.min;
+  if (target.max !== undefined && value > target.max) return value - target.max;
+  return 0;
+}
+
+export function getTargetResult(value: number, target: GoalTarget): TargetResult {
+  const offset = getTargetOffset(value, target);
+  if (offset < 0) return "under";
+  if (offset > 0) return "over";
+  return "in_range";
+}
+
+export function isOnTarget(value: number, target: GoalTarget): boolean {
+  return getTargetOffset(value, target) === 0;
+}
+
+/**
+ * Whether a day's calories complete the task. Until a direction is chosen any
+ * logged value counts, as it did before calorie targets existed.
+ */
+export function isCalorieGoalMet(
+  calories: number,
+  goals: Pick<ChallengeGoals, "caloriesGoal" | "caloriesGoalDirection" | "caloriesGoalMax">
+): boolean {
+  if (calories <= 0) return false;
+  return !goals.caloriesGoalDirection || isOnTarget(calories, getCalorieTarget(goals));
+}
+
+function formatAmount(value: number, unit: string): string {
+  return `${Number(value.toFixed(1)).toLocaleString()} ${unit}`;
+}
+
+/**
+ * e.g. "under 2,000 kcal", "at least 1,800 kcal" or "1,800–2,200 kcal"
+ */
+export function describeTarget(target: GoalTarget, unit: string): string {
+  if (target.min !== undefined && target.max !== undefined) {
+    return `${Number(target.min).toLocaleString()}–${formatAmount(target.max, unit)}`;
+  }
+  if (target.min !== undefined) return `at least ${formatAmount(target.min, unit)}`;
+  return `under ${formatAmount(target.max ?? 0, unit)}`;
+}
+
+/**
+ * e.g. "On target", "320 kcal over" or "1.5 kg under"
+ */
+export function describeTargetOffset(value: number, target: GoalTarget, unit: string): string {
+  const offset = getTargetOffset(value, target);
+  if (offset === 0) return "On target";
+  return `${formatAmount(Math.abs(offset), unit)} ${offset > 0 ? "over" : "under"}`;
+}
+
+/**
+ * Every logged day checked against the target in force that day, oldest first.
+ * Days without a chosen direction are left out.
+ */
+export function getTargetDays(challenge: Challenge, logs: DailyLog[], metric: TargetMetric): TargetDay[] {
+  return logs
+    .flatMap(log => {
+      const value = (metric === "calories" ? log.caloriesConsumed : log.currentWeight) ?? 0;
+      if (value <= 0) return [];
+      const goals = getGoalsForDate(challenge, log.date);
+      const target = metric === "calories"
+        ? (goals.caloriesGoalDirection ? getCalorieTarget(goals) : null)
+        : getWeightTarget(goals);
+      return target ? [{ date: log.date, value, result: getTargetResult(value, target) }] : [];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,404 @@
+import { getActivityLogsForDate } from "@/lib/appwrite";
+import { getChallengeForDate } from "@/lib/goalHistory";
+import {
+  assignWorkoutsToSlots,
+  getWorkoutAssignmentSettings,
+  parseWorkoutOverrides,
+  WORKOUT_SLOTS,
+  WorkoutSlot,
+} from "@/lib/workoutAssignment";
+import { parseWorkoutDetails, WorkoutDetailsData } from "@/lib/workoutRules";
+import type { ActivityLog, Challenge, DailyLog } from "@/types/type";
+import { format } from "date-fns";
+
+/**
+ * Health resync planning - works out what re-pulling a day from Apple Health
+ * would change, so changes can be previewed before they're applied.
+ */
+
+export type HealthResyncCategory = "steps" | "workouts" | "water" | "sleep" | "weight";
+
+export const HEALTH_RESYNC_CATEGORIES: { id: HealthResyncCategory; label: string; icon: string; color: string }[] = [
+  { id: "steps", label: "Steps", icon: "trending-up", color: "#10B981" },
+  { id: "workouts", label: "Workouts", icon: "zap", color: "#F59E0B" },
+  { id: "water", label: "Water", icon: "droplet", color: "#3B82F6" },
+  { id: "sleep", label: "Sleep", icon: "moon", color: "#8B5CF6" },
+  { id: "weight", label: "Weight", icon: "trending-down", color: "#6366F1" },
+];
+
+// What resyncing one category would do to a day
+export type HealthResyncChange = {
+  category: HealthResyncCategory;
+  before: string; // Human readable current value
+  after: string; // Human readable value from Apple Health
+  changed: boolean; // False if the log already matches Apple Health
+  updates: Partial<DailyLog>;
+  activityLogsToCreate: Omit<ActivityLog, "$id">[];
+  activityLogsToUpdate: { id: string; data: Partial<ActivityLog> }[];
+  activityLogsToDelete: string[];
+};
+
+export type HealthResyncPlan = {
+  date: string; // YYYY-MM-DD
+  log: DailyLog | null; // Null if the day has no log yet
+  changes: HealthResyncChange[];
+};
+
+// DailyLog and Challenge fields backing each workout slot
+const WORKOUT_SLOT_FIELDS: Record<WorkoutSlot, {
+  track: "trackWorkout1" | "trackWorkout2";
+  minutesKey: "workout1Minutes" | "workout2Minutes";
+  completedKey: "workout1Completed" | "workout2Completed";
+  label: string;
+}> = {
+  workout1: { track: "trackWorkout1", minutesKey: "workout1Minutes", completedKey: "workout1Completed", label: "Workout 1" },
+  workout2: { track: "trackWorkout2", minutesKey: "workout2Minutes", completedKey: "workout2Completed", label: "Workout 2" },
+};
+
+const EMPTY_VALUE = "—";
+
+function formatSleep(minutes: number | undefined): string {
+  if (!minutes) return EMPTY_VALUE;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatWorkouts(challenge: Challenge, log: Partial<DailyLog> | null): string {
+  const parts = WORKOUT_SLOTS
+    .filter(slot => challenge[WORKOUT_SLOT_FIELDS[slot].track])
+    .map(slot => {
+      const { minutesKey, label } = WORKOUT_SLOT_FIELDS[slot];
+      const minutes = log?.[minutesKey] ?? 0;
+      return `${label.replace("Workout ", "W")} ${minutes ? `${minutes}m` : EMPTY_VALUE}`;
+    });
+  return parts.join(", ");
+}
+
+/**
+ * True if applying the updates would change the log
+ */
+function hasChanges(log: DailyLog | null, updates: Partial<DailyLog>): boolean {
+  return (Object.keys(updates) as (keyof DailyLog)[]).some(key => (log?.[key] ?? null) !== (updates[key] ?? null));
+}
+
+function createChange(
+  category: HealthResyncCategory,
+  log: DailyLog | null,
+  before: string,
+  after: string,
+  updates: Partial<DailyLog>
+): HealthResyncChange {
+  return {
+    category,
+    before,
+    after,
+    changed: hasChanges(log, updates),
+    updates,
+    activityLogsToCreate: [],
+    activityLogsToUpdate: [],
+    activityLogsToDelete: [],
+  };
+}
+
+/**
+ * Fetch a day's Apple Health data and work out the changes to its daily log.
+ * Nothing is written - apply the changes with the challenge store.
+ */
+export async function planHealthResync(
+  currentChallenge: Challenge,
+  date: Date,
+  log: DailyLog | null,
+  logCallback?: (message: string) => void
+): Promise<HealthResyncPlan> {
+  const logMessage = (msg: string) => {
+    console.log(msg);
+    logCallback?.(msg);
+  };
+
+  const challengeId = currentChallenge.$id!;
+  const dateStr = format(date, 'yyyy-MM-dd');
+  // Evaluate the day against the goals in force on that date
+  const challenge = getChallengeForDate(currentChallenge, dateStr);
+  const changes: HealthResyncChange[] = [];
+
+  const { healthService } = await import("@/lib/health");
+
+  logMessage(`📅 Fetching health data for ${format(date, 'MMM dd, yyyy')}...`);
+
+  // Sync workout data
+  if (challenge.trackWorkout1 || challenge.trackWorkout2) {
+    const workouts = await healthService.getWorkoutsForDate(date);
+
+    logMessage(`🏋️ Found ${workouts.length} workout(s)`);
+    workouts.forEach((w, idx) => {
+      logMessage(`  ${idx + 1}. ${w.activityName} (type: ${w.activityType}): ${w.duration} min, ${w.isOutdoor ? 'outdoor' : 'indoor'}`);
+    });
+
+    // Fetch existing workout activity logs for this date
+    const existingLogsBySlot = {
+      workout1: await getActivityLogsForDate(challengeId, dateStr, 'workout1'),
+      workout2: await getActivityLogsForDate(challengeId, dateStr, 'workout2'),
+    };
+    logMessage(`📋 Found ${existingLogsBySlot.workout1.length} existing workout1 log(s), ${existingLogsBySlot.workout2.length} existing workout2 log(s)`);
+
+    const workoutGoalMinutes = challenge.workoutMinutes || 45;
+    // Manual assignments on the log survive every resync
+    const overrides = parseWorkoutOverrides(log);
+    const assignment = assignWorkoutsToSlots(workouts, challenge, overrides);
+    const { minMinutes } = getWorkoutAssignmentSettings(challenge);
+
+    assignment.ignored.forEach(w => {
+      logMessage(`⏭️ Ignored ${w.activityName}: ${w.duration} min is under the ${minMinutes} min minimum`);
+    });
+
+    const updates: Partial<DailyLog> = {};
+    const change = createChange("workouts", log, formatWorkouts(challenge, log), "", updates);
+    const workoutDetailsObj: WorkoutDetailsData = parseWorkoutDetails(log?.workoutDetails);
+
+    for (const slot of WORKOUT_SLOTS) {
+      const { track, minutesKey, completedKey, label } = WORKOUT_SLOT_FIELDS[slot];
+      if (!challenge[track]) continue;
+
+      // An empty override keeps Health out of the slot, leaving manual entries alone
+      if (overrides[slot]?.length === 0 && !workoutDetailsObj[slot]?.syncedFromHealth) {
+        logMessage(`💪 ${label}: manual entry kept`);
+        continue;
+      }
+
+      const session = assignment[slot];
+      const minutes = session ? Math.round(session.duration) : 0;
+      logMessage(`💪 ${label}: ${minutes} min ${minutes >= workoutGoalMinutes ? '✅' : '❌'}${overrides[slot] ? ' (assigned manually)' : ''}`);
+
+      // Always update - this ensures incorrect values get cleared
+      updates[minutesKey] = minutes;
+      updates[completedKey] = minutes >= workoutGoalMinutes;
+
+      if (session && minutes > 0) {
+        const notesArr = [
+          session.calories ? `${Math.round(session.calories)} calories burned` : null,
+          session.distance ? `${(session.distance / 1000).toFixed(2)}km distance` : null,
+          session.isOutdoor ? 'Outdoor workout' : 'Indoor workout',
+          `Started: ${format(new Date(session.startDate), 'h:mm a')}`,
+          `Ended: ${format(new Date(session.endDate), 'h:mm a')}`,
+        ].filter(Boolean).join(' • ');
+
+        workoutDetailsObj[slot] = {
+          type: session.activityName.toLowerCase().replace(/\s+/g, '-'),
+          notes: notesArr,
+          syncedFromHealth: true,
+          activityName: session.activityName,
+          calories: session.calories ? Math.round(session.calories) : undefined,
+          distance: session.distance ? (session.distance / 1000).toFixed(2) : undefined,
+          isOutdoor: session.isOutdoor,
+          startTime: session.startDate,
+          endTime: session.endDate,
+        };
+
+        // Manage the slot's activity log
+        const workoutLogData = {
+          userId: challenge.userId,
+          challengeId: challengeId,
+          type: slot,
+          title: `${session.activityName} (${label})`,
+          description: `${minutes} min - ${notesArr}`,
+          value: minutes,
+          unit: 'min',
+          date: dateStr,
+        };
+
+        const existingLogs = existingLogsBySlot[slot];
+        if (existingLogs.length > 0) {
+          change.activityLogsToUpdate.push({ id: existingLogs[0].$id!, data: workoutLogData });
+        } else {
+          change.activityLogsToCreate.push(workoutLogData);
+        }
+      } else {
+        // No workout for this slot - clear its details and activity log
+        delete workoutDetailsObj[slot];
+        for (const existingLog of existingLogsBySlot[slot]) {
+          if (existingLog.$id) {
+            change.activityLogsToDelete.push(existingLog.$id);
+          }
+        }
+      }
+    }
+
+    // Update workoutDetails in the daily log
+    updates.workoutDetails = JSON.stringify(workoutDetailsObj);
+    change.after = formatWorkouts(challenge, { ...log, ...updates });
+    // Details are rewritten on every resync, so only minutes count as a change
+    change.changed = hasChanges(log, { ...updates, workoutDetails: log?.workoutDetails });
+    changes.push(change);
+
+    if (workouts.length === 0) {
+      logMessage("⚠️ No workouts found for this date");
+    }
+  }
+
+  // Sync water data
+  if (challenge.trackWater) {
+    try {
+      logMessage("💧 Fetching water data...");
+      const { healthSyncService } = await import("@/lib/healthSync");
+      const waterLiters = await healthSyncService.getWaterIntakeForDate(date);
+      if (waterLiters && waterLiters > 0) {
+        const waterGoal = challenge.waterLiters;
+        const waterGoalMet = waterLiters >= waterGoal;
+
+        logMessage(`💧 Water: ${waterLiters.toFixed(2)}L ${waterGoalMet ? '✅' : '❌'}`);
+
+        const change = createChange(
+          "water",
+          log,
+          log?.waterLiters ? `${log.waterLiters.toFixed(2)}L` : EMPTY_VALUE,
+          `${waterLiters.toFixed(2)}L`,
+          { waterLiters, waterCompleted: waterGoalMet }
+        );
+        change.activityLogsToCreate.push({
+          userId: challenge.userId,
+          challengeId: challengeId,
+          type: 'water',
+          title: 'Water Intake (Resync)',
+          description: `${waterLiters.toFixed(2)}L from Apple Health`,
+          value: waterLiters,
+          unit: 'L',
+          date: dateStr,
+        });
+        changes.push(change);
+      } else {
+        logMessage("💧 No water data found");
+      }
+    } catch (error) {
+      logMessage("💧 Water sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Sync sleep data
+  if (challenge.trackSleep) {
+    try {
+      logMessage("😴 Fetching sleep data...");
+      const { healthSyncService } = await import("@/lib/healthSync");
+      const sleepData = await healthSyncService.getSleepForDate(date);
+      if (sleepData && sleepData.asleepMinutes > 0) {
+        const sleepGoalMinutes = (challenge.sleepGoalHours || 8) * 60;
+        const sleepGoalMet = sleepData.asleepMinutes >= sleepGoalMinutes;
+        const sleepHours = Math.floor(sleepData.asleepMinutes / 60);
+        const sleepMins = sleepData.asleepMinutes % 60;
+
+        logMessage(`😴 Sleep: ${sleepHours}h ${sleepMins}m ${sleepGoalMet ? '✅' : '❌'}`);
+
+        const updates: Partial<DailyLog> = {
+          sleepMinutes: sleepData.asleepMinutes,
+          sleepLogged: true,
+          sleepCompleted: sleepGoalMet,
+        };
+        if (sleepData.startTime && sleepData.endTime) {
+          updates.sleepStartTime = sleepData.startTime.toISOString();
+          updates.sleepEndTime = sleepData.endTime.toISOString();
+        }
+
+        const change = createChange(
+          "sleep",
+          log,
+          formatSleep(log?.sleepMinutes),
+          formatSleep(sleepData.asleepMinutes),
+          updates
+        );
+        change.activityLogsToCreate.push({
+          userId: challenge.userId,
+          challengeId: challengeId,
+          type: 'sleep',
+          title: 'Sleep (Resync)',
+          description: `${sleepHours}h ${sleepMins}m from Apple Health`,
+          value: sleepData.asleepMinutes,
+          unit: 'min',
+          date: dateStr,
+        });
+        changes.push(change);
+      } else {
+        logMessage("😴 No sleep data found");
+      }
+    } catch (error) {
+      logMessage("😴 Sleep sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Sync weight data
+  if (challenge.trackWeight) {
+    try {
+      logMessage("⚖️ Fetching weight data...");
+      const { healthSyncService } = await import("@/lib/healthSync");
+      const weightKg = await healthSyncService.getWeightForDate(date);
+      if (weightKg && weightKg > 0) {
+        const weight = Math.round(weightKg * 10) / 10;
+        logMessage(`⚖️ Weight: ${weight} kg`);
+
+        const change = createChange(
+          "weight",
+          log,
+          log?.currentWeight ? `${log.currentWeight.toFixed(1)} kg` : EMPTY_VALUE,
+          `${weight.toFixed(1)} kg`,
+          { currentWeight: weight, weightLogged: true }
+        );
+        change.activityLogsToCreate.push({
+          userId: challenge.userId,
+          challengeId: challengeId,
+          type: 'weight',
+          title: 'Weight (Resync)',
+          description: `${weight.toFixed(1)} kg from Apple Health`,
+          value: weight,
+          unit: 'kg',
+          date: dateStr,
+        });
+        changes.push(change);
+      } else {
+        logMessage("⚖️ No weight data found");
+      }
+    } catch (error) {
+      logMessage("⚖️ Weight sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  }
+
+  // Sync steps data - always pull from Apple Health for display
+  try {
+    logMessage("👟 Fetching steps data...");
+    const stepsCount = await healthService.getStepsForDate(date);
+    if (stepsCount > 0) {
+      const stepsGoal = challenge.stepsGoal || 10000;
+      const stepsGoalMet = stepsCount >= stepsGoal;
+      const isTracking = challenge.trackSteps;
+
+      logMessage(`👟 Steps: ${stepsCount.toLocaleString()} ${stepsGoalMet ? '✅' : '❌'} ${isTracking ? '(tracked)' : '(display only)'}`);
+
+      const updates: Partial<DailyLog> = { stepsCount };
+      // Only mark as completed if we're tracking steps
+      if (isTracking) {
+        updates.stepsCompleted = stepsGoalMet;
+      }
+
+      const change = createChange(
+        "steps",
+        log,
+        log?.stepsCount ? log.stepsCount.toLocaleString() : EMPTY_VALUE,
+        stepsCount.toLocaleString(),
+        updates
+      );
+      change.activityLogsToCreate.push({
+        userId: challenge.userId,
+        challengeId: challengeId,
+        type: 'steps',
+        title: isTracking ? 'Steps (Resync)' : 'Steps (Auto-sync)',
+        description: `${stepsCount.toLocaleString()} steps from Apple Health${isTracking ? '' : ' (display only)'}`,
+        value: stepsCount,
+        unit: 'steps',
+        date: dateStr,
+      });
+      changes.push(change);
+    } else {
+      logMessage("👟 No steps data found");
+    }
+  } catch (error) {
+    logMessage("👟 Steps sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
+  }
+
+  return { date: dateStr, log, changes };
+}
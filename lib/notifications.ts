@@ -1,5 +1,5 @@
 import { BADGES } from "@/constants/badges";
-import type { BadgeId, Challenge, DailyLog } from "@/types/type";
+import type { BadgeId, Challenge, DailyLog, ReportPeriod } from "@/types/type";
 import * as Notifications from "expo-notifications";
 import { Platform } from "react-native";
 
@@ -32,7 +32,8 @@ export type NotificationType =
   | "day_complete"
   | "badge_earned"
   | "steps_goal"
-  | "workout_detected";
+  | "workout_detected"
+  | "report_ready";
 
 interface NotificationData {
   type: NotificationType;
@@ -190,6 +191,37 @@ export class NotificationService {
     await Notifications.cancelAllScheduledNotificationsAsync();
   }
 
+  /**
+   * Announce the next weekly or monthly report on the morning it's ready.
+   * Rescheduling replaces the previous announcement for that period.
+   */
+  static async scheduleReportNotification(period: ReportPeriod, date: Date): Promise<string | null> {
+    try {
+      if (!areNotificationsEnabled()) return null;
+
+      const trigger = new Date(date);
+      trigger.setHours(9, 0, 0, 0);
+      if (trigger <= new Date()) return null;
+
+      return await Notifications.scheduleNotificationAsync({
+        identifier: `report-${period}`,
+        content: {
+          title: period === "week" ? "📊 Your Weekly Report Is Ready" : "📅 Your Monthly Report Is Ready",
+          body: `See how your ${period} went - completion, totals and what to work on next.`,
+          data: { type: "report_ready", period } as NotificationData,
+          sound: true,
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: trigger,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to schedule report notification:", error);
+      return null;
+    }
+  }
+
   /**
    * Send immediate notification for badge earned
    */
@@ -0,0 +1,126 @@
+import type { ActivityLog, DailyLog } from "@/types/type";
+
+/**
+ * Offline write queue - changes made without a connection are stored here and
+ * replayed in order when the app is back online.
+ */
+
+export type PendingChange =
+  | {
+      id: string;
+      kind: "createDailyLog";
+      localId: string; // Temporary $id used until the server assigns one
+      data: Omit<DailyLog, "$id">;
+      updatedAt: string; // ISO
+    }
+  | {
+      id: string;
+      kind: "updateDailyLog";
+      logId: string;
+      challengeId: string;
+      date: string; // YYYY-MM-DD, to find the server copy
+      base: Partial<DailyLog>; // Field values before this device changed them
+      changes: Partial<DailyLog>;
+      updatedAt: string; // ISO, when the edit was made
+    }
+  | {
+      id: string;
+      kind: "createActivityLog";
+      localId: string;
+      data: Omit<ActivityLog, "$id">;
+      updatedAt: string;
+    };
+
+const LOCAL_ID_PREFIX = "local-";
+
+export function createLocalId(): string {
+  return `${LOCAL_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isLocalId(id: string | undefined): boolean {
+  return !!id?.startsWith(LOCAL_ID_PREFIX);
+}
+
+/**
+ * True if a request failed because the device is offline rather than being rejected
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (err instanceof TypeError) return true; // fetch rejects with TypeError when offline
+  const message = err instanceof Error ? err.message : String(err ?? "");
+  return (err as { code?: number })?.code === 0 || /network request failed|network error|timed? ?out/i.test(message);
+}
+
+const sameValue = (a: unknown, b: unknown) => (a ?? null) === (b ?? null);
+
+/**
+ * Queue an update to a daily log, remembering each field's value before the
+ * edit so conflicts with other devices can be detected on replay
+ */
+export function enqueueLogUpdate(
+  queue: PendingChange[],
+  before: DailyLog,
+  changes: Partial<DailyLog>
+): PendingChange[] {
+  const base = Object.fromEntries(
+    (Object.keys(changes) as (keyof DailyLog)[]).map(key => [key, before[key]])
+  ) as Partial<DailyLog>;
+
+  return [
+    ...queue,
+    {
+      id: createLocalId(),
+      kind: "updateDailyLog",
+      logId: before.$id!,
+      challengeId: before.challengeId,
+      date: before.date,
+      base,
+      changes,
+      updatedAt: new Date().toISOString(),
+    },
+  ];
+}
+
+/**
+ * Overlay queued edits on a log fetched from the server so unsynced changes stay visible
+ */
+export function applyPendingChanges(log: DailyLog, queue: PendingChange[]): DailyLog {
+  return queue.reduce(
+    (current, change) =>
+      change.kind === "updateDailyLog" && change.logId === log.$id ? { ...current, ...change.changes } : current,
+    log
+  );
+}
+
+/**
+ * Resolve a queued update against the server copy, field by field. Fields only
+ * this device changed are sent; if another device changed the same field, the
+ * most recent edit wins. Returns the fields to write.
+ */
+export function resolveFieldConflicts(
+  change: Extract<PendingChange, { kind: "updateDailyLog" }>,
+  remote: DailyLog
+): Partial<DailyLog> {
+  const resolved: Partial<DailyLog> = {};
+  const remoteUpdatedAt = remote.$updatedAt ? new Date(remote.$updatedAt).getTime() : 0;
+  const localUpdatedAt = new Date(change.updatedAt).getTime();
+
+  (Object.keys(change.changes) as (keyof DailyLog)[]).forEach(key => {
+    const local = change.changes[key];
+    if (sameValue(remote[key], local)) return; // Already in sync
+    const remoteUnchanged = sameValue(remote[key], change.base[key]);
+    if (remoteUnchanged || localUpdatedAt >= remoteUpdatedAt) {
+      (resolved as Record<string, unknown>)[key] = local;
+    }
+  });
+
+  return resolved;
+}
+
+/**
+ * Point queued changes at a log's server id once it has been created
+ */
+export function remapLogId(queue: PendingChange[], localId: string, serverId: string): PendingChange[] {
+  return queue.map(change =>
+    change.kind === "updateDailyLog" && change.logId === localId ? { ...change, logId: serverId } : change
+  );
+}
@@ -0,0 +1,117 @@
+import { getProgressPhotoUrl } from "@/lib/appwrite";
+import { getChallengeDayNumber } from "@/lib/dayBoundary";
+import type { Challenge, DailyLog, ProgressPhotoPose, ProgressPhotos } from "@/types/type";
+import { Directory, File, Paths } from "expo-file-system";
+
+/**
+ * Progress photos - up to one image per pose per day, stored in a private
+ * Appwrite bucket with copies cached on the device.
+ */
+
+export const PROGRESS_PHOTO_POSES: { id: ProgressPhotoPose; label: string }[] = [
+  { id: "front", label: "Front" },
+  { id: "side", label: "Side" },
+  { id: "back", label: "Back" },
+];
+
+export type PhotoSize = "thumbnail" | "full";
+
+const THUMBNAIL_WIDTH = 300;
+
+/**
+ * Parse the photo file ids stored on a daily log
+ */
+export function parseProgressPhotos(log: DailyLog | null | undefined): ProgressPhotos {
+  if (!log?.progressPhotos) return {};
+  try {
+    const parsed = JSON.parse(log.progressPhotos);
+    const photos: ProgressPhotos = {};
+    PROGRESS_PHOTO_POSES.forEach(({ id }) => {
+      if (typeof parsed?.[id] === "string") photos[id] = parsed[id];
+    });
+    return photos;
+  } catch (err) {
+    console.error("Failed to parse progress photos:", err);
+    return {};
+  }
+}
+
+export function serializeProgressPhotos(photos: ProgressPhotos): string {
+  return JSON.stringify(photos);
+}
+
+/**
+ * Whether a day has a progress photo. Days logged before photos were stored
+ * (no progressPhotos field at all) keep the old "photo taken" toggle.
+ */
+export function hasProgressPhoto(log: DailyLog | null | undefined): boolean {
+  if (!log) return false;
+  if (log.progressPhotos === undefined || log.progressPhotos === null) return log.progressPhotoCompleted === true;
+  return Object.keys(parseProgressPhotos(log)).length > 0;
+}
+
+// A day with a photo of one pose, for the gallery
+export type PhotoDay = {
+  date: string;
+  dayNumber: number;
+  fileId: string;
+  weight?: number;
+};
+
+/**
+ * Days with a photo of the given pose, oldest first
+ */
+export function getPhotoDays(challenge: Challenge, logs: DailyLog[], pose: ProgressPhotoPose): PhotoDay[] {
+  const days: PhotoDay[] = [];
+  logs.forEach(log => {
+    const fileId = parseProgressPhotos(log)[pose];
+    if (fileId) {
+      days.push({
+        date: log.date,
+        dayNumber: getChallengeDayNumber(challenge.startDate, log.date),
+        fileId,
+        weight: log.currentWeight,
+      });
+    }
+  });
+  return days.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function getCacheFile(fileId: string, size: PhotoSize): File {
+  const directory = new Directory(Paths.cache, "progress-photos");
+  if (!directory.exists) directory.create();
+  return new File(directory, `${fileId}-${size}.jpg`);
+}
+
+/**
+ * Local URI for a progress photo, downloading it into the cache the first time
+ */
+export async function getCachedPhotoUri(fileId: string, size: PhotoSize = "thumbnail"): Promise<string> {
+  const file = getCacheFile(fileId, size);
+  if (!file.exists) {
+    await File.downloadFileAsync(getProgressPhotoUrl(fileId, size === "thumbnail" ? THUMBNAIL_WIDTH : undefined), file);
+  }
+  return file.uri;
+}
+
+/**
+ * Cache a photo that was just uploaded from the device so it never needs downloading
+ */
+export function cacheUploadedPhoto(fileId: string, localUri: string): void {
+  try {
+    const source = new File(localUri);
+    (["thumbnail", "full"] as PhotoSize[]).forEach(size => {
+      const target = getCacheFile(fileId, size);
+      if (!target.exists) source.copy(target);
+    });
+  } catch (err) {
+    console.error("Failed to cache progress photo:", err);
+  }
+}
+
+export function removeCachedPhoto(fileId: string): void {
+  (["thumbnail", "full"] as PhotoSize[]).forEach(size => {
+    const file = getCacheFile(fileId, size);
+    if (file.exists) file.delete();
+  });
+}
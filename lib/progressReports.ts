@@ -0,0 +1,203 @@
+import { getChallengeEndDate } from "@/lib/challengeStats";
+import { getTodayKey, toDayKey } from "@/lib/dayBoundary";
+import { getTaskStatuses, isDayComplete } from "@/lib/dayCompletion";
+import { getProtectedDayKind } from "@/lib/streakFreezes";
+import type {
+    ActivityLog,
+    Challenge,
+    DailyLog,
+    ProgressReport,
+    ReportPeriod,
+    ReportSummary,
+} from "@/types/type";
+import {
+    addDays,
+    addMonths,
+    addWeeks,
+    eachDayOfInterval,
+    eachMonthOfInterval,
+    eachWeekOfInterval,
+    endOfMonth,
+    endOfWeek,
+    format,
+    isAfter,
+    isBefore,
+    parseISO,
+    startOfDay,
+    startOfMonth,
+    startOfWeek,
+} from "date-fns";
+
+/**
+ * Progress reports - a summary of each challenge week (Monday to Sunday) and
+ * calendar month, built once the period is over.
+ */
+
+// How many missed tasks a report lists
+const MISSED_TASK_LIMIT = 3;
+
+type PeriodRange = { start: Date; end: Date };
+
+export function getReportId(challengeId: string, period: ReportPeriod, startDate: string): string {
+  return `${challengeId}:${period}:${startDate}`;
+}
+
+function getPeriodRange(period: ReportPeriod, date: Date): PeriodRange {
+  return period === "week"
+    ? { start: startOfWeek(date, { weekStartsOn: 1 }), end: endOfWeek(date, { weekStartsOn: 1 }) }
+    : { start: startOfMonth(date), end: endOfMonth(date) };
+}
+
+function getPreviousRange(period: ReportPeriod, range: PeriodRange): PeriodRange {
+  return getPeriodRange(period, period === "week" ? addWeeks(range.start, -1) : addMonths(range.start, -1));
+}
+
+/**
+ * The challenge days inside a period, or an empty list if they don't overlap
+ */
+function getChallengeDays(challenge: Challenge, range: PeriodRange): string[] {
+  const challengeStart = parseISO(challenge.startDate);
+  const challengeEnd = getChallengeEndDate(challenge);
+  const start = isAfter(challengeStart, range.start) ? challengeStart : range.start;
+  const end = isBefore(challengeEnd, range.end) ? challengeEnd : range.end;
+  if (isAfter(start, end)) return [];
+  return eachDayOfInterval({ start, end }).map(toDayKey);
+}
+
+function summarize(
+  challenge: Challenge,
+  logs: DailyLog[],
+  activityLogs: ActivityLog[],
+  days: string[]
+): ReportSummary {
+  const logsByDate = new Map(logs.map(log => [log.date, log]));
+  const periodLogs = days.flatMap(date => logsByDate.get(date) ?? []);
+  // Rest and frozen days aren't expected to be complete
+  const countedDays = days.filter(date => getProtectedDayKind(challenge, date) === null);
+  const daysComplete = countedDays.filter(date => isDayComplete(challenge, logsByDate.get(date) ?? null, logs)).length;
+
+  const weighIns = periodLogs.filter(log => (log.currentWeight ?? 0) > 0);
+  const sum = (value: (log: DailyLog) => number | undefined) =>
+    periodLogs.reduce((total, log) => total + (value(log) ?? 0), 0);
+
+  return {
+    completionRate: countedDays.length > 0 ? Math.round((daysComplete / countedDays.length) * 100) : 0,
+    daysComplete,
+    daysCounted: countedDays.length,
+    totals: {
+      workoutMinutes: sum(log => (log.workout1Minutes ?? 0) + (log.workout2Minutes ?? 0)),
+      readingPages: sum(log => log.readingPages),
+      waterLiters: Math.round(sum(log => log.waterLiters) * 10) / 10,
+      steps: sum(log => log.stepsCount),
+      activitiesLogged: activityLogs.filter(activity => days.includes(activity.date)).length,
+    },
+    weightChange:
+      weighIns.length >= 2
+        ? Math.round(((weighIns[weighIns.length - 1].currentWeight ?? 0) - (weighIns[0].currentWeight ?? 0)) * 10) / 10
+        : null,
+  };
+}
+
+function getMissedTasks(challenge: Challenge, logs: DailyLog[], days: string[]): ProgressReport["missedTasks"] {
+  const logsByDate = new Map(logs.map(log => [log.date, log]));
+  const missed = new Map<string, { id: string; label: string; count: number }>();
+
+  days
+    .filter(date => getProtectedDayKind(challenge, date) === null)
+    .forEach(date => {
+      const log = logsByDate.get(date) ?? null;
+      // Days without a log still count their tasks as missed
+      getTaskStatuses(challenge, log, logs, date)
+        .filter(task => !task.completed)
+        .forEach(task => {
+          const entry = missed.get(task.id) ?? { id: task.id, label: task.label, count: 0 };
+          entry.count++;
+          missed.set(task.id, entry);
+        });
+    });
+
+  return Array.from(missed.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MISSED_TASK_LIMIT);
+}
+
+/**
+ * Build the report for the week or month containing a date
+ */
+export function buildProgressReport(
+  challenge: Challenge,
+  logs: DailyLog[],
+  activityLogs: ActivityLog[],
+  period: ReportPeriod,
+  date: Date
+): ProgressReport {
+  const range = getPeriodRange(period, date);
+  const days = getChallengeDays(challenge, range);
+  const previousDays = getChallengeDays(challenge, getPreviousRange(period, range));
+  const startDate = format(range.start, "yyyy-MM-dd");
+
+  return {
+    id: getReportId(challenge.$id ?? "", period, startDate),
+    userId: challenge.userId,
+    challengeId: challenge.$id ?? "",
+    period,
+    startDate,
+    endDate: format(range.end, "yyyy-MM-dd"),
+    generatedAt: new Date().toISOString(),
+    ...summarize(challenge, logs, activityLogs, days),
+    missedTasks: getMissedTasks(challenge, logs, days),
+    previous: previousDays.length > 0 ? summarize(challenge, logs, activityLogs, previousDays) : null,
+  };
+}
+
+/**
+ * Start dates of the weeks or months that overlap the challenge and have
+ * ended by today
+ */
+export function getEndedPeriods(challenge: Challenge, period: ReportPeriod, todayKey: string = getTodayKey()): Date[] {
+  const start = parseISO(challenge.startDate);
+  const end = getChallengeEndDate(challenge);
+  if (isAfter(start, end)) return [];
+
+  const starts =
+    period === "week"
+      ? eachWeekOfInterval({ start, end }, { weekStartsOn: 1 })
+      : eachMonthOfInterval({ start, end });
+  return starts.filter(periodStart => format(getPeriodRange(period, periodStart).end, "yyyy-MM-dd") < todayKey);
+}
+
+/**
+ * Every ended period that hasn't been reported on yet - weeks, then months,
+ * each oldest first
+ */
+export function getPendingReportPeriods(
+  challenge: Challenge,
+  existingIds: Set<string>,
+  todayKey: string = getTodayKey()
+): { period: ReportPeriod; periodStart: Date }[] {
+  if (!challenge.$id) return [];
+  const challengeId = challenge.$id;
+
+  return (["week", "month"] as const).flatMap(period =>
+    getEndedPeriods(challenge, period, todayKey)
+      .filter(periodStart => !existingIds.has(getReportId(challengeId, period, format(periodStart, "yyyy-MM-dd"))))
+      .map(periodStart => ({ period, periodStart }))
+  );
+}
+
+/**
+ * When the next report becomes available - the day after the current week or
+ * month ends - or null once the challenge's last period is over
+ */
+export function getNextReportDate(challenge: Challenge, period: ReportPeriod, today: Date): Date | null {
+  const start = parseISO(challenge.startDate);
+  const range = getPeriodRange(period, isAfter(start, today) ? start : today);
+  if (isAfter(range.start, getChallengeEndDate(challenge))) return null;
+  return startOfDay(addDays(range.end, 1));
+}
+
+export function formatReportRange(report: Pick<ProgressReport, "period" | "startDate" | "endDate">): string {
+  const start = parseISO(report.startDate);
+  if (report.period === "month") return format(start, "MMMM yyyy");
+  return `${format(start, "MMM d")} – ${format(parseISO(report.endDate), "MMM d")}`;
+}
@@ -0,0 +1,97 @@
+import { getChallengeDayNumber, getTodayKey } from "@/lib/dayBoundary";
+import { isDayComplete } from "@/lib/dayCompletion";
+import type { Challenge, DailyLog } from "@/types/type";
+
+/**
+ * Streak protection for non-strict challenges - freeze tokens earned by
+ * completing days and spent on missed days, plus rest days planned ahead.
+ * Protected days neither extend nor break a streak.
+ */
+
+// One token for every this many complete days
+export const FREEZE_EARN_DAYS = 7;
+export const MAX_FREEZE_TOKENS = 3;
+// Planned rest days allowed per challenge week (days 1-7, 8-14...)
+export const MAX_REST_DAYS_PER_WEEK = 1;
+
+export type FreezeTokens = {
+  earned: number;
+  used: number;
+  available: number;
+};
+
+export type ProtectedDayKind = "freeze" | "rest";
+
+function parseDates(json?: string): string[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((date): date is string => typeof date === "string") : [];
+  } catch (err) {
+    console.error("Failed to parse protected days:", err);
+    return [];
+  }
+}
+
+export function canProtectStreak(challenge: Challenge): boolean {
+  return !challenge.strictMode;
+}
+
+export function getFrozenDays(challenge: Challenge): string[] {
+  return parseDates(challenge.frozenDays);
+}
+
+export function getRestDays(challenge: Challenge): string[] {
+  return parseDates(challenge.restDays);
+}
+
+/**
+ * Whether a day was frozen or planned as rest. Always null in strict mode.
+ */
+export function getProtectedDayKind(challenge: Challenge, date: string): ProtectedDayKind | null {
+  if (!canProtectStreak(challenge)) return null;
+  if (getFrozenDays(challenge).includes(date)) return "freeze";
+  if (getRestDays(challenge).includes(date)) return "rest";
+  return null;
+}
+
+export function getFreezeTokens(challenge: Challenge, logs: DailyLog[]): FreezeTokens {
+  const completeDays = logs.filter(log => isDayComplete(challenge, log, logs)).length;
+  const earned = Math.min(Math.floor(completeDays / FREEZE_EARN_DAYS), MAX_FREEZE_TOKENS);
+  const used = getFrozenDays(challenge).length;
+  return { earned, used, available: Math.max(earned - used, 0) };
+}
+
+/**
+ * Why a freeze token can't be spent on a day, or null if it can
+ */
+export function getFreezeBlocker(challenge: Challenge, date: string, logs: DailyLog[]): string | null {
+  if (!canProtectStreak(challenge)) return "Streak freezes aren't available in strict mode.";
+  if (date > getTodayKey()) return "Freezes can only be used on today or earlier days.";
+  if (getProtectedDayKind(challenge, date)) return "This day is already protected.";
+  const log = logs.find(l => l.date === date) ?? null;
+  if (isDayComplete(challenge, log, logs)) return "This day is already complete.";
+  if (getFreezeTokens(challenge, logs).available === 0) {
+    return `Earn a freeze token for every ${FREEZE_EARN_DAYS} complete days.`;
+  }
+  return null;
+}
+
+/**
+ * Why a day can't be planned as rest, or null if it can
+ */
+export function getRestDayBlocker(challenge: Challenge, date: string): string | null {
+  if (!canProtectStreak(challenge)) return "Rest days aren't available in strict mode.";
+  if (date <= getTodayKey()) return "Rest days have to be planned in advance.";
+
+  const week = Math.ceil(getChallengeDayNumber(challenge.startDate, date) / 7);
+  const restInWeek = getRestDays(challenge).filter(
+    day => day !== date && Math.ceil(getChallengeDayNumber(challenge.startDate, day) / 7) === week
+  );
+  if (restInWeek.length >= MAX_REST_DAYS_PER_WEEK) return `You already have a rest day planned in week ${week}.`;
+  return null;
+}
+
+export function serializeDates(dates: string[]): string {
+  return JSON.stringify([...new Set(dates)].sort());
+}
@@ -0,0 +1,98 @@
+import { getTodayKey, toDayKey } from "@/lib/dayBoundary";
+import { getTaskStatuses, isDayComplete } from "@/lib/dayCompletion";
+import { getProtectedDayKind } from "@/lib/streakFreezes";
+import type { Challenge, DailyLog } from "@/types/type";
+import { eachDayOfInterval, isAfter, parseISO } from "date-fns";
+
+/**
+ * Streaks - runs of consecutive challenge days where every tracked task was
+ * complete, plus the same per task.
+ */
+
+export type StreakRun = {
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  length: number;
+};
+
+export type TaskStreak = {
+  id: string; // Task status id, e.g. "water" or "custom:<id>"
+  label: string;
+  current: number;
+  longest: number;
+};
+
+export type StreakSummary = {
+  current: number;
+  longest: number;
+  tasks: TaskStreak[]; // Longest current streak first
+  history: StreakRun[]; // Oldest first
+};
+
+type RunTracker = { label: string; length: number; longest: number };
+
+/**
+ * Calculate streaks from the challenge's start up to asOfDate. Today only
+ * counts once it's complete, so an unfinished today doesn't break a streak.
+ * Frozen and rest days are skipped the same way.
+ */
+export function computeStreaks(challenge: Challenge, logs: DailyLog[], asOfDate: Date): StreakSummary {
+  const start = parseISO(challenge.startDate);
+  if (isAfter(start, asOfDate)) {
+    return { current: 0, longest: 0, tasks: [], history: [] };
+  }
+
+  const logsByDate = new Map(logs.map(log => [log.date, log]));
+  const todayKey = getTodayKey();
+  const history: StreakRun[] = [];
+  const taskRuns = new Map<string, RunTracker>();
+  let run: StreakRun | null = null;
+  let longest = 0;
+
+  eachDayOfInterval({ start, end: asOfDate }).forEach(day => {
+    const date = toDayKey(day);
+    const log = logsByDate.get(date) ?? null;
+    // An unfinished today, frozen days and rest days don't break a streak
+    const pending = date === todayKey || getProtectedDayKind(challenge, date) !== null;
+
+    if (log && isDayComplete(challenge, log, logs)) {
+      if (run) {
+        run.endDate = date;
+        run.length++;
+      } else {
+        run = { startDate: date, endDate: date, length: 1 };
+        history.push(run);
+      }
+      longest = Math.max(longest, run.length);
+    } else if (!pending) {
+      run = null;
+    }
+
+    // A day without a log breaks every task's streak
+    const statuses = log ? getTaskStatuses(challenge, log, logs) : [];
+    const completedIds = new Set(statuses.filter(task => task.completed).map(task => task.id));
+    statuses.forEach(task => {
+      // Cycle logging is optional and always counts as done
+      if (task.id === "cycle" || taskRuns.has(task.id)) return;
+      taskRuns.set(task.id, { label: task.label, length: 0, longest: 0 });
+    });
+    taskRuns.forEach((tracker, id) => {
+      if (completedIds.has(id)) {
+        tracker.length++;
+        tracker.longest = Math.max(tracker.longest, tracker.length);
+      } else if (!pending && (!log || statuses.some(task => task.id === id))) {
+        // Tasks not tracked that day leave the streak alone
+        tracker.length = 0;
+      }
+    });
+  });
+
+  const tasks = Array.from(taskRuns, ([id, tracker]) => ({
+    id,
+    label: tracker.label,
+    current: tracker.length,
+    longest: tracker.longest,
+  })).sort((a, b) => b.current - a.current || b.longest - a.longest);
+
+  return { current: run ? (run as StreakRun).length : 0, longest, tasks, history };
+}
@@ -0,0 +1,106 @@
+import { getTodayDate } from "@/lib/dayBoundary";
+import { getTaskStatuses } from "@/lib/dayCompletion";
+import { getChallengeForDate } from "@/lib/goalHistory";
+import type { Challenge, DailyLog } from "@/types/type";
+import { addDays, differenceInDays, format, parseISO } from "date-fns";
+
+export type StrictModeFailure = {
+  date: string; // YYYY-MM-DD of the missed day
+  dayNumber: number;
+  missedTasks: string[];
+  reason: string;
+};
+
+/**
+ * Get the attempt number for a challenge (challenges created before
+ * attempts were tracked count as the first attempt)
+ */
+export function getAttemptNumber(challenge: Challenge): number {
+  return challenge.attemptNumber ?? 1;
+}
+
+/**
+ * Check whether a challenge attempt has been failed and archived
+ */
+export function isChallengeFailed(challenge: Challenge | null): boolean {
+  return challenge?.status === "failed";
+}
+
+/**
+ * Find the first past day of a strict mode challenge that was not completed.
+ * Today is never checked since there is still time to finish it, and days
+ * before strict mode or a task was turned on are held to the rules of the time.
+ */
+export function findStrictModeFailure(
+  challenge: Challenge,
+  allLogs: DailyLog[],
+  today: Date = getTodayDate()
+): StrictModeFailure | null {
+  if (!challenge.strictMode || isChallengeFailed(challenge)) return null;
+
+  // Nothing to enforce if no tasks are tracked
+  if (getTaskStatuses(challenge, null).length === 0) return null;
+
+  const startDate = parseISO(challenge.startDate);
+  const todayStart = parseISO(format(today, "yyyy-MM-dd"));
+  const pastDays = Math.min(differenceInDays(todayStart, startDate), challenge.totalDays);
+
+  for (let i = 0; i < pastDays; i++) {
+    const day = addDays(startDate, i);
+    const dateStr = format(day, "yyyy-MM-dd");
+    if (!getChallengeForDate(challenge, dateStr).strictMode) continue;
+
+    const log = allLogs.find(l => format(parseISO(l.date), "yyyy-MM-dd") === dateStr) ?? null;
+    const missedTasks = getTaskStatuses(challenge, log, allLogs, dateStr)
+      .filter(task => !task.completed)
+      .map(task => task.label);
+
+    if (missedTasks.length > 0) {
+      const dayNumber = i + 1;
+      return {
+        date: dateStr,
+        dayNumber,
+        missedTasks,
+        reason: `Day ${dayNumber} (${format(day, "MMM d")}) missed: ${missedTasks.join(", ")}`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Build a new attempt from a failed challenge, keeping its settings and
+ * starting again on Day 1
+ */
+export function buildRestartedChallenge(
+  failed: Challenge,
+  startDate: Date = getTodayDate()
+): Omit<Challenge, "$id"> {
+  const {
+    $id,
+    failedDate,
+    failureReason,
+    previousFailureReason,
+    previousAttemptId,
+    endDate,
+    goalHistory,
+    frozenDays,
+    restDays,
+    ...settings
+  } = failed;
+
+  // Strip Appwrite system fields that come back on fetched documents
+  const cleanSettings = Object.fromEntries(
+    Object.entries(settings).filter(([key]) => !key.startsWith("$"))
+  ) as Omit<Challenge, "$id">;
+
+  return {
+    ...cleanSettings,
+    startDate: format(startDate, "yyyy-MM-dd"),
+    status: "active",
+    attemptNumber: getAttemptNumber(failed) + 1,
+    previousAttemptId: $id,
+    previousFailureReason: failureReason,
+  };
+}
@@ -0,0 +1,185 @@
+import { toDayKey } from "@/lib/dayBoundary";
+import { getGoalsForDate } from "@/lib/goalHistory";
+import { getTargetOffset, getWeightTarget } from "@/lib/goalTargets";
+import type { Challenge, ChallengeGoals, DailyLog } from "@/types/type";
+import { addDays, differenceInCalendarDays, parseISO } from "date-fns";
+
+/**
+ * Weight trends - daily weigh-ins smoothed into a moving average, with the
+ * weekly rate of change, BMI and when the goal will be reached at that rate.
+ */
+
+// Trailing window the moving average covers
+export const MOVING_AVERAGE_DAYS = 7;
+// Recent stretch of the trend the weekly rate is measured over
+const RATE_WINDOW_DAYS = 28;
+// Slower than this (kg/week) counts as holding steady
+const STEADY_RATE = 0.05;
+// Projections further out than this aren't worth showing
+const MAX_PROJECTION_WEEKS = 104;
+
+export type WeighIn = {
+  date: string; // YYYY-MM-DD
+  weight: number;
+};
+
+export type TrendPoint = WeighIn & {
+  average: number; // Moving average up to and including this day
+};
+
+export type BmiCategory = "underweight" | "healthy" | "overweight" | "obese";
+
+export type GoalProjection = {
+  remaining: number; // kg still to go - negative to lose, positive to gain, 0 once reached
+  date: Date | null; // Null when the trend is flat or heading the wrong way
+};
+
+// Share of the way from the first weigh-in to the goal
+export type ProgressMarker = {
+  date: string; // YYYY-MM-DD
+  percent: 25 | 50 | 75 | 100;
+};
+
+export type WeightTrend = {
+  points: TrendPoint[];
+  current: number | null; // Latest moving average
+  weeklyRate: number | null; // kg per week
+  bmi: number | null;
+  projection: GoalProjection | null;
+  markers: ProgressMarker[];
+};
+
+const MARKER_PERCENTS: ProgressMarker["percent"][] = [25, 50, 75, 100];
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Logged weights, oldest first
+ */
+export function getWeighIns(logs: DailyLog[]): WeighIn[] {
+  return logs
+    .filter(log => (log.currentWeight ?? 0) > 0)
+    .map(log => ({ date: log.date, weight: log.currentWeight ?? 0 }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Each weigh-in alongside the average of every weigh-in in the trailing
+ * window, so one heavy or light morning doesn't swing the trend
+ */
+export function getMovingAverage(weighIns: WeighIn[], days: number = MOVING_AVERAGE_DAYS): TrendPoint[] {
+  return weighIns.map(weighIn => {
+    const window = weighIns.filter(other => {
+      const age = differenceInCalendarDays(parseISO(weighIn.date), parseISO(other.date));
+      return age >= 0 && age < days;
+    });
+    const average = window.reduce((total, other) => total + other.weight, 0) / window.length;
+    return { ...weighIn, average: round(average, 1) };
+  });
+}
+
+/**
+ * kg per week from a least-squares fit of the recent moving average, or null
+ * until the trend covers at least a week
+ */
+export function getWeeklyRate(points: TrendPoint[]): number | null {
+  if (points.length < 2) return null;
+
+  const last = parseISO(points[points.length - 1].date);
+  const recent = points
+    .map(point => ({ x: differenceInCalendarDays(parseISO(point.date), last), y: point.average }))
+    .filter(point => point.x > -RATE_WINDOW_DAYS);
+  if (recent.length < 2 || -recent[0].x < MOVING_AVERAGE_DAYS - 1) return null;
+
+  const meanX = recent.reduce((total, point) => total + point.x, 0) / recent.length;
+  const meanY = recent.reduce((total, point) => total + point.y, 0) / recent.length;
+  const covariance = recent.reduce((total, point) => total + (point.x - meanX) * (point.y - meanY), 0);
+  const variance = recent.reduce((total, point) => total + (point.x - meanX) ** 2, 0);
+  return variance > 0 ? round((covariance / variance) * 7, 2) : null;
+}
+
+export function getBmi(weightKg: number, heightCm?: number): number | null {
+  if (!heightCm || heightCm <= 0 || weightKg <= 0) return null;
+  const heightM = heightCm / 100;
+  return round(weightKg / (heightM * heightM), 1);
+}
+
+export function getBmiCategory(bmi: number): BmiCategory {
+  if (bmi < 18.5) return "underweight";
+  if (bmi < 25) return "healthy";
+  if (bmi < 30) return "overweight";
+  return "obese";
+}
+
+/**
+ * The weight to aim for from a starting weight - the nearest edge of the
+ * target, or the goal itself when the challenge only asks for a weigh-in
+ */
+function getAimWeight(
+  goals: Pick<ChallengeGoals, "weightGoal" | "weightGoalDirection" | "weightGoalMax">,
+  weight: number
+): number | null {
+  if (!(goals.weightGoal > 0)) return null;
+  const target = getWeightTarget(goals);
+  if (!target) return goals.weightGoal;
+  return weight - getTargetOffset(weight, target);
+}
+
+/**
+ * When the goal will be reached if the weekly rate holds
+ */
+export function getGoalProjection(
+  goals: Pick<ChallengeGoals, "weightGoal" | "weightGoalDirection" | "weightGoalMax">,
+  current: number,
+  weeklyRate: number | null,
+  today: Date
+): GoalProjection | null {
+  const aim = getAimWeight(goals, current);
+  if (aim === null) return null;
+
+  const remaining = round(aim - current, 1);
+  if (remaining === 0) return { remaining, date: null };
+  if (weeklyRate === null || Math.abs(weeklyRate) < STEADY_RATE) return { remaining, date: null };
+
+  const weeks = remaining / weeklyRate;
+  if (weeks <= 0 || weeks > MAX_PROJECTION_WEEKS) return { remaining, date: null };
+  return { remaining, date: addDays(today, Math.ceil(weeks * 7)) };
+}
+
+/**
+ * The first day the moving average got 25%, 50%, 75% and all of the way from
+ * the first weigh-in to the goal
+ */
+export function getProgressMarkers(
+  goals: Pick<ChallengeGoals, "weightGoal" | "weightGoalDirection" | "weightGoalMax">,
+  points: TrendPoint[]
+): ProgressMarker[] {
+  if (points.length === 0) return [];
+  const start = points[0].average;
+  const aim = getAimWeight(goals, start);
+  if (aim === null || aim === start) return [];
+
+  return MARKER_PERCENTS.flatMap(percent => {
+    const point = points.find(p => (p.average - start) / (aim - start) >= percent / 100);
+    return point ? [{ date: point.date, percent }] : [];
+  });
+}
+
+export function getWeightTrend(challenge: Challenge, logs: DailyLog[], heightCm: number | undefined, today: Date): WeightTrend {
+  const points = getMovingAverage(getWeighIns(logs));
+  const goals = getGoalsForDate(challenge, toDayKey(today));
+  const current = points.length > 0 ? points[points.length - 1].average : null;
+  const weeklyRate = getWeeklyRate(points);
+
+  return {
+    points,
+    current,
+    weeklyRate,
+    bmi: current !== null ? getBmi(current, heightCm) : null,
+    projection: current !== null ? getGoalProjection(goals, current, weeklyRate, today) : null,
+    markers: getProgressMarkers(goals, points),
+  };
+}
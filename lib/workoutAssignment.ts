@@ -0,0 +1,179 @@
+import type { WorkoutData } from "@/lib/health";
+import type { Challenge, DailyLog } from "@/types/type";
+import { differenceInMinutes, parseISO } from "date-fns";
+
+/**
+ * Workout slot assignment - decides which Apple Health workouts fill Workout 1
+ * (the outdoor slot) and Workout 2 during a health resync.
+ */
+
+export type WorkoutSlot = "workout1" | "workout2";
+
+export const WORKOUT_SLOTS: WorkoutSlot[] = ["workout1", "workout2"];
+
+export const DEFAULT_MIN_WORKOUT_MINUTES = 10;
+export const DEFAULT_MERGE_GAP_MINUTES = 0; // Merging is off unless configured
+
+// One or more back-to-back Health workouts treated as a single session
+export type WorkoutSession = {
+  ids: string[];
+  activityName: string;
+  duration: number; // minutes
+  calories: number;
+  distance?: number; // meters
+  startDate: string;
+  endDate: string;
+  isOutdoor: boolean;
+};
+
+// Health workout ids the user assigned to each slot. An empty array keeps Health
+// workouts out of the slot (for manual entries); a missing slot is automatic.
+export type WorkoutSlotOverrides = Partial<Record<WorkoutSlot, string[]>>;
+
+export type WorkoutAssignment = Record<WorkoutSlot, WorkoutSession | null> & {
+  ignored: WorkoutData[]; // Sessions under the minimum length
+};
+
+export function getWorkoutAssignmentSettings(challenge: Challenge) {
+  return {
+    minMinutes: challenge.workoutMinMinutes ?? DEFAULT_MIN_WORKOUT_MINUTES,
+    mergeGapMinutes: challenge.workoutMergeGapMinutes ?? DEFAULT_MERGE_GAP_MINUTES,
+  };
+}
+
+/**
+ * Parse the manual slot assignments stored on a daily log
+ */
+export function parseWorkoutOverrides(log: DailyLog | null | undefined): WorkoutSlotOverrides {
+  if (!log?.workoutOverrides) return {};
+  try {
+    const parsed = JSON.parse(log.workoutOverrides);
+    const overrides: WorkoutSlotOverrides = {};
+    WORKOUT_SLOTS.forEach(slot => {
+      if (Array.isArray(parsed?.[slot])) {
+        overrides[slot] = parsed[slot].filter((id: unknown): id is string => typeof id === "string");
+      }
+    });
+    return overrides;
+  } catch (err) {
+    console.error("Failed to parse workout overrides:", err);
+    return {};
+  }
+}
+
+export function serializeWorkoutOverrides(overrides: WorkoutSlotOverrides): string {
+  return JSON.stringify(overrides);
+}
+
+/**
+ * Combine Health workouts into a single session
+ */
+function toSession(workouts: WorkoutData[]): WorkoutSession {
+  const outdoorMinutes = workouts.filter(w => w.isOutdoor).reduce((sum, w) => sum + w.duration, 0);
+  const duration = workouts.reduce((sum, w) => sum + w.duration, 0);
+  const distance = workouts.reduce((sum, w) => sum + (w.distance ?? 0), 0);
+
+  return {
+    ids: workouts.map(w => w.id),
+    activityName: Array.from(new Set(workouts.map(w => w.activityName))).join(" + "),
+    duration,
+    calories: workouts.reduce((sum, w) => sum + (w.calories ?? 0), 0),
+    distance: distance > 0 ? distance : undefined,
+    startDate: workouts[0].startDate,
+    endDate: workouts[workouts.length - 1].endDate,
+    // A merged session counts as outdoor when most of it was outside
+    isOutdoor: outdoorMinutes * 2 >= duration && outdoorMinutes > 0,
+  };
+}
+
+/**
+ * Group workouts that start within `gapMinutes` of the previous one ending
+ */
+function groupBackToBack(sorted: WorkoutData[], gapMinutes: number): WorkoutData[][] {
+  const groups: WorkoutData[][] = [];
+  sorted.forEach(workout => {
+    const current = groups[groups.length - 1];
+    const previous = current?.[current.length - 1];
+    if (
+      previous &&
+      gapMinutes > 0 &&
+      differenceInMinutes(parseISO(workout.startDate), parseISO(previous.endDate)) <= gapMinutes
+    ) {
+      current.push(workout);
+    } else {
+      groups.push([workout]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Pick the best session: one that meets the goal, then the earliest
+ */
+function pickBest(candidates: WorkoutSession[], goalMinutes: number): WorkoutSession | null {
+  const meetsGoal = candidates.filter(s => Math.round(s.duration) >= goalMinutes);
+  if (meetsGoal.length > 0) return meetsGoal[0];
+  // Nothing meets the goal - take the longest so a warm-up doesn't win
+  return [...candidates].sort((a, b) => b.duration - a.duration)[0] ?? null;
+}
+
+/**
+ * Assign a day's Health workouts to the challenge's workout slots. Manual
+ * overrides win; remaining workouts are merged (if enabled), short sessions are
+ * ignored, and when both slots are tracked Workout 1 prefers an outdoor session
+ * that meets the goal - or any outdoor session if the challenge requires one.
+ */
+export function assignWorkoutsToSlots(
+  workouts: WorkoutData[],
+  challenge: Challenge,
+  overrides: WorkoutSlotOverrides = {}
+): WorkoutAssignment {
+  const { minMinutes, mergeGapMinutes } = getWorkoutAssignmentSettings(challenge);
+  const goalMinutes = challenge.workoutMinutes || 45;
+  const sorted = [...workouts].sort(
+    (a, b) => parseISO(a.startDate).getTime() - parseISO(b.startDate).getTime()
+  );
+  const assignment: WorkoutAssignment = { workout1: null, workout2: null, ignored: [] };
+  const tracked: Record<WorkoutSlot, boolean> = {
+    workout1: challenge.trackWorkout1,
+    workout2: challenge.trackWorkout2,
+  };
+
+  // Manual overrides - skipped if none of their workouts exist any more
+  const overriddenIds = new Set<string>();
+  const autoSlots: WorkoutSlot[] = [];
+  WORKOUT_SLOTS.forEach(slot => {
+    if (!tracked[slot]) return;
+    const ids = overrides[slot];
+    const assigned = ids ? sorted.filter(w => ids.includes(w.id)) : [];
+    if (ids && (ids.length === 0 || assigned.length > 0)) {
+      assignment[slot] = assigned.length > 0 ? toSession(assigned) : null;
+      assigned.forEach(w => overriddenIds.add(w.id));
+    } else {
+      autoSlots.push(slot);
+    }
+  });
+
+  // Everything else is assigned automatically
+  let candidates: WorkoutSession[] = [];
+  groupBackToBack(sorted.filter(w => !overriddenIds.has(w.id)), mergeGapMinutes).forEach(group => {
+    const session = toSession(group);
+    if (session.duration < minMinutes) {
+      assignment.ignored.push(...group);
+    } else {
+      candidates.push(session);
+    }
+  });
+
+  autoSlots.forEach(slot => {
+    const preferOutdoor = slot === "workout1" && tracked.workout2;
+    const outdoor = preferOutdoor ? pickBest(candidates.filter(s => s.isOutdoor), goalMinutes) : null;
+    // A short outdoor session would only cost a slot that an indoor one could pass
+    const useOutdoor = outdoor && (challenge.requireOutdoorWorkout || Math.round(outdoor.duration) >= goalMinutes);
+    const session = useOutdoor ? outdoor : pickBest(candidates, goalMinutes);
+    assignment[slot] = session;
+    candidates = candidates.filter(s => s !== session);
+  });
+
+  return assignment;
+}
@@ -0,0 +1,126 @@
+import type { Challenge, DailyLog } from "@/types/type";
+import { differenceInMinutes, parseISO } from "date-fns";
+
+// Details stored per workout slot in DailyLog.workoutDetails (manual and Health-synced)
+export type WorkoutSlotDetails = {
+  type: string;
+  notes: string;
+  syncedFromHealth: boolean;
+  syncedToHealth?: boolean;
+  activityName?: string;
+  calories?: number;
+  distance?: string;
+  isOutdoor?: boolean;
+  startTime?: string; // ISO
+  endTime?: string; // ISO
+};
+
+export type WorkoutDetailsData = {
+  workout1?: WorkoutSlotDetails;
+  workout2?: WorkoutSlotDetails;
+};
+
+export type WorkoutRuleId = "workout_outdoor" | "workout_separation";
+
+export type WorkoutRuleStatus = {
+  id: WorkoutRuleId;
+  label: string;
+  completed: boolean;
+  explanation?: string; // Why the rule isn't met yet
+};
+
+/**
+ * Parse workout details from the JSON string stored on a daily log
+ */
+export function parseWorkoutDetails(detailsString?: string): WorkoutDetailsData {
+  if (!detailsString) {
+    return {};
+  }
+  try {
+    return JSON.parse(detailsString);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Workout rules only apply when both workouts are tracked
+ */
+export function hasWorkoutRules(challenge: Challenge): boolean {
+  return (
+    challenge.trackWorkout1 &&
+    challenge.trackWorkout2 &&
+    (!!challenge.requireOutdoorWorkout || (challenge.workoutSeparationHours ?? 0) > 0)
+  );
+}
+
+/**
+ * Minutes between the end of the earlier workout and the start of the later one.
+ * Null if either workout is missing its times.
+ */
+export function getWorkoutGapMinutes(details: WorkoutDetailsData): number | null {
+  const { workout1, workout2 } = details;
+  if (!workout1?.startTime || !workout1.endTime || !workout2?.startTime || !workout2.endTime) {
+    return null;
+  }
+
+  const [first, second] = [workout1, workout2].sort(
+    (a, b) => parseISO(a.startTime!).getTime() - parseISO(b.startTime!).getTime()
+  );
+  return differenceInMinutes(parseISO(second.startTime!), parseISO(first.endTime!));
+}
+
+function formatGap(minutes: number): string {
+  const hours = Math.floor(Math.max(minutes, 0) / 60);
+  const mins = Math.max(minutes, 0) % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+}
+
+/**
+ * Check the challenge's workout rules against a day's log
+ */
+export function getWorkoutRuleStatuses(challenge: Challenge, log: DailyLog | null): WorkoutRuleStatus[] {
+  if (!hasWorkoutRules(challenge)) return [];
+
+  const statuses: WorkoutRuleStatus[] = [];
+  const details = parseWorkoutDetails(log?.workoutDetails);
+  const logged = [
+    (log?.workout1Minutes ?? 0) > 0 ? details.workout1 : undefined,
+    (log?.workout2Minutes ?? 0) > 0 ? details.workout2 : undefined,
+  ];
+
+  if (challenge.requireOutdoorWorkout) {
+    const hasOutdoor = logged.some(workout => workout?.isOutdoor === true);
+    const loggedCount = logged.filter(Boolean).length;
+    statuses.push({
+      id: "workout_outdoor",
+      label: "Outdoor Workout",
+      completed: hasOutdoor,
+      explanation: hasOutdoor
+        ? undefined
+        : loggedCount === 2
+          ? "Both workouts were indoors - one needs to be outdoors"
+          : "One of your workouts needs to be outdoors",
+    });
+  }
+
+  const separationHours = challenge.workoutSeparationHours ?? 0;
+  if (separationHours > 0) {
+    const bothLogged = logged.every(Boolean);
+    const gap = bothLogged ? getWorkoutGapMinutes(details) : null;
+    // Workouts without times (older logs) can't be checked, so they pass
+    const completed = bothLogged && (gap === null || gap >= separationHours * 60);
+    statuses.push({
+      id: "workout_separation",
+      label: `Workouts ${separationHours}h Apart`,
+      completed,
+      explanation: completed
+        ? undefined
+        : bothLogged && gap !== null
+          ? `Only ${formatGap(gap)} between workouts - they need to be ${separationHours} hours apart`
+          : `Log both workouts at least ${separationHours} hours apart`,
+    });
+  }
+
+  return statuses;
+}
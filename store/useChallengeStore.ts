@@ -1,24 +1,55 @@
+import { BADGES } from "@/constants/badges";
 import {
     createActivityLog,
     createChallenge,
     createDailyLog,
+    createUserBadge,
     deleteActivityLog,
     getActivityLogsForChallenge,
-    getActivityLogsForDate,
     getChallenge,
     getDailyLog,
+    getActivityLogsUpdatedSince,
     getDailyLogsForChallenge,
+    getUserBadges,
+    PAGE_SIZE,
+    updateActivityLog,
     updateChallenge,
     updateDailyLog
 } from "@/lib/appwrite";
-import { isDayComplete } from "@/lib/dayCompletion";
+import { buildBadgeContext, evaluateBadges } from "@/lib/badgeEngine";
+import { getTodayDate, getTodayKey, toDayKey } from "@/lib/dayBoundary";
+import { isDayComplete, withTodayLog } from "@/lib/dayCompletion";
+import { buildGoalHistory, getGoalsForDate } from "@/lib/goalHistory";
+import { HealthResyncChange, HealthResyncPlan, planHealthResync } from "@/lib/healthResync";
 import { NotificationService } from "@/lib/notifications";
+import {
+    applyPendingChanges,
+    createLocalId,
+    enqueueLogUpdate,
+    isLocalId,
+    isNetworkError,
+    PendingChange,
+    remapLogId,
+    resolveFieldConflicts,
+} from "@/lib/offlineQueue";
+import { hasProgressPhoto } from "@/lib/progressPhotos";
 import { captureException, logger } from "@/lib/sentry";
+import {
+    getFreezeBlocker,
+    getFrozenDays,
+    getRestDayBlocker,
+    getRestDays,
+    serializeDates,
+} from "@/lib/streakFreezes";
+import { buildRestartedChallenge, findStrictModeFailure, StrictModeFailure } from "@/lib/strictMode";
 import { useNotificationStore } from "@/store/useNotificationStore";
-import type { ActivityLog, ActivityType, Challenge, DailyLog } from "@/types/type";
-import { format } from "date-fns";
-import { Platform } from "react-native";
+import { useReportStore } from "@/store/useReportStore";
+import type { ActivityLog, ActivityType, Badge, Challenge, DailyLog, UserBadge } from "@/types/type";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { format, subDays } from "date-fns";
+import { AppState, Platform } from "react-native";
 import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
 
 type ChallengeState = {
   challenge: Challenge | null;
@@ -27,43 +58,204 @@ type ChallengeState = {
   activityLogs: ActivityLog[];
   isLoading: boolean;
   error: string | null;
+  // Offline queue - changes waiting to be written to Appwrite
+  pendingChanges: PendingChange[];
+  isSyncingPending: boolean;
+  // Incremental sync - newest log $updatedAt already fetched for the challenge,
+  // and when every log was last refetched to drop ones deleted elsewhere
+  logsSyncCursor: { challengeId: string; updatedAt: string; fullSyncAt?: string } | null;
+  hasMoreActivityLogs: boolean;
+  isLoadingMoreActivity: boolean;
+  // Badges saved to the account, loaded once per session before new ones are awarded
+  userBadges: UserBadge[];
+  userBadgesLoaded: boolean;
 
   // Actions
   fetchChallenge: (userId: string) => Promise<void>;
   saveChallenge: (challenge: Omit<Challenge, "$id">) => Promise<Challenge>;
   editChallenge: (challengeId: string, data: Partial<Challenge>) => Promise<void>;
+  spendStreakFreeze: (date: string) => Promise<void>;
+  setRestDay: (date: string, planned: boolean) => Promise<void>;
   fetchTodayLog: (challengeId: string) => Promise<void>;
   toggleTask: (taskKey: keyof DailyLog, value: boolean) => Promise<void>;
   updateProgress: (progressData: Partial<DailyLog>) => Promise<void>;
   fetchAllLogs: (challengeId: string) => Promise<void>;
-  fetchActivityLogs: (challengeId: string) => Promise<void>;
+  // Fetches new activity since the last call; `refresh` reloads the first page
+  fetchActivityLogs: (challengeId: string, refresh?: boolean) => Promise<void>;
+  loadMoreActivityLogs: (challengeId: string) => Promise<void>;
+  // Strict mode - fail the attempt on a missed day and restart on Day 1
+  checkStrictMode: () => Promise<StrictModeFailure | null>;
+  restartChallenge: () => Promise<Challenge>;
   logActivity: (activity: {
     type: ActivityType;
     title: string;
     description: string;
     value?: number;
     unit?: string;
+    customTaskId?: string;
   }) => Promise<void>;
   syncHealthData: () => Promise<void>;
   resyncHealthDataForDate: (date: Date, logId: string, logCallback?: (message: string) => void) => Promise<void>;
+  applyHealthResync: (plan: HealthResyncPlan, changes: HealthResyncChange[], logCallback?: (message: string) => void) => Promise<void>;
   deleteActivityLogById: (logId: string) => Promise<void>;
   clearChallenge: () => void;
+  syncPendingChanges: () => Promise<void>;
   // Helper for photo completion checking
   isPhotoCompletedWithinDays: (days: number) => boolean;
+  fetchUserBadges: (userId: string) => Promise<void>;
+  awardBadges: () => Promise<void>;
 };
 
-const getTodayDateString = () => {
-  const today = new Date();
-  return today.toISOString().split("T")[0];
-};
+/**
+ * Newest Appwrite timestamp in a list of documents
+ */
+function latestTimestamp(documents: { $updatedAt?: string; $createdAt?: string }[], key: "$updatedAt" | "$createdAt") {
+  return documents.reduce<string | null>((latest, doc) => {
+    const value = doc[key];
+    return value && (!latest || value > latest) ? value : latest;
+  }, null);
+}
+
+/**
+ * Merge fetched documents into a list, replacing any with the same $id
+ */
+function mergeById<T extends { $id?: string }>(existing: T[], fetched: T[]): T[] {
+  const fetchedIds = new Set(fetched.map(doc => doc.$id));
+  return [...fetched, ...existing.filter(doc => !fetchedIds.has(doc.$id))];
+}
+
+const RETRY_SYNC_MS = 30000;
+// Incremental syncs can't see deleted logs, so refetch everything this often
+const FULL_LOG_SYNC_MS = 24 * 60 * 60 * 1000;
+let retrySyncTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Badge evaluation runs one at a time; changes made meanwhile trigger another pass
+let isAwardingBadges = false;
+let awardBadgesAgain = false;
+
+/**
+ * A day's log with nothing done yet
+ */
+function createEmptyDailyLog(userId: string, challengeId: string, date: string): Omit<DailyLog, "$id"> {
+  return {
+    userId,
+    challengeId,
+    date,
+    stepsCompleted: false,
+    stepsCount: 0,
+    waterCompleted: false,
+    waterLiters: 0,
+    dietCompleted: false,
+    caloriesConsumed: 0,
+    currentWeight: 0,
+    workout1Completed: false,
+    workout1Minutes: 0,
+    workout2Completed: false,
+    workout2Minutes: 0,
+    readingCompleted: false,
+    readingPages: 0,
+    progressPhotoCompleted: false,
+    noAlcoholCompleted: false,
+    skincareCompleted: false,
+    meals: "",
+  };
+}
+
+/**
+ * Notify once per day when the day's tasks are all done
+ */
+async function notifyIfDayComplete(challenge: Challenge, log: DailyLog, allLogs: DailyLog[]) {
+  if (!isDayComplete(challenge, log, allLogs)) return;
+
+  const notificationStore = useNotificationStore.getState();
+  const today = getTodayKey();
+  const wasNotified = notificationStore.hasNotifiedDayComplete(today);
+  if (!wasNotified) {
+    notificationStore.markDayCompleteNotified(today);
+    await NotificationService.notifyDayComplete();
+    // Add to in-app notification tray
+    notificationStore.addNotification({
+      type: "day_complete",
+      title: "✅ Day Complete!",
+      body: "Amazing work! You completed all your tasks today!",
+      icon: "check-circle",
+      color: "#10B981",
+    });
+  }
+}
+
+/**
+ * Write changes to today's log, queueing them if the device is offline.
+ * Returns the log as it now stands locally.
+ */
+async function saveTodayLogChanges(todayLog: DailyLog, changes: Partial<DailyLog>): Promise<DailyLog> {
+  const { getState, setState } = useChallengeStore;
+  const optimistic = { ...todayLog, ...changes };
+  setState({ todayLog: optimistic });
 
-export const useChallengeStore = create<ChallengeState>((set, get) => ({
+  // Keep writes in order behind anything already queued
+  if (getState().pendingChanges.length > 0 || isLocalId(todayLog.$id)) {
+    setState({ pendingChanges: enqueueLogUpdate(getState().pendingChanges, todayLog, changes) });
+    getState().syncPendingChanges();
+    return optimistic;
+  }
+
+  try {
+    const updated = await updateDailyLog(todayLog.$id!, changes);
+    setState({ todayLog: updated });
+    return updated;
+  } catch (err) {
+    if (!isNetworkError(err)) {
+      // Rollback on error
+      setState({ todayLog });
+      throw err;
+    }
+    logger.info("Offline - queued daily log update", { logId: todayLog.$id, fields: Object.keys(changes).join(", ") });
+    setState({ pendingChanges: enqueueLogUpdate(getState().pendingChanges, todayLog, changes) });
+    scheduleSyncRetry();
+    return optimistic;
+  }
+}
+
+// Try the queue again later while the device stays offline
+function scheduleSyncRetry() {
+  if (retrySyncTimer) return;
+  retrySyncTimer = setTimeout(() => {
+    retrySyncTimer = null;
+    useChallengeStore.getState().syncPendingChanges();
+  }, RETRY_SYNC_MS);
+}
+
+/**
+ * Start a daily log on the device, to be created in Appwrite once back online
+ */
+function createLocalDailyLog(data: Omit<DailyLog, "$id">): DailyLog {
+  const { getState, setState } = useChallengeStore;
+  const localId = createLocalId();
+  setState({
+    pendingChanges: [
+      ...getState().pendingChanges,
+      { id: createLocalId(), kind: "createDailyLog", localId, data, updatedAt: new Date().toISOString() },
+    ],
+  });
+  scheduleSyncRetry();
+  return { $id: localId, ...data };
+}
+
+export const useChallengeStore = create<ChallengeState>()(persist((set, get) => ({
   challenge: null,
   todayLog: null,
   allLogs: [],
   activityLogs: [],
   isLoading: false,
   error: null,
+  pendingChanges: [],
+  isSyncingPending: false,
+  logsSyncCursor: null,
+  hasMoreActivityLogs: false,
+  isLoadingMoreActivity: false,
+  userBadges: [],
+  userBadgesLoaded: false,
 
   fetchChallenge: async (userId: string) => {
     set({ isLoading: true, error: null });
@@ -71,6 +263,10 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
       const challenge = await getChallenge(userId);
       set({ challenge, isLoading: false });
 
+      if (!get().userBadgesLoaded) {
+        get().fetchUserBadges(userId);
+      }
+
       // If we have a challenge, fetch today's log
       if (challenge?.$id) {
         await get().fetchTodayLog(challenge.$id);
@@ -100,7 +296,10 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
   editChallenge: async (challengeId: string, data: Partial<Challenge>) => {
     set({ isLoading: true, error: null });
     try {
-      const updated = await updateChallenge(challengeId, data);
+      // Record goal changes with an effective date so past days keep their goals
+      const { challenge } = get();
+      const goalHistory = challenge?.$id === challengeId ? buildGoalHistory(challenge, data) : undefined;
+      const updated = await updateChallenge(challengeId, goalHistory ? { ...data, goalHistory } : data);
       set({ challenge: updated, isLoading: false });
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Failed to update challenge";
@@ -110,42 +309,81 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
     }
   },
 
+  spendStreakFreeze: async (date: string) => {
+    const { challenge, allLogs, todayLog } = get();
+    if (!challenge?.$id) return;
+
+    const blocker = getFreezeBlocker(challenge, date, withTodayLog(allLogs, todayLog));
+    if (blocker) throw new Error(blocker);
+
+    try {
+      const frozenDays = serializeDates([...getFrozenDays(challenge), date]);
+      const updated = await updateChallenge(challenge.$id, { frozenDays });
+      set({ challenge: updated });
+      logger.info("Streak freeze used", { challengeId: challenge.$id, date });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to use streak freeze";
+      captureException(err instanceof Error ? err : new Error(errorMsg));
+      throw err;
+    }
+  },
+
+  setRestDay: async (date: string, planned: boolean) => {
+    const { challenge } = get();
+    if (!challenge?.$id) return;
+
+    if (planned) {
+      const blocker = getRestDayBlocker(challenge, date);
+      if (blocker) throw new Error(blocker);
+    }
+
+    try {
+      const existing = getRestDays(challenge).filter(day => day !== date);
+      const restDays = serializeDates(planned ? [...existing, date] : existing);
+      const updated = await updateChallenge(challenge.$id, { restDays });
+      set({ challenge: updated });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to update rest day";
+      captureException(err instanceof Error ? err : new Error(errorMsg));
+      throw err;
+    }
+  },
+
   fetchTodayLog: async (challengeId: string) => {
-    const today = getTodayDateString();
+    const today = getTodayKey();
+    const { challenge } = get();
+    const emptyLog = createEmptyDailyLog(challenge?.userId ?? "", challengeId, today);
+
+    // Replay queued changes first so the server copy is current
+    await get().syncPendingChanges();
+
+    // Today's log was started offline and is still waiting to be created
+    const queuedLog = get().pendingChanges.find(
+      change => change.kind === "createDailyLog" && change.data.challengeId === challengeId && change.data.date === today
+    );
+    if (queuedLog?.kind === "createDailyLog") {
+      const localLog = { $id: queuedLog.localId, ...queuedLog.data };
+      set({ todayLog: applyPendingChanges(localLog, get().pendingChanges) });
+      return;
+    }
+
     try {
       let log = await getDailyLog(challengeId, today);
 
       // If no log exists for today, create one
-      if (!log) {
-        const { challenge } = get();
-        if (challenge) {
-          log = await createDailyLog({
-            userId: challenge.userId,
-            challengeId,
-            date: today,
-            stepsCompleted: false,
-            stepsCount: 0,
-            waterCompleted: false,
-            waterLiters: 0,
-            dietCompleted: false,
-            caloriesConsumed: 0,
-            currentWeight: 0,
-            workout1Completed: false,
-            workout1Minutes: 0,
-            workout2Completed: false,
-            workout2Minutes: 0,
-            readingCompleted: false,
-            readingPages: 0,
-            progressPhotoCompleted: false,
-            noAlcoholCompleted: false,
-            skincareCompleted: false,
-            meals: "",
-          }, challenge.userId);
-        }
+      if (!log && challenge) {
+        log = await createDailyLog(emptyLog, challenge.userId);
       }
 
-      set({ todayLog: log });
+      set({ todayLog: log ? applyPendingChanges(log, get().pendingChanges) : log });
     } catch (err) {
+      // Offline on a new day - start today's log on the device
+      if (isNetworkError(err)) {
+        if (challenge && get().todayLog?.date !== today) {
+          set({ todayLog: createLocalDailyLog(emptyLog) });
+        }
+        return;
+      }
       const errorMsg = err instanceof Error ? err.message : "Failed to fetch today's log";
       captureException(err instanceof Error ? err : new Error(errorMsg));
       console.error("fetchTodayLog error:", err);
@@ -157,34 +395,14 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
 
     if (!todayLog?.$id || !challenge) return;
 
-    // Optimistic update
-    set({ todayLog: { ...todayLog, [taskKey]: value } });
-
     try {
-      const updated = await updateDailyLog(todayLog.$id, { [taskKey]: value });
-      set({ todayLog: updated });
-      
+      const updated = await saveTodayLogChanges(todayLog, { [taskKey]: value });
+
       // Check if day is now complete after this toggle
-      if (value && isDayComplete(challenge, updated, allLogs)) {
-        const notificationStore = useNotificationStore.getState();
-        const today = new Date().toISOString().split("T")[0];
-        const wasNotified = notificationStore.hasNotifiedDayComplete(today);
-        if (!wasNotified) {
-          notificationStore.markDayCompleteNotified(today);
-          await NotificationService.notifyDayComplete();
-          // Add to in-app notification tray
-          notificationStore.addNotification({
-            type: "day_complete",
-            title: "✅ Day Complete!",
-            body: "Amazing work! You completed all your tasks today!",
-            icon: "check-circle",
-            color: "#10B981",
-          });
-        }
+      if (value) {
+        await notifyIfDayComplete(challenge, updated, allLogs);
       }
     } catch (err) {
-      // Rollback on error
-      set({ todayLog });
       const errorMsg = err instanceof Error ? err.message : "Failed to update task";
       captureException(err instanceof Error ? err : new Error(errorMsg));
       throw err;
@@ -196,34 +414,12 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
 
     if (!todayLog?.$id || !challenge) return;
 
-    // Optimistic update
-    set({ todayLog: { ...todayLog, ...progressData } });
-
     try {
-      const updated = await updateDailyLog(todayLog.$id, progressData);
-      set({ todayLog: updated });
-      
+      const updated = await saveTodayLogChanges(todayLog, progressData);
+
       // Check if day is now complete after this progress update
-      if (isDayComplete(challenge, updated, allLogs)) {
-        const notificationStore = useNotificationStore.getState();
-        const today = new Date().toISOString().split("T")[0];
-        const wasNotified = notificationStore.hasNotifiedDayComplete(today);
-        if (!wasNotified) {
-          notificationStore.markDayCompleteNotified(today);
-          await NotificationService.notifyDayComplete();
-          // Add to in-app notification tray
-          notificationStore.addNotification({
-            type: "day_complete",
-            title: "✅ Day Complete!",
-            body: "Amazing work! You completed all your tasks today!",
-            icon: "check-circle",
-            color: "#10B981",
-          });
-        }
-      }
+      await notifyIfDayComplete(challenge, updated, allLogs);
     } catch (err) {
-      // Rollback on error
-      set({ todayLog });
       const errorMsg = err instanceof Error ? err.message : "Failed to update progress";
       captureException(err instanceof Error ? err : new Error(errorMsg));
       throw err;
@@ -232,8 +428,43 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
 
   fetchAllLogs: async (challengeId: string) => {
     try {
-      const logs = await getDailyLogsForChallenge(challengeId);
-      set({ allLogs: logs });
+      // Only fetch logs changed since the last sync when the cache is for this
+      // challenge and has been fully refreshed recently
+      const { logsSyncCursor } = get();
+      const fullSyncAt = logsSyncCursor?.challengeId === challengeId ? logsSyncCursor.fullSyncAt : undefined;
+      const isIncremental = !!fullSyncAt && Date.now() - Date.parse(fullSyncAt) < FULL_LOG_SYNC_MS;
+      const since = isIncremental ? logsSyncCursor?.updatedAt : undefined;
+      const fetched = await getDailyLogsForChallenge(challengeId, since);
+      const cached = since
+        ? get().allLogs.filter(log => log.challengeId === challengeId && !isLocalId(log.$id))
+        : [];
+      const logs = mergeById(cached, fetched).sort((a, b) => b.date.localeCompare(a.date));
+
+      const { pendingChanges } = get();
+      // Keep unsynced edits and logs created offline
+      const localLogs = pendingChanges.flatMap(change =>
+        change.kind === "createDailyLog" && change.data.challengeId === challengeId
+          ? [{ $id: change.localId, ...change.data }]
+          : []
+      );
+      const updatedAt = latestTimestamp(logs, "$updatedAt");
+      set({
+        allLogs: [...logs, ...localLogs].map(log => applyPendingChanges(log, pendingChanges)),
+        logsSyncCursor: updatedAt
+          ? { challengeId, updatedAt, fullSyncAt: since ? fullSyncAt : new Date().toISOString() }
+          : null,
+      });
+
+      // Enforce strict mode now that we have the full log history
+      if (get().challenge?.$id === challengeId) {
+        await get().checkStrictMode();
+
+        // Write up any weeks or months that have ended
+        const { challenge, todayLog, activityLogs } = get();
+        if (challenge) {
+          await useReportStore.getState().generateReports(challenge, withTodayLog(get().allLogs, todayLog), activityLogs);
+        }
+      }
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Failed to fetch logs";
       captureException(err instanceof Error ? err : new Error(errorMsg));
@@ -241,10 +472,31 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
     }
   },
 
-  fetchActivityLogs: async (challengeId: string) => {
+  fetchActivityLogs: async (challengeId: string, refresh = false) => {
     try {
-      const logs = await getActivityLogsForChallenge(challengeId);
-      set({ activityLogs: logs });
+      const cached = get().activityLogs.filter(log => log.challengeId === challengeId && !isLocalId(log.$id));
+      const updatedSince = refresh ? null : latestTimestamp(cached, "$updatedAt");
+
+      let logs: ActivityLog[];
+      if (updatedSince) {
+        // Older pages are already loaded - add what's new and refresh past-day edits.
+        // Edits to logs on pages not loaded yet arrive with those pages.
+        const oldestLoaded = cached[cached.length - 1]?.$createdAt ?? "";
+        const changed = (await getActivityLogsUpdatedSince(challengeId, updatedSince))
+          .filter(log => !get().hasMoreActivityLogs || (log.$createdAt ?? "") >= oldestLoaded);
+        logs = mergeById(cached, changed).sort((a, b) => (b.$createdAt ?? "").localeCompare(a.$createdAt ?? ""));
+      } else {
+        logs = await getActivityLogsForChallenge(challengeId);
+        set({ hasMoreActivityLogs: logs.length === PAGE_SIZE });
+      }
+
+      // Activity logged offline stays at the top until it's synced
+      const localLogs = get().pendingChanges.flatMap(change =>
+        change.kind === "createActivityLog" && change.data.challengeId === challengeId
+          ? [{ $id: change.localId, ...change.data }]
+          : []
+      );
+      set({ activityLogs: [...localLogs.reverse(), ...logs] });
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Failed to fetch activity logs";
       captureException(err instanceof Error ? err : new Error(errorMsg));
@@ -252,35 +504,150 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
     }
   },
 
+  loadMoreActivityLogs: async (challengeId: string) => {
+    const { hasMoreActivityLogs, isLoadingMoreActivity, activityLogs } = get();
+    if (!hasMoreActivityLogs || isLoadingMoreActivity) return;
+
+    const synced = activityLogs.filter(log => log.challengeId === challengeId && !isLocalId(log.$id));
+    const cursor = synced[synced.length - 1]?.$id;
+    if (!cursor) return;
+
+    set({ isLoadingMoreActivity: true });
+    try {
+      const page = await getActivityLogsForChallenge(challengeId, cursor);
+      const loadedIds = new Set(get().activityLogs.map(log => log.$id));
+      set({
+        activityLogs: [...get().activityLogs, ...page.filter(log => !loadedIds.has(log.$id))],
+        hasMoreActivityLogs: page.length === PAGE_SIZE,
+      });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to load more activity logs";
+      captureException(err instanceof Error ? err : new Error(errorMsg));
+      console.error("loadMoreActivityLogs error:", err);
+    } finally {
+      set({ isLoadingMoreActivity: false });
+    }
+  },
+
+  checkStrictMode: async () => {
+    const { challenge, allLogs } = get();
+    if (!challenge?.$id) return null;
+
+    const failure = findStrictModeFailure(challenge, allLogs);
+    if (!failure) return null;
+
+    try {
+      const updated = await updateChallenge(challenge.$id, {
+        status: "failed",
+        failedDate: failure.date,
+        failureReason: failure.reason,
+      });
+      set({ challenge: updated });
+
+      logger.info("Strict mode challenge failed", {
+        challengeId: challenge.$id,
+        failedDate: failure.date,
+        missedTasks: failure.missedTasks.join(", "),
+      });
+
+      useNotificationStore.getState().addNotification({
+        type: "challenge_failed",
+        title: "❌ Challenge Reset",
+        body: `${failure.reason}. Restart on Day 1 when you're ready.`,
+        icon: "rotate-ccw",
+        color: "#EF4444",
+      });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to archive failed challenge";
+      captureException(err instanceof Error ? err : new Error(errorMsg));
+      console.error("checkStrictMode error:", err);
+    }
+
+    return failure;
+  },
+
+  restartChallenge: async () => {
+    const { challenge } = get();
+    if (!challenge?.$id) {
+      throw new Error("No challenge to restart");
+    }
+
+    set({ isLoading: true, error: null });
+    try {
+      const restarted = await createChallenge(buildRestartedChallenge(challenge));
+      logger.info("Challenge restarted", {
+        challengeId: restarted.$id,
+        previousAttemptId: challenge.$id,
+        attemptNumber: restarted.attemptNumber,
+      });
+      set({
+        challenge: restarted,
+        todayLog: null,
+        allLogs: [],
+        activityLogs: [],
+        logsSyncCursor: null,
+        hasMoreActivityLogs: false,
+        isLoading: false,
+      });
+
+      if (restarted.$id) {
+        await get().fetchTodayLog(restarted.$id);
+      }
+      return restarted;
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to restart challenge";
+      captureException(err instanceof Error ? err : new Error(errorMsg));
+      set({ error: errorMsg, isLoading: false });
+      throw err;
+    }
+  },
+
   logActivity: async (activity) => {
     const { challenge, activityLogs } = get();
-    
+
     if (!challenge?.$id) {
       console.log("logActivity: No challenge available");
       return;
     }
 
+    const data: Omit<ActivityLog, "$id"> = {
+      userId: challenge.userId,
+      challengeId: challenge.$id,
+      type: activity.type,
+      title: activity.title,
+      description: activity.description,
+      value: activity.value,
+      unit: activity.unit,
+      date: getTodayKey(),
+      ...(activity.customTaskId && { customTaskId: activity.customTaskId }),
+    };
+
     try {
-      const newLog = await createActivityLog({
-        userId: challenge.userId,
-        challengeId: challenge.$id,
-        type: activity.type,
-        title: activity.title,
-        description: activity.description,
-        value: activity.value,
-        unit: activity.unit,
-        date: getTodayDateString(),
-      });
-      
+      const newLog = await createActivityLog(data);
+  
       // Add to local state (prepend since it's newest)
       set({ activityLogs: [newLog, ...activityLogs] });
-      
+  
       logger.info("Activity logged", { 
         type: activity.type, 
         challengeId: challenge.$id,
         value: activity.value 
       });
     } catch (err) {
+      if (isNetworkError(err)) {
+        // Offline - show it now and create it once back online
+        const localId = createLocalId();
+        const createdAt = new Date().toISOString();
+        set({
+          activityLogs: [{ $id: localId, $createdAt: createdAt, ...data }, ...get().activityLogs],
+          pendingChanges: [
+            ...get().pendingChanges,
+            { id: createLocalId(), kind: "createActivityLog", localId, data: { ...data, $createdAt: createdAt }, updatedAt: createdAt },
+          ],
+        });
+        scheduleSyncRetry();
+        return;
+      }
       const errorMsg = err instanceof Error ? err.message : "Failed to log activity";
       captureException(err instanceof Error ? err : new Error(errorMsg));
       console.error("logActivity error:", err);
@@ -299,8 +666,6 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
       return;
     }
 
-    const challengeId = challenge.$id;
-
     // Only sync on iOS where Apple Health is available
     if (Platform.OS !== "ios") {
       log("⚠️ Resync only available on iOS");
@@ -308,440 +673,20 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
     }
 
     try {
-      const { healthService } = await import("@/lib/health");
-      
-      log(`📅 Fetching health data for ${format(date, 'MMM dd, yyyy')}...`);
-      
-      // Fetch workouts for the specific date
-      const workouts = await healthService.getWorkoutsForDate(date);
-      
-      log(`🏋️ Found ${workouts.length} workout(s)`);
-      if (workouts.length > 0) {
-        workouts.forEach((w, idx) => {
-          log(`  ${idx + 1}. ${w.activityName} (type: ${w.activityType}): ${w.duration} min, ${w.isOutdoor ? 'outdoor' : 'indoor'}`);
-        });
-      }
-
-      const updates: Partial<DailyLog> = {};
-      const activityLogsToCreate: Omit<ActivityLog, "$id">[] = [];
-      const activityLogsToUpdate: { id: string; data: Partial<ActivityLog> }[] = [];
-      const activityLogsToDelete: string[] = [];
+      // Read the log fresh so manual workout assignments are always respected
       const dateStr = format(date, 'yyyy-MM-dd');
-      
-      // Fetch existing workout activity logs for this date
-      const existingWorkout1Logs = await getActivityLogsForDate(challengeId, dateStr, 'workout1');
-      const existingWorkout2Logs = await getActivityLogsForDate(challengeId, dateStr, 'workout2');
-      
-      log(`📋 Found ${existingWorkout1Logs.length} existing workout1 log(s), ${existingWorkout2Logs.length} existing workout2 log(s)`);
-      
-      // Sync workout data
-      if (challenge.trackWorkout1 || challenge.trackWorkout2) {
-        const workoutGoalMinutes = challenge.workoutMinutes || 45;
-        
-        // Sort workouts by start time (earliest first)
-        const sortedWorkouts = [...workouts].sort(
-          (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
-        );
-
-        if (challenge.trackWorkout1 && challenge.trackWorkout2) {
-          // Tracking both workouts - 1:1 assignment
-          let workout1Minutes = 0;
-          let workout2Minutes = 0;
-          
-          // Simple 1:1 assignment: first workout → slot 1, second workout → slot 2
-          if (sortedWorkouts.length >= 1) {
-            workout1Minutes = Math.round(sortedWorkouts[0].duration);
-          }
-          if (sortedWorkouts.length >= 2) {
-            workout2Minutes = Math.round(sortedWorkouts[1].duration);
-          }
-          // If only 1 workout exists, workout2Minutes stays 0 (clears any incorrect assignment)
-          
-          log(`💪 Workout 1: ${workout1Minutes} min ${workout1Minutes >= workoutGoalMinutes ? '✅' : '❌'}`);
-          log(`💪 Workout 2: ${workout2Minutes} min ${workout2Minutes >= workoutGoalMinutes ? '✅' : '❌'}`);
-          
-          // Always update both - this ensures incorrect values get cleared
-          updates.workout1Minutes = workout1Minutes;
-          updates.workout1Completed = workout1Minutes >= workoutGoalMinutes;
-          updates.workout2Minutes = workout2Minutes;
-          updates.workout2Completed = workout2Minutes >= workoutGoalMinutes;
-          
-          // Build workoutDetails JSON with all Apple Health data
-          const workoutDetailsObj: Record<string, any> = {};
-          
-          if (workout1Minutes > 0 && sortedWorkouts.length >= 1) {
-            const w1 = sortedWorkouts[0];
-            const notesArr = [
-              w1.calories ? `${Math.round(w1.calories)} calories burned` : null,
-              w1.distance ? `${(w1.distance / 1000).toFixed(2)}km distance` : null,
-              w1.isOutdoor ? 'Outdoor workout' : 'Indoor workout',
-              `Started: ${format(new Date(w1.startDate), 'h:mm a')}`,
-              `Ended: ${format(new Date(w1.endDate), 'h:mm a')}`,
-            ].filter(Boolean).join(' • ');
-            
-            workoutDetailsObj.workout1 = {
-              type: w1.activityName.toLowerCase().replace(/\s+/g, '-'),
-              notes: notesArr,
-              syncedFromHealth: true,
-              activityName: w1.activityName,
-              calories: w1.calories ? Math.round(w1.calories) : undefined,
-              distance: w1.distance ? (w1.distance / 1000).toFixed(2) : undefined,
-              isOutdoor: w1.isOutdoor,
-              startTime: w1.startDate,
-              endTime: w1.endDate,
-            };
-            
-            // Manage workout1 activity log
-            const workout1LogData = {
-              userId: challenge.userId,
-              challengeId: challengeId,
-              type: 'workout1' as const,
-              title: `${w1.activityName} (Workout 1)`,
-              description: `${workout1Minutes} min - ${notesArr}`,
-              value: workout1Minutes,
-              unit: 'min',
-              date: dateStr,
-            };
-            
-            if (existingWorkout1Logs.length > 0) {
-              // Update existing log
-              activityLogsToUpdate.push({ id: existingWorkout1Logs[0].$id!, data: workout1LogData });
-            } else {
-              // Create new log
-              activityLogsToCreate.push(workout1LogData);
-            }
-          } else {
-            // No workout 1 - delete existing activity log if any
-            for (const existingLog of existingWorkout1Logs) {
-              if (existingLog.$id) {
-                activityLogsToDelete.push(existingLog.$id);
-              }
-            }
-          }
-          
-          if (workout2Minutes > 0 && sortedWorkouts.length >= 2) {
-            const w2 = sortedWorkouts[1];
-            const notesArr = [
-              w2.calories ? `${Math.round(w2.calories)} calories burned` : null,
-              w2.distance ? `${(w2.distance / 1000).toFixed(2)}km distance` : null,
-              w2.isOutdoor ? 'Outdoor workout' : 'Indoor workout',
-              `Started: ${format(new Date(w2.startDate), 'h:mm a')}`,
-              `Ended: ${format(new Date(w2.endDate), 'h:mm a')}`,
-            ].filter(Boolean).join(' • ');
-            
-            workoutDetailsObj.workout2 = {
-              type: w2.activityName.toLowerCase().replace(/\s+/g, '-'),
-              notes: notesArr,
-              syncedFromHealth: true,
-              activityName: w2.activityName,
-              calories: w2.calories ? Math.round(w2.calories) : undefined,
-              distance: w2.distance ? (w2.distance / 1000).toFixed(2) : undefined,
-              isOutdoor: w2.isOutdoor,
-              startTime: w2.startDate,
-              endTime: w2.endDate,
-            };
-            
-            // Manage workout2 activity log
-            const workout2LogData = {
-              userId: challenge.userId,
-              challengeId: challengeId,
-              type: 'workout2' as const,
-              title: `${w2.activityName} (Workout 2)`,
-              description: `${workout2Minutes} min - ${notesArr}`,
-              value: workout2Minutes,
-              unit: 'min',
-              date: dateStr,
-            };
-            
-            if (existingWorkout2Logs.length > 0) {
-              // Update existing log
-              activityLogsToUpdate.push({ id: existingWorkout2Logs[0].$id!, data: workout2LogData });
-            } else {
-              // Create new log
-              activityLogsToCreate.push(workout2LogData);
-            }
-          } else {
-            // No workout 2 - delete existing activity log if any
-            for (const existingLog of existingWorkout2Logs) {
-              if (existingLog.$id) {
-                activityLogsToDelete.push(existingLog.$id);
-              }
-            }
-          }
-          
-          // Update workoutDetails in the daily log
-          updates.workoutDetails = JSON.stringify(workoutDetailsObj);
-          
-        } else if (challenge.trackWorkout1) {
-          // Only tracking workout1
-          const workout1Minutes = sortedWorkouts.length >= 1 ? Math.round(sortedWorkouts[0].duration) : 0;
-          
-          log(`💪 Workout 1: ${workout1Minutes} min ${workout1Minutes >= workoutGoalMinutes ? '✅' : '❌'}`);
-          
-          updates.workout1Minutes = workout1Minutes;
-          updates.workout1Completed = workout1Minutes >= workoutGoalMinutes;
-          
-          if (workout1Minutes > 0 && sortedWorkouts.length >= 1) {
-            const w = sortedWorkouts[0];
-            const notesArr = [
-              w.calories ? `${Math.round(w.calories)} calories burned` : null,
-              w.distance ? `${(w.distance / 1000).toFixed(2)}km distance` : null,
-              w.isOutdoor ? 'Outdoor workout' : 'Indoor workout',
-              `Started: ${format(new Date(w.startDate), 'h:mm a')}`,
-              `Ended: ${format(new Date(w.endDate), 'h:mm a')}`,
-            ].filter(Boolean).join(' • ');
-            
-            updates.workoutDetails = JSON.stringify({
-              workout1: {
-                type: w.activityName.toLowerCase().replace(/\s+/g, '-'),
-                notes: notesArr,
-                syncedFromHealth: true,
-                activityName: w.activityName,
-                calories: w.calories ? Math.round(w.calories) : undefined,
-                distance: w.distance ? (w.distance / 1000).toFixed(2) : undefined,
-                isOutdoor: w.isOutdoor,
-                startTime: w.startDate,
-                endTime: w.endDate,
-              }
-            });
-            
-            // Manage workout1 activity log
-            const workout1LogData = {
-              userId: challenge.userId,
-              challengeId: challengeId,
-              type: 'workout1' as const,
-              title: `${w.activityName} (Workout 1)`,
-              description: `${workout1Minutes} min - ${notesArr}`,
-              value: workout1Minutes,
-              unit: 'min',
-              date: dateStr,
-            };
-            
-            if (existingWorkout1Logs.length > 0) {
-              activityLogsToUpdate.push({ id: existingWorkout1Logs[0].$id!, data: workout1LogData });
-            } else {
-              activityLogsToCreate.push(workout1LogData);
-            }
-          } else {
-            // No workout - delete existing activity log if any
-            for (const existingLog of existingWorkout1Logs) {
-              if (existingLog.$id) {
-                activityLogsToDelete.push(existingLog.$id);
-              }
-            }
-          }
-          
-        } else if (challenge.trackWorkout2) {
-          // Only tracking workout2
-          const workout2Minutes = sortedWorkouts.length >= 1 ? Math.round(sortedWorkouts[0].duration) : 0;
-          
-          log(`💪 Workout 2: ${workout2Minutes} min ${workout2Minutes >= workoutGoalMinutes ? '✅' : '❌'}`);
-          
-          updates.workout2Minutes = workout2Minutes;
-          updates.workout2Completed = workout2Minutes >= workoutGoalMinutes;
-          
-          if (workout2Minutes > 0 && sortedWorkouts.length >= 1) {
-            const w = sortedWorkouts[0];
-            const notesArr = [
-              w.calories ? `${Math.round(w.calories)} calories burned` : null,
-              w.distance ? `${(w.distance / 1000).toFixed(2)}km distance` : null,
-              w.isOutdoor ? 'Outdoor workout' : 'Indoor workout',
-              `Started: ${format(new Date(w.startDate), 'h:mm a')}`,
-              `Ended: ${format(new Date(w.endDate), 'h:mm a')}`,
-            ].filter(Boolean).join(' • ');
-            
-            updates.workoutDetails = JSON.stringify({
-              workout2: {
-                type: w.activityName.toLowerCase().replace(/\s+/g, '-'),
-                notes: notesArr,
-                syncedFromHealth: true,
-                activityName: w.activityName,
-                calories: w.calories ? Math.round(w.calories) : undefined,
-                distance: w.distance ? (w.distance / 1000).toFixed(2) : undefined,
-                isOutdoor: w.isOutdoor,
-                startTime: w.startDate,
-                endTime: w.endDate,
-              }
-            });
-            
-            // Manage workout2 activity log
-            const workout2LogData = {
-              userId: challenge.userId,
-              challengeId: challengeId,
-              type: 'workout2' as const,
-              title: `${w.activityName} (Workout 2)`,
-              description: `${workout2Minutes} min - ${notesArr}`,
-              value: workout2Minutes,
-              unit: 'min',
-              date: dateStr,
-            };
-            
-            if (existingWorkout2Logs.length > 0) {
-              activityLogsToUpdate.push({ id: existingWorkout2Logs[0].$id!, data: workout2LogData });
-            } else {
-              activityLogsToCreate.push(workout2LogData);
-            }
-          } else {
-            // No workout - delete existing activity log if any
-            for (const existingLog of existingWorkout2Logs) {
-              if (existingLog.$id) {
-                activityLogsToDelete.push(existingLog.$id);
-              }
-            }
-          }
-        }
-        
-        if (workouts.length === 0) {
-          log("⚠️ No workouts found for this date");
-        }
-      }
-
-      // Sync water data
-      if ((challenge as any).trackWater) {
-        try {
-          log("💧 Fetching water data...");
-          const { healthSyncService } = await import("@/lib/healthSync");
-          const waterLiters = await healthSyncService.getWaterIntakeForDate(date);
-          if (waterLiters && waterLiters > 0) {
-            const waterGoal = (challenge as any).waterGoalLiters || 3.7;
-            const waterGoalMet = waterLiters >= waterGoal;
-            
-            log(`💧 Water: ${waterLiters.toFixed(2)}L ${waterGoalMet ? '✅' : '❌'}`);
-            
-            updates.waterLiters = waterLiters;
-            updates.waterCompleted = waterGoalMet;
-            
-            activityLogsToCreate.push({
-              userId: challenge.userId,
-              challengeId: challengeId,
-              type: 'water',
-              title: 'Water Intake (Resync)',
-              description: `${waterLiters.toFixed(2)}L from Apple Health`,
-              value: waterLiters,
-              unit: 'L',
-              date: dateStr,
-            });
-          } else {
-            log("💧 No water data found");
-          }
-        } catch (error) {
-          log("💧 Water sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
-        }
-      }
-
-      // Sync sleep data
-      if ((challenge as any).trackSleep) {
-        try {
-          log("😴 Fetching sleep data...");
-          const { healthSyncService } = await import("@/lib/healthSync");
-          const sleepData = await healthSyncService.getSleepForDate(date);
-          if (sleepData && sleepData.asleepMinutes > 0) {
-            const sleepGoalMinutes = ((challenge as any).sleepGoalHours || 8) * 60;
-            const sleepGoalMet = sleepData.asleepMinutes >= sleepGoalMinutes;
-            const sleepHours = Math.floor(sleepData.asleepMinutes / 60);
-            const sleepMins = sleepData.asleepMinutes % 60;
-            
-            log(`😴 Sleep: ${sleepHours}h ${sleepMins}m ${sleepGoalMet ? '✅' : '❌'}`);
-            
-            updates.sleepMinutes = sleepData.asleepMinutes;
-            updates.sleepLogged = true;
-            updates.sleepCompleted = sleepGoalMet;
-            if (sleepData.startTime && sleepData.endTime) {
-              updates.sleepStartTime = sleepData.startTime.toISOString();
-              updates.sleepEndTime = sleepData.endTime.toISOString();
-            }
-            
-            activityLogsToCreate.push({
-              userId: challenge.userId,
-              challengeId: challengeId,
-              type: 'sleep',
-              title: 'Sleep (Resync)',
-              description: `${sleepHours}h ${sleepMins}m from Apple Health`,
-              value: sleepData.asleepMinutes,
-              unit: 'min',
-              date: dateStr,
-            });
-          } else {
-            log("😴 No sleep data found");
-          }
-        } catch (error) {
-          log("😴 Sleep sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
-        }
-      }
-
-      // Sync steps data - always pull from Apple Health for display
-      try {
-        log("👟 Fetching steps data...");
-        const { healthService } = await import("@/lib/health");
-        const stepsCount = await healthService.getStepsForDate(date);
-        if (stepsCount > 0) {
-          const stepsGoal = (challenge as any).stepsGoal || 10000;
-          const stepsGoalMet = stepsCount >= stepsGoal;
-          const isTracking = (challenge as any).trackSteps;
-          
-          log(`👟 Steps: ${stepsCount.toLocaleString()} ${stepsGoalMet ? '✅' : '❌'} ${isTracking ? '(tracked)' : '(display only)'}`);
-          
-          updates.stepsCount = stepsCount;
-          // Only mark as completed if we're tracking steps
-          if (isTracking) {
-            updates.stepsCompleted = stepsGoalMet;
-          }
-            
-          activityLogsToCreate.push({
-            userId: challenge.userId,
-            challengeId: challengeId,
-            type: 'steps',
-            title: isTracking ? 'Steps (Resync)' : 'Steps (Auto-sync)',
-            description: `${stepsCount.toLocaleString()} steps from Apple Health${isTracking ? '' : ' (display only)'}`,
-            value: stepsCount,
-            unit: 'steps',
-            date: dateStr,
-          });
-        } else {
-          log("👟 No steps data found");
-        }
-      } catch (error) {
-        log("👟 Steps sync skipped: " + (error instanceof Error ? error.message : 'Unknown error'));
-      }
+      const dailyLog: DailyLog = (await getDailyLog(challenge.$id, dateStr)) ?? {
+        $id: logId,
+        userId: challenge.userId,
+        challengeId: challenge.$id,
+        date: dateStr,
+      };
+      const plan = await planHealthResync(challenge, date, dailyLog, logCallback);
+      await get().applyHealthResync(plan, plan.changes, logCallback);
 
-      // Only update if there are changes
-      if (Object.keys(updates).length > 0) {
-        log(`💾 Updating daily log...`);
-        
-        // Persist to Appwrite
-        const updated = await updateDailyLog(logId, updates);
-        
-        // Update local state if this is today's log
-        const { todayLog } = get();
-        if (todayLog?.$id === logId) {
-          set({ todayLog: updated });
-        }
-        
-        // Refresh all logs to update the list
-        const allLogs = await getDailyLogsForChallenge(challengeId);
-        set({ allLogs });
-        
-        log(`✅ Daily log updated successfully`);
-      } else {
-        log("ℹ️ No changes needed");
-      }
-      
-      // Create activity logs
-      if (activityLogsToCreate.length > 0) {
-        log(`📝 Creating ${activityLogsToCreate.length} activity log(s)...`);
-        for (const activityLog of activityLogsToCreate) {
-          await createActivityLog(activityLog);
-          log(`✅ Created: ${activityLog.title}`);
-        }
-        log(`✅ All activity logs created`);
-        
-        // Refresh activity logs to show new ones
-        const refreshedActivityLogs = await getActivityLogsForChallenge(challenge.$id);
-        set({ activityLogs: refreshedActivityLogs });
-        log(`🔄 Activity logs refreshed`);
-      } else {
-        log(`ℹ️ No activity logs to create`);
-      }
+      // Refresh all logs to update the list - activity logs may have been edited or removed
+      await Promise.all([get().fetchAllLogs(challenge.$id), get().fetchActivityLogs(challenge.$id, true)]);
+      log(`🔄 Logs refreshed`);
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Failed to re-sync health data";
       captureException(err instanceof Error ? err : new Error(errorMsg));
@@ -750,6 +695,56 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
     }
   },
 
+  applyHealthResync: async (plan: HealthResyncPlan, changes: HealthResyncChange[], logCallback?: (message: string) => void) => {
+    const { challenge } = get();
+    const log = (msg: string) => {
+      console.log(msg);
+      logCallback?.(msg);
+    };
+
+    if (!challenge?.$id || changes.length === 0) {
+      log("ℹ️ No changes needed");
+      return;
+    }
+
+    const updates: Partial<DailyLog> = Object.assign({}, ...changes.map(change => change.updates));
+
+    // Days without a log get one so the synced data has somewhere to live
+    let logId = plan.log?.$id;
+    if (!logId) {
+      log(`📝 Creating daily log for ${plan.date}...`);
+      const created = await createDailyLog(
+        { userId: challenge.userId, challengeId: challenge.$id, date: plan.date },
+        challenge.userId
+      );
+      logId = created.$id!;
+    }
+
+    log(`💾 Updating daily log...`);
+    const updated = await updateDailyLog(logId, updates);
+
+    // Update local state if this is today's log
+    if (get().todayLog?.$id === logId) {
+      set({ todayLog: updated });
+    }
+    log(`✅ Daily log updated successfully`);
+
+    for (const change of changes) {
+      for (const activityLog of change.activityLogsToCreate) {
+        await createActivityLog(activityLog);
+        log(`✅ Created: ${activityLog.title}`);
+      }
+      for (const { id, data } of change.activityLogsToUpdate) {
+        await updateActivityLog(id, data);
+        log(`✅ Updated: ${data.title ?? id}`);
+      }
+      for (const id of change.activityLogsToDelete) {
+        await deleteActivityLog(id);
+        log(`🗑️ Removed activity log ${id}`);
+      }
+    }
+  },
+
   syncHealthData: async () => {
     const { todayLog, challenge } = get();
 
@@ -774,15 +769,16 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
       }
 
       const updates: Partial<DailyLog> = {};
+      const goals = getGoalsForDate(challenge, todayLog.date);
 
       // Sync steps - always pull from Apple Health for display, fetching fresh data directly
       try {
         const { healthService } = await import("@/lib/health");
-        const stepsCount = await healthService.getStepsForDate(new Date());
+        const stepsCount = await healthService.getStepsForDate(getTodayDate());
         if (stepsCount > 0) {
           const newStepsCount = Math.round(stepsCount);
-          const stepsGoalMet = newStepsCount >= (challenge.stepsGoal || 0);
-          
+          const stepsGoalMet = newStepsCount >= (goals.stepsGoal || 0);
+      
           // Only update if steps changed
           if (newStepsCount !== todayLog.stepsCount) {
             updates.stepsCount = newStepsCount;
@@ -800,9 +796,9 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
       if (challenge.trackWater) {
         try {
           const { healthSyncService } = await import("@/lib/healthSync");
-          const waterLiters = await healthSyncService.getWaterIntakeForDate(new Date());
+          const waterLiters = await healthSyncService.getWaterIntakeForDate(getTodayDate());
           if (waterLiters && waterLiters > 0) {
-            const waterGoalMet = waterLiters >= (challenge.waterLiters || 0);
+            const waterGoalMet = waterLiters >= (goals.waterLiters || 0);
             if (waterLiters !== todayLog.waterLiters) {
               updates.waterLiters = waterLiters;
               updates.waterCompleted = waterGoalMet;
@@ -817,7 +813,7 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
       if ((challenge as any).trackSleep) {
         try {
           const { healthSyncService } = await import("@/lib/healthSync");
-          const sleepData = await healthSyncService.getSleepForDate(new Date());
+          const sleepData = await healthSyncService.getSleepForDate(getTodayDate());
           if (sleepData && sleepData.asleepMinutes > 0) {
             const sleepGoalMinutes = ((challenge as any).sleepGoalHours || 8) * 60;
             const sleepGoalMet = sleepData.asleepMinutes >= sleepGoalMinutes;
@@ -847,15 +843,15 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
         workoutsCount: healthState.workouts.length,
         workouts: healthState.workouts.map(w => ({ name: w.activityName, duration: w.duration })),
       });
-      
+  
       const hasWorkoutTracking = challenge.trackWorkout1 || challenge.trackWorkout2;
       const hasWorkouts = healthState.workouts.length > 0;
-      
+  
       // If workouts changed, use resyncHealthData to properly handle activity logs
       if (hasWorkoutTracking && hasWorkouts && challenge.$id) {
         try {
           console.log("🏋️ syncHealthData: Delegating to resyncHealthData for workout sync");
-          await get().resyncHealthData(challenge.$id, new Date(), () => {});
+          await get().resyncHealthData(challenge.$id, getTodayDate(), () => {});
           // resyncHealthData handles both the daily log update and activity log creation
           return; // Exit early since resyncHealthData handled everything
         } catch (error) {
@@ -867,40 +863,40 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
       // Only update if there are changes
       if (Object.keys(updates).length > 0) {
         console.log("syncHealthData: Updating daily log with:", updates);
-        
+    
         // Update local state optimistically
         set({ todayLog: { ...todayLog, ...updates } });
 
         // Persist to Appwrite
         const updated = await updateDailyLog(todayLog.$id, updates);
         set({ todayLog: updated });
-        
+    
         console.log("syncHealthData: Successfully synced health data to Appwrite");
-        
+    
         // Note: Activity log creation for workouts is handled by resyncHealthData
         // to avoid duplicate logs. The background sync only updates the daily log metrics.
-        
+    
         // Check for notification triggers
         const notificationStore = useNotificationStore.getState();
-        const today = new Date().toISOString().split("T")[0];
-        
+        const today = getTodayKey();
+    
         // Check if step goal was just achieved
         if (updates.stepsCompleted && !todayLog.stepsCompleted) {
           const wasNotified = notificationStore.hasNotifiedStepGoal(today);
           if (!wasNotified) {
             notificationStore.markStepGoalNotified(today);
-            await NotificationService.notifyStepGoalReached(updates.stepsCount ?? challenge.stepsGoal);
+            await NotificationService.notifyStepGoalReached(updates.stepsCount ?? goals.stepsGoal);
             // Add to in-app notification tray
             notificationStore.addNotification({
               type: "step_goal",
               title: "👣 Step Goal Reached!",
-              body: `You hit ${(updates.stepsCount ?? challenge.stepsGoal).toLocaleString()} steps today!`,
+              body: `You hit ${(updates.stepsCount ?? goals.stepsGoal).toLocaleString()} steps today!`,
               icon: "trending-up",
               color: "#3B82F6",
             });
           }
         }
-        
+    
         // Check if workout was just completed
         if (updates.workout1Completed && !todayLog.workout1Completed) {
           const wasNotified = notificationStore.hasNotifiedWorkout(today, "workout1");
@@ -917,7 +913,7 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
             });
           }
         }
-        
+    
         if (updates.workout2Completed && !todayLog.workout2Completed) {
           const wasNotified = notificationStore.hasNotifiedWorkout(today, "workout2");
           if (!wasNotified) {
@@ -933,7 +929,7 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
             });
           }
         }
-        
+    
         // Check if day is now complete
         if (isDayComplete(challenge, updated)) {
           const wasNotified = notificationStore.hasNotifiedDayComplete(today);
@@ -961,14 +957,13 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
   isPhotoCompletedWithinDays: (days: number): boolean => {
     const { allLogs, todayLog } = get();
     if (!todayLog) return false;
-    
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - (days - 1)); // -1 because we include today
-    const cutoffDateStr = cutoffDate.toISOString().split("T")[0];
-    
+
+    // -1 because we include today
+    const cutoffDateStr = toDayKey(subDays(getTodayDate(), days - 1));
+
     // Check if any log from the last X days has a photo
     return allLogs.some(log => 
-      log.date >= cutoffDateStr && (log.progressPhotoCompleted ?? false)
+      log.date >= cutoffDateStr && hasProgressPhoto(log)
     );
   },
 
@@ -988,6 +983,186 @@ export const useChallengeStore = create<ChallengeState>((set, get) => ({
   },
 
   clearChallenge: () => {
-    set({ challenge: null, todayLog: null, allLogs: [], activityLogs: [], error: null });
+    set({
+      challenge: null,
+      todayLog: null,
+      allLogs: [],
+      activityLogs: [],
+      error: null,
+      pendingChanges: [],
+      logsSyncCursor: null,
+      hasMoreActivityLogs: false,
+      userBadges: [],
+      userBadgesLoaded: false,
+    });
   },
+
+  fetchUserBadges: async (userId: string) => {
+    try {
+      const userBadges = await getUserBadges(userId);
+      // Newly earned badges are awarded by the subscription below
+      set({ userBadges, userBadgesLoaded: true });
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : "Failed to fetch badges";
+      captureException(err instanceof Error ? err : new Error(errorMsg));
+      console.error("fetchUserBadges error:", err);
+    }
+  },
+
+  awardBadges: async () => {
+    const { challenge, allLogs, todayLog, activityLogs, userBadgesLoaded } = get();
+    // Wait for saved badges so already-earned ones aren't celebrated again
+    if (!challenge?.$id || !userBadgesLoaded) return;
+    if (isAwardingBadges) {
+      awardBadgesAgain = true;
+      return;
+    }
+
+    const context = buildBadgeContext(challenge, withTodayLog(allLogs, todayLog), activityLogs);
+    if (!context) return;
+
+    const savedIds = new Set(get().userBadges.map(badge => badge.badgeId));
+    const newBadgeIds = evaluateBadges(context).filter(badgeId => !savedIds.has(badgeId));
+    if (newBadgeIds.length === 0) return;
+
+    isAwardingBadges = true;
+    try {
+      const badgesToCelebrate: Badge[] = [];
+      for (const badgeId of newBadgeIds) {
+        const saved = await createUserBadge(challenge.userId, badgeId, challenge.$id);
+        if (saved) {
+          set({ userBadges: [...get().userBadges, saved] });
+          badgesToCelebrate.push(BADGES[badgeId]);
+        }
+      }
+      logger.info("Badges awarded", { badgeIds: newBadgeIds.join(", ") });
+
+      // Celebrate after the current render so health syncs aren't blocked
+      requestAnimationFrame(() => {
+        badgesToCelebrate.forEach(badge => useNotificationStore.getState().queueBadgeCelebration(badge));
+      });
+    } finally {
+      isAwardingBadges = false;
+      if (awardBadgesAgain) {
+        awardBadgesAgain = false;
+        get().awardBadges();
+      }
+    }
+  },
+
+  syncPendingChanges: async () => {
+    if (get().isSyncingPending || get().pendingChanges.length === 0) return;
+    set({ isSyncingPending: true });
+
+    try {
+      while (get().pendingChanges.length > 0) {
+        const change = get().pendingChanges[0];
+        try {
+          if (change.kind === "createDailyLog") {
+            // Another device may have created the day's log in the meantime
+            const created =
+              (await getDailyLog(change.data.challengeId, change.data.date)) ??
+              (await createDailyLog(change.data, change.data.userId));
+            const replaceLocal = (log: DailyLog) => (log.$id === change.localId ? { ...log, $id: created.$id } : log);
+            set({
+              pendingChanges: remapLogId(get().pendingChanges, change.localId, created.$id!),
+              todayLog: get().todayLog ? replaceLocal(get().todayLog!) : null,
+              allLogs: get().allLogs.map(replaceLocal),
+            });
+          } else if (change.kind === "updateDailyLog") {
+            const remote = await getDailyLog(change.challengeId, change.date);
+            if (remote) {
+              const resolved = resolveFieldConflicts(change, remote);
+              const updated = Object.keys(resolved).length > 0 ? await updateDailyLog(remote.$id!, resolved) : remote;
+              // Later queued edits still apply on top of the synced log
+              const rest = get().pendingChanges.filter(pending => pending.id !== change.id);
+              set({
+                todayLog: get().todayLog?.$id === updated.$id ? applyPendingChanges(updated, rest) : get().todayLog,
+                allLogs: get().allLogs.map(log => (log.$id === updated.$id ? applyPendingChanges(updated, rest) : log)),
+              });
+            } else {
+              // The server copy is gone - recreate it from this device's copy, which
+              // already shows every queued edit, so the edits aren't lost
+              const { todayLog, allLogs, challenge } = get();
+              const local = [todayLog, ...allLogs].find(log => log?.$id === change.logId);
+              const source = local ?? {
+                ...createEmptyDailyLog(challenge?.userId ?? "", change.challengeId, change.date),
+                ...change.changes,
+              };
+              // Leave out Appwrite's system fields ($id, $createdAt...)
+              const data = Object.fromEntries(
+                Object.entries(source).filter(([key]) => !key.startsWith("$"))
+              ) as Omit<DailyLog, "$id">;
+              const created = await createDailyLog(data, data.userId);
+              captureException(new Error("Recreated a daily log missing on the server for queued edits"), {
+                date: change.date,
+              });
+              const pendingChanges = remapLogId(get().pendingChanges, change.logId, created.$id!);
+              const rest = pendingChanges.filter(pending => pending.id !== change.id);
+              const replaceLocal = (log: DailyLog) => (log.$id === change.logId ? applyPendingChanges(created, rest) : log);
+              set({
+                pendingChanges,
+                todayLog: get().todayLog ? replaceLocal(get().todayLog!) : null,
+                allLogs: get().allLogs.map(replaceLocal),
+              });
+            }
+          } else {
+            const { $createdAt, ...data } = change.data;
+            const created = await createActivityLog(data);
+            set({
+              activityLogs: get().activityLogs.map(log => (log.$id === change.localId ? created : log)),
+            });
+          }
+        } catch (err) {
+          if (isNetworkError(err)) {
+            // Still offline - keep the queue and try again later
+            scheduleSyncRetry();
+            return;
+          }
+          // Rejected by the server - drop it so it can't block the rest of the queue
+          captureException(err instanceof Error ? err : new Error("Failed to replay offline change"), { kind: change.kind });
+          console.error("syncPendingChanges error:", err);
+        }
+
+        set({ pendingChanges: get().pendingChanges.filter(pending => pending.id !== change.id) });
+      }
+      logger.info("Offline changes synced");
+    } finally {
+      set({ isSyncingPending: false });
+    }
+  },
+}), {
+  name: "challenge-storage",
+  storage: createJSONStorage(() => AsyncStorage),
+  // Cache the challenge and logs on the device so they're available offline
+  partialize: (state) => ({
+    challenge: state.challenge,
+    todayLog: state.todayLog,
+    allLogs: state.allLogs,
+    activityLogs: state.activityLogs,
+    pendingChanges: state.pendingChanges,
+    logsSyncCursor: state.logsSyncCursor,
+    hasMoreActivityLogs: state.hasMoreActivityLogs,
+    userBadges: state.userBadges,
+  }),
 }));
+
+// Replay queued changes whenever the app comes back to the foreground
+AppState.addEventListener("change", (state) => {
+  if (state === "active") {
+    useChallengeStore.getState().syncPendingChanges();
+  }
+});
+
+// Award badges whenever the logs change, whichever screen is open
+useChallengeStore.subscribe((state, previous) => {
+  if (
+    state.challenge !== previous.challenge ||
+    state.allLogs !== previous.allLogs ||
+    state.todayLog !== previous.todayLog ||
+    state.activityLogs !== previous.activityLogs ||
+    state.userBadgesLoaded !== previous.userBadgesLoaded
+  ) {
+    state.awardBadges();
+  }
+});
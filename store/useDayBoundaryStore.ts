@@ -0,0 +1,67 @@
+import {
+    configureDayBoundary,
+    DayBoundarySettings,
+    DEFAULT_DAY_BOUNDARY_SETTINGS,
+    getDeviceTimeZone,
+    TimeZoneMode,
+} from "@/lib/dayBoundary";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+type DayBoundaryState = DayBoundarySettings & {
+  lastDayKey: string | null;
+
+  setCutoffHour: (hour: number) => void;
+  setTimeZoneMode: (mode: TimeZoneMode) => void;
+  setHomeTimeZone: (timeZone: string) => void;
+};
+
+const pickSettings = (state: DayBoundarySettings): DayBoundarySettings => ({
+  cutoffHour: state.cutoffHour,
+  timeZoneMode: state.timeZoneMode,
+  homeTimeZone: state.homeTimeZone,
+});
+
+export const useDayBoundaryStore = create<DayBoundaryState>()(
+  persist(
+    (set, get) => ({
+      ...DEFAULT_DAY_BOUNDARY_SETTINGS,
+      lastDayKey: null,
+
+      setCutoffHour: (hour) => {
+        set({ cutoffHour: hour });
+        configureDayBoundary(pickSettings(get()));
+      },
+
+      setTimeZoneMode: (mode) => {
+        // Home is wherever the user turns this on
+        set({ timeZoneMode: mode, homeTimeZone: mode === "home" ? getDeviceTimeZone() : get().homeTimeZone });
+        configureDayBoundary(pickSettings(get()));
+      },
+
+      setHomeTimeZone: (timeZone) => {
+        set({ homeTimeZone: timeZone });
+        configureDayBoundary(pickSettings(get()));
+      },
+    }),
+    {
+      name: "day-boundary-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        ...pickSettings(state),
+        lastDayKey: state.lastDayKey,
+      }),
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          configureDayBoundary(pickSettings(state), { lastDayKey: state.lastDayKey });
+        }
+      },
+    }
+  )
+);
+
+// Persist the latest day handed out so travel handling survives restarts
+configureDayBoundary(pickSettings(useDayBoundaryStore.getState()), {
+  onDayKeyChange: (dayKey) => useDayBoundaryStore.setState({ lastDayKey: dayKey }),
+});
@@ -12,7 +12,9 @@ export type InAppNotificationType =
   | "workout_complete"
   | "streak"
   | "reminder"
-  | "milestone";
+  | "milestone"
+  | "challenge_failed"
+  | "report";
 
 export interface InAppNotification {
   id: string;
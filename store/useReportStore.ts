@@ -0,0 +1,106 @@
+import { getAllActivityLogsForChallenge } from "@/lib/appwrite";
+import { getTodayDate } from "@/lib/dayBoundary";
+import { NotificationService } from "@/lib/notifications";
+import { buildProgressReport, formatReportRange, getNextReportDate, getPendingReportPeriods } from "@/lib/progressReports";
+import { captureException } from "@/lib/sentry";
+import { useNotificationStore } from "@/store/useNotificationStore";
+import type { ActivityLog, Challenge, DailyLog, ProgressReport } from "@/types/type";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+type ReportState = {
+  // Generated reports for every challenge on this device, newest first
+  reports: ProgressReport[];
+
+  // `activityLogs` adds unsynced activity to what's fetched from the server
+  generateReports: (challenge: Challenge, logs: DailyLog[], activityLogs: ActivityLog[]) => Promise<void>;
+  getReport: (id: string) => ProgressReport | undefined;
+  // Add reports from a restored backup, keeping any already saved
+  importReports: (reports: ProgressReport[]) => void;
+  clearReports: () => void;
+};
+
+// Newest first - a month before a week ending the same day
+const byNewest = (a: ProgressReport, b: ProgressReport) =>
+  b.endDate.localeCompare(a.endDate) || a.period.localeCompare(b.period);
+
+export const useReportStore = create<ReportState>()(
+  persist(
+    (set, get) => ({
+      reports: [],
+
+      generateReports: async (challenge, logs, activityLogs) => {
+        try {
+          // Reports saved before they recorded their owner are rebuilt
+          const existingIds = new Set(get().reports.filter((report) => report.userId).map((report) => report.id));
+          const pending = getPendingReportPeriods(challenge, existingIds);
+
+          if (pending.length > 0) {
+            // Only the first pages of activity are loaded, so fetch all of it
+            const fetched = await getAllActivityLogsForChallenge(challenge.$id!);
+            const fetchedIds = new Set(fetched.map((log) => log.$id));
+            const allActivity = [
+              ...fetched,
+              ...activityLogs.filter((log) => log.challengeId === challenge.$id && !fetchedIds.has(log.$id)),
+            ];
+            const newReports = pending.map(({ period, periodStart }) =>
+              buildProgressReport(challenge, logs, allActivity, period, periodStart)
+            );
+            const newIds = new Set(newReports.map((report) => report.id));
+            const rebuiltIds = new Set(get().reports.filter((report) => newIds.has(report.id)).map((report) => report.id));
+
+            set((state) => ({
+              reports: [...newReports, ...state.reports.filter((report) => !newIds.has(report.id))].sort(byNewest),
+            }));
+
+            // Only the latest new report of each period goes in the tray, not a backlog
+            (["week", "month"] as const).forEach((period) => {
+              const latest = newReports.filter((report) => report.period === period && !rebuiltIds.has(report.id)).pop();
+              if (!latest) return;
+              useNotificationStore.getState().addNotification({
+                type: "report",
+                title: period === "week" ? "📊 Weekly Report" : "📅 Monthly Report",
+                body: `${formatReportRange(latest)}: ${latest.completionRate}% of days complete`,
+                icon: "file-text",
+                color: "#0EA5E9",
+                data: { reportId: latest.id },
+              });
+            });
+          }
+
+          // Announce the next reports - rescheduling replaces earlier announcements
+          const today = getTodayDate();
+          for (const period of ["week", "month"] as const) {
+            const nextDate = getNextReportDate(challenge, period, today);
+            if (nextDate) {
+              await NotificationService.scheduleReportNotification(period, nextDate);
+            }
+          }
+        } catch (err) {
+          captureException(err instanceof Error ? err : new Error("Failed to generate reports"));
+          console.error("generateReports error:", err);
+        }
+      },
+
+      getReport: (id) => get().reports.find((report) => report.id === id),
+
+      importReports: (reports) =>
+        set((state) => {
+          const existingIds = new Set(state.reports.map((report) => report.id));
+          return {
+            reports: [...state.reports, ...reports.filter((report) => !existingIds.has(report.id))].sort(byNewest),
+          };
+        }),
+
+      clearReports: () => set({ reports: [] }),
+    }),
+    {
+      name: "progress-report-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        reports: state.reports,
+      }),
+    }
+  )
+);
@@ -1,5 +1,7 @@
 import { createAccount, createUserProfile, deleteUserAccount, getCurrentSession, getCurrentUser, getUserProfile, signIn, signOut } from "@/lib/appwrite";
 import { captureException, clearUser as clearSentryUser, logger, setUser as setSentryUser } from "@/lib/sentry";
+import { useChallengeStore } from "@/store/useChallengeStore";
+import { useReportStore } from "@/store/useReportStore";
 import type { SessionState } from "@/types/type";
 import { create } from "zustand";
 
@@ -85,22 +87,32 @@ export const useSessionStore = create<SessionState>((set) => ({
     }
   },
 
-  logout: async () => {
+  logout: async ({ discardPendingChanges = false } = {}) => {
     try {
+      // Push any offline changes before the cached data is cleared
+      await useChallengeStore.getState().syncPendingChanges();
+      if (useChallengeStore.getState().pendingChanges.length > 0 && !discardPendingChanges) {
+        return false;
+      }
       await signOut();
       clearSentryUser();
+      useChallengeStore.getState().clearChallenge();
+      useReportStore.getState().clearReports();
       set({ user: null, token: null, status: "unauthenticated", error: null });
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Logout failed";
       captureException(err instanceof Error ? err : new Error(errorMsg));
       set({ error: errorMsg });
     }
+    return true;
   },
 
   deleteAccount: async () => {
     try {
       await deleteUserAccount();
       clearSentryUser();
+      useChallengeStore.getState().clearChallenge();
+      useReportStore.getState().clearReports();
       set({ user: null, token: null, status: "unauthenticated", error: null });
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : "Failed to delete account";
@@ -0,0 +1,56 @@
+import { BUILT_IN_TEMPLATES } from "@/constants/challengeTemplates";
+import { parseTemplate } from "@/lib/challengeTemplates";
+import type { ChallengeTemplate } from "@/types/type";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { create } from "zustand";
+import { createJSONStorage, persist } from "zustand/middleware";
+
+type TemplateState = {
+  // Templates saved by the user (built-in presets are not stored)
+  customTemplates: ChallengeTemplate[];
+
+  getTemplates: () => ChallengeTemplate[];
+  saveTemplate: (template: ChallengeTemplate) => void;
+  deleteTemplate: (id: string) => void;
+  importTemplate: (json: string) => ChallengeTemplate;
+};
+
+export const useTemplateStore = create<TemplateState>()(
+  persist(
+    (set, get) => ({
+      customTemplates: [],
+
+      getTemplates: () => [...BUILT_IN_TEMPLATES, ...get().customTemplates],
+
+      saveTemplate: (template) => {
+        set((state) => ({
+          // Replace a saved template with the same id, otherwise append
+          customTemplates: [
+            ...state.customTemplates.filter((t) => t.id !== template.id),
+            { ...template, builtIn: false },
+          ],
+        }));
+      },
+
+      deleteTemplate: (id) => {
+        set((state) => ({
+          customTemplates: state.customTemplates.filter((t) => t.id !== id),
+        }));
+      },
+
+      importTemplate: (json) => {
+        // Throws with a user-facing message if the JSON is invalid
+        const template = parseTemplate(json);
+        get().saveTemplate(template);
+        return template;
+      },
+    }),
+    {
+      name: "challenge-template-storage",
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        customTemplates: state.customTemplates,
+      }),
+    }
+  )
+);
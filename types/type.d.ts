@@ -1,4 +1,6 @@
 // 75 Hard Challenge Types
+export type ChallengeStatus = "active" | "failed" | "completed";
+
 export type Challenge = {
   $id?: string;
   userId: string;
@@ -12,9 +14,12 @@ export type Challenge = {
   trackDiet: boolean;
   trackCalories: boolean;
   caloriesGoal: number;
-  caloriesGoalDirection?: "above" | "below"; // Whether to stay above or below the calorie goal
+  caloriesGoalDirection?: TargetDirection; // Whether to stay above or below the calorie goal, or between it and caloriesGoalMax
+  caloriesGoalMax?: number; // Top of the band when caloriesGoalDirection is "range"
   trackWeight: boolean;
   weightGoal: number;
+  weightGoalDirection?: TargetDirection | null; // Unset or null: logging a weight is enough
+  weightGoalMax?: number; // Top of the band when weightGoalDirection is "range"
   trackWorkout1: boolean;
   trackWorkout2: boolean;
   workoutMinutes: number;
@@ -31,10 +36,128 @@ export type Challenge = {
   averagePeriodLength?: number;
   lastPeriodStart?: string;
   trackSkincare: boolean;
+  // Strict mode (75 Hard rules) - a missed day fails the attempt
+  strictMode?: boolean;
+  status?: ChallengeStatus; // Defaults to "active" when unset
+  attemptNumber?: number; // 1 for the first attempt, incremented on each restart
+  failedDate?: string; // YYYY-MM-DD of the day that was missed
+  failureReason?: string; // Human readable summary of why the attempt failed
+  previousAttemptId?: string; // Challenge $id of the attempt this one restarted
+  previousFailureReason?: string; // Copied from the previous attempt on restart
+  customTasks?: string; // JSON array of CustomTask
+  goalHistory?: string; // JSON array of GoalVersion
+  goalSchedules?: string; // JSON array of GoalSchedule
+  // Workout rules (75 Hard) - only apply when both workouts are tracked
+  requireOutdoorWorkout?: boolean; // At least one of the two workouts must be outdoors
+  workoutSeparationHours?: number; // Minimum hours between workouts, 0 or unset to disable
+  // Apple Health workout assignment
+  workoutMinMinutes?: number; // Ignore synced workouts shorter than this
+  workoutMergeGapMinutes?: number; // Merge sessions this close together, 0 or unset to disable
+  // Streak protection (non-strict only)
+  frozenDays?: string; // JSON array of YYYY-MM-DD days a freeze token was spent on
+  restDays?: string; // JSON array of YYYY-MM-DD planned rest days
+};
+
+// How a logged value is checked against its goal
+export type TargetDirection = "above" | "below" | "range";
+
+// Goals and tracked tasks in force from an effective date, so editing a challenge doesn't rewrite history
+export type ChallengeGoals = Pick<
+  Challenge,
+  | ChallengeTemplateTrackingKey
+  | "strictMode"
+  | "stepsGoal"
+  | "waterLiters"
+  | "caloriesGoal"
+  | "caloriesGoalDirection"
+  | "caloriesGoalMax"
+  | "weightGoal"
+  | "weightGoalDirection"
+  | "weightGoalMax"
+  | "workoutMinutes"
+  | "readingPages"
+  | "progressPhotoDays"
+  | "sleepGoalHours"
+  | "customTasks"
+  | "goalSchedules"
+  | "requireOutdoorWorkout"
+  | "workoutSeparationHours"
+>;
+
+export type GoalVersion = {
+  effectiveDate: string; // YYYY-MM-DD the goals apply from
+  goals: ChallengeGoals;
+};
+
+// Goals that can vary by weekday or ramp up over a challenge
+export type ScheduledGoalKey = "stepsGoal" | "waterLiters" | "readingPages" | "workoutMinutes";
+
+export type GoalSchedule = {
+  goal: ScheduledGoalKey;
+  weekdays?: Partial<Record<number, number>>; // 0 = Sunday. Replaces the goal on that weekday
+  ramp?: { from: number; days: number }; // Rises from `from` on day 1 to the goal by day `days`
+};
+
+// User-defined tasks stored on the challenge
+export type CustomTaskType = "checkbox" | "count" | "duration";
+export type CustomTaskGoalDirection = "at_least" | "at_most";
+
+export type CustomTask = {
+  id: string;
+  name: string;
+  icon: string; // Feather icon name
+  type: CustomTaskType;
+  unit?: string; // e.g. "glasses" for count tasks, duration tasks are always minutes
+  goal?: number; // Not used by checkbox tasks
+  goalDirection?: CustomTaskGoalDirection; // Defaults to "at_least"
+};
+
+export type ChallengeTemplateTrackingKey =
+  | "trackWorkout1"
+  | "trackWorkout2"
+  | "trackDiet"
+  | "trackCalories"
+  | "trackWater"
+  | "trackReading"
+  | "trackProgressPhoto"
+  | "trackNoAlcohol"
+  | "trackMood"
+  | "trackSleep"
+  | "trackCycle"
+  | "trackSteps"
+  | "trackWeight"
+  | "trackSkincare";
+
+export type ChallengeTemplateGoalKey =
+  | "workoutMinutes"
+  | "waterLiters"
+  | "readingPages"
+  | "stepsGoal"
+  | "caloriesGoal"
+  | "caloriesGoalMax"
+  | "weightGoal"
+  | "sleepGoalHours"
+  | "progressPhotoDays";
+
+// Reusable challenge configuration (built-in preset or saved by the user)
+export type ChallengeTemplate = {
+  id: string;
+  name: string;
+  description?: string;
+  builtIn?: boolean;
+  totalDays: number;
+  tracking: Partial<Record<ChallengeTemplateTrackingKey, boolean>>; // Unlisted tasks are off
+  goals: Partial<Record<ChallengeTemplateGoalKey, number>>; // Unlisted goals keep their defaults
+  caloriesGoalDirection?: TargetDirection;
+  strictMode?: boolean;
+  requireOutdoorWorkout?: boolean;
+  workoutSeparationHours?: number;
+  customTasks?: CustomTask[];
 };
 
 export type DailyLog = {
   $id?: string;
+  $updatedAt?: string; // Appwrite's built-in timestamp
   userId: string;
   challengeId: string;
   date: string;
@@ -52,10 +175,12 @@ export type DailyLog = {
   workout2Completed?: boolean;
   workout2Minutes?: number;
   workoutDetails?: string;
+  workoutOverrides?: string; // JSON WorkoutSlotOverrides - Health workout ids the user assigned to each slot
   readingCompleted?: boolean;
   readingPages?: number;
   finishedBook?: boolean;
-  progressPhotoCompleted?: boolean;
+  progressPhotoCompleted?: boolean; // Kept in sync with progressPhotos - true when any pose has an image
+  progressPhotos?: string; // JSON ProgressPhotos - Storage file id for each pose
   noAlcoholCompleted?: boolean;
   alcoholDetails?: string;
   moodScore?: number;
@@ -72,6 +197,8 @@ export type DailyLog = {
   // Skincare tracking
   skincareCompleted?: boolean;
   skincareNotes?: string;
+  // Custom task values
+  customTaskValues?: string; // JSON object of CustomTask id -> value (1/0 for checkbox tasks)
 };
 
 export type UserProfile = {
@@ -80,6 +207,7 @@ export type UserProfile = {
   email: string;
   firstName?: string;
   lastName?: string;
+  heightCm?: number; // Used for BMI in weight trends
   createdAt: string;
   badges?: string; // JSON array of earned badge IDs
 };
@@ -130,7 +258,8 @@ export type SessionState = {
   checkSession: () => Promise<void>;
   login: (email: string, password: string) => Promise<void>;
   signup: (email: string, password: string, firstName: string, lastName: string) => Promise<void>;
-  logout: () => Promise<void>;
+  // Resolves false, without logging out, while offline changes are still unsynced
+  logout: (options?: { discardPendingChanges?: boolean }) => Promise<boolean>;
   deleteAccount: () => Promise<void>;
   setSession: (payload: { user: SessionUser; token: string }) => void;
   setStatus: (status: SessionStatus) => void;
@@ -180,15 +309,21 @@ export type CycleLog = {
   cycleDay?: number;
 };
 
+// Progress Photo Types
+export type ProgressPhotoPose = "front" | "side" | "back";
+
+export type ProgressPhotos = Partial<Record<ProgressPhotoPose, string>>; // Storage file ids
+
 // Activity Feed Types
 export type ActivityType = 
   | "steps" | "workout1" | "workout2" | "water" | "diet" 
   | "reading" | "photo" | "alcohol" | "weight" | "mood" 
-  | "calories" | "cycle" | "sleep" | "skincare";
+  | "calories" | "cycle" | "sleep" | "skincare" | "custom";
 
 export type ActivityLog = {
   $id?: string;
   $createdAt?: string; // Appwrite's built-in timestamp
+  $updatedAt?: string;
   userId: string;
   challengeId: string;
   type: ActivityType;
@@ -197,6 +332,38 @@ export type ActivityLog = {
   value?: number; // Numeric value if applicable (steps, minutes, liters, etc.)
   unit?: string; // Unit for the value (steps, min, L, kg, etc.)
   date: string; // The date this activity is for (YYYY-MM-DD)
+  customTaskId?: string; // CustomTask id when type is "custom"
+};
+
+// Weekly and monthly progress reports, generated once a period has ended
+export type ReportPeriod = "week" | "month";
+
+export type ReportTotals = {
+  workoutMinutes: number;
+  readingPages: number;
+  waterLiters: number;
+  steps: number;
+  activitiesLogged: number;
+};
+
+export type ReportSummary = {
+  completionRate: number; // 0-100, complete days out of the days counted
+  daysComplete: number;
+  daysCounted: number; // Challenge days in the period, less rest and frozen days
+  totals: ReportTotals;
+  weightChange: number | null; // kg from the first to the last weigh-in, null with fewer than two
+};
+
+export type ProgressReport = ReportSummary & {
+  id: string;
+  userId?: string; // Missing on reports saved before it was recorded
+  challengeId: string;
+  period: ReportPeriod;
+  startDate: string; // YYYY-MM-DD, first day of the week or month
+  endDate: string; // YYYY-MM-DD, last day of the week or month
+  generatedAt: string; // ISO timestamp
+  missedTasks: { id: string; label: string; count: number }[]; // Most often missed first
+  previous: ReportSummary | null; // The period before, null if it wasn't part of the challenge
 };
 
 // User Badge Types